@@ -3,18 +3,22 @@ import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { AuthProvider } from '../src/context/AuthContext';
 import { VaultProvider } from '../src/context/VaultContext';
+import { PreferencesProvider } from '../src/context/PreferencesContext';
 
 export default function RootLayout() {
   return (
     <AuthProvider>
-      <VaultProvider>
-        <StatusBar style="dark" />
-        <Stack screenOptions={{ headerShown: false }}>
-          <Stack.Screen name="index" />
-          <Stack.Screen name="home" />
-          <Stack.Screen name="vaults" />
-        </Stack>
-      </VaultProvider>
+      <PreferencesProvider>
+        <VaultProvider>
+          <StatusBar style="dark" />
+          <Stack screenOptions={{ headerShown: false }}>
+            <Stack.Screen name="index" />
+            <Stack.Screen name="home" />
+            <Stack.Screen name="vaults" />
+            <Stack.Screen name="settings" />
+          </Stack>
+        </VaultProvider>
+      </PreferencesProvider>
     </AuthProvider>
   );
 }
@@ -0,0 +1,8 @@
+import React from 'react';
+import { useLocalSearchParams } from 'expo-router';
+import { AddressBookScreen } from '../../../src/screens/AddressBookScreen';
+
+export default function AddressBook() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  return <AddressBookScreen vaultId={id!} />;
+}
@@ -3,6 +3,6 @@ import { useLocalSearchParams } from 'expo-router';
 import { VaultDetailScreen } from '../../../src/screens/VaultDetailScreen';
 
 export default function VaultDetail() {
-  const { id } = useLocalSearchParams<{ id: string }>();
-  return <VaultDetailScreen vaultId={id!} />;
+  const { id, actionId } = useLocalSearchParams<{ id: string; actionId?: string }>();
+  return <VaultDetailScreen vaultId={id!} focusActionId={actionId} />;
 }
@@ -0,0 +1,8 @@
+import React from 'react';
+import { useLocalSearchParams } from 'expo-router';
+import { TransactionDetailScreen } from '../../../../src/screens/TransactionDetailScreen';
+
+export default function TransactionDetailRoute() {
+  const { id, transactionId } = useLocalSearchParams<{ id: string; transactionId: string }>();
+  return <TransactionDetailScreen vaultId={id!} transactionId={transactionId!} />;
+}
@@ -0,0 +1,6 @@
+import React from 'react';
+import { Stack } from 'expo-router';
+
+export default function TransactionsLayout() {
+  return <Stack screenOptions={{ headerShown: false }} />;
+}
@@ -0,0 +1,8 @@
+import React from 'react';
+import { useLocalSearchParams } from 'expo-router';
+import { TransactionListScreen } from '../../../../src/screens/TransactionListScreen';
+
+export default function Transactions() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  return <TransactionListScreen vaultId={id!} />;
+}
@@ -0,0 +1,8 @@
+import React from 'react';
+import { useLocalSearchParams } from 'expo-router';
+import { PendingTransactionsScreen } from '../../../../src/screens/PendingTransactionsScreen';
+
+export default function PendingTransactions() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  return <PendingTransactionsScreen vaultId={id!} />;
+}
@@ -0,0 +1,12 @@
+import React from 'react';
+import { useLocalSearchParams } from 'expo-router';
+import { AddressDetailScreen } from '../../../../../src/screens/AddressDetailScreen';
+
+export default function AddressDetail() {
+  const { id, walletId, addressId } = useLocalSearchParams<{
+    id: string;
+    walletId: string;
+    addressId: string;
+  }>();
+  return <AddressDetailScreen vaultId={id!} walletId={walletId!} addressId={addressId!} />;
+}
@@ -0,0 +1,12 @@
+import React from 'react';
+import { useLocalSearchParams } from 'expo-router';
+import { ReceiveScreen } from '../../../../../src/screens/ReceiveScreen';
+
+export default function Receive() {
+  const { id, walletId, addressId } = useLocalSearchParams<{
+    id: string;
+    walletId: string;
+    addressId: string;
+  }>();
+  return <ReceiveScreen vaultId={id!} walletId={walletId!} addressId={addressId!} />;
+}
@@ -0,0 +1,8 @@
+import React from 'react';
+import { useLocalSearchParams } from 'expo-router';
+import { SendTransactionScreen } from '../../../../../src/screens/SendTransactionScreen';
+
+export default function SendTransaction() {
+  const { id, walletId } = useLocalSearchParams<{ id: string; walletId: string }>();
+  return <SendTransactionScreen vaultId={id!} walletId={walletId!} />;
+}
@@ -0,0 +1,8 @@
+import React from 'react';
+import { useLocalSearchParams } from 'expo-router';
+import { TransactionListScreen } from '../../../../../src/screens/TransactionListScreen';
+
+export default function WalletTransactions() {
+  const { id, walletId } = useLocalSearchParams<{ id: string; walletId: string }>();
+  return <TransactionListScreen vaultId={id!} walletId={walletId!} />;
+}
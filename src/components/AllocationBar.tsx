@@ -0,0 +1,51 @@
+import React from 'react';
+import { View, StyleSheet, type StyleProp, type ViewStyle } from 'react-native';
+import { BORDER_LIGHT } from '@/constants/colors';
+
+export interface AllocationSegment {
+  key: string;
+  // Fraction of the bar's width, 0–1
+  share: number;
+  color: string;
+}
+
+interface AllocationBarProps {
+  segments: AllocationSegment[];
+  height?: number;
+  // Fills whatever the segments leave uncovered
+  trackColor?: string;
+  style?: StyleProp<ViewStyle>;
+}
+
+// Horizontal stacked bar drawn with flex-sized views, so it needs no chart library
+export const AllocationBar: React.FC<AllocationBarProps> = ({
+  segments,
+  height = 10,
+  trackColor = BORDER_LIGHT,
+  style,
+}) => {
+  const visible = segments.filter((s) => s.share > 0);
+  const covered = visible.reduce((sum, s) => sum + s.share, 0);
+
+  return (
+    <View
+      style={[
+        styles.track,
+        { height, borderRadius: height / 2, backgroundColor: trackColor },
+        style,
+      ]}
+    >
+      {visible.map((segment) => (
+        <View key={segment.key} style={{ flex: segment.share, backgroundColor: segment.color }} />
+      ))}
+      {covered < 1 && <View style={{ flex: 1 - covered }} />}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  track: {
+    flexDirection: 'row',
+    overflow: 'hidden',
+  },
+});
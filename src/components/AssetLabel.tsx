@@ -0,0 +1,46 @@
+import React from 'react';
+import { View, Text, StyleSheet, type StyleProp, type TextStyle } from 'react-native';
+import { getAsset } from '../utils/assets';
+import { GREY, TEXT_TERTIARY } from '@/constants/colors';
+
+interface AssetLabelProps {
+  assetId: string;
+  // Show the display name after the symbol, e.g. "BTC Bitcoin"
+  showName?: boolean;
+  style?: StyleProp<TextStyle>;
+}
+
+export const AssetLabel: React.FC<AssetLabelProps> = ({ assetId, showName = false, style }) => {
+  const asset = getAsset(assetId);
+  return (
+    <View style={styles.container}>
+      <View style={[styles.dot, { backgroundColor: asset?.color ?? GREY }]} />
+      <Text style={style} numberOfLines={1}>
+        {asset?.symbol ?? assetId}
+      </Text>
+      {showName && asset && (
+        <Text style={styles.name} numberOfLines={1}>
+          {asset.name}
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    flexShrink: 1,
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  name: {
+    fontSize: 13,
+    color: TEXT_TERTIARY,
+  },
+});
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  type GestureResponderEvent,
+  type LayoutChangeEvent,
+  type StyleProp,
+  type ViewStyle,
+} from 'react-native';
+import { BORDER_LIGHT, PRIMARY } from '@/constants/colors';
+import type { BalanceChartColumn } from '../types';
+
+interface BalanceHistoryChartProps {
+  columns: BalanceChartColumn[];
+  colorFor: (assetId: string) => string;
+  height?: number;
+  // Highlighted column, e.g. the one under the user's finger
+  selectedIndex?: number | null;
+  // Called while scrubbing across the chart, and with null on release
+  onSelect?: (index: number | null) => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+const COLUMN_GAP = 1;
+
+// Stacked column chart drawn with plain views; drag across it to inspect a column
+export const BalanceHistoryChart: React.FC<BalanceHistoryChartProps> = ({
+  columns,
+  colorFor,
+  height = 160,
+  selectedIndex = null,
+  onSelect,
+  style,
+}) => {
+  const [width, setWidth] = useState(0);
+  const max = Math.max(0, ...columns.map((c) => c.total));
+
+  const selectAt = (event: GestureResponderEvent) => {
+    if (!width || columns.length === 0) return;
+    const index = Math.floor((event.nativeEvent.locationX / width) * columns.length);
+    onSelect?.(Math.min(columns.length - 1, Math.max(0, index)));
+  };
+
+  return (
+    <View
+      style={[styles.chart, { height }, style]}
+      onLayout={(e: LayoutChangeEvent) => setWidth(e.nativeEvent.layout.width)}
+      onStartShouldSetResponder={() => !!onSelect}
+      onMoveShouldSetResponder={() => !!onSelect}
+      onResponderGrant={selectAt}
+      onResponderMove={selectAt}
+      // Keep scrubbing when the finger drifts vertically inside a ScrollView
+      onResponderTerminationRequest={() => false}
+      onResponderRelease={() => onSelect?.(null)}
+      onResponderTerminate={() => onSelect?.(null)}
+      accessibilityRole="image"
+      accessibilityLabel="Balance history chart"
+    >
+      {columns.map((column, i) => (
+        <View
+          key={column.timestamp}
+          pointerEvents="none"
+          style={[
+            styles.column,
+            selectedIndex !== null && i !== selectedIndex && styles.columnDimmed,
+          ]}
+        >
+          {max > 0 &&
+            column.segments
+              .filter((s) => s.value > 0)
+              .map((segment) => (
+                <View
+                  key={segment.assetId}
+                  style={{
+                    height: (segment.value / max) * height,
+                    backgroundColor: colorFor(segment.assetId),
+                  }}
+                />
+              ))}
+        </View>
+      ))}
+      {selectedIndex !== null && columns.length > 0 && (
+        <View
+          pointerEvents="none"
+          style={[styles.cursor, { left: `${((selectedIndex + 0.5) / columns.length) * 100}%` }]}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  chart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: COLUMN_GAP,
+    borderBottomWidth: 1,
+    borderBottomColor: BORDER_LIGHT,
+  },
+  column: {
+    flex: 1,
+    // Segments stack upwards from the baseline, first series at the bottom
+    flexDirection: 'column-reverse',
+  },
+  columnDimmed: {
+    opacity: 0.35,
+  },
+  cursor: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 1,
+    backgroundColor: PRIMARY,
+  },
+});
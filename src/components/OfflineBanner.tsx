@@ -0,0 +1,57 @@
+import React from 'react';
+import { View, Text, StyleSheet, type StyleProp, type ViewStyle } from 'react-native';
+import { useConnectivity } from '../hooks/useConnectivity';
+import { BG_LIGHT_ORANGE, TEXT_SECONDARY, WARNING } from '@/constants/colors';
+
+interface OfflineBannerProps {
+  // When the data on screen was fetched, if it came from an offline snapshot
+  asOf?: string | null;
+  style?: StyleProp<ViewStyle>;
+}
+
+const formatAsOf = (iso: string): string =>
+  new Date(iso).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+export const OfflineBanner: React.FC<OfflineBannerProps> = ({ asOf, style }) => {
+  const { isOffline } = useConnectivity();
+
+  if (!isOffline && !asOf) return null;
+
+  return (
+    <View style={[styles.container, style]}>
+      <Text style={styles.title}>{isOffline ? 'You are offline' : 'Showing saved data'}</Text>
+      <Text style={styles.subtitle}>
+        {asOf
+          ? `Read-only data as of ${formatAsOf(asOf)}`
+          : 'Changes are disabled until you reconnect'}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: BG_LIGHT_ORANGE,
+    borderRadius: 8,
+    borderCurve: 'continuous',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    marginHorizontal: 16,
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: WARNING,
+  },
+  subtitle: {
+    fontSize: 12,
+    color: TEXT_SECONDARY,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,64 @@
+import React from 'react';
+import { View, Text, StyleSheet, Pressable, type StyleProp, type ViewStyle } from 'react-native';
+import { BG_LIGHT_ORANGE, TEXT_PRIMARY, TEXT_SECONDARY, WARNING } from '@/constants/colors';
+import { getAwaitingApprovalLabel } from '../utils/vaultAction';
+import type { VaultAction } from '../types';
+
+interface Props {
+  // What the action will do, e.g. `Rename to "Payroll"`
+  title: string;
+  action: VaultAction;
+  // Usually opens the action on the vault's Actions tab
+  onPress?: () => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+// A change that is queued as a vault action and has not taken effect yet
+export const PendingActionNotice: React.FC<Props> = ({ title, action, onPress, style }) => (
+  <Pressable
+    style={({ pressed }) => [styles.notice, style, pressed && onPress && { opacity: 0.7 }]}
+    onPress={onPress}
+    disabled={!onPress}
+    accessibilityRole={onPress ? 'link' : undefined}
+  >
+    <View style={styles.text}>
+      <Text style={styles.title} numberOfLines={1}>
+        {title}
+      </Text>
+      <Text style={styles.status}>{getAwaitingApprovalLabel(action)}</Text>
+    </View>
+    {onPress ? <Text style={styles.link}>View ›</Text> : null}
+  </Pressable>
+);
+
+const styles = StyleSheet.create({
+  notice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: BG_LIGHT_ORANGE,
+    borderLeftWidth: 3,
+    borderLeftColor: WARNING,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  text: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: TEXT_PRIMARY,
+  },
+  status: {
+    fontSize: 12,
+    color: TEXT_SECONDARY,
+    marginTop: 2,
+  },
+  link: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: WARNING,
+  },
+});
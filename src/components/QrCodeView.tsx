@@ -0,0 +1,95 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, type StyleProp, type ViewStyle } from 'react-native';
+import { encodeQrCode } from '../utils/qrCode';
+import { BG_DARK, BG_WHITE, DANGER } from '@/constants/colors';
+
+// Scanners need a light margin of four modules around the symbol
+const QUIET_ZONE = 4;
+
+interface QrCodeViewProps {
+  value: string;
+  // Target width in points; modules are rounded down to whole points
+  size?: number;
+  style?: StyleProp<ViewStyle>;
+}
+
+interface Run {
+  start: number;
+  length: number;
+}
+
+// Merge adjacent dark modules so each row renders a handful of views
+const darkRuns = (row: boolean[]): Run[] => {
+  const runs: Run[] = [];
+  row.forEach((dark, x) => {
+    if (!dark) return;
+    const last = runs[runs.length - 1];
+    if (last && last.start + last.length === x) last.length++;
+    else runs.push({ start: x, length: 1 });
+  });
+  return runs;
+};
+
+export const QrCodeView: React.FC<QrCodeViewProps> = ({ value, size = 240, style }) => {
+  const qr = useMemo(() => {
+    try {
+      return encodeQrCode(value);
+    } catch {
+      return null;
+    }
+  }, [value]);
+
+  if (!qr) {
+    return (
+      <View style={[styles.container, styles.error, { width: size, height: size }, style]}>
+        <Text style={styles.errorText}>This payment request is too long for a QR code</Text>
+      </View>
+    );
+  }
+
+  const moduleSize = Math.max(1, Math.floor(size / (qr.size + QUIET_ZONE * 2)));
+
+  return (
+    <View
+      style={[styles.container, { padding: moduleSize * QUIET_ZONE }, style]}
+      accessibilityRole="image"
+      accessibilityLabel="QR code"
+    >
+      {qr.modules.map((row, y) => (
+        <View key={y} style={{ width: qr.size * moduleSize, height: moduleSize }}>
+          {darkRuns(row).map(({ start, length }) => (
+            <View
+              key={start}
+              style={[
+                styles.module,
+                { left: start * moduleSize, width: length * moduleSize, height: moduleSize },
+              ]}
+            />
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: BG_WHITE,
+    alignSelf: 'center',
+  },
+  module: {
+    position: 'absolute',
+    top: 0,
+    backgroundColor: BG_DARK,
+  },
+  error: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  errorText: {
+    fontSize: 14,
+    color: DANGER,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,288 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Pressable, Modal, ScrollView } from 'react-native';
+import {
+  BG_MAIN,
+  BG_WHITE,
+  BORDER_MID,
+  DANGER,
+  OVERLAY,
+  PRIMARY,
+  TEXT_PRIMARY,
+  TEXT_SECONDARY,
+  TEXT_WHITE,
+} from '@/constants/colors';
+import { getNetworkColor } from '../utils/permissions';
+import {
+  ALL_WALLET_SORT_FIELDS,
+  ALL_WALLET_STATUS_FILTERS,
+  DEFAULT_WALLET_FILTERS,
+  WALLET_SORT_LABELS,
+  WALLET_STATUS_LABELS,
+  getSortOrderLabel,
+} from '../utils/walletFilters';
+import type { Network, WalletListFilters } from '../types';
+
+const AVAILABLE_NETWORKS: Network[] = ['BITCOIN', 'SOLANA'];
+
+interface Props {
+  visible: boolean;
+  value: WalletListFilters;
+  onApply: (filters: WalletListFilters) => void;
+  onClose: () => void;
+}
+
+// Edits a draft copy; nothing reaches the list until Apply
+export const WalletFilterSheet: React.FC<Props> = ({ visible, value, onApply, onClose }) => {
+  const [draft, setDraft] = useState<WalletListFilters>(value);
+
+  useEffect(() => {
+    if (visible) setDraft(value);
+  }, [visible, value]);
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <ScrollView showsVerticalScrollIndicator={false}>
+            <Text style={styles.title}>Filters</Text>
+
+            {/* Status */}
+            <Text style={styles.label}>Status</Text>
+            <View style={styles.optionRow}>
+              {ALL_WALLET_STATUS_FILTERS.map((status) => {
+                const active = draft.status === status;
+                return (
+                  <Pressable
+                    key={status}
+                    style={({ pressed }) => [
+                      styles.option,
+                      active && styles.optionActive,
+                      pressed && { opacity: 0.7 },
+                    ]}
+                    onPress={() => setDraft((prev) => ({ ...prev, status }))}
+                  >
+                    <Text style={[styles.optionText, active && styles.optionTextActive]}>
+                      {WALLET_STATUS_LABELS[status]}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+
+            {/* Network */}
+            <Text style={styles.label}>Network</Text>
+            <View style={styles.chipRow}>
+              {AVAILABLE_NETWORKS.map((network) => {
+                const selected = draft.network === network;
+                const color = getNetworkColor(network);
+                return (
+                  <Pressable
+                    key={network}
+                    style={({ pressed }) => [
+                      styles.chip,
+                      selected && { backgroundColor: color + '20', borderColor: color },
+                      pressed && { opacity: 0.7 },
+                    ]}
+                    onPress={() =>
+                      setDraft((prev) => ({
+                        ...prev,
+                        network: prev.network === network ? null : network,
+                      }))
+                    }
+                  >
+                    <Text style={[styles.chipText, selected && { color }]}>{network}</Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+
+            {/* Sort */}
+            <Text style={styles.label}>Sort By</Text>
+            <View style={styles.optionRow}>
+              {ALL_WALLET_SORT_FIELDS.map((field) => {
+                const active = draft.sortBy === field;
+                return (
+                  <Pressable
+                    key={field}
+                    style={({ pressed }) => [
+                      styles.option,
+                      active && styles.optionActive,
+                      pressed && { opacity: 0.7 },
+                    ]}
+                    onPress={() => setDraft((prev) => ({ ...prev, sortBy: field }))}
+                  >
+                    <Text style={[styles.optionText, active && styles.optionTextActive]}>
+                      {WALLET_SORT_LABELS[field]}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+            <View style={styles.optionRow}>
+              {(['desc', 'asc'] as const).map((order) => {
+                const active = draft.sortOrder === order;
+                return (
+                  <Pressable
+                    key={order}
+                    style={({ pressed }) => [
+                      styles.option,
+                      active && styles.optionActive,
+                      pressed && { opacity: 0.7 },
+                    ]}
+                    onPress={() => setDraft((prev) => ({ ...prev, sortOrder: order }))}
+                  >
+                    <Text style={[styles.optionText, active && styles.optionTextActive]}>
+                      {getSortOrderLabel(draft.sortBy, order)}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+          </ScrollView>
+
+          {/* Bottom Buttons */}
+          <View style={styles.buttons}>
+            <Pressable
+              style={({ pressed }) => [
+                styles.button,
+                styles.clearButton,
+                pressed && { opacity: 0.7 },
+              ]}
+              onPress={() => setDraft(DEFAULT_WALLET_FILTERS)}
+            >
+              <Text style={styles.clearButtonText}>Clear</Text>
+            </Pressable>
+            <Pressable
+              style={({ pressed }) => [
+                styles.button,
+                styles.cancelButton,
+                pressed && { opacity: 0.7 },
+              ]}
+              onPress={onClose}
+            >
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </Pressable>
+            <Pressable
+              style={({ pressed }) => [
+                styles.button,
+                styles.applyButton,
+                pressed && { opacity: 0.7 },
+              ]}
+              onPress={() => onApply(draft)}
+            >
+              <Text style={styles.applyButtonText}>Apply</Text>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: OVERLAY,
+    justifyContent: 'center',
+    padding: 24,
+  },
+  content: {
+    backgroundColor: BG_WHITE,
+    borderRadius: 16,
+    padding: 24,
+    maxHeight: '80%',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: TEXT_PRIMARY,
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: TEXT_SECONDARY,
+    marginBottom: 8,
+    marginTop: 4,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  option: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1.5,
+    borderColor: BORDER_MID,
+    alignItems: 'center',
+  },
+  optionActive: {
+    backgroundColor: PRIMARY + '20',
+    borderColor: PRIMARY,
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: TEXT_SECONDARY,
+  },
+  optionTextActive: {
+    color: PRIMARY,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    borderRadius: 8,
+    borderWidth: 1.5,
+    borderColor: BORDER_MID,
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: TEXT_SECONDARY,
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 8,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  clearButton: {
+    backgroundColor: BG_WHITE,
+    borderWidth: 1,
+    borderColor: BORDER_MID,
+  },
+  clearButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: DANGER,
+  },
+  cancelButton: {
+    backgroundColor: BG_MAIN,
+  },
+  cancelButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: TEXT_SECONDARY,
+  },
+  applyButton: {
+    backgroundColor: PRIMARY,
+  },
+  applyButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: TEXT_WHITE,
+  },
+});
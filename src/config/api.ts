@@ -0,0 +1,31 @@
+import { getEnvVar } from './auth';
+import type { RetryPolicy } from '../types';
+
+// API client configuration
+export const apiConfig = {
+  // Abort a single attempt after this long (ms)
+  timeoutMs: 15000,
+
+  // Retry policy for idempotent requests (GET/HEAD, or calls with an Idempotency-Key)
+  retry: {
+    maxAttempts: 3,
+    baseDelayMs: 500,
+    maxDelayMs: 8000,
+  } satisfies RetryPolicy,
+
+  // Serve cached query responses without refetching for this long (ms)
+  staleTimeMs: 30000,
+
+  // While offline, check whether the backend is reachable again this often (ms)
+  offlineProbeIntervalMs: 15000,
+
+  // Serve every endpoint from the in-process mock backend (src/mock) and
+  // sign in without Keycloak. Set USE_MOCK_BACKEND=true in app.json `extra`.
+  useMockBackend: getEnvVar('USE_MOCK_BACKEND', 'false') === 'true',
+
+  // Seeded user the mock sign-in uses
+  mockUserEmail: getEnvVar('MOCK_USER_EMAIL', 'alice@example.com'),
+
+  // Simulated network latency of the mock backend (ms)
+  mockLatencyMs: 300,
+};
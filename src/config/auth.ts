@@ -1,7 +1,7 @@
 import Constants from 'expo-constants';
 
 // Environment configuration with fallbacks
-const getEnvVar = (key: string, defaultValue: string): string => {
+export const getEnvVar = (key: string, defaultValue: string): string => {
   const extra = Constants.expirationDate ? {} : (Constants.expoConfig?.extra || {});
   return (extra as Record<string, string>)[key] || defaultValue;
 };
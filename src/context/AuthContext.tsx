@@ -4,6 +4,12 @@ import * as SecureStore from 'expo-secure-store';
 import * as WebBrowser from 'expo-web-browser';
 import { AppState, AppStateStatus } from 'react-native';
 import { authConfig, getDiscoveryDocument } from '../config/auth';
+import { apiConfig } from '../config/api';
+import { registerSessionHandlers } from '../services/api';
+import { clearQueryCache } from '../services/queryCache';
+import { clearSnapshots } from '../services/offlineSnapshot';
+import { isOffline } from '../services/connectivity';
+import { getMockBackend } from '../services/transport';
 import type { AuthContextType, UserInfo, StoredTokens, JWTPayload } from '../types';
 
 // Complete browser auth session
@@ -29,7 +35,7 @@ const defaultContextValue: AuthContextType = {
   refreshTokenExpiresAt: null,
   login: async () => {},
   logout: async () => {},
-  refreshAccessToken: async () => {},
+  refreshAccessToken: async () => null,
 };
 
 export const AuthContext = createContext<AuthContextType>(defaultContextValue);
@@ -73,6 +79,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   const refreshIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const appStateRef = useRef<AppStateStatus>(AppState.currentState);
+  // Current tokens for the API layer and refreshes; state only catches up on the next render
+  const accessTokenRef = useRef<string | null>(null);
+  const refreshTokenRef = useRef<string | null>(null);
+  const refreshPromiseRef = useRef<Promise<string | null> | null>(null);
 
   const discovery = getDiscoveryDocument();
 
@@ -133,6 +143,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     accessExpiry: Date,
     refreshExpiry: Date
   ) => {
+    accessTokenRef.current = access;
+    refreshTokenRef.current = refresh;
     setAccessToken(access);
     setRefreshToken(refresh);
     setAccessTokenExpiresAt(accessExpiry);
@@ -144,23 +156,28 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   }, []);
 
-  // Refresh access token
-  const refreshAccessToken = useCallback(async () => {
+  // Refresh access token, resolving to the new token (null on failure)
+  const performRefresh = useCallback(async (): Promise<string | null> => {
+    // Read from the ref: with token rotation, a closure from before the last
+    // refresh would send a refresh token the server has already retired
+    const refreshToken = refreshTokenRef.current;
     if (!refreshToken) {
       console.log('No refresh token available');
-      return;
+      return null;
     }
 
     try {
-      const tokenResponse = await AuthSession.refreshAsync(
-        {
-          clientId: authConfig.clientId,
-          refreshToken,
-        },
-        discovery
-      );
-
-      if (tokenResponse.accessToken) {
+      const tokenResponse = apiConfig.useMockBackend
+        ? getMockBackend().refreshMockSession(refreshToken)
+        : await AuthSession.refreshAsync(
+            {
+              clientId: authConfig.clientId,
+              refreshToken,
+            },
+            discovery
+          );
+
+      if (tokenResponse?.accessToken) {
         const newAccessExpiry = tokenResponse.expiresIn
           ? new Date(Date.now() + tokenResponse.expiresIn * 1000)
           : new Date(Date.now() + 300000); // Default 5 min
@@ -185,13 +202,29 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         });
 
         console.log('Token refreshed successfully');
+        return tokenResponse.accessToken;
       }
+      return null;
     } catch (error) {
       console.error('Token refresh failed:', error);
+      // Keep the session while the network is down so offline snapshots stay
+      // available; the expiry timer retries the refresh later
+      if (error instanceof TypeError || isOffline()) return null;
       // Clear auth state on refresh failure
       await logout();
+      return null;
     }
-  }, [refreshToken, refreshTokenExpiresAt, setTokenState, discovery]);
+  }, [refreshTokenExpiresAt, setTokenState, discovery]);
+
+  // Share one in-flight refresh between the expiry timer and API 401 handling
+  const refreshAccessToken = useCallback((): Promise<string | null> => {
+    if (!refreshPromiseRef.current) {
+      refreshPromiseRef.current = performRefresh().finally(() => {
+        refreshPromiseRef.current = null;
+      });
+    }
+    return refreshPromiseRef.current;
+  }, [performRefresh]);
 
   // Check if token needs refresh
   const checkTokenExpiration = useCallback(async () => {
@@ -214,48 +247,57 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const login = useCallback(async () => {
     try {
       setIsLoading(true);
-      const result = await promptAsync();
-
-      if (result.type === 'success' && result.params.code) {
-        // Exchange authorization code for tokens
-        const tokenResponse = await AuthSession.exchangeCodeAsync(
-          {
-            clientId: authConfig.clientId,
-            code: result.params.code,
-            redirectUri: authConfig.redirectUrl,
-            extraParams: request?.codeVerifier
-              ? { code_verifier: request.codeVerifier }
-              : undefined,
-          },
-          discovery
-        );
-
-        if (tokenResponse.accessToken && tokenResponse.refreshToken) {
-          const accessExpiry = tokenResponse.expiresIn
-            ? new Date(Date.now() + tokenResponse.expiresIn * 1000)
-            : new Date(Date.now() + 300000);
-
-          // Parse refresh token for expiry (typically in JWT or assume 24h)
-          const refreshPayload = decodeJWT(tokenResponse.refreshToken);
-          const refreshExpiry = refreshPayload?.exp
-            ? new Date(refreshPayload.exp * 1000)
-            : new Date(Date.now() + 86400000);
-
-          setTokenState(
-            tokenResponse.accessToken,
-            tokenResponse.refreshToken,
-            accessExpiry,
-            refreshExpiry
+      let tokenResponse: Pick<
+        AuthSession.TokenResponse,
+        'accessToken' | 'refreshToken' | 'expiresIn'
+      > | null = null;
+
+      if (apiConfig.useMockBackend) {
+        // No Keycloak: sign in as the configured seeded user
+        tokenResponse = getMockBackend().signInMockUser();
+      } else {
+        const result = await promptAsync();
+        if (result.type === 'success' && result.params.code) {
+          // Exchange authorization code for tokens
+          tokenResponse = await AuthSession.exchangeCodeAsync(
+            {
+              clientId: authConfig.clientId,
+              code: result.params.code,
+              redirectUri: authConfig.redirectUrl,
+              extraParams: request?.codeVerifier
+                ? { code_verifier: request.codeVerifier }
+                : undefined,
+            },
+            discovery
           );
-
-          await saveTokens({
-            accessToken: tokenResponse.accessToken,
-            refreshToken: tokenResponse.refreshToken,
-            accessTokenExpiresAt: accessExpiry.toISOString(),
-            refreshTokenExpiresAt: refreshExpiry.toISOString(),
-          });
         }
       }
+
+      if (tokenResponse?.accessToken && tokenResponse.refreshToken) {
+        const accessExpiry = tokenResponse.expiresIn
+          ? new Date(Date.now() + tokenResponse.expiresIn * 1000)
+          : new Date(Date.now() + 300000);
+
+        // Parse refresh token for expiry (typically in JWT or assume 24h)
+        const refreshPayload = decodeJWT(tokenResponse.refreshToken);
+        const refreshExpiry = refreshPayload?.exp
+          ? new Date(refreshPayload.exp * 1000)
+          : new Date(Date.now() + 86400000);
+
+        setTokenState(
+          tokenResponse.accessToken,
+          tokenResponse.refreshToken,
+          accessExpiry,
+          refreshExpiry
+        );
+
+        await saveTokens({
+          accessToken: tokenResponse.accessToken,
+          refreshToken: tokenResponse.refreshToken,
+          accessTokenExpiresAt: accessExpiry.toISOString(),
+          refreshTokenExpiresAt: refreshExpiry.toISOString(),
+        });
+      }
     } catch (error) {
       console.error('Login failed:', error);
     } finally {
@@ -269,7 +311,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       setIsLoading(true);
 
       // Revoke tokens with Keycloak if possible
-      if (accessToken && discovery.revocationEndpoint) {
+      if (!apiConfig.useMockBackend && accessToken && discovery.revocationEndpoint) {
         try {
           await AuthSession.revokeAsync(
             { token: accessToken, clientId: authConfig.clientId },
@@ -281,17 +323,20 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       }
 
       // Clear local state
+      accessTokenRef.current = null;
+      refreshTokenRef.current = null;
       setAccessToken(null);
       setRefreshToken(null);
       setUser(null);
       setAccessTokenExpiresAt(null);
       setRefreshTokenExpiresAt(null);
 
-      // Clear stored tokens
-      await clearTokens();
+      // Clear stored tokens and any cached vault data
+      clearQueryCache();
+      await Promise.all([clearTokens(), clearSnapshots()]);
 
       // End session with Keycloak
-      if (discovery.endSessionEndpoint) {
+      if (!apiConfig.useMockBackend && discovery.endSessionEndpoint) {
         await WebBrowser.openAuthSessionAsync(
           `${discovery.endSessionEndpoint}?client_id=${authConfig.clientId}&post_logout_redirect_uri=${encodeURIComponent(authConfig.postLogoutRedirectUrl)}`,
           authConfig.postLogoutRedirectUrl
@@ -356,6 +401,15 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     };
   }, [accessToken, checkTokenExpiration]);
 
+  // Let the API layer recover from expired tokens
+  useEffect(() => {
+    registerSessionHandlers({
+      getAccessToken: () => accessTokenRef.current,
+      refreshAccessToken,
+    });
+    return () => registerSessionHandlers(null);
+  }, [refreshAccessToken]);
+
   // Handle app state changes
   useEffect(() => {
     const subscription = AppState.addEventListener('change', (nextState) => {
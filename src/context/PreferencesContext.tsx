@@ -0,0 +1,60 @@
+import React, { createContext, useState, useCallback, useEffect } from 'react';
+import { useAuth } from '../hooks/useAuth';
+import { loadPreference, savePreference } from '../services/preferences';
+import { DEFAULT_CURRENCY, isFiatCurrency } from '../utils/currency';
+import type { FiatCurrency, PreferencesContextType } from '../types';
+
+const CURRENCY_PREFERENCE = 'currency';
+
+const defaultContextValue: PreferencesContextType = {
+  currency: DEFAULT_CURRENCY,
+  isLoaded: false,
+  setCurrency: async () => {},
+};
+
+export const PreferencesContext = createContext<PreferencesContextType>(defaultContextValue);
+
+interface PreferencesProviderProps {
+  children: React.ReactNode;
+}
+
+export const PreferencesProvider: React.FC<PreferencesProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const userId = user?.sub;
+
+  const [currency, setCurrencyState] = useState<FiatCurrency>(DEFAULT_CURRENCY);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // Preferences belong to the signed-in user; reload them whenever that changes
+  useEffect(() => {
+    setCurrencyState(DEFAULT_CURRENCY);
+    setIsLoaded(false);
+    if (!userId) return;
+    let cancelled = false;
+    loadPreference(userId, CURRENCY_PREFERENCE).then((stored) => {
+      if (cancelled) return;
+      if (isFiatCurrency(stored)) setCurrencyState(stored);
+      setIsLoaded(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  // Applies immediately; rejects if it couldn't be stored for the next launch
+  const setCurrency = useCallback(
+    async (next: FiatCurrency) => {
+      setCurrencyState(next);
+      if (userId) await savePreference(userId, CURRENCY_PREFERENCE, next);
+    },
+    [userId],
+  );
+
+  const contextValue: PreferencesContextType = {
+    currency,
+    isLoaded,
+    setCurrency,
+  };
+
+  return <PreferencesContext.Provider value={contextValue}>{children}</PreferencesContext.Provider>;
+};
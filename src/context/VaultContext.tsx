@@ -1,6 +1,10 @@
 import React, { createContext, useState, useCallback, useEffect, useMemo } from 'react';
 import { useAuth } from '../hooks/useAuth';
+import { useConnectivity } from '../hooks/useConnectivity';
+import { useRefetchOnReconnect } from '../hooks/useRefetchOnReconnect';
 import { fetchVaults, fetchUserProfile } from '../services/api';
+import { clearQueryCache } from '../services/queryCache';
+import { resolveWithSnapshot } from '../services/offlineSnapshot';
 import type { VaultContextType, Vault, VaultMembership, VaultRole } from '../types';
 
 const defaultContextValue: VaultContextType = {
@@ -9,6 +13,7 @@ const defaultContextValue: VaultContextType = {
   membershipMap: new Map(),
   isLoading: false,
   isInitialized: false,
+  vaultsAsOf: null,
   refreshVaults: async () => {},
 };
 
@@ -19,12 +24,14 @@ interface VaultProviderProps {
 }
 
 export const VaultProvider: React.FC<VaultProviderProps> = ({ children }) => {
-  const { accessToken, isAuthenticated } = useAuth();
+  const { accessToken, isAuthenticated, user } = useAuth();
+  const { isOffline } = useConnectivity();
 
   const [vaults, setVaults] = useState<Vault[]>([]);
   const [memberships, setMemberships] = useState<VaultMembership[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isInitialized, setIsInitialized] = useState(false);
+  const [vaultsAsOf, setVaultsAsOf] = useState<string | null>(null);
 
   const membershipMap = useMemo(() => {
     const map = new Map<string, VaultRole>();
@@ -42,11 +49,16 @@ export const VaultProvider: React.FC<VaultProviderProps> = ({ children }) => {
         fetchVaults(accessToken),
         fetchUserProfile(accessToken),
       ]);
-      if (vaultsRes._status === 200 && vaultsRes.data) {
-        setVaults(vaultsRes.data);
+      const [vaultsResult, profileResult] = await Promise.all([
+        resolveWithSnapshot(user?.sub, 'vaults', vaultsRes),
+        resolveWithSnapshot(user?.sub, 'profile', profileRes),
+      ]);
+      if (vaultsResult) {
+        setVaults(vaultsResult.data);
+        setVaultsAsOf(vaultsResult.savedAt);
       }
-      if (profileRes._status === 200 && profileRes.data) {
-        setMemberships(profileRes.data.vaultMemberships);
+      if (profileResult) {
+        setMemberships(profileResult.data.vaultMemberships);
       }
     } catch (error) {
       console.error('Failed to load vaults:', error);
@@ -54,24 +66,29 @@ export const VaultProvider: React.FC<VaultProviderProps> = ({ children }) => {
       setIsLoading(false);
       setIsInitialized(true);
     }
-  }, [accessToken]);
+  }, [accessToken, user?.sub]);
 
   useEffect(() => {
     if (isAuthenticated && accessToken) {
       refreshVaults();
     } else {
+      clearQueryCache();
       setVaults([]);
       setMemberships([]);
+      setVaultsAsOf(null);
       setIsInitialized(false);
     }
   }, [isAuthenticated, accessToken, refreshVaults]);
 
+  useRefetchOnReconnect(isOffline, !!vaultsAsOf, refreshVaults);
+
   const contextValue: VaultContextType = {
     vaults,
     memberships,
     membershipMap,
     isLoading,
     isInitialized,
+    vaultsAsOf,
     refreshVaults,
   };
 
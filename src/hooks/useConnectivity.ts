@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+import { isOffline, subscribeConnectivity } from '../services/connectivity';
+
+/**
+ * Whether the backend is currently unreachable. Screens use it to show the
+ * offline banner and disable write actions until connectivity returns.
+ */
+export const useConnectivity = () => {
+  const [offline, setOffline] = useState(isOffline);
+
+  useEffect(() => {
+    setOffline(isOffline());
+    return subscribeConnectivity(setOffline);
+  }, []);
+
+  return { isOffline: offline };
+};
@@ -0,0 +1,28 @@
+import { useCallback, useRef } from 'react';
+import { createIdempotencyKey } from '../services/idempotency';
+
+/**
+ * Keeps one Idempotency-Key per logical operation across manual retries.
+ * `keyFor(operation, input)` returns the same key until the input changes or
+ * `release(operation)` is called once the server has accepted the request,
+ * so tapping Save again after every automatic retry timed out can't apply
+ * the change a second time.
+ */
+export const useIdempotencyKeys = () => {
+  const keysRef = useRef<Map<string, { input: string; key: string }>>(new Map());
+
+  const keyFor = useCallback((operation: string, input: unknown = null): string => {
+    const serialized = JSON.stringify(input);
+    const current = keysRef.current.get(operation);
+    if (current?.input === serialized) return current.key;
+    const key = createIdempotencyKey();
+    keysRef.current.set(operation, { input: serialized, key });
+    return key;
+  }, []);
+
+  const release = useCallback((operation: string) => {
+    keysRef.current.delete(operation);
+  }, []);
+
+  return { keyFor, release };
+};
@@ -0,0 +1,31 @@
+import { useCallback, useRef, useState } from 'react';
+
+/**
+ * Guards async UI actions against double submission.
+ * `run(key, task)` is a no-op while a task with the same key is still
+ * pending, so a second tap on Approve or Create never sends a second request.
+ * The lock is held in a ref so it takes effect before the next render.
+ */
+export const useInFlightLock = () => {
+  const inFlightRef = useRef<Set<string>>(new Set());
+  const [pendingKeys, setPendingKeys] = useState<string[]>([]);
+
+  const run = useCallback(
+    async <T>(key: string, task: () => Promise<T>): Promise<T | undefined> => {
+      if (inFlightRef.current.has(key)) return undefined;
+      inFlightRef.current.add(key);
+      setPendingKeys(Array.from(inFlightRef.current));
+      try {
+        return await task();
+      } finally {
+        inFlightRef.current.delete(key);
+        setPendingKeys(Array.from(inFlightRef.current));
+      }
+    },
+    [],
+  );
+
+  const isPending = useCallback((key: string) => pendingKeys.includes(key), [pendingKeys]);
+
+  return { run, isPending };
+};
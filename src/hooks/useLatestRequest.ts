@@ -0,0 +1,28 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+/**
+ * Tracks the latest request for one piece of screen state.
+ * `begin()` aborts whatever request it handed out before and returns a fresh
+ * AbortSignal; everything is aborted on unmount. After awaiting, callers bail
+ * out when `signal.aborted` is true, so a superseded or late response can
+ * never overwrite newer state.
+ */
+export const useLatestRequest = () => {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const begin = useCallback((): AbortSignal => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    return controller.signal;
+  }, []);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  }, []);
+
+  useEffect(() => cancel, [cancel]);
+
+  return { begin, cancel };
+};
@@ -0,0 +1,142 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useLatestRequest } from './useLatestRequest';
+import { iteratePages, mergePageItems, type PageFetcher } from '../services/pagination';
+import { hashQueryKey, subscribeQuery } from '../services/queryCache';
+import type { ApiError, ApiResponse, Page, PageInfo, QueryKey } from '../types';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+type LoadState = 'loading' | 'refreshing' | 'loadingMore' | null;
+
+interface PaginatedQueryOptions<T> {
+  getKey: (item: T) => string;
+  pageSize?: number;
+  // Reload from the first page whenever a mutation invalidates this key
+  invalidateKey?: QueryKey;
+}
+
+/**
+ * Drive a paginated list from a page fetcher. The list restarts from the
+ * first page whenever `fetchPage` changes identity, so filters and search
+ * belong in its dependencies. Pass null to disable, e.g. before sign-in.
+ * Items already loaded are skipped when a later page repeats them.
+ */
+export const usePaginatedQuery = <T>(
+  fetchPage: PageFetcher<T> | null,
+  { getKey, pageSize = DEFAULT_PAGE_SIZE, invalidateKey }: PaginatedQueryOptions<T>,
+) => {
+  const { begin } = useLatestRequest();
+  const iteratorRef = useRef<AsyncGenerator<ApiResponse<Page<T>>, void> | null>(null);
+  const itemsRef = useRef<T[]>([]);
+  const loadStateRef = useRef<LoadState>(null);
+  const getKeyRef = useRef(getKey);
+  const fetchPageRef = useRef(fetchPage);
+
+  useEffect(() => {
+    getKeyRef.current = getKey;
+    fetchPageRef.current = fetchPage;
+  });
+
+  const [items, setItems] = useState<T[]>([]);
+  const [pageInfo, setPageInfo] = useState<PageInfo | null>(null);
+  const [asOf, setAsOf] = useState<string | null>(null);
+  const [error, setError] = useState<ApiError | undefined>(undefined);
+  const [loadState, setLoadStateValue] = useState<LoadState>(fetchPage ? 'loading' : null);
+
+  const setLoadState = useCallback((state: LoadState) => {
+    loadStateRef.current = state;
+    setLoadStateValue(state);
+  }, []);
+
+  const pull = useCallback(
+    async (iterator: AsyncGenerator<ApiResponse<Page<T>>, void>, append: boolean) => {
+      const result = await iterator.next();
+      // Superseded by a newer reload
+      if (iteratorRef.current !== iterator) return;
+      setLoadState(null);
+      if (result.done) {
+        setPageInfo((prev) => prev && { ...prev, hasMore: false });
+        return;
+      }
+      const res = result.value;
+      // A snapshot page carries data and the connectivity error together
+      if (res.data) {
+        const next = mergePageItems(
+          append ? itemsRef.current : [],
+          res.data.items,
+          getKeyRef.current,
+        );
+        itemsRef.current = next;
+        setItems(next);
+        setPageInfo(res.data.pageInfo);
+        setAsOf(res.data.asOf ?? null);
+      }
+      setError(res.error);
+    },
+    [setLoadState],
+  );
+
+  const start = useCallback(
+    (state: 'loading' | 'refreshing', force: boolean) => {
+      const fetcher = fetchPageRef.current;
+      if (!fetcher) return Promise.resolve();
+      const iterator = iteratePages(fetcher, { pageSize, signal: begin(), force });
+      iteratorRef.current = iterator;
+      setLoadState(state);
+      return pull(iterator, false);
+    },
+    [pageSize, begin, pull, setLoadState],
+  );
+
+  useEffect(() => {
+    if (!fetchPage) {
+      iteratorRef.current = null;
+      itemsRef.current = [];
+      setItems([]);
+      setPageInfo(null);
+      setAsOf(null);
+      setError(undefined);
+      setLoadState(null);
+      return;
+    }
+    start('loading', false);
+  }, [fetchPage, start, setLoadState]);
+
+  const invalidateHash = invalidateKey ? hashQueryKey(invalidateKey) : null;
+  useEffect(() => {
+    if (!invalidateKey) return;
+    return subscribeQuery(invalidateKey, (event) => {
+      if (event === 'invalidated') start('loading', false);
+    });
+  }, [invalidateHash, start]);
+
+  // Pull-to-refresh: bypass the query cache
+  const refresh = useCallback(() => start('refreshing', true), [start]);
+
+  // Restart from the first page, e.g. after a mutation
+  const reload = useCallback(() => start('loading', false), [start]);
+
+  const hasMore = !!pageInfo?.hasMore;
+
+  // onEndReached: fetch the next page unless a request is already running
+  const loadMore = useCallback(() => {
+    const iterator = iteratorRef.current;
+    if (!iterator || !hasMore || loadStateRef.current) return Promise.resolve();
+    setLoadState('loadingMore');
+    return pull(iterator, true);
+  }, [hasMore, pull, setLoadState]);
+
+  return {
+    items,
+    pageInfo,
+    asOf,
+    error,
+    hasMore,
+    isLoading: loadState === 'loading',
+    isRefreshing: loadState === 'refreshing',
+    isLoadingMore: loadState === 'loadingMore',
+    refresh,
+    reload,
+    loadMore,
+  };
+};
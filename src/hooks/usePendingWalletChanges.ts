@@ -0,0 +1,28 @@
+import { useMemo } from 'react';
+import { useAuth } from './useAuth';
+import { useQuery } from './useQuery';
+import { fetchVaultActions } from '../services/api';
+import { queryKeys } from '../services/queryKeys';
+import { PENDING_VAULT_ACTION_STATUSES } from '../utils/vaultAction';
+import { WALLET_ACTION_TYPES, collectPendingWalletChanges } from '../utils/walletActions';
+
+// Pending changes are few at a time; one page covers them
+const PENDING_CHANGES_LIMIT = 100;
+
+/**
+ * Wallet creations, renames and (un)archives still waiting on approval in a
+ * vault, shared through the query cache by the wallet list and detail screens.
+ */
+export const usePendingWalletChanges = (vaultId: string) => {
+  const { accessToken } = useAuth();
+  const query = useQuery(accessToken ? queryKeys.walletChanges(vaultId) : null, () =>
+    fetchVaultActions(accessToken ?? '', vaultId, {
+      types: WALLET_ACTION_TYPES,
+      statuses: PENDING_VAULT_ACTION_STATUSES,
+      limit: PENDING_CHANGES_LIMIT,
+      sortOrder: 'ASC',
+    }),
+  );
+  const changes = useMemo(() => collectPendingWalletChanges(query.data ?? []), [query.data]);
+  return { ...query, changes };
+};
@@ -0,0 +1,13 @@
+import { useContext } from 'react';
+import { PreferencesContext } from '../context/PreferencesContext';
+import type { PreferencesContextType } from '../types';
+
+export const usePreferences = (): PreferencesContextType => {
+  const context = useContext(PreferencesContext);
+
+  if (!context) {
+    throw new Error('usePreferences must be used within a PreferencesProvider');
+  }
+
+  return context;
+};
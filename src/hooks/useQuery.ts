@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { fetchQuery, getQueryData, hashQueryKey, subscribeQuery } from '../services/queryCache';
+import { isApiSuccess } from '../services/response';
+import type { ApiError, ApiResponse, QueryKey } from '../types';
+
+/**
+ * Read one resource through the query cache (stale-while-revalidate).
+ * Cached data is returned immediately and revalidated in the background;
+ * the query refetches whenever a mutation invalidates its key. Pass a null
+ * key to disable the query, e.g. before sign-in.
+ */
+export const useQuery = <T>(
+  key: QueryKey | null,
+  fetcher: () => Promise<ApiResponse<T>>,
+  staleTime?: number,
+) => {
+  const hash = key ? hashQueryKey(key) : null;
+  const keyRef = useRef(key);
+  const fetcherRef = useRef(fetcher);
+  const hashRef = useRef(hash);
+
+  useEffect(() => {
+    keyRef.current = key;
+    fetcherRef.current = fetcher;
+    hashRef.current = hash;
+  });
+
+  const [data, setData] = useState<T | undefined>(() =>
+    key ? getQueryData<ApiResponse<T>>(key)?.data : undefined,
+  );
+  const [error, setError] = useState<ApiError | undefined>(undefined);
+  const [isFetching, setIsFetching] = useState(!!key);
+
+  const load = useCallback(
+    async (force: boolean) => {
+      const currentKey = keyRef.current;
+      if (!currentKey) return;
+      const requestHash = hashQueryKey(currentKey);
+      setIsFetching(true);
+      const res = await fetchQuery(currentKey, fetcherRef.current, { staleTime, force });
+      // The key changed while this request was in flight
+      if (hashRef.current !== requestHash) return;
+      if (isApiSuccess(res)) {
+        setData(res.data);
+        setError(undefined);
+      } else {
+        setError(res.error);
+      }
+      setIsFetching(false);
+    },
+    [staleTime],
+  );
+
+  useEffect(() => {
+    const currentKey = keyRef.current;
+    if (!hash || !currentKey) {
+      setData(undefined);
+      setIsFetching(false);
+      return;
+    }
+    setData(getQueryData<ApiResponse<T>>(currentKey)?.data);
+    setError(undefined);
+    load(false);
+    return subscribeQuery(currentKey, (event) => {
+      if (event === 'invalidated') {
+        load(false);
+      } else {
+        const cached = getQueryData<ApiResponse<T>>(currentKey);
+        if (cached) setData(cached.data);
+      }
+    });
+  }, [hash, load]);
+
+  const refetch = useCallback(() => load(true), [load]);
+
+  return {
+    data,
+    error,
+    isLoading: isFetching && data === undefined,
+    isFetching,
+    refetch,
+  };
+};
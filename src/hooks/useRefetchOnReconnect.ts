@@ -0,0 +1,24 @@
+import { useEffect, useRef } from 'react';
+
+/**
+ * Replace offline snapshot data with live data once the backend is reachable
+ * again. Only going back online triggers `refetch`, but the latest `refetch`
+ * is the one called, so it uses the current vault and access token.
+ */
+export const useRefetchOnReconnect = (
+  isOffline: boolean,
+  showingSnapshot: boolean,
+  refetch: () => unknown,
+) => {
+  const refetchRef = useRef(refetch);
+  const showingSnapshotRef = useRef(showingSnapshot);
+
+  useEffect(() => {
+    refetchRef.current = refetch;
+    showingSnapshotRef.current = showingSnapshot;
+  });
+
+  useEffect(() => {
+    if (!isOffline && showingSnapshotRef.current) refetchRef.current();
+  }, [isOffline]);
+};
@@ -0,0 +1,15 @@
+import { useAuth } from './useAuth';
+import { useQuery } from './useQuery';
+import { fetchVaultUserProfile } from '../services/api';
+import { queryKeys } from '../services/queryKeys';
+
+/**
+ * The signed-in user's profile and role in a vault, shared through the query
+ * cache so every vault screen reads the same copy.
+ */
+export const useVaultUserProfile = (vaultId: string) => {
+  const { accessToken } = useAuth();
+  return useQuery(accessToken ? queryKeys.vaultUser(vaultId) : null, () =>
+    fetchVaultUserProfile(accessToken ?? '', vaultId),
+  );
+};
@@ -0,0 +1,144 @@
+import { getAddressError } from '../utils/address';
+import { canManageAddressBook } from '../utils/permissions';
+import { PENDING_VAULT_ACTION_STATUSES } from '../utils/vaultAction';
+import { ADDRESS_BOOK_ACTION_TYPES, collectPendingChanges } from '../utils/addressBook';
+import { MOCK_ASSETS } from './fixtures';
+import {
+  conflict,
+  created,
+  forbidden,
+  invalid,
+  notFound,
+  ok,
+  type MockRequest,
+  type MockResult,
+} from './http';
+import { db, initiateAction, nextId, now, requireRole } from './store';
+import type {
+  AddressBookEntry,
+  AddressBookEntryRequest,
+  CreateAddressBookEntriesContent,
+  DeleteAddressBookEntriesContent,
+  UpdateAddressBookEntriesContent,
+  VaultAction,
+} from '../types';
+
+const findAddressBookEntry = (vaultId: string, entryId: string): AddressBookEntry => {
+  const entry = db.addressBook.find((e) => e.vaultId === vaultId && e.id === entryId);
+  if (!entry) throw notFound('Address book entry not found');
+  return entry;
+};
+
+const requireAddressBookManager = (req: MockRequest, vaultId: string): void => {
+  if (!canManageAddressBook(requireRole(req, vaultId))) {
+    throw forbidden('Only owners and admins can change the address book');
+  }
+};
+
+const pendingAddressBookChanges = (vaultId: string) =>
+  collectPendingChanges(
+    db.vaultActions.filter(
+      (a) =>
+        a.vaultId === vaultId &&
+        ADDRESS_BOOK_ACTION_TYPES.includes(a.type) &&
+        PENDING_VAULT_ACTION_STATUSES.includes(a.status),
+    ),
+  );
+
+/**
+ * Validate an entry against the book and the changes already in flight, so
+ * two pending actions can never claim the same address.
+ */
+const readAddressBookEntry = (
+  req: MockRequest,
+  vaultId: string,
+  entryId?: string,
+): AddressBookEntryRequest => {
+  const { name, network, address } = req.body as Partial<AddressBookEntryRequest>;
+  if (!name?.trim()) throw invalid('A name is required');
+  if (!network || !MOCK_ASSETS[network]) throw invalid('A supported network is required');
+  if (!address?.trim()) throw invalid('An address is required');
+  const entry = { name: name.trim(), network, address: address.trim() };
+  const addressError = getAddressError(network, entry.address);
+  if (addressError) throw invalid(addressError);
+  const pending = pendingAddressBookChanges(vaultId);
+  const taken = [
+    ...db.addressBook.filter((e) => e.vaultId === vaultId && e.id !== entryId),
+    ...pending.additions.map((a) => a.entry),
+    ...Object.values(pending.edits).map((e) => e.entry),
+  ].some((e) => e.network === entry.network && e.address === entry.address);
+  if (taken) throw conflict('This address is already in the address book');
+  return entry;
+};
+
+const requireNoPendingChange = (vaultId: string, entryId: string): void => {
+  const pending = pendingAddressBookChanges(vaultId);
+  if (pending.edits[entryId] || pending.removals[entryId]) {
+    throw conflict('This entry already has a pending change');
+  }
+};
+
+export const executeAddressBookAction = (action: VaultAction): void => {
+  if (action.type === 'CREATE_ADDRESS_BOOK_ENTRIES') {
+    const { entries } = action.content as CreateAddressBookEntriesContent;
+    for (const entry of entries) {
+      db.addressBook.push({
+        id: nextId('ab'),
+        vaultId: action.vaultId,
+        ...entry,
+        createdAt: now(),
+        updatedAt: now(),
+      });
+    }
+  }
+  if (action.type === 'UPDATE_ADDRESS_BOOK_ENTRIES') {
+    const { entries } = action.content as UpdateAddressBookEntriesContent;
+    for (const { id, ...changes } of entries) {
+      const entry = db.addressBook.find((e) => e.vaultId === action.vaultId && e.id === id);
+      if (entry) Object.assign(entry, changes, { updatedAt: now() });
+    }
+  }
+  if (action.type === 'DELETE_ADDRESS_BOOK_ENTRIES') {
+    const { entryIds } = action.content as DeleteAddressBookEntriesContent;
+    db.addressBook = db.addressBook.filter(
+      (e) => e.vaultId !== action.vaultId || !entryIds.includes(e.id),
+    );
+  }
+};
+
+export const listAddressBook = (req: MockRequest): MockResult => {
+  const [vaultId] = req.params;
+  requireRole(req, vaultId);
+  return ok(
+    db.addressBook
+      .filter((e) => e.vaultId === vaultId)
+      .sort((a, b) => a.name.localeCompare(b.name)),
+  );
+};
+
+export const createAddressBookEntry = (req: MockRequest): MockResult => {
+  const [vaultId] = req.params;
+  requireAddressBookManager(req, vaultId);
+  const entry = readAddressBookEntry(req, vaultId);
+  const content: CreateAddressBookEntriesContent = { entries: [entry] };
+  return created(initiateAction(req, vaultId, 'CREATE_ADDRESS_BOOK_ENTRIES', content));
+};
+
+export const updateAddressBookEntry = (req: MockRequest): MockResult => {
+  const [vaultId, entryId] = req.params;
+  requireAddressBookManager(req, vaultId);
+  findAddressBookEntry(vaultId, entryId);
+  requireNoPendingChange(vaultId, entryId);
+  const entry = readAddressBookEntry(req, vaultId, entryId);
+  const content: UpdateAddressBookEntriesContent = { entries: [{ id: entryId, ...entry }] };
+  return created(initiateAction(req, vaultId, 'UPDATE_ADDRESS_BOOK_ENTRIES', content));
+};
+
+export const deleteAddressBookEntry = (req: MockRequest): MockResult => {
+  const [vaultId, entryId] = req.params;
+  requireAddressBookManager(req, vaultId);
+  findAddressBookEntry(vaultId, entryId);
+  requireNoPendingChange(vaultId, entryId);
+  const content: DeleteAddressBookEntriesContent = { entryIds: [entryId] };
+  return created(initiateAction(req, vaultId, 'DELETE_ADDRESS_BOOK_ENTRIES', content));
+};
@@ -0,0 +1,129 @@
+import { formatUnits } from '../utils/amount';
+import { MOCK_ASSETS, convertValue } from './fixtures';
+import { currencyParam, first, invalid, ok, type MockRequest, type MockResult } from './http';
+import { db, findWallet, requireRole } from './store';
+import type {
+  BalanceHistoryPoint,
+  BalanceHistoryRange,
+  BalanceHistorySeries,
+  FiatCurrency,
+  Network,
+  Transaction,
+  WalletBalance,
+} from '../types';
+
+const HOUR = 3600000;
+const DAY = 24 * HOUR;
+
+// Points per range, ending at the current balance
+const RANGE_STEPS: Record<BalanceHistoryRange, { count: number; step: number }> = {
+  '24h': { count: 24, step: HOUR },
+  '7d': { count: 28, step: 6 * HOUR },
+  '30d': { count: 30, step: DAY },
+  '1y': { count: 52, step: 7 * DAY },
+};
+
+const rangeParam = (req: MockRequest): BalanceHistoryRange => {
+  const range = first(req, 'range') ?? '';
+  if (!(range in RANGE_STEPS)) throw invalid(`Unsupported range "${range}"`);
+  return range as BalanceHistoryRange;
+};
+
+const timestampsFor = (range: BalanceHistoryRange): number[] => {
+  const { count, step } = RANGE_STEPS[range];
+  const end = Date.now();
+  return Array.from({ length: count + 1 }, (_, i) => end - (count - i) * step);
+};
+
+const assetNetwork = (assetId: string): Network =>
+  (Object.keys(MOCK_ASSETS) as Network[]).find((n) => MOCK_ASSETS[n].assetId === assetId)!;
+
+// A slow drift plus an intraday wobble, pinned to today's price at `now`
+const priceDrift = (assetId: string, time: number): number => {
+  const seed = assetId.charCodeAt(0);
+  return 0.08 * Math.sin(time / (9 * DAY) + seed) + 0.015 * Math.sin(time / (11 * HOUR) + seed);
+};
+
+const usdPriceAt = (network: Network, time: number, now: number): number => {
+  const { assetId, usdPrice } = MOCK_ASSETS[network];
+  return usdPrice * (1 + priceDrift(assetId, time) - priceDrift(assetId, now));
+};
+
+// How much a settled transaction moved its wallet's balance, in base units
+const settledDelta = (t: Transaction): bigint =>
+  t.direction === 'INCOMING'
+    ? BigInt(t.amount.rawValue)
+    : -(BigInt(t.amount.rawValue) + BigInt(t.fee.rawValue));
+
+/**
+ * Walk the wallet's settled transactions back from its current balance, so
+ * the history ends exactly at what `walletBalances` reports today.
+ */
+const rawValuesAt = (balance: WalletBalance, timestamps: number[]): bigint[] => {
+  const settled = db.transactions.filter(
+    (t) =>
+      t.walletId === balance.walletId &&
+      t.amount.assetId === balance.assetId &&
+      t.status === 'COMPLETED',
+  );
+  return timestamps.map((time) => {
+    const later = settled
+      .filter((t) => Date.parse(t.createdAt) > time)
+      .reduce((sum, t) => sum + settledDelta(t), 0n);
+    const rawValue = BigInt(balance.rawValue) - later;
+    return rawValue > 0n ? rawValue : 0n;
+  });
+};
+
+const buildSeries = (
+  assetId: string,
+  balances: WalletBalance[],
+  timestamps: number[],
+  currency: FiatCurrency,
+): BalanceHistorySeries => {
+  const network = assetNetwork(assetId);
+  const { decimals } = MOCK_ASSETS[network];
+  const totals = timestamps.map(() => 0n);
+  for (const balance of balances) {
+    rawValuesAt(balance, timestamps).forEach((rawValue, i) => (totals[i] += rawValue));
+  }
+  const now = timestamps[timestamps.length - 1];
+  const points: BalanceHistoryPoint[] = totals.map((rawValue, i) => {
+    const amount = formatUnits(rawValue, decimals);
+    const usd = Number(amount) * usdPriceAt(network, timestamps[i], now);
+    return {
+      timestamp: new Date(timestamps[i]).toISOString(),
+      rawValue: rawValue.toString(),
+      amount,
+      convertedValue: convertValue({ amount: usd.toFixed(2), currencyCode: 'USD' }, currency),
+    };
+  });
+  return { assetId, points };
+};
+
+export const walletBalanceHistory = (req: MockRequest): MockResult => {
+  const [vaultId, walletId] = req.params;
+  requireRole(req, vaultId);
+  findWallet(vaultId, walletId);
+  const currency = currencyParam(req);
+  const timestamps = timestampsFor(rangeParam(req));
+  return ok(
+    db.balances
+      .filter((b) => b.walletId === walletId)
+      .map((b) => buildSeries(b.assetId, [b], timestamps, currency)),
+  );
+};
+
+export const vaultBalanceHistory = (req: MockRequest): MockResult => {
+  const [vaultId] = req.params;
+  requireRole(req, vaultId);
+  const currency = currencyParam(req);
+  const timestamps = timestampsFor(rangeParam(req));
+  const walletIds = new Set(db.wallets.filter((w) => w.vaultId === vaultId).map((w) => w.id));
+  const data = (Object.keys(MOCK_ASSETS) as Network[]).flatMap((network) => {
+    const { assetId } = MOCK_ASSETS[network];
+    const balances = db.balances.filter((b) => b.assetId === assetId && walletIds.has(b.walletId));
+    return balances.length ? [buildSeries(assetId, balances, timestamps, currency)] : [];
+  });
+  return ok(data);
+};
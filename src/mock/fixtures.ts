@@ -0,0 +1,656 @@
+import { encodeBase58, encodeSegwitAddress } from '../utils/address';
+import { formatUnits, parseUnits } from '../utils/amount';
+import type {
+  AddressBookEntry,
+  AssetAmount,
+  AuditEventType,
+  ConvertedValue,
+  FiatCurrency,
+  Network,
+  Transaction,
+  TransactionDirection,
+  TransactionStatus,
+  TransactionTimeline,
+  UserBrief,
+  Vault,
+  VaultAction,
+  VaultActionStatus,
+  VaultActionType,
+  VaultRole,
+  Wallet,
+  WalletAddress,
+  WalletBalance,
+} from '../types';
+import type { MockAuditLog, MockDatabase, MockMembership, MockUser } from './types';
+
+// Seeded timestamps count back from this instant so the data looks recent
+const BASE_TIME = Date.parse('2026-01-15T09:00:00.000Z');
+const HOUR = 3600000;
+
+export const at = (hoursAgo: number): string => new Date(BASE_TIME - hoursAgo * HOUR).toISOString();
+
+// ─── Assets ───
+
+interface MockAsset {
+  assetId: string;
+  decimals: number;
+  usdPrice: number;
+  // Flat network fee in base units, paid in the same asset
+  feeRawValue: string;
+}
+
+export const MOCK_ASSETS: Record<Network, MockAsset> = {
+  BITCOIN: { assetId: 'BTC', decimals: 8, usdPrice: 65000, feeRawValue: '2000' },
+  SOLANA: { assetId: 'SOL', decimals: 9, usdPrice: 150, feeRawValue: '5000' },
+};
+
+// Stored converted values are in USD; these rates convert them per request
+export const MOCK_FX_RATES: Record<FiatCurrency, number> = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  JPY: 151.4,
+  CHF: 0.88,
+};
+
+export const convertValue = (value: ConvertedValue, currency: FiatCurrency): ConvertedValue => {
+  if (currency === value.currencyCode) return value;
+  // Round to the currency's minor unit, e.g. whole yen
+  const { maximumFractionDigits } = new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+  }).resolvedOptions();
+  const amount = (Number(value.amount) * MOCK_FX_RATES[currency]).toFixed(maximumFractionDigits);
+  return { amount, currencyCode: currency };
+};
+
+// Deterministic pseudo-random characters, so addresses are stable across reloads
+const pseudoRandom = (seed: string, alphabet: string, length: number): string => {
+  let state = 0;
+  for (const char of seed) state = (state * 31 + char.charCodeAt(0)) >>> 0;
+  let out = '';
+  for (let i = 0; i < length; i++) {
+    state = (state * 1103515245 + 12345) >>> 0;
+    out += alphabet[(state >>> 16) % alphabet.length];
+  }
+  return out;
+};
+
+export const mockTxHash = (seed: string): string => pseudoRandom(seed, '0123456789abcdef', 64);
+
+// Addresses are encoded from pseudo-random keys so they pass client-side validation
+const pseudoRandomBytes = (seed: string, length: number): Uint8Array =>
+  Uint8Array.from(pseudoRandom(seed, '0123456789abcdef', length * 2).match(/../g) ?? [], (hex) =>
+    parseInt(hex, 16),
+  );
+
+export const mockAddress = (
+  walletId: string,
+  network: Network,
+  accountIndex: number,
+  index: number,
+): WalletAddress => {
+  const seed = `${walletId}:${network}:${index}`;
+  return network === 'BITCOIN'
+    ? {
+        id: `addr-${walletId}-btc-${index}`,
+        network,
+        address: {
+          address: encodeSegwitAddress('bc', 0, pseudoRandomBytes(seed, 20)),
+          addressType: 'P2WPKH',
+        },
+        derivationPath: `m/84'/0'/${accountIndex}'/0/${index}`,
+      }
+    : {
+        id: `addr-${walletId}-sol-${index}`,
+        network,
+        address: {
+          address: encodeBase58(pseudoRandomBytes(seed, 32)),
+          addressType: 'ED25519',
+        },
+        derivationPath: `m/44'/501'/${accountIndex}'/${index}'`,
+      };
+};
+
+export const mockBalance = (
+  wallet: Pick<Wallet, 'id' | 'name'>,
+  network: Network,
+  rawValue: string,
+): WalletBalance => {
+  const { assetId, decimals, usdPrice } = MOCK_ASSETS[network];
+  const amount = formatUnits(rawValue, decimals);
+  return {
+    assetId,
+    rawValue,
+    amount,
+    convertedValue: { amount: (Number(amount) * usdPrice).toFixed(2), currencyCode: 'USD' },
+    walletId: wallet.id,
+    walletName: wallet.name,
+  };
+};
+
+// ─── Users ───
+
+const PERSONAS: MockUser[] = [
+  {
+    id: 'u-alice',
+    keycloakUserId: 'kc-alice',
+    email: 'alice@example.com',
+    name: 'Alice Nguyen',
+    username: 'alice',
+  },
+  {
+    id: 'u-bob',
+    keycloakUserId: 'kc-bob',
+    email: 'bob@example.com',
+    name: 'Bob Tran',
+    username: 'bob',
+  },
+  {
+    id: 'u-carol',
+    keycloakUserId: 'kc-carol',
+    email: 'carol@example.com',
+    name: 'Carol Le',
+    username: 'carol',
+  },
+  {
+    id: 'u-dave',
+    keycloakUserId: 'kc-dave',
+    email: 'dave@example.com',
+    name: 'Dave Pham',
+    username: 'dave',
+  },
+];
+
+// Enough extra members to page through the members list
+const EXTRA_MEMBER_COUNT = 24;
+
+const extraUsers = (): MockUser[] =>
+  Array.from({ length: EXTRA_MEMBER_COUNT }, (_, i) => ({
+    id: `u-member-${i + 1}`,
+    keycloakUserId: `kc-member-${i + 1}`,
+    email: `member${i + 1}@example.com`,
+    name: `Member ${i + 1}`,
+    username: `member${i + 1}`,
+  }));
+
+export const mockAssetAmount = (network: Network, rawValue: bigint): AssetAmount => {
+  const { assetId, amount, convertedValue } = mockBalance(
+    { id: '', name: '' },
+    network,
+    rawValue.toString(),
+  );
+  return { assetId, rawValue: rawValue.toString(), amount, convertedValue };
+};
+
+export const toUserBrief = (user: MockUser): UserBrief => ({
+  id: user.id,
+  name: user.name,
+  email: user.email,
+});
+
+// ─── Vaults ───
+
+const vault = (id: string, name: string, domain: string): Vault => ({
+  id,
+  name,
+  businessEmail: `treasury@${domain}`,
+  phone: '+1 415 555 0100',
+  websiteUrl: `https://${domain}`,
+  tssCoordinatorEndpoint: `https://tss.${domain}`,
+  activated: true,
+  updatedAt: at(24 * 30),
+});
+
+// Alice is OWNER of Acme, SIGNER of Beta and VIEWER of Gamma, so one login
+// exercises every role-dependent screen
+const VAULT_ROLES: Array<[vaultId: string, userId: string, role: VaultRole]> = [
+  ['v-acme', 'u-alice', 'OWNER'],
+  ['v-acme', 'u-bob', 'ADMIN'],
+  ['v-acme', 'u-carol', 'SIGNER'],
+  ['v-acme', 'u-dave', 'VIEWER'],
+  ['v-beta', 'u-bob', 'OWNER'],
+  ['v-beta', 'u-carol', 'ADMIN'],
+  ['v-beta', 'u-alice', 'SIGNER'],
+  ['v-gamma', 'u-carol', 'OWNER'],
+  ['v-gamma', 'u-alice', 'VIEWER'],
+];
+
+// ─── Wallets ───
+
+const WALLET_NAMES = ['Operations', 'Payroll', 'Cold Storage', 'Treasury', 'Settlements'];
+
+const buildWallets = (
+  vaultId: string,
+  count: number,
+  db: Pick<MockDatabase, 'addresses' | 'balances'>,
+): Wallet[] =>
+  Array.from({ length: count }, (_, i) => {
+    const id = `w-${vaultId.slice(2)}-${i + 1}`;
+    const name = `${WALLET_NAMES[i % WALLET_NAMES.length]} ${Math.floor(i / WALLET_NAMES.length) + 1}`;
+    const networks: Network[] =
+      i % 3 === 0 ? ['BITCOIN', 'SOLANA'] : i % 3 === 1 ? ['BITCOIN'] : ['SOLANA'];
+    db.addresses[id] = networks.map((network) => mockAddress(id, network, i, 0));
+    const balances = networks.map((network) => {
+      // Whole units vary per wallet; the raw value is in the smallest unit
+      const units = network === 'BITCOIN' ? (i % 5) * 0.25 + 0.1 : (i % 7) * 12 + 3;
+      const rawValue = String(Math.round(units * 10 ** MOCK_ASSETS[network].decimals));
+      return mockBalance({ id, name }, network, rawValue);
+    });
+    db.balances.push(...balances);
+    const total = balances.reduce((sum, b) => sum + Number(b.convertedValue.amount), 0);
+    return {
+      id,
+      vaultId,
+      name,
+      networks,
+      convertedValue: { amount: total.toFixed(2), currencyCode: 'USD' },
+      addresses: db.addresses[id].map((address) => address.address),
+      balancedAssets: balances.map((b) => b.assetId),
+      accountIndex: i,
+      archived: i % 11 === 10,
+      createdAt: at(24 * (count - i)),
+      updatedAt: at(24 * (count - i)),
+    };
+  });
+
+// ─── Audit Logs ───
+
+const AUDIT_EVENTS: AuditEventType[] = [
+  'CREATE_WALLET',
+  'INITIATE_VAULT_ACTION',
+  'APPROVE_VAULT_ACTION',
+  'UPDATE_VAULT_INFO',
+  'INITIATE_TRANSACTION',
+  'SIGN_TRANSACTION',
+  'REJECT_VAULT_ACTION',
+];
+
+const buildAuditLogs = (vaultId: string, actors: MockUser[], count: number): MockAuditLog[] =>
+  Array.from({ length: count }, (_, i) => {
+    const actor = actors[i % actors.length];
+    const serviceAccount = i % 9 === 8;
+    return {
+      id: `log-${vaultId.slice(2)}-${i + 1}`,
+      vaultId,
+      createdAt: at(i * 5 + 1),
+      actor: serviceAccount
+        ? { type: 'SERVICE_ACCOUNT', parameters: { id: 'svc-tss', name: 'TSS Coordinator' } }
+        : { type: 'USER', parameters: { id: actor.id, name: actor.name, email: actor.email } },
+      eventType: AUDIT_EVENTS[i % AUDIT_EVENTS.length],
+      payload: { vaultId, sequence: i + 1 },
+      ipAddress: serviceAccount ? '10.0.0.5' : `203.0.113.${(i % 50) + 10}`,
+    };
+  });
+
+// ─── Vault Actions ───
+
+const ACTION_TYPES: VaultActionType[] = [
+  'RENAME_WALLET',
+  'INVITE_MEMBERS',
+  'CHANGE_ADMIN_QUORUM_SIZE',
+  'UPDATE_MEMBER_ROLES',
+  'ARCHIVE_WALLET',
+  'UPDATE_VAULT_INFO',
+];
+
+const ACTION_STATUSES: VaultActionStatus[] = [
+  'PENDING_APPROVAL',
+  'PENDING_APPROVAL',
+  'COMPLETED',
+  'REJECTED',
+  'CANCELED',
+  'PENDING_SIGNATURE',
+  'EXPIRED',
+];
+
+const buildVaultActions = (
+  vaultId: string,
+  initiators: MockUser[],
+  approvers: MockUser[],
+  count: number,
+): VaultAction[] =>
+  Array.from({ length: count }, (_, i) => {
+    const id = `va-${vaultId.slice(2)}-${i + 1}`;
+    const type = ACTION_TYPES[i % ACTION_TYPES.length];
+    const status = ACTION_STATUSES[i % ACTION_STATUSES.length];
+    const initiator = initiators[i % initiators.length];
+    const createdAt = at(i * 7 + 2);
+    const responded = status === 'PENDING_APPROVAL' ? 0 : status === 'REJECTED' ? 1 : 2;
+    const approvals = approvers
+      .filter((approver) => approver.id !== initiator.id)
+      .slice(0, responded)
+      .map((approver, j) => ({
+        id: `${id}-approval-${j + 1}`,
+        vaultActionId: id,
+        approver: toUserBrief(approver),
+        approved: status !== 'REJECTED',
+        reason: status === 'REJECTED' ? 'Not needed right now' : undefined,
+        createdAt: at(i * 7 + 1),
+      }));
+    return {
+      id,
+      vaultId,
+      initiator: toUserBrief(initiator),
+      type,
+      status,
+      requiredApprovers: 2,
+      createdAt,
+      updatedAt: status === 'PENDING_APPROVAL' ? createdAt : at(i * 7 + 1),
+      approvals,
+      content:
+        type === 'CHANGE_ADMIN_QUORUM_SIZE'
+          ? { newQuorumSize: 3 }
+          : type === 'RENAME_WALLET'
+            ? { walletId: `w-${vaultId.slice(2)}-1`, name: `Renamed wallet ${i + 1}` }
+            : {},
+      timelines: [
+        {
+          id: `${id}-timeline-1`,
+          vaultActionId: id,
+          vaultActionStatus: 'PENDING_APPROVAL' as const,
+          createdAt,
+          description: 'Action created',
+        },
+        ...(status === 'PENDING_APPROVAL'
+          ? []
+          : [
+              {
+                id: `${id}-timeline-2`,
+                vaultActionId: id,
+                vaultActionStatus: status,
+                createdAt: at(i * 7 + 1),
+              },
+            ]),
+      ],
+    };
+  });
+
+// ─── Transactions ───
+
+// Outgoing transactions hold their amount and fee until they settle or are
+// abandoned
+const LOCKING_STATUSES: TransactionStatus[] = [
+  'PENDING_APPROVAL',
+  'PENDING_SIGNATURE',
+  'BROADCASTING',
+  'CONFIRMING',
+];
+
+export const lockedRawValue = (db: MockDatabase, walletId: string, assetId: string): bigint =>
+  db.transactions
+    .filter(
+      (t) =>
+        t.walletId === walletId &&
+        t.direction === 'OUTGOING' &&
+        t.amount.assetId === assetId &&
+        LOCKING_STATUSES.includes(t.status),
+    )
+    .reduce((sum, t) => sum + BigInt(t.amount.rawValue) + BigInt(t.fee.rawValue), 0n);
+
+// Keep a balance's locked fields in step with the wallet's open transactions
+export const syncLockedBalance = (db: MockDatabase, balance: WalletBalance): void => {
+  const network = (Object.keys(MOCK_ASSETS) as Network[]).find(
+    (n) => MOCK_ASSETS[n].assetId === balance.assetId,
+  );
+  const locked = lockedRawValue(db, balance.walletId, balance.assetId);
+  if (!network || locked === 0n) {
+    delete balance.lockedAmount;
+    delete balance.lockedConvertedValue;
+    return;
+  }
+  const { amount, convertedValue } = mockAssetAmount(network, locked);
+  balance.lockedAmount = amount;
+  balance.lockedConvertedValue = convertedValue;
+};
+
+const OUTGOING_STATUSES: TransactionStatus[] = [
+  'PENDING_APPROVAL',
+  'COMPLETED',
+  'PENDING_SIGNATURE',
+  'COMPLETED',
+  'REJECTED',
+  'CONFIRMING',
+  'CANCELED',
+  'PENDING_APPROVAL',
+  'FAILED',
+  'BROADCASTING',
+];
+
+// The happy path; rejected, cancelled and failed transactions branch off it
+const STATUS_PATH: TransactionStatus[] = [
+  'PENDING_APPROVAL',
+  'PENDING_SIGNATURE',
+  'BROADCASTING',
+  'CONFIRMING',
+  'COMPLETED',
+];
+
+const TIMELINE_DESCRIPTIONS: Partial<Record<TransactionStatus, string>> = {
+  PENDING_APPROVAL: 'Transaction initiated',
+  PENDING_SIGNATURE: 'Quorum reached',
+  BROADCASTING: 'Signed by the TSS coordinator',
+  CONFIRMING: 'Seen on chain',
+  COMPLETED: 'Confirmed',
+  REJECTED: 'Rejected',
+  CANCELED: 'Cancelled by initiator',
+  FAILED: 'Broadcast failed',
+};
+
+const statusHistory = (
+  direction: TransactionDirection,
+  status: TransactionStatus,
+): TransactionStatus[] => {
+  if (direction === 'INCOMING') return STATUS_PATH.slice(3, STATUS_PATH.indexOf(status) + 1);
+  if (STATUS_PATH.includes(status)) return STATUS_PATH.slice(0, STATUS_PATH.indexOf(status) + 1);
+  if (status === 'FAILED') return [...STATUS_PATH.slice(0, 3), status];
+  return ['PENDING_APPROVAL', status];
+};
+
+const buildTransactions = (
+  vaultId: string,
+  db: Pick<MockDatabase, 'wallets' | 'addresses'>,
+  initiators: MockUser[],
+  approvers: MockUser[],
+  count: number,
+): Transaction[] => {
+  const wallets = db.wallets.filter((w) => w.vaultId === vaultId && !w.archived);
+  return Array.from({ length: count }, (_, i) => {
+    const id = `tx-${vaultId.slice(2)}-${i + 1}`;
+    const wallet = wallets[i % wallets.length];
+    const network = wallet.networks[i % wallet.networks.length];
+    const direction: TransactionDirection = i % 3 === 1 ? 'INCOMING' : 'OUTGOING';
+    const status =
+      direction === 'INCOMING'
+        ? i % 5 === 0
+          ? 'CONFIRMING'
+          : 'COMPLETED'
+        : OUTGOING_STATUSES[i % OUTGOING_STATUSES.length];
+    const initiator = initiators[i % initiators.length];
+    const ownAddress = db.addresses[wallet.id].find((a) => a.network === network)!.address.address;
+    const external = mockAddress(`ext-${id}`, network, 0, i).address.address;
+    const { decimals, feeRawValue } = MOCK_ASSETS[network];
+    // 0.001–0.009 BTC or 0.05–0.45 SOL
+    const step = parseUnits(network === 'BITCOIN' ? '0.001' : '0.05', decimals)!;
+    const rawAmount = step * BigInt((i % 9) + 1);
+    const createdAt = at(i * 6 + 3);
+    const history = statusHistory(direction, status);
+    const responded =
+      direction === 'INCOMING' || history.length === 1 || status === 'CANCELED'
+        ? 0
+        : status === 'REJECTED'
+          ? 1
+          : 2;
+    const approvals = approvers
+      .filter((approver) => approver.id !== initiator.id)
+      .slice(0, responded)
+      .map((approver, j) => ({
+        id: `${id}-approval-${j + 1}`,
+        transactionId: id,
+        approver: toUserBrief(approver),
+        approved: status !== 'REJECTED',
+        reason: status === 'REJECTED' ? 'Destination not on the allow list' : undefined,
+        createdAt: at(i * 6 + 2),
+      }));
+    const timelines: TransactionTimeline[] = history.map((step, j) => ({
+      id: `${id}-timeline-${j + 1}`,
+      transactionId: id,
+      transactionStatus: step,
+      createdAt: at(i * 6 + 3 - j * 0.5),
+      description:
+        direction === 'INCOMING' && j === 0
+          ? 'Incoming transfer detected'
+          : TIMELINE_DESCRIPTIONS[step],
+    }));
+    const broadcast = history.includes('BROADCASTING') || direction === 'INCOMING';
+    return {
+      id,
+      vaultId,
+      walletId: wallet.id,
+      walletName: wallet.name,
+      network,
+      direction,
+      amount: mockAssetAmount(network, rawAmount),
+      fee: mockAssetAmount(network, BigInt(feeRawValue)),
+      sourceAddress: direction === 'OUTGOING' ? ownAddress : external,
+      destinationAddress: direction === 'OUTGOING' ? external : ownAddress,
+      status,
+      confirmations:
+        status === 'COMPLETED'
+          ? network === 'BITCOIN'
+            ? 6 + (i % 20)
+            : 32
+          : status === 'CONFIRMING'
+            ? (i % 3) + 1
+            : 0,
+      note: i % 4 === 0 ? `Invoice #${1000 + i}` : null,
+      txHash: broadcast ? mockTxHash(id) : null,
+      initiator: direction === 'OUTGOING' ? toUserBrief(initiator) : null,
+      requiredApprovers: direction === 'OUTGOING' ? 2 : 0,
+      approvals,
+      timelines,
+      createdAt,
+      updatedAt: timelines[timelines.length - 1].createdAt,
+    };
+  });
+};
+
+// ─── Address Book ───
+
+const COUNTERPARTIES = [
+  'Exchange Deposit',
+  'Payroll Provider',
+  'Cold Vault',
+  'Market Maker',
+  'Hosting Vendor',
+  'Audit Firm',
+  'Grant Recipient',
+];
+
+const buildAddressBook = (vaultId: string, count: number): AddressBookEntry[] =>
+  Array.from({ length: count }, (_, i) => {
+    const network: Network = i % 2 === 0 ? 'BITCOIN' : 'SOLANA';
+    return {
+      id: `ab-${vaultId.slice(2)}-${i + 1}`,
+      vaultId,
+      name: COUNTERPARTIES[i % COUNTERPARTIES.length],
+      network,
+      address: mockAddress(`ab-${vaultId}`, network, 0, i).address.address,
+      createdAt: at(24 * (40 - i)),
+      updatedAt: at(24 * (40 - i)),
+    };
+  });
+
+// Seeded notes were added shortly after the transaction, by its initiator or
+// the first vault member for incoming transfers
+const buildNoteLogs = (
+  vaultId: string,
+  transactions: Transaction[],
+  members: MockUser[],
+): MockAuditLog[] =>
+  transactions
+    .filter((t) => t.vaultId === vaultId && t.note)
+    .map((t) => {
+      const editor = members.find((m) => m.id === t.initiator?.id) ?? members[0];
+      return {
+        id: `log-note-${t.id}`,
+        vaultId: t.vaultId,
+        createdAt: new Date(Date.parse(t.createdAt) + 15 * 60 * 1000).toISOString(),
+        actor: {
+          type: 'USER',
+          parameters: { id: editor.id, name: editor.name, email: editor.email },
+        },
+        eventType: 'UPDATE_TRANSACTION_NOTE',
+        payload: { transactionId: t.id, previousNote: null, note: t.note },
+        ipAddress: '203.0.113.20',
+      };
+    });
+
+/**
+ * Build a fresh copy of the seeded data. Every call returns new objects, so
+ * mutations made against one database never leak into the next.
+ */
+export const createMockDatabase = (): MockDatabase => {
+  const users = [...PERSONAS, ...extraUsers()];
+  const memberships: MockMembership[] = VAULT_ROLES.map(([vaultId, userId, role], i) => ({
+    vaultId,
+    userId,
+    role,
+    joinedAt: at(24 * (60 - i)),
+  }));
+  extraUsers().forEach((user, i) =>
+    memberships.push({
+      vaultId: 'v-acme',
+      userId: user.id,
+      role: i % 4 === 0 ? 'SIGNER' : 'VIEWER',
+      joinedAt: at(24 * (40 - i)),
+    }),
+  );
+
+  const db: MockDatabase = {
+    users,
+    vaults: [
+      vault('v-acme', 'Acme Treasury', 'acme.example.com'),
+      vault('v-beta', 'Beta Fund', 'beta.example.com'),
+      vault('v-gamma', 'Gamma Reserve', 'gamma.example.com'),
+    ],
+    memberships,
+    wallets: [],
+    addresses: {},
+    balances: [],
+    auditLogs: [],
+    vaultActions: [],
+    transactions: [],
+    addressBook: [],
+  };
+
+  const [alice, bob, carol, dave] = PERSONAS;
+  db.wallets = [
+    ...buildWallets('v-acme', 25, db),
+    ...buildWallets('v-beta', 4, db),
+    ...buildWallets('v-gamma', 2, db),
+  ];
+  db.auditLogs = [
+    ...buildAuditLogs('v-acme', [alice, bob, carol, dave], 45),
+    ...buildAuditLogs('v-beta', [bob, carol, alice], 8),
+    ...buildAuditLogs('v-gamma', [carol], 3),
+  ];
+  db.vaultActions = [
+    ...buildVaultActions('v-acme', [bob, alice, carol], [alice, bob, carol], 28),
+    ...buildVaultActions('v-beta', [carol, bob], [bob, carol, alice], 6),
+    ...buildVaultActions('v-gamma', [carol], [carol], 2),
+  ];
+  db.transactions = [
+    ...buildTransactions('v-acme', db, [alice, bob, carol], [alice, bob, carol], 30),
+    ...buildTransactions('v-beta', db, [bob, alice], [bob, carol, alice], 10),
+    ...buildTransactions('v-gamma', db, [carol], [carol], 4),
+  ];
+  db.auditLogs.push(
+    ...buildNoteLogs('v-acme', db.transactions, [alice, bob, carol]),
+    ...buildNoteLogs('v-beta', db.transactions, [bob, alice]),
+    ...buildNoteLogs('v-gamma', db.transactions, [carol]),
+  );
+  db.addressBook = [...buildAddressBook('v-acme', 7), ...buildAddressBook('v-beta', 2)];
+  db.balances.forEach((balance) => syncLockedBalance(db, balance));
+  return db;
+};
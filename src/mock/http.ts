@@ -0,0 +1,87 @@
+import { isFiatCurrency } from '../utils/currency';
+import type { FiatCurrency } from '../types';
+import type { MockUser } from './types';
+
+// Request and response plumbing shared by the mock route handlers
+
+export interface MockResult {
+  status: number;
+  body?: unknown;
+}
+
+export interface MockRequest {
+  user: MockUser;
+  params: string[];
+  query: Record<string, string[]>;
+  body: Record<string, unknown>;
+}
+
+export class MockError extends Error {
+  constructor(
+    readonly status: number,
+    readonly type: string,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+export const ok = (data?: unknown, extra?: Record<string, unknown>): MockResult => ({
+  status: 200,
+  body: { data, ...extra },
+});
+
+export const created = (data: unknown): MockResult => ({ status: 201, body: { data } });
+
+// The change was queued as a vault action, returned as the body
+export const accepted = (data: unknown): MockResult => ({ status: 202, body: { data } });
+
+export const noContent = (): MockResult => ({ status: 204 });
+
+export const forbidden = (message: string) => new MockError(403, 'FORBIDDEN', message);
+
+export const notFound = (message: string) => new MockError(404, 'NOT_FOUND', message);
+
+export const invalid = (message: string) => new MockError(400, 'VALIDATION_ERROR', message);
+
+export const conflict = (message: string) => new MockError(409, 'CONFLICT', message);
+
+export const parseQuery = (queryString: string): Record<string, string[]> => {
+  const query: Record<string, string[]> = {};
+  for (const pair of queryString.split('&')) {
+    if (!pair) continue;
+    const [key, value = ''] = pair.split('=').map((s) => decodeURIComponent(s.replace(/\+/g, ' ')));
+    (query[key] ??= []).push(value);
+  }
+  return query;
+};
+
+export const first = (req: MockRequest, key: string): string | undefined => req.query[key]?.[0];
+
+export const numberParam = (req: MockRequest, key: string, fallback: number): number => {
+  const value = Number(first(req, key));
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+};
+
+// The `currency` query parameter accepted by wallet and balance reads
+export const currencyParam = (req: MockRequest): FiatCurrency => {
+  const currency = first(req, 'currency') ?? 'USD';
+  if (!isFiatCurrency(currency)) throw invalid(`Unsupported currency "${currency}"`);
+  return currency;
+};
+
+export const contains = (value: string, search: string | undefined): boolean =>
+  !search || value.toLowerCase().includes(search.toLowerCase());
+
+export const paginate = <T>(items: T[], page: number, limit: number) => ({
+  slice: items.slice((page - 1) * limit, page * limit),
+  totalCount: items.length,
+  totalPage: Math.max(Math.ceil(items.length / limit), 1),
+});
+
+export const byCreatedAt =
+  (order: string | undefined) =>
+  (a: { createdAt: string }, b: { createdAt: string }): number =>
+    order === 'ASC'
+      ? a.createdAt.localeCompare(b.createdAt)
+      : b.createdAt.localeCompare(a.createdAt);
@@ -0,0 +1,804 @@
+import { apiConfig } from '../config/api';
+import { authConfig } from '../config/auth';
+import { delay } from '../services/retry';
+import { IDEMPOTENCY_KEY_HEADER } from '../services/idempotency';
+import {
+  canEditVault,
+  canManageMember,
+  canManageMembers,
+  canManageWallets,
+} from '../utils/permissions';
+import {
+  PENDING_VAULT_ACTION_STATUSES,
+  canCancelAction,
+  canRespondToAction,
+} from '../utils/vaultAction';
+import { ADDRESS_BOOK_ACTION_TYPES } from '../utils/addressBook';
+import { WALLET_ACTION_TYPES, collectPendingWalletChanges } from '../utils/walletActions';
+import {
+  MOCK_ASSETS,
+  convertValue,
+  lockedRawValue,
+  mockAddress,
+  mockAssetAmount,
+  toUserBrief,
+} from './fixtures';
+import { createMockTokens, readMockToken } from './session';
+import {
+  MockError,
+  accepted,
+  byCreatedAt,
+  conflict,
+  contains,
+  created,
+  currencyParam,
+  first,
+  forbidden,
+  invalid,
+  noContent,
+  notFound,
+  numberParam,
+  ok,
+  paginate,
+  parseQuery,
+  type MockRequest,
+  type MockResult,
+} from './http';
+import {
+  db,
+  findAction,
+  findWallet,
+  initiateAction,
+  nextId,
+  now,
+  recordAudit,
+  requireRole,
+  resetDatabase,
+} from './store';
+import { vaultBalanceHistory, walletBalanceHistory } from './balanceHistory';
+import {
+  approveTransaction,
+  cancelTransaction,
+  createTransaction,
+  estimateFee,
+  getTransaction,
+  listTransactions,
+  rejectTransaction,
+  signTransaction,
+  updateTransactionNote,
+} from './transactions';
+import {
+  createAddressBookEntry,
+  deleteAddressBookEntry,
+  executeAddressBookAction,
+  listAddressBook,
+  updateAddressBookEntry,
+} from './addressBook';
+import type {
+  AddVaultMemberRequest,
+  ArchiveWalletContent,
+  CreateWalletAddressRequest,
+  CreateWalletContent,
+  CreateWalletRequest,
+  FiatCurrency,
+  Network,
+  RejectVaultActionRequest,
+  RenameWalletContent,
+  UpdateVaultMemberRoleRequest,
+  UpdateVaultRequest,
+  UpdateWalletRequest,
+  UserData,
+  VaultAction,
+  VaultActionStatus,
+  VaultBalance,
+  VaultMember,
+  VaultRole,
+  VaultUserData,
+  Wallet,
+  WalletBalance,
+} from '../types';
+
+// Responses to state-changing requests, replayed when a retry reuses the key.
+// Keyed by user, method and path as well, so a key reused elsewhere doesn't
+// replay an unrelated response.
+const idempotentResults = new Map<string, MockResult>();
+
+/**
+ * Restore the seeded data. Useful between integration tests or to undo a
+ * demo session.
+ */
+export const resetMockBackend = (): void => {
+  resetDatabase();
+  idempotentResults.clear();
+};
+
+// ─── Sessions ───
+
+/**
+ * Issue tokens for a seeded user, standing in for the Keycloak login.
+ * Defaults to `apiConfig.mockUserEmail`.
+ */
+export const signInMockUser = (email: string = apiConfig.mockUserEmail) => {
+  const user = db.users.find((u) => u.email === email) ?? db.users[0];
+  return createMockTokens(user);
+};
+
+export const refreshMockSession = (refreshToken: string) => {
+  const session = readMockToken(refreshToken, 'Refresh');
+  const user = session && db.users.find((u) => u.keycloakUserId === session.sub);
+  return user ? createMockTokens(user) : null;
+};
+
+// ─── Permissions ───
+
+const PERMISSIONS: Record<VaultRole, string[]> = {
+  OWNER: [
+    'vault:read',
+    'vault:update',
+    'members:manage',
+    'wallets:manage',
+    'addressBook:manage',
+    'actions:respond',
+    'transactions:initiate',
+  ],
+  ADMIN: [
+    'vault:read',
+    'vault:update',
+    'members:manage',
+    'wallets:manage',
+    'addressBook:manage',
+    'actions:respond',
+    'transactions:initiate',
+  ],
+  SIGNER: ['vault:read', 'actions:respond', 'transactions:initiate'],
+  VIEWER: ['vault:read'],
+};
+
+// ─── Users & Vaults ───
+
+const getUserProfile = ({ user }: MockRequest): MockResult => {
+  const data: UserData = {
+    userId: user.id,
+    keycloakUserId: user.keycloakUserId,
+    email: user.email,
+    username: user.username,
+    emailVerified: true,
+    vaultMemberships: db.memberships
+      .filter((m) => m.userId === user.id)
+      .map((m) => ({
+        vaultId: m.vaultId,
+        vaultName: db.vaults.find((v) => v.id === m.vaultId)?.name ?? '',
+        role: m.role,
+        joinedAt: m.joinedAt,
+      })),
+  };
+  return ok(data);
+};
+
+const listVaults = ({ user }: MockRequest): MockResult =>
+  ok(
+    db.vaults.filter((v) => db.memberships.some((m) => m.vaultId === v.id && m.userId === user.id)),
+  );
+
+const getVault = (req: MockRequest): MockResult => {
+  const [vaultId] = req.params;
+  requireRole(req, vaultId);
+  return ok(db.vaults.find((v) => v.id === vaultId));
+};
+
+const updateVault = (req: MockRequest): MockResult => {
+  const [vaultId] = req.params;
+  if (!canEditVault(requireRole(req, vaultId))) {
+    throw forbidden('Only owners and admins can update vault settings');
+  }
+  const { name, businessEmail, phone, websiteUrl } = req.body as Partial<UpdateVaultRequest>;
+  if (!name?.trim() || !businessEmail?.trim() || !phone?.trim()) {
+    throw invalid('Name, business email and phone are required');
+  }
+  const vault = db.vaults.find((v) => v.id === vaultId)!;
+  Object.assign(vault, {
+    name,
+    businessEmail,
+    phone,
+    websiteUrl: websiteUrl ?? null,
+    updatedAt: now(),
+  });
+  recordAudit(vaultId, req.user, 'UPDATE_VAULT_INFO', { name, businessEmail, phone, websiteUrl });
+  return ok(vault);
+};
+
+const getVaultUser = (req: MockRequest): MockResult => {
+  const [vaultId] = req.params;
+  const role = requireRole(req, vaultId);
+  const data: VaultUserData = {
+    userId: req.user.id,
+    keycloakUserId: req.user.keycloakUserId,
+    email: req.user.email,
+    username: req.user.username,
+    emailVerified: true,
+    vaultId,
+    role,
+    permissions: PERMISSIONS[role],
+  };
+  return ok(data);
+};
+
+// ─── Members ───
+
+const toMember = (vaultId: string, userId: string): VaultMember => {
+  const membership = db.memberships.find((m) => m.vaultId === vaultId && m.userId === userId)!;
+  const user = db.users.find((u) => u.id === userId)!;
+  return {
+    userId,
+    name: user.name,
+    email: user.email,
+    role: membership.role,
+    joinedAt: membership.joinedAt,
+  };
+};
+
+const listMembers = (req: MockRequest): MockResult => {
+  const [vaultId] = req.params;
+  requireRole(req, vaultId);
+  const page = numberParam(req, 'page', 1);
+  const pageSize = numberParam(req, 'pageSize', 20);
+  const search = first(req, 'search');
+  const members = db.memberships
+    .filter((m) => m.vaultId === vaultId)
+    .map((m) => toMember(vaultId, m.userId))
+    .filter((m) => contains(m.name, search) || contains(m.email, search));
+  const { slice, totalCount, totalPage } = paginate(members, page, pageSize);
+  return ok({
+    vaultId,
+    members: slice,
+    pagination: { page, pageSize, totalItems: totalCount, totalPages: totalPage },
+  });
+};
+
+/**
+ * Members can only be managed by owners and admins, and only when both the
+ * member's current and new role are within the caller's reach.
+ */
+const requireMemberManager = (req: MockRequest, vaultId: string, ...roles: VaultRole[]): void => {
+  const role = requireRole(req, vaultId);
+  if (!canManageMembers(role)) throw forbidden('Only owners and admins can manage members');
+  if (!roles.every((target) => canManageMember(role, target))) {
+    throw forbidden('You cannot manage members with a higher role than your own');
+  }
+};
+
+const addMember = (req: MockRequest): MockResult => {
+  const [vaultId] = req.params;
+  const { email, role } = req.body as Partial<AddVaultMemberRequest>;
+  if (!email?.trim() || !role || !(role in PERMISSIONS)) {
+    throw invalid('A valid email and role are required');
+  }
+  requireMemberManager(req, vaultId, role);
+  let user = db.users.find((u) => u.email.toLowerCase() === email.trim().toLowerCase());
+  if (!user) {
+    const username = email.trim().split('@')[0];
+    user = {
+      id: nextId('u'),
+      keycloakUserId: nextId('kc'),
+      email: email.trim(),
+      name: username,
+      username,
+    };
+    db.users.push(user);
+  }
+  const userId = user.id;
+  if (db.memberships.some((m) => m.vaultId === vaultId && m.userId === userId)) {
+    throw conflict('This user is already a member of the vault');
+  }
+  db.memberships.push({ vaultId, userId, role, joinedAt: now() });
+  return created({ vaultId, userId, role, message: 'Member added' });
+};
+
+const updateMemberRole = (req: MockRequest): MockResult => {
+  const [vaultId, userId] = req.params;
+  const { role } = req.body as Partial<UpdateVaultMemberRoleRequest>;
+  if (!role || !(role in PERMISSIONS)) throw invalid('A valid role is required');
+  const membership = db.memberships.find((m) => m.vaultId === vaultId && m.userId === userId);
+  if (!membership) throw notFound('Member not found');
+  if (userId === req.user.id) throw forbidden('You cannot change your own role');
+  requireMemberManager(req, vaultId, membership.role, role);
+  membership.role = role;
+  return ok({ vaultId, userId, role, message: 'Role updated' });
+};
+
+const deleteMember = (req: MockRequest): MockResult => {
+  const [vaultId, userId] = req.params;
+  const membership = db.memberships.find((m) => m.vaultId === vaultId && m.userId === userId);
+  if (!membership) throw notFound('Member not found');
+  if (userId === req.user.id) throw forbidden('You cannot remove yourself from the vault');
+  requireMemberManager(req, vaultId, membership.role);
+  db.memberships = db.memberships.filter((m) => m !== membership);
+  return ok({ vaultId, userId, message: 'Member removed' });
+};
+
+// ─── Wallets ───
+
+const requireWalletManager = (req: MockRequest, vaultId: string): void => {
+  if (!canManageWallets(requireRole(req, vaultId))) {
+    throw forbidden('Only owners and admins can manage wallets');
+  }
+};
+
+const listWallets = (req: MockRequest): MockResult => {
+  const [vaultId] = req.params;
+  requireRole(req, vaultId);
+  const currency = currencyParam(req);
+  const page = numberParam(req, 'page', 1);
+  const limit = numberParam(req, 'limit', 20);
+  const search = first(req, 'search');
+  const network = first(req, 'network');
+  const sortBy = first(req, 'sortBy');
+  const direction = first(req, 'sortOrder') === 'asc' ? 1 : -1;
+  const wallets = db.wallets
+    .filter((w) => w.vaultId === vaultId && contains(w.name, search))
+    .filter((w) => !network || w.networks.includes(network as Network))
+    .sort((a, b) =>
+      sortBy === 'name'
+        ? a.name.localeCompare(b.name) * direction
+        : sortBy === 'convertedValue'
+          ? (Number(a.convertedValue.amount) - Number(b.convertedValue.amount)) * direction
+          : a.createdAt.localeCompare(b.createdAt) * direction,
+    );
+  return ok(
+    paginate(wallets, page, limit).slice.map((w) => ({
+      ...w,
+      convertedValue: convertValue(w.convertedValue, currency),
+    })),
+  );
+};
+
+const getWallet = (req: MockRequest): MockResult => {
+  const [vaultId, walletId] = req.params;
+  requireRole(req, vaultId);
+  const wallet = findWallet(vaultId, walletId);
+  const currency = currencyParam(req);
+  return ok({ ...wallet, convertedValue: convertValue(wallet.convertedValue, currency) });
+};
+
+const pendingWalletChanges = (vaultId: string) =>
+  collectPendingWalletChanges(
+    db.vaultActions.filter(
+      (a) =>
+        a.vaultId === vaultId &&
+        WALLET_ACTION_TYPES.includes(a.type) &&
+        PENDING_VAULT_ACTION_STATUSES.includes(a.status),
+    ),
+  );
+
+const requireNoPendingWalletChange = (vaultId: string, walletId: string): void => {
+  if (pendingWalletChanges(vaultId).byWalletId[walletId]) {
+    throw conflict('This wallet already has a pending change');
+  }
+};
+
+// Wallet changes go through vault approval; these handlers only queue them
+
+const createWallet = (req: MockRequest): MockResult => {
+  const [vaultId] = req.params;
+  requireWalletManager(req, vaultId);
+  const { name, networks } = req.body as Partial<CreateWalletRequest>;
+  if (!name?.trim() || !networks?.length || networks.some((n) => !(n in MOCK_ASSETS))) {
+    throw invalid('A name and at least one supported network are required');
+  }
+  const content: CreateWalletContent = { name: name.trim(), networks };
+  return accepted(initiateAction(req, vaultId, 'CREATE_WALLET', content));
+};
+
+const renameWallet = (req: MockRequest): MockResult => {
+  const [vaultId, walletId] = req.params;
+  requireWalletManager(req, vaultId);
+  findWallet(vaultId, walletId);
+  const { name } = req.body as Partial<UpdateWalletRequest>;
+  if (!name?.trim()) throw invalid('Name is required');
+  requireNoPendingWalletChange(vaultId, walletId);
+  const content: RenameWalletContent = { walletId, name: name.trim() };
+  return accepted(initiateAction(req, vaultId, 'RENAME_WALLET', content));
+};
+
+const setArchived =
+  (archived: boolean) =>
+  (req: MockRequest): MockResult => {
+    const [vaultId, walletId] = req.params;
+    requireWalletManager(req, vaultId);
+    const wallet = findWallet(vaultId, walletId);
+    if (wallet.archived === archived) {
+      throw conflict(archived ? 'Wallet is already archived' : 'Wallet is not archived');
+    }
+    requireNoPendingWalletChange(vaultId, walletId);
+    const content: ArchiveWalletContent = { walletId };
+    return accepted(
+      initiateAction(req, vaultId, archived ? 'ARCHIVE_WALLET' : 'UNARCHIVE_WALLET', content),
+    );
+  };
+
+const addWallet = (vaultId: string, { name, networks }: CreateWalletContent): Wallet => {
+  const id = nextId('w');
+  const accountIndex =
+    Math.max(-1, ...db.wallets.filter((w) => w.vaultId === vaultId).map((w) => w.accountIndex)) + 1;
+  db.addresses[id] = networks.map((network) => mockAddress(id, network, accountIndex, 0));
+  const wallet: Wallet = {
+    id,
+    vaultId,
+    name,
+    networks,
+    convertedValue: { amount: '0.00', currencyCode: 'USD' },
+    addresses: db.addresses[id].map((a) => a.address),
+    balancedAssets: [],
+    accountIndex,
+    archived: false,
+    createdAt: now(),
+    updatedAt: now(),
+  };
+  db.wallets.push(wallet);
+  return wallet;
+};
+
+const executeWalletAction = (action: VaultAction): void => {
+  if (action.type === 'CREATE_WALLET') {
+    const content = action.content as CreateWalletContent;
+    const wallet = addWallet(action.vaultId, content);
+    const initiator = db.users.find((u) => u.id === action.initiator.id);
+    if (initiator) {
+      recordAudit(action.vaultId, initiator, 'CREATE_WALLET', {
+        walletId: wallet.id,
+        name: wallet.name,
+        networks: wallet.networks,
+      });
+    }
+    return;
+  }
+  const { walletId } = action.content as ArchiveWalletContent;
+  const wallet = db.wallets.find((w) => w.vaultId === action.vaultId && w.id === walletId);
+  if (!wallet) return;
+  if (action.type === 'RENAME_WALLET') {
+    wallet.name = (action.content as RenameWalletContent).name;
+    db.balances.filter((b) => b.walletId === walletId).forEach((b) => (b.walletName = wallet.name));
+  }
+  if (action.type === 'ARCHIVE_WALLET') wallet.archived = true;
+  if (action.type === 'UNARCHIVE_WALLET') wallet.archived = false;
+  wallet.updatedAt = now();
+};
+
+const listAddresses = (req: MockRequest): MockResult => {
+  const [vaultId, walletId] = req.params;
+  requireRole(req, vaultId);
+  findWallet(vaultId, walletId);
+  return ok(db.addresses[walletId] ?? []);
+};
+
+const addAddress = (req: MockRequest): MockResult => {
+  const [vaultId, walletId] = req.params;
+  requireWalletManager(req, vaultId);
+  const wallet = findWallet(vaultId, walletId);
+  const { networks } = req.body as Partial<CreateWalletAddressRequest>;
+  if (!networks?.length || networks.some((n) => !wallet.networks.includes(n))) {
+    throw invalid('Addresses can only be added for networks the wallet supports');
+  }
+  const addresses = (db.addresses[walletId] ??= []);
+  for (const network of networks) {
+    const index = addresses.filter((a) => a.network === network).length;
+    addresses.push(mockAddress(walletId, network, wallet.accountIndex, index));
+  }
+  wallet.addresses = addresses.map((a) => a.address);
+  return noContent();
+};
+
+const inCurrency = <T extends WalletBalance | VaultBalance>(
+  balance: T,
+  currency: FiatCurrency,
+): T => ({
+  ...balance,
+  convertedValue: convertValue(balance.convertedValue, currency),
+  ...(balance.lockedConvertedValue && {
+    lockedConvertedValue: convertValue(balance.lockedConvertedValue, currency),
+  }),
+});
+
+const walletBalances = (req: MockRequest): MockResult => {
+  const [vaultId, walletId] = req.params;
+  requireRole(req, vaultId);
+  findWallet(vaultId, walletId);
+  const currency = currencyParam(req);
+  return ok(db.balances.filter((b) => b.walletId === walletId).map((b) => inCurrency(b, currency)));
+};
+
+const vaultBalances = (req: MockRequest): MockResult => {
+  const [vaultId] = req.params;
+  requireRole(req, vaultId);
+  const currency = currencyParam(req);
+  const walletIds = new Set(db.wallets.filter((w) => w.vaultId === vaultId).map((w) => w.id));
+  const data: VaultBalance[] = (Object.keys(MOCK_ASSETS) as Network[]).flatMap((network) => {
+    const { assetId } = MOCK_ASSETS[network];
+    const balances = db.balances.filter((b) => b.assetId === assetId && walletIds.has(b.walletId));
+    if (balances.length === 0) return [];
+    const rawValue = balances.reduce((sum, b) => sum + BigInt(b.rawValue), 0n);
+    const locked = balances.reduce((sum, b) => sum + lockedRawValue(db, b.walletId, assetId), 0n);
+    const { amount, convertedValue } = mockAssetAmount(network, rawValue);
+    const lockedValue = locked > 0n ? mockAssetAmount(network, locked) : null;
+    const balance: VaultBalance = {
+      assetId,
+      rawValue: rawValue.toString(),
+      amount,
+      convertedValue,
+      ...(lockedValue && {
+        lockedAmount: lockedValue.amount,
+        lockedConvertedValue: lockedValue.convertedValue,
+      }),
+      vaultId,
+      walletBalances: balances.map((b) => inCurrency(b, currency)),
+    };
+    return [inCurrency(balance, currency)];
+  });
+  return ok(data);
+};
+
+// ─── Audit Logs ───
+
+const listAuditLogs = (req: MockRequest): MockResult => {
+  const [vaultId] = req.params;
+  requireRole(req, vaultId);
+  const page = numberParam(req, 'page', 1);
+  const limit = numberParam(req, 'limit', 20);
+  const search = first(req, 'search');
+  const startTime = first(req, 'startTime');
+  const endTime = first(req, 'endTime');
+  const actorIds = req.query.actorIds;
+  const eventTypes = req.query.eventTypes;
+  const transactionId = first(req, 'transactionId');
+  const logs = db.auditLogs
+    .filter((log) => log.vaultId === vaultId)
+    .filter(
+      (log) =>
+        contains(log.actor.parameters.name, search) ||
+        contains(log.eventType.replace(/_/g, ' '), search),
+    )
+    .filter((log) => !startTime || log.createdAt >= startTime)
+    .filter((log) => !endTime || log.createdAt <= endTime)
+    .filter((log) => !actorIds || actorIds.includes(log.actor.parameters.id))
+    .filter((log) => !eventTypes || eventTypes.includes(log.eventType))
+    .filter((log) => !transactionId || log.payload.transactionId === transactionId)
+    .sort(byCreatedAt(first(req, 'sortOrder')));
+  const { slice, totalCount, totalPage } = paginate(logs, page, limit);
+  return ok(
+    slice.map(({ id, createdAt, actor, eventType, payload }) => ({
+      id,
+      createdAt,
+      actor,
+      eventType,
+      payload,
+    })),
+    { pagination: { page, limit, totalPage, totalCount } },
+  );
+};
+
+const getAuditLog = (req: MockRequest): MockResult => {
+  const [vaultId, logId] = req.params;
+  requireRole(req, vaultId);
+  const log = db.auditLogs.find((l) => l.vaultId === vaultId && l.id === logId);
+  if (!log) throw notFound('Audit log not found');
+  const { id, createdAt, actor, eventType, payload, ipAddress } = log;
+  return ok({ id, createdAt, actor, eventType, payload, ipAddress });
+};
+
+// ─── Vault Actions ───
+
+const listVaultActions = (req: MockRequest): MockResult => {
+  const [vaultId] = req.params;
+  requireRole(req, vaultId);
+  const page = numberParam(req, 'page', 1);
+  const limit = numberParam(req, 'limit', 20);
+  const initiator = first(req, 'initiator');
+  const types = req.query.types;
+  const statuses = req.query.statuses;
+  const actions = db.vaultActions
+    .filter((a) => a.vaultId === vaultId)
+    .filter((a) => contains(a.initiator.name, initiator) || contains(a.initiator.email, initiator))
+    .filter((a) => !types || types.includes(a.type))
+    .filter((a) => !statuses || statuses.includes(a.status))
+    .sort(byCreatedAt(first(req, 'sortOrder')));
+  const { slice, totalCount, totalPage } = paginate(actions, page, limit);
+  return ok(slice, { pagination: { page, limit, totalPage, totalCount } });
+};
+
+const transition = (action: VaultAction, status: VaultActionStatus, description: string) => {
+  action.status = status;
+  action.updatedAt = now();
+  action.timelines.push({
+    id: nextId('timeline'),
+    vaultActionId: action.id,
+    vaultActionStatus: status,
+    createdAt: action.updatedAt,
+    description,
+  });
+};
+
+const executeAction = (action: VaultAction): void => {
+  if (ADDRESS_BOOK_ACTION_TYPES.includes(action.type)) {
+    executeAddressBookAction(action);
+    return;
+  }
+  if (WALLET_ACTION_TYPES.includes(action.type)) executeWalletAction(action);
+};
+
+/**
+ * Approvals and rejections come from signers and above, once per member, and
+ * never from the action's initiator.
+ */
+const requireResponder = (req: MockRequest, vaultId: string, action: VaultAction): void => {
+  if (requireRole(req, vaultId) === 'VIEWER') throw forbidden('Viewers cannot respond to actions');
+  if (!canRespondToAction(action.status))
+    throw conflict('This action is no longer pending approval');
+  if (action.initiator.id === req.user.id) throw forbidden('You cannot respond to your own action');
+  if (action.approvals.some((a) => a.approver.id === req.user.id)) {
+    throw conflict('You have already responded to this action');
+  }
+};
+
+const approveAction = (req: MockRequest): MockResult => {
+  const [vaultId, actionId] = req.params;
+  const action = findAction(vaultId, actionId);
+  requireResponder(req, vaultId, action);
+  action.approvals.push({
+    id: nextId('approval'),
+    vaultActionId: action.id,
+    approver: toUserBrief(req.user),
+    approved: true,
+    createdAt: now(),
+  });
+  action.updatedAt = now();
+  if (action.approvals.filter((a) => a.approved).length >= action.requiredApprovers) {
+    executeAction(action);
+    transition(action, 'COMPLETED', 'Quorum reached');
+  }
+  recordAudit(vaultId, req.user, 'APPROVE_VAULT_ACTION', { vaultActionId: action.id });
+  return noContent();
+};
+
+const rejectAction = (req: MockRequest): MockResult => {
+  const [vaultId, actionId] = req.params;
+  const action = findAction(vaultId, actionId);
+  requireResponder(req, vaultId, action);
+  const { reason } = req.body as RejectVaultActionRequest;
+  action.approvals.push({
+    id: nextId('approval'),
+    vaultActionId: action.id,
+    approver: toUserBrief(req.user),
+    approved: false,
+    reason,
+    createdAt: now(),
+  });
+  transition(action, 'REJECTED', reason ? `Rejected: ${reason}` : 'Rejected');
+  recordAudit(vaultId, req.user, 'REJECT_VAULT_ACTION', { vaultActionId: action.id, reason });
+  return noContent();
+};
+
+const cancelAction = (req: MockRequest): MockResult => {
+  const [vaultId, actionId] = req.params;
+  const role = requireRole(req, vaultId);
+  const action = findAction(vaultId, actionId);
+  if (action.initiator.id !== req.user.id && !canManageMembers(role)) {
+    throw forbidden('Only the initiator, owners and admins can cancel an action');
+  }
+  if (!canCancelAction(action.status)) throw conflict('This action can no longer be cancelled');
+  transition(action, 'CANCELED', 'Cancelled');
+  recordAudit(vaultId, req.user, 'CANCEL_VAULT_ACTION', { vaultActionId: action.id });
+  return noContent();
+};
+
+// ─── Routing ───
+
+const VAULT = '/api/v1/vaults/([^/]+)';
+
+const routes: Array<[method: string, pattern: RegExp, handler: (req: MockRequest) => MockResult]> =
+  [
+    ['GET', /^\/api\/v1\/users\/me$/, getUserProfile],
+    ['GET', /^\/api\/v1\/vaults$/, listVaults],
+    ['GET', new RegExp(`^${VAULT}$`), getVault],
+    ['PUT', new RegExp(`^${VAULT}$`), updateVault],
+    ['GET', new RegExp(`^${VAULT}/users/me$`), getVaultUser],
+    ['GET', new RegExp(`^${VAULT}/users$`), listMembers],
+    ['POST', new RegExp(`^${VAULT}/users$`), addMember],
+    ['PUT', new RegExp(`^${VAULT}/users/([^/]+)$`), updateMemberRole],
+    ['DELETE', new RegExp(`^${VAULT}/users/([^/]+)$`), deleteMember],
+    ['GET', new RegExp(`^${VAULT}/wallets$`), listWallets],
+    ['POST', new RegExp(`^${VAULT}/wallets$`), createWallet],
+    ['GET', new RegExp(`^${VAULT}/wallets/([^/]+)$`), getWallet],
+    ['PUT', new RegExp(`^${VAULT}/wallets/([^/]+)$`), renameWallet],
+    ['POST', new RegExp(`^${VAULT}/wallets/([^/]+)/archive$`), setArchived(true)],
+    ['POST', new RegExp(`^${VAULT}/wallets/([^/]+)/unarchive$`), setArchived(false)],
+    ['GET', new RegExp(`^${VAULT}/wallets/([^/]+)/addresses$`), listAddresses],
+    ['POST', new RegExp(`^${VAULT}/wallets/([^/]+)/addresses$`), addAddress],
+    ['GET', new RegExp(`^${VAULT}/wallets/([^/]+)/balances$`), walletBalances],
+    ['GET', new RegExp(`^${VAULT}/wallets/([^/]+)/balances/history$`), walletBalanceHistory],
+    ['GET', new RegExp(`^${VAULT}/balances$`), vaultBalances],
+    ['GET', new RegExp(`^${VAULT}/balances/history$`), vaultBalanceHistory],
+    ['GET', new RegExp(`^${VAULT}/audit-logs$`), listAuditLogs],
+    ['GET', new RegExp(`^${VAULT}/audit-logs/([^/]+)$`), getAuditLog],
+    ['GET', new RegExp(`^${VAULT}/vault-actions$`), listVaultActions],
+    ['PUT', new RegExp(`^${VAULT}/vault-actions/([^/]+)/approve$`), approveAction],
+    ['PUT', new RegExp(`^${VAULT}/vault-actions/([^/]+)/reject$`), rejectAction],
+    ['PUT', new RegExp(`^${VAULT}/vault-actions/([^/]+)/cancel$`), cancelAction],
+    ['GET', new RegExp(`^${VAULT}/transactions$`), listTransactions],
+    ['POST', new RegExp(`^${VAULT}/transactions/estimate-fee$`), estimateFee],
+    ['POST', new RegExp(`^${VAULT}/transactions$`), createTransaction],
+    ['GET', new RegExp(`^${VAULT}/transactions/([^/]+)$`), getTransaction],
+    ['PUT', new RegExp(`^${VAULT}/transactions/([^/]+)/approve$`), approveTransaction],
+    ['PUT', new RegExp(`^${VAULT}/transactions/([^/]+)/reject$`), rejectTransaction],
+    ['PUT', new RegExp(`^${VAULT}/transactions/([^/]+)/sign$`), signTransaction],
+    ['PUT', new RegExp(`^${VAULT}/transactions/([^/]+)/cancel$`), cancelTransaction],
+    ['PUT', new RegExp(`^${VAULT}/transactions/([^/]+)/note$`), updateTransactionNote],
+    ['GET', new RegExp(`^${VAULT}/address-book$`), listAddressBook],
+    ['POST', new RegExp(`^${VAULT}/address-book$`), createAddressBookEntry],
+    ['PUT', new RegExp(`^${VAULT}/address-book/([^/]+)$`), updateAddressBookEntry],
+    ['DELETE', new RegExp(`^${VAULT}/address-book/([^/]+)$`), deleteAddressBookEntry],
+  ];
+
+const errorResult = (status: number, type: string, message: string): MockResult => ({
+  status,
+  body: { error: { type, message } },
+});
+
+const handle = (url: string, init: RequestInit): MockResult => {
+  const method = (init.method ?? 'GET').toUpperCase();
+  const headers = new Headers(init.headers);
+  const [path, queryString = ''] = url.slice(authConfig.backendApiUrl.length).split('?');
+
+  const token = headers.get('Authorization')?.replace(/^Bearer /, '') ?? '';
+  const session = readMockToken(token, 'Bearer');
+  const user = session && db.users.find((u) => u.keycloakUserId === session.sub);
+  if (!user) return errorResult(401, 'invalid_token', 'Token is invalid or has expired');
+
+  const idempotencyKey = headers.get(IDEMPOTENCY_KEY_HEADER);
+  const resultKey = idempotencyKey && `${user.id} ${method} ${path} ${idempotencyKey}`;
+  const replay = resultKey && idempotentResults.get(resultKey);
+  if (replay) return replay;
+
+  for (const [routeMethod, pattern, handler] of routes) {
+    const match = routeMethod === method ? pattern.exec(path) : null;
+    if (!match) continue;
+    let result: MockResult;
+    try {
+      result = handler({
+        user,
+        params: match.slice(1).map(decodeURIComponent),
+        query: parseQuery(queryString),
+        body: typeof init.body === 'string' ? JSON.parse(init.body) : {},
+      });
+    } catch (error) {
+      if (error instanceof MockError) {
+        result = errorResult(error.status, error.type, error.message);
+      } else {
+        // A bug in a handler is a server error; rethrown, a TypeError would
+        // look like the network being down
+        const detail = __DEV__ && error instanceof Error ? `: ${error.message}` : '';
+        return errorResult(500, 'INTERNAL_ERROR', `Internal server error${detail}`);
+      }
+    }
+    if (resultKey) idempotentResults.set(resultKey, result);
+    return result;
+  }
+  return errorResult(404, 'NOT_FOUND', `No mock route for ${method} ${path}`);
+};
+
+const abortError = (): Error => Object.assign(new Error('Aborted'), { name: 'AbortError' });
+
+/**
+ * Drop-in replacement for `fetch` that serves the backend API from memory.
+ * Selected by `apiConfig.useMockBackend`; responses go through the same
+ * decoding, validation and retry logic as real ones.
+ */
+export const mockFetch = async (url: string, init: RequestInit = {}): Promise<Response> => {
+  const signal = init.signal ?? undefined;
+  await delay(apiConfig.mockLatencyMs, signal);
+  if (signal?.aborted) throw abortError();
+  const { status, body } = handle(url, init);
+  return new Response(body === undefined ? null : JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+};
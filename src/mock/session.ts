@@ -0,0 +1,59 @@
+import type { JWTPayload } from '../types';
+import type { MockUser } from './types';
+
+// Mock access tokens expire like Keycloak's so the refresh path gets exercised
+const ACCESS_TOKEN_TTL_S = 300;
+const REFRESH_TOKEN_TTL_S = 86400;
+
+interface MockTokenPayload extends JWTPayload {
+  typ: 'Bearer' | 'Refresh';
+}
+
+const encodeSegment = (value: object): string =>
+  btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_');
+
+const createToken = (user: MockUser, typ: MockTokenPayload['typ'], ttl: number): string => {
+  const now = Math.floor(Date.now() / 1000);
+  const [given_name, ...rest] = user.name.split(' ');
+  const payload: MockTokenPayload = {
+    typ,
+    sub: user.keycloakUserId,
+    email: user.email,
+    name: user.name,
+    preferred_username: user.username,
+    email_verified: true,
+    given_name,
+    family_name: rest.join(' '),
+    iss: 'mock',
+    iat: now,
+    exp: now + ttl,
+  };
+  // Unsigned: the mock backend trusts whatever it issued
+  return `${encodeSegment({ alg: 'none', typ: 'JWT' })}.${encodeSegment(payload)}.mock`;
+};
+
+export const createMockTokens = (user: MockUser) => ({
+  accessToken: createToken(user, 'Bearer', ACCESS_TOKEN_TTL_S),
+  refreshToken: createToken(user, 'Refresh', REFRESH_TOKEN_TTL_S),
+  expiresIn: ACCESS_TOKEN_TTL_S,
+});
+
+/**
+ * Decode a token issued by `createMockTokens`. Returns null for anything
+ * else, including expired tokens.
+ */
+export const readMockToken = (
+  token: string,
+  typ: MockTokenPayload['typ'],
+): MockTokenPayload | null => {
+  try {
+    const segment = token.split('.')[1];
+    const payload: MockTokenPayload = JSON.parse(
+      atob(segment.replace(/-/g, '+').replace(/_/g, '/')),
+    );
+    if (payload.typ !== typ || !payload.exp || payload.exp * 1000 <= Date.now()) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,91 @@
+import { createMockDatabase, toUserBrief } from './fixtures';
+import { forbidden, notFound, type MockRequest } from './http';
+import type { AuditEventType, VaultAction, VaultActionType, VaultRole, Wallet } from '../types';
+import type { MockDatabase, MockUser } from './types';
+
+// The in-memory data every handler reads and mutates
+export let db: MockDatabase = createMockDatabase();
+let idCounter = 0;
+
+export const resetDatabase = (): void => {
+  db = createMockDatabase();
+};
+
+export const nextId = (prefix: string): string =>
+  `${prefix}-${Date.now().toString(36)}-${++idCounter}`;
+
+export const now = (): string => new Date().toISOString();
+
+/**
+ * Resolve the caller's role in a vault: 404 for an unknown vault, 403 when
+ * the caller isn't a member.
+ */
+export const requireRole = (req: MockRequest, vaultId: string): VaultRole => {
+  if (!db.vaults.some((v) => v.id === vaultId)) throw notFound('Vault not found');
+  const membership = db.memberships.find((m) => m.vaultId === vaultId && m.userId === req.user.id);
+  if (!membership) throw forbidden('You are not a member of this vault');
+  return membership.role;
+};
+
+export const findWallet = (vaultId: string, walletId: string): Wallet => {
+  const wallet = db.wallets.find((w) => w.vaultId === vaultId && w.id === walletId);
+  if (!wallet) throw notFound('Wallet not found');
+  return wallet;
+};
+
+export const findAction = (vaultId: string, actionId: string): VaultAction => {
+  const action = db.vaultActions.find((a) => a.vaultId === vaultId && a.id === actionId);
+  if (!action) throw notFound('Vault action not found');
+  return action;
+};
+
+export const recordAudit = (
+  vaultId: string,
+  user: MockUser,
+  eventType: AuditEventType,
+  payload: Record<string, unknown>,
+): void => {
+  db.auditLogs.push({
+    id: nextId('log'),
+    vaultId,
+    createdAt: now(),
+    actor: { type: 'USER', parameters: { id: user.id, name: user.name, email: user.email } },
+    eventType,
+    payload,
+    ipAddress: '127.0.0.1',
+  });
+};
+
+// New vault actions need this many approvals, matching the seeded ones
+const ACTION_QUORUM = 2;
+
+export const initiateAction = (
+  req: MockRequest,
+  vaultId: string,
+  type: VaultActionType,
+  content: VaultAction['content'],
+): VaultAction => {
+  const action: VaultAction = {
+    id: nextId('va'),
+    vaultId,
+    initiator: toUserBrief(req.user),
+    type,
+    status: 'PENDING_APPROVAL',
+    requiredApprovers: ACTION_QUORUM,
+    createdAt: now(),
+    updatedAt: now(),
+    approvals: [],
+    content,
+    timelines: [],
+  };
+  action.timelines.push({
+    id: nextId('timeline'),
+    vaultActionId: action.id,
+    vaultActionStatus: 'PENDING_APPROVAL',
+    createdAt: action.createdAt,
+    description: 'Action created',
+  });
+  db.vaultActions.push(action);
+  recordAudit(vaultId, req.user, 'INITIATE_VAULT_ACTION', { vaultActionId: action.id, type });
+  return action;
+};
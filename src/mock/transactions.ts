@@ -0,0 +1,359 @@
+import { getAddressError } from '../utils/address';
+import {
+  canApproveTransactions,
+  canEditTransactionNotes,
+  canInitiateTransactions,
+} from '../utils/permissions';
+import {
+  canCancelTransaction,
+  canRespondToTransaction,
+  canSignTransaction,
+} from '../utils/transaction';
+import { formatUnits, isPositiveAmount, parseUnits } from '../utils/amount';
+import {
+  MOCK_ASSETS,
+  lockedRawValue,
+  mockAssetAmount,
+  mockTxHash,
+  syncLockedBalance,
+  toUserBrief,
+} from './fixtures';
+import {
+  MockError,
+  byCreatedAt,
+  conflict,
+  contains,
+  created,
+  first,
+  forbidden,
+  invalid,
+  noContent,
+  notFound,
+  numberParam,
+  ok,
+  paginate,
+  type MockRequest,
+  type MockResult,
+} from './http';
+import { db, findWallet, nextId, now, recordAudit, requireRole } from './store';
+import type {
+  CreateTransactionRequest,
+  Network,
+  RejectTransactionRequest,
+  Transaction,
+  TransactionFeeEstimate,
+  TransactionStatus,
+  UpdateTransactionNoteRequest,
+  Wallet,
+  WalletBalance,
+} from '../types';
+
+const TRANSACTION_QUORUM = 2;
+
+const assetNetwork = (assetId: string): Network => {
+  const network = (Object.keys(MOCK_ASSETS) as Network[]).find(
+    (n) => MOCK_ASSETS[n].assetId === assetId,
+  );
+  if (!network) throw invalid(`Unsupported asset ${assetId}`);
+  return network;
+};
+
+interface TransferQuote {
+  wallet: Wallet;
+  network: Network;
+  balance: WalletBalance;
+  amount: bigint;
+  estimate: TransactionFeeEstimate;
+}
+
+/**
+ * Validate a transfer request and price it: the fee is a flat per-network
+ * amount, paid from the same balance as the transfer.
+ */
+const quoteTransfer = (req: MockRequest, vaultId: string): TransferQuote => {
+  const { walletId, assetId, destinationAddress, amount } =
+    req.body as Partial<CreateTransactionRequest>;
+  if (!walletId || !assetId) throw invalid('A wallet and asset are required');
+  const wallet = findWallet(vaultId, walletId);
+  const network = assetNetwork(assetId);
+  if (!wallet.networks.includes(network)) {
+    throw invalid(`This wallet has no ${network} address`);
+  }
+  if (!destinationAddress?.trim()) throw invalid('A destination address is required');
+  const addressError = getAddressError(network, destinationAddress.trim());
+  if (addressError) throw invalid(addressError);
+  const rawAmount =
+    amount && isPositiveAmount(amount) ? parseUnits(amount, MOCK_ASSETS[network].decimals) : null;
+  if (!rawAmount) {
+    throw invalid(
+      `Amount must be a positive number with at most ${MOCK_ASSETS[network].decimals} decimals`,
+    );
+  }
+  const balance = db.balances.find((b) => b.walletId === walletId && b.assetId === assetId);
+  if (!balance) throw invalid(`This wallet holds no ${assetId}`);
+  const fee = BigInt(MOCK_ASSETS[network].feeRawValue);
+  const spendable = BigInt(balance.rawValue) - lockedRawValue(db, walletId, assetId);
+  const remaining = spendable - rawAmount - fee;
+  if (remaining < 0n) {
+    throw new MockError(
+      400,
+      'INSUFFICIENT_FUNDS',
+      `Insufficient funds: ${formatUnits(spendable, MOCK_ASSETS[network].decimals)} ${assetId} available including fees`,
+    );
+  }
+  return {
+    wallet,
+    network,
+    balance,
+    amount: rawAmount,
+    estimate: {
+      fee: mockAssetAmount(network, fee),
+      resultingBalance: mockAssetAmount(network, remaining),
+    },
+  };
+};
+
+const findTransaction = (vaultId: string, transactionId: string): Transaction => {
+  const transaction = db.transactions.find((t) => t.vaultId === vaultId && t.id === transactionId);
+  if (!transaction) throw notFound('Transaction not found');
+  return transaction;
+};
+
+export const listTransactions = (req: MockRequest): MockResult => {
+  const [vaultId] = req.params;
+  requireRole(req, vaultId);
+  const page = numberParam(req, 'page', 1);
+  const limit = numberParam(req, 'limit', 20);
+  const walletId = first(req, 'walletId');
+  const search = first(req, 'search');
+  const startTime = first(req, 'startTime');
+  const endTime = first(req, 'endTime');
+  const { statuses, directions, networks } = req.query;
+  const transactions = db.transactions
+    .filter((t) => t.vaultId === vaultId && (!walletId || t.walletId === walletId))
+    .filter(
+      (t) =>
+        contains(t.walletName, search) ||
+        contains(t.sourceAddress, search) ||
+        contains(t.destinationAddress, search) ||
+        contains(t.note ?? '', search) ||
+        contains(t.txHash ?? '', search),
+    )
+    .filter((t) => !startTime || t.createdAt >= startTime)
+    .filter((t) => !endTime || t.createdAt <= endTime)
+    .filter((t) => !statuses || statuses.includes(t.status))
+    .filter((t) => !directions || directions.includes(t.direction))
+    .filter((t) => !networks || networks.includes(t.network))
+    .sort(byCreatedAt(first(req, 'sortOrder')));
+  const { slice, totalCount, totalPage } = paginate(transactions, page, limit);
+  return ok(slice, { pagination: { page, limit, totalPage, totalCount } });
+};
+
+export const getTransaction = (req: MockRequest): MockResult => {
+  const [vaultId, transactionId] = req.params;
+  requireRole(req, vaultId);
+  return ok(findTransaction(vaultId, transactionId));
+};
+
+const requireInitiator = (req: MockRequest, vaultId: string): void => {
+  if (!canInitiateTransactions(requireRole(req, vaultId))) {
+    throw forbidden('Viewers cannot initiate transactions');
+  }
+};
+
+export const estimateFee = (req: MockRequest): MockResult => {
+  const [vaultId] = req.params;
+  requireInitiator(req, vaultId);
+  return ok(quoteTransfer(req, vaultId).estimate);
+};
+
+export const createTransaction = (req: MockRequest): MockResult => {
+  const [vaultId] = req.params;
+  requireInitiator(req, vaultId);
+  const { wallet, network, balance, amount, estimate } = quoteTransfer(req, vaultId);
+  if (wallet.archived) throw conflict('Archived wallets cannot send transactions');
+  const { destinationAddress = '', note } = req.body as Partial<CreateTransactionRequest>;
+  const source = db.addresses[wallet.id]?.find((a) => a.network === network);
+  const transaction: Transaction = {
+    id: nextId('tx'),
+    vaultId,
+    walletId: wallet.id,
+    walletName: wallet.name,
+    network,
+    direction: 'OUTGOING',
+    amount: mockAssetAmount(network, amount),
+    fee: estimate.fee,
+    sourceAddress: source?.address.address ?? '',
+    destinationAddress: destinationAddress.trim(),
+    status: 'PENDING_APPROVAL',
+    confirmations: 0,
+    note: note?.trim() || null,
+    txHash: null,
+    initiator: toUserBrief(req.user),
+    requiredApprovers: TRANSACTION_QUORUM,
+    approvals: [],
+    timelines: [],
+    createdAt: now(),
+    updatedAt: now(),
+  };
+  transaction.timelines.push({
+    id: nextId('timeline'),
+    transactionId: transaction.id,
+    transactionStatus: 'PENDING_APPROVAL',
+    createdAt: transaction.createdAt,
+    description: 'Transaction initiated',
+  });
+  db.transactions.push(transaction);
+  syncLockedBalance(db, balance);
+  recordAudit(vaultId, req.user, 'INITIATE_TRANSACTION', {
+    transactionId: transaction.id,
+    walletId: wallet.id,
+    assetId: transaction.amount.assetId,
+    amount: transaction.amount.amount,
+    destinationAddress: transaction.destinationAddress,
+  });
+  return created(transaction);
+};
+
+export const updateTransactionNote = (req: MockRequest): MockResult => {
+  const [vaultId, transactionId] = req.params;
+  if (!canEditTransactionNotes(requireRole(req, vaultId))) {
+    throw forbidden('Viewers cannot edit transaction notes');
+  }
+  const transaction = findTransaction(vaultId, transactionId);
+  const { note } = req.body as Partial<UpdateTransactionNoteRequest>;
+  if (typeof note !== 'string') throw invalid('A note is required');
+  const previousNote = transaction.note;
+  const nextNote = note.trim() || null;
+  if (nextNote === previousNote) return ok(transaction);
+  transaction.note = nextNote;
+  transaction.updatedAt = now();
+  recordAudit(vaultId, req.user, 'UPDATE_TRANSACTION_NOTE', {
+    transactionId: transaction.id,
+    previousNote,
+    note: nextNote,
+  });
+  return ok(transaction);
+};
+
+const transitionTransaction = (
+  transaction: Transaction,
+  status: TransactionStatus,
+  description: string,
+): void => {
+  transaction.status = status;
+  transaction.updatedAt = now();
+  transaction.timelines.push({
+    id: nextId('timeline'),
+    transactionId: transaction.id,
+    transactionStatus: status,
+    createdAt: transaction.updatedAt,
+    description,
+  });
+};
+
+// Release or re-derive the amount the transaction holds on its wallet
+const syncTransactionBalance = (transaction: Transaction): void => {
+  const balance = db.balances.find(
+    (b) => b.walletId === transaction.walletId && b.assetId === transaction.amount.assetId,
+  );
+  if (balance) syncLockedBalance(db, balance);
+};
+
+/**
+ * Same rules as vault actions: signers and above respond once each, and never
+ * to their own transaction.
+ */
+const requireTransactionResponder = (
+  req: MockRequest,
+  vaultId: string,
+  transaction: Transaction,
+): void => {
+  if (!canApproveTransactions(requireRole(req, vaultId))) {
+    throw forbidden('Viewers cannot respond to transactions');
+  }
+  if (!canRespondToTransaction(transaction.status)) {
+    throw conflict('This transaction is no longer pending approval');
+  }
+  if (transaction.initiator?.id === req.user.id) {
+    throw forbidden('You cannot respond to your own transaction');
+  }
+  if (transaction.approvals.some((a) => a.approver.id === req.user.id)) {
+    throw conflict('You have already responded to this transaction');
+  }
+};
+
+export const approveTransaction = (req: MockRequest): MockResult => {
+  const [vaultId, transactionId] = req.params;
+  const transaction = findTransaction(vaultId, transactionId);
+  requireTransactionResponder(req, vaultId, transaction);
+  transaction.approvals.push({
+    id: nextId('approval'),
+    transactionId: transaction.id,
+    approver: toUserBrief(req.user),
+    approved: true,
+    createdAt: now(),
+  });
+  transaction.updatedAt = now();
+  if (transaction.approvals.filter((a) => a.approved).length >= transaction.requiredApprovers) {
+    transitionTransaction(transaction, 'PENDING_SIGNATURE', 'Quorum reached');
+  }
+  recordAudit(vaultId, req.user, 'APPROVE_TRANSACTION', { transactionId: transaction.id });
+  return noContent();
+};
+
+export const rejectTransaction = (req: MockRequest): MockResult => {
+  const [vaultId, transactionId] = req.params;
+  const transaction = findTransaction(vaultId, transactionId);
+  requireTransactionResponder(req, vaultId, transaction);
+  const { reason } = req.body as RejectTransactionRequest;
+  transaction.approvals.push({
+    id: nextId('approval'),
+    transactionId: transaction.id,
+    approver: toUserBrief(req.user),
+    approved: false,
+    reason,
+    createdAt: now(),
+  });
+  transitionTransaction(transaction, 'REJECTED', reason ? `Rejected: ${reason}` : 'Rejected');
+  syncTransactionBalance(transaction);
+  recordAudit(vaultId, req.user, 'REJECT_TRANSACTION', { transactionId: transaction.id, reason });
+  return noContent();
+};
+
+// One signature completes the mock's MPC round and hands the transaction to
+// the network
+export const signTransaction = (req: MockRequest): MockResult => {
+  const [vaultId, transactionId] = req.params;
+  if (!canApproveTransactions(requireRole(req, vaultId))) {
+    throw forbidden('Viewers cannot sign transactions');
+  }
+  const transaction = findTransaction(vaultId, transactionId);
+  if (!canSignTransaction(transaction.status)) {
+    throw conflict('This transaction is not waiting for a signature');
+  }
+  transaction.txHash = mockTxHash(transaction.id);
+  transitionTransaction(
+    transaction,
+    'BROADCASTING',
+    `Signed by ${req.user.name || req.user.email}`,
+  );
+  recordAudit(vaultId, req.user, 'SIGN_TRANSACTION', { transactionId: transaction.id });
+  return noContent();
+};
+
+export const cancelTransaction = (req: MockRequest): MockResult => {
+  const [vaultId, transactionId] = req.params;
+  requireRole(req, vaultId);
+  const transaction = findTransaction(vaultId, transactionId);
+  if (transaction.initiator?.id !== req.user.id) {
+    throw forbidden('Only the initiator can cancel a transaction');
+  }
+  if (!canCancelTransaction(transaction.status)) {
+    throw conflict('This transaction can no longer be cancelled');
+  }
+  transitionTransaction(transaction, 'CANCELED', 'Cancelled by initiator');
+  syncTransactionBalance(transaction);
+  recordAudit(vaultId, req.user, 'CANCEL_TRANSACTION', { transactionId: transaction.id });
+  return noContent();
+};
@@ -0,0 +1,48 @@
+// Shapes that exist only inside the mock backend. App code never imports
+// these, so the mock can stay out of production builds.
+
+import type {
+  AddressBookEntry,
+  AuditLogDetail,
+  Transaction,
+  Vault,
+  VaultAction,
+  VaultRole,
+  Wallet,
+  WalletAddress,
+  WalletBalance,
+} from '../types';
+
+export interface MockUser {
+  id: string;
+  keycloakUserId: string;
+  email: string;
+  name: string;
+  username: string;
+}
+
+export interface MockMembership {
+  vaultId: string;
+  userId: string;
+  role: VaultRole;
+  joinedAt: string;
+}
+
+export interface MockAuditLog extends AuditLogDetail {
+  vaultId: string;
+}
+
+// In-memory state of the mock backend; reset with `resetMockBackend()`
+export interface MockDatabase {
+  users: MockUser[];
+  vaults: Vault[];
+  memberships: MockMembership[];
+  wallets: Wallet[];
+  addresses: Record<string, WalletAddress[]>;
+  // One entry per wallet and asset
+  balances: WalletBalance[];
+  auditLogs: MockAuditLog[];
+  vaultActions: VaultAction[];
+  transactions: Transaction[];
+  addressBook: AddressBookEntry[];
+}
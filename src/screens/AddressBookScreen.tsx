@@ -0,0 +1,674 @@
+import React, { useState, useCallback, useMemo, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  SectionList,
+  ActivityIndicator,
+  Alert,
+  TextInput,
+  Modal,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { useAuth } from '../hooks/useAuth';
+import { useQuery } from '../hooks/useQuery';
+import { useInFlightLock } from '../hooks/useInFlightLock';
+import { useConnectivity } from '../hooks/useConnectivity';
+import { useVaultUserProfile } from '../hooks/useVaultUserProfile';
+import {
+  fetchAddressBook,
+  fetchVaultActions,
+  createAddressBookEntry,
+  updateAddressBookEntry,
+  deleteAddressBookEntry,
+} from '../services/api';
+import { queryKeys } from '../services/queryKeys';
+import { isApiSuccess } from '../services/response';
+import { isConnectivityError } from '../services/connectivity';
+import { OfflineBanner } from '../components/OfflineBanner';
+import {
+  PRIMARY,
+  SUCCESS,
+  DANGER,
+  WARNING,
+  TEXT_PRIMARY,
+  TEXT_SECONDARY,
+  TEXT_TERTIARY,
+  TEXT_WHITE,
+  BG_MAIN,
+  BG_WHITE,
+  BORDER,
+  SHADOW,
+} from '@/constants/colors';
+import { canManageAddressBook, getNetworkColor } from '../utils/permissions';
+import { truncateAddress } from '../utils/transaction';
+import { getAddressError } from '../utils/address';
+import { getApprovalProgress, PENDING_VAULT_ACTION_STATUSES } from '../utils/vaultAction';
+import { ADDRESS_BOOK_ACTION_TYPES, collectPendingChanges } from '../utils/addressBook';
+import type {
+  AddressBookEntry,
+  AddressBookEntryRequest,
+  Network,
+  PendingAddressBookChanges,
+  VaultAction,
+} from '../types';
+
+const AVAILABLE_NETWORKS: Network[] = ['BITCOIN', 'SOLANA'];
+
+// Pending changes are few at a time; one page covers them
+const PENDING_CHANGES_LIMIT = 100;
+
+const EMPTY_CHANGES: PendingAddressBookChanges = { additions: [], edits: {}, removals: {} };
+
+type AddressBookRow =
+  | { kind: 'entry'; key: string; entry: AddressBookEntry }
+  | { kind: 'addition'; key: string; entry: AddressBookEntryRequest; action: VaultAction };
+
+interface AddressBookSection {
+  network: Network;
+  data: AddressBookRow[];
+}
+
+const keyExtractor = (row: AddressBookRow) => row.key;
+
+interface PendingBadgeProps {
+  label: string;
+  color: string;
+  action: VaultAction;
+}
+
+const PendingBadge: React.FC<PendingBadgeProps> = ({ label, color, action }) => (
+  <View style={[styles.pendingBadge, { backgroundColor: color + '20' }]}>
+    <Text style={[styles.pendingBadgeText, { color }]}>
+      {label} · {getApprovalProgress(action.approvals, action.requiredApprovers)}
+    </Text>
+  </View>
+);
+
+interface Props {
+  vaultId: string;
+}
+
+export const AddressBookScreen: React.FC<Props> = ({ vaultId }) => {
+  const { accessToken } = useAuth();
+  const router = useRouter();
+  const { run: runLocked, isPending } = useInFlightLock();
+  const { isOffline } = useConnectivity();
+  const me = useVaultUserProfile(vaultId).data;
+
+  const [showFormModal, setShowFormModal] = useState(false);
+  const [editingEntry, setEditingEntry] = useState<AddressBookEntry | null>(null);
+  const [formName, setFormName] = useState('');
+  const [formNetwork, setFormNetwork] = useState<Network>('BITCOIN');
+  const [formAddress, setFormAddress] = useState('');
+
+  const {
+    data: entries,
+    error,
+    isLoading: loading,
+    isFetching,
+    refetch: refetchEntries,
+  } = useQuery(accessToken ? queryKeys.addressBook(vaultId) : null, () =>
+    fetchAddressBook(accessToken ?? '', vaultId),
+  );
+  const { data: pendingActions, refetch: refetchChanges } = useQuery(
+    accessToken ? queryKeys.addressBookChanges(vaultId) : null,
+    () =>
+      fetchVaultActions(accessToken ?? '', vaultId, {
+        types: ADDRESS_BOOK_ACTION_TYPES,
+        statuses: PENDING_VAULT_ACTION_STATUSES,
+        limit: PENDING_CHANGES_LIMIT,
+      }),
+  );
+
+  useEffect(() => {
+    if (error && !isConnectivityError(error)) {
+      Alert.alert('Error', error.message || 'Failed to load address book');
+    }
+  }, [error]);
+
+  const changes = useMemo(
+    () => (pendingActions ? collectPendingChanges(pendingActions) : EMPTY_CHANGES),
+    [pendingActions],
+  );
+
+  // Entries grouped by network, with pending additions listed after the live entries
+  const sections = useMemo<AddressBookSection[]>(
+    () =>
+      AVAILABLE_NETWORKS.map((network) => ({
+        network,
+        data: [
+          ...(entries ?? [])
+            .filter((entry) => entry.network === network)
+            .map((entry): AddressBookRow => ({ kind: 'entry', key: entry.id, entry })),
+          ...changes.additions
+            .filter(({ entry }) => entry.network === network)
+            .map(({ action, entry }, index): AddressBookRow => ({
+              kind: 'addition',
+              key: `${action.id}:${index}`,
+              entry,
+              action,
+            })),
+        ],
+      })).filter((section) => section.data.length > 0),
+    [entries, changes],
+  );
+
+  const canManage = !isOffline && !!me && canManageAddressBook(me.role);
+  const formAddressError = formAddress.trim()
+    ? getAddressError(formNetwork, formAddress.trim())
+    : null;
+
+  const handleRefresh = useCallback(() => {
+    refetchEntries();
+    refetchChanges();
+  }, [refetchEntries, refetchChanges]);
+
+  const openForm = useCallback((entry: AddressBookEntry | null) => {
+    setEditingEntry(entry);
+    setFormName(entry?.name ?? '');
+    setFormNetwork(entry?.network ?? 'BITCOIN');
+    setFormAddress(entry?.address ?? '');
+    setShowFormModal(true);
+  }, []);
+
+  const closeForm = useCallback(() => {
+    setShowFormModal(false);
+    setEditingEntry(null);
+  }, []);
+
+  const handleSubmit = useCallback(async () => {
+    if (!accessToken) return;
+    const data: AddressBookEntryRequest = {
+      name: formName.trim(),
+      network: formNetwork,
+      address: formAddress.trim(),
+    };
+    if (!data.name || !data.address) {
+      Alert.alert('Error', 'Name and address are required');
+      return;
+    }
+    if (formAddressError) {
+      Alert.alert('Invalid Address', formAddressError);
+      return;
+    }
+    await runLocked('save', async () => {
+      const res = editingEntry
+        ? await updateAddressBookEntry(accessToken, vaultId, editingEntry.id, data)
+        : await createAddressBookEntry(accessToken, vaultId, data);
+      if (isApiSuccess(res)) {
+        closeForm();
+        Alert.alert('Submitted', 'Change submitted for approval');
+      } else {
+        Alert.alert('Error', res.error?.message || 'Failed to submit change');
+      }
+    });
+  }, [
+    accessToken,
+    vaultId,
+    editingEntry,
+    formName,
+    formNetwork,
+    formAddress,
+    formAddressError,
+    runLocked,
+    closeForm,
+  ]);
+
+  const handleDelete = useCallback(
+    (entry: AddressBookEntry) => {
+      Alert.alert('Delete Entry', `Submit removal of "${entry.name}" for approval?`, [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () =>
+            runLocked(`delete:${entry.id}`, async () => {
+              if (!accessToken) return;
+              const res = await deleteAddressBookEntry(accessToken, vaultId, entry.id);
+              if (isApiSuccess(res)) {
+                Alert.alert('Submitted', 'Removal submitted for approval');
+              } else {
+                Alert.alert('Error', res.error?.message || 'Failed to submit removal');
+              }
+            }),
+        },
+      ]);
+    },
+    [accessToken, vaultId, runLocked],
+  );
+
+  const handleEntryPress = useCallback(
+    (entry: AddressBookEntry) => {
+      // An entry with a change in flight can't take another until it settles
+      if (changes.edits[entry.id] || changes.removals[entry.id]) {
+        Alert.alert(entry.name, 'This entry has a change waiting for approval.');
+        return;
+      }
+      Alert.alert(entry.name, `${entry.network}\n${entry.address}`, [
+        { text: 'Edit', onPress: () => openForm(entry) },
+        { text: 'Delete', style: 'destructive', onPress: () => handleDelete(entry) },
+        { text: 'Close', style: 'cancel' },
+      ]);
+    },
+    [changes, openForm, handleDelete],
+  );
+
+  const renderRow = useCallback(
+    ({ item }: { item: AddressBookRow }) => {
+      if (item.kind === 'addition') {
+        return (
+          <View style={[styles.entryRow, styles.pendingRow]}>
+            <View style={styles.entryInfo}>
+              <Text style={styles.entryName} numberOfLines={1}>
+                {item.entry.name}
+              </Text>
+              <Text style={styles.entryAddress} numberOfLines={1}>
+                {truncateAddress(item.entry.address)}
+              </Text>
+              <PendingBadge label="Addition pending" color={SUCCESS} action={item.action} />
+            </View>
+          </View>
+        );
+      }
+
+      const { entry } = item;
+      const edit = changes.edits[entry.id];
+      const removal = changes.removals[entry.id];
+      return (
+        <Pressable
+          style={({ pressed }) => [styles.entryRow, pressed && canManage && { opacity: 0.7 }]}
+          onPress={() => handleEntryPress(entry)}
+          disabled={!canManage}
+        >
+          <View style={styles.entryInfo}>
+            <Text style={styles.entryName} numberOfLines={1}>
+              {entry.name}
+            </Text>
+            <Text style={styles.entryAddress} numberOfLines={1}>
+              {truncateAddress(entry.address)}
+            </Text>
+            {edit && (
+              <>
+                <Text style={styles.pendingEditText} numberOfLines={1}>
+                  → {edit.entry.name} · {truncateAddress(edit.entry.address)}
+                </Text>
+                <PendingBadge label="Edit pending" color={WARNING} action={edit.action} />
+              </>
+            )}
+            {removal && <PendingBadge label="Removal pending" color={DANGER} action={removal} />}
+          </View>
+        </Pressable>
+      );
+    },
+    [changes, canManage, handleEntryPress],
+  );
+
+  const renderSectionHeader = useCallback(
+    ({ section }: { section: AddressBookSection }) => (
+      <View style={styles.sectionHeader}>
+        <View
+          style={[
+            styles.networkBadge,
+            { backgroundColor: getNetworkColor(section.network) + '20' },
+          ]}
+        >
+          <Text style={[styles.networkBadgeText, { color: getNetworkColor(section.network) }]}>
+            {section.network}
+          </Text>
+        </View>
+        <Text style={styles.sectionCount}>{section.data.length}</Text>
+      </View>
+    ),
+    [],
+  );
+
+  if (loading && !entries) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={PRIMARY} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable
+          onPress={() => router.back()}
+          style={({ pressed }) => [styles.backButton, pressed && { opacity: 0.7 }]}
+        >
+          <Text style={styles.backText}>← Back</Text>
+        </Pressable>
+        <Text style={styles.headerTitle}>Address Book</Text>
+        {canManage && (
+          <Pressable
+            onPress={() => openForm(null)}
+            style={({ pressed }) => [styles.addButton, pressed && { opacity: 0.7 }]}
+          >
+            <Text style={styles.addButtonText}>+ Add</Text>
+          </Pressable>
+        )}
+      </View>
+
+      <OfflineBanner />
+
+      {/* List */}
+      <SectionList
+        sections={sections}
+        keyExtractor={keyExtractor}
+        renderItem={renderRow}
+        renderSectionHeader={renderSectionHeader}
+        stickySectionHeadersEnabled={false}
+        contentContainerStyle={styles.listContent}
+        onRefresh={handleRefresh}
+        refreshing={isFetching && !!entries}
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyText}>No whitelisted addresses yet</Text>
+          </View>
+        }
+      />
+
+      {/* Entry Form Modal */}
+      <Modal
+        visible={showFormModal}
+        presentationStyle="formSheet"
+        animationType="slide"
+        onRequestClose={closeForm}
+      >
+        <View style={styles.modalContainer}>
+          <Text style={styles.modalTitle}>{editingEntry ? 'Edit Entry' : 'Add Entry'}</Text>
+          <Text style={styles.modalLabel}>Name</Text>
+          <TextInput
+            style={styles.modalInput}
+            placeholder="e.g. Exchange deposit"
+            value={formName}
+            onChangeText={setFormName}
+            autoCapitalize="words"
+            autoCorrect={false}
+            placeholderTextColor={TEXT_TERTIARY}
+          />
+          <Text style={styles.modalLabel}>Network</Text>
+          <View style={styles.networkPickerRow}>
+            {AVAILABLE_NETWORKS.map((network) => {
+              const selected = formNetwork === network;
+              return (
+                <Pressable
+                  key={network}
+                  style={({ pressed }) => [
+                    styles.networkOption,
+                    selected && {
+                      backgroundColor: getNetworkColor(network) + '20',
+                      borderColor: getNetworkColor(network),
+                    },
+                    pressed && { opacity: 0.7 },
+                  ]}
+                  onPress={() => setFormNetwork(network)}
+                >
+                  <Text
+                    style={[
+                      styles.networkOptionText,
+                      selected && { color: getNetworkColor(network) },
+                    ]}
+                  >
+                    {network}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+          <Text style={styles.modalLabel}>Address</Text>
+          <TextInput
+            style={styles.modalInput}
+            placeholder="Destination address"
+            value={formAddress}
+            onChangeText={setFormAddress}
+            autoCapitalize="none"
+            autoCorrect={false}
+            placeholderTextColor={TEXT_TERTIARY}
+          />
+          {formAddressError ? <Text style={styles.errorText}>{formAddressError}</Text> : null}
+          <Text style={styles.modalHint}>Changes take effect once approved by the vault.</Text>
+          <View style={styles.modalButtons}>
+            <Pressable
+              style={({ pressed }) => [
+                styles.modalButton,
+                styles.cancelBtn,
+                pressed && { opacity: 0.7 },
+              ]}
+              onPress={closeForm}
+            >
+              <Text style={styles.cancelBtnText}>Cancel</Text>
+            </Pressable>
+            <Pressable
+              style={({ pressed }) => [
+                styles.modalButton,
+                styles.submitBtn,
+                pressed && { opacity: 0.7 },
+              ]}
+              onPress={handleSubmit}
+              disabled={
+                isPending('save') || !formName.trim() || !formAddress.trim() || !!formAddressError
+              }
+            >
+              {isPending('save') ? (
+                <ActivityIndicator color={TEXT_WHITE} size="small" />
+              ) : (
+                <Text style={styles.submitBtnText}>Submit</Text>
+              )}
+            </Pressable>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BG_MAIN,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  backText: {
+    fontSize: 16,
+    color: PRIMARY,
+    fontWeight: '500',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: TEXT_PRIMARY,
+    flex: 1,
+  },
+  addButton: {
+    backgroundColor: PRIMARY,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  addButtonText: {
+    color: TEXT_WHITE,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  listContent: {
+    padding: 16,
+    paddingTop: 4,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  networkBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 10,
+  },
+  networkBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  sectionCount: {
+    fontSize: 13,
+    color: TEXT_TERTIARY,
+  },
+  entryRow: {
+    backgroundColor: BG_WHITE,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+    shadowColor: SHADOW,
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 1,
+  },
+  pendingRow: {
+    opacity: 0.6,
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  entryName: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: TEXT_PRIMARY,
+  },
+  entryAddress: {
+    fontSize: 13,
+    color: TEXT_SECONDARY,
+    fontFamily: 'monospace',
+    marginTop: 2,
+  },
+  pendingEditText: {
+    fontSize: 13,
+    color: WARNING,
+    marginTop: 4,
+  },
+  pendingBadge: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+    marginTop: 6,
+  },
+  pendingBadgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingTop: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: TEXT_TERTIARY,
+  },
+  // Entry Form Modal
+  modalContainer: {
+    flex: 1,
+    padding: 24,
+    backgroundColor: BG_WHITE,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: TEXT_PRIMARY,
+    marginBottom: 16,
+  },
+  modalLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: TEXT_SECONDARY,
+    marginBottom: 8,
+    marginTop: 4,
+  },
+  modalInput: {
+    backgroundColor: BG_MAIN,
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: TEXT_PRIMARY,
+    marginBottom: 12,
+  },
+  errorText: {
+    fontSize: 13,
+    color: DANGER,
+    marginTop: -4,
+    marginBottom: 12,
+  },
+  modalHint: {
+    fontSize: 13,
+    color: TEXT_TERTIARY,
+    marginBottom: 8,
+  },
+  networkPickerRow: {
+    flexDirection: 'row',
+    gap: 10,
+    marginBottom: 12,
+  },
+  networkOption: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: BORDER,
+    alignItems: 'center',
+  },
+  networkOptionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: TEXT_SECONDARY,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 8,
+  },
+  modalButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  cancelBtn: {
+    backgroundColor: BG_MAIN,
+  },
+  cancelBtnText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: TEXT_SECONDARY,
+  },
+  submitBtn: {
+    backgroundColor: PRIMARY,
+  },
+  submitBtnText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: TEXT_WHITE,
+  },
+});
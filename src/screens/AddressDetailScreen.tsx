@@ -0,0 +1,386 @@
+import React, { useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  Share,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { useAuth } from '../hooks/useAuth';
+import { usePreferences } from '../hooks/usePreferences';
+import { useQuery } from '../hooks/useQuery';
+import { OfflineBanner } from '../components/OfflineBanner';
+import {
+  BG_LIGHT_GREEN,
+  BG_LIGHT_ORANGE,
+  BG_MAIN,
+  BG_SUBTLE,
+  BG_WHITE,
+  BORDER_LIGHT,
+  COUNTDOWN_GREEN,
+  COUNTDOWN_ORANGE,
+  PRIMARY,
+  TEXT_PRIMARY,
+  TEXT_SECONDARY,
+  TEXT_TERTIARY,
+  TEXT_WHITE,
+  WARNING,
+} from '@/constants/colors';
+import { fetchWallet, fetchWalletAddresses } from '../services/api';
+import { isConnectivityError } from '../services/connectivity';
+import { queryKeys } from '../services/queryKeys';
+import {
+  DERIVATION_LEVEL_LABELS,
+  analyzeDerivationPath,
+  formatDerivationStep,
+} from '../utils/derivationPath';
+
+interface Props {
+  vaultId: string;
+  walletId: string;
+  addressId: string;
+}
+
+export const AddressDetailScreen: React.FC<Props> = ({ vaultId, walletId, addressId }) => {
+  const { accessToken } = useAuth();
+  const { currency, isLoaded: preferencesLoaded } = usePreferences();
+  const router = useRouter();
+
+  const {
+    data: addresses,
+    error,
+    isLoading: loading,
+  } = useQuery(accessToken ? queryKeys.walletAddresses(vaultId, walletId) : null, () =>
+    fetchWalletAddresses(accessToken ?? '', vaultId, walletId),
+  );
+  // Only needed for the account index check; the path is still shown without it
+  const { data: wallet } = useQuery(
+    accessToken && preferencesLoaded ? queryKeys.wallet(vaultId, walletId, { currency }) : null,
+    () => fetchWallet(accessToken ?? '', vaultId, walletId, { currency }),
+  );
+
+  useEffect(() => {
+    if (error && !isConnectivityError(error)) {
+      Alert.alert('Error', error.message || 'Failed to load address');
+    }
+  }, [error]);
+
+  const walletAddress = addresses?.find((a) => a.id === addressId);
+  const analysis = useMemo(
+    () => (walletAddress ? analyzeDerivationPath(walletAddress, wallet?.accountIndex) : null),
+    [walletAddress, wallet?.accountIndex],
+  );
+
+  const handleShare = (message: string) => {
+    Share.share({ message }).catch(() => {
+      Alert.alert('Error', 'Could not open the share sheet');
+    });
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={PRIMARY} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+        {/* Header */}
+        <View style={styles.header}>
+          <Pressable
+            onPress={() => router.back()}
+            style={({ pressed }) => [styles.backButton, pressed && { opacity: 0.7 }]}
+          >
+            <Text style={styles.backText}>← Back</Text>
+          </Pressable>
+          <Text style={styles.title}>Address Details</Text>
+          {walletAddress && (
+            <Text style={styles.subtitle}>
+              {walletAddress.network} · {walletAddress.address.addressType}
+            </Text>
+          )}
+        </View>
+
+        <OfflineBanner style={styles.banner} />
+
+        {!walletAddress || !analysis ? (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyText}>Address not found</Text>
+          </View>
+        ) : (
+          <>
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Address</Text>
+              <View style={styles.card}>
+                <Text style={styles.fullAddress} selectable>
+                  {walletAddress.address.address}
+                </Text>
+              </View>
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Derivation Path</Text>
+              <View style={styles.card}>
+                <View style={styles.pathHeader}>
+                  <Text style={styles.path} selectable>
+                    {analysis.path}
+                  </Text>
+                  <View
+                    style={[
+                      styles.badge,
+                      analysis.standard ? styles.badgeStandard : styles.badgeNonStandard,
+                    ]}
+                  >
+                    <Text
+                      style={[
+                        styles.badgeText,
+                        { color: analysis.standard ? COUNTDOWN_GREEN : COUNTDOWN_ORANGE },
+                      ]}
+                    >
+                      {analysis.standard ? 'Standard' : 'Non-standard'}
+                    </Text>
+                  </View>
+                </View>
+                {analysis.scheme && <Text style={styles.scheme}>{analysis.scheme}</Text>}
+
+                {analysis.issues.length > 0 && (
+                  <View style={styles.issues}>
+                    {analysis.issues.map((issue) => (
+                      <Text key={issue} style={styles.issueText}>
+                        ⚠ {issue}
+                      </Text>
+                    ))}
+                  </View>
+                )}
+
+                {analysis.segments.map((segment, i) => (
+                  <View key={i} style={styles.segmentRow}>
+                    <Text style={[styles.segmentValue, segment.issue && { color: WARNING }]}>
+                      {formatDerivationStep(segment.value, segment.hardened)}
+                    </Text>
+                    <View style={styles.segmentInfo}>
+                      <Text style={styles.segmentLabel}>
+                        {segment.level ? DERIVATION_LEVEL_LABELS[segment.level] : 'Extra'}
+                        {segment.hardened ? ' · hardened' : ''}
+                      </Text>
+                      <Text style={styles.segmentExplanation}>{segment.explanation}</Text>
+                      {segment.issue && <Text style={styles.issueText}>⚠ {segment.issue}</Text>}
+                    </View>
+                  </View>
+                ))}
+              </View>
+              <Text style={styles.hint}>
+                The path holds no key material. Pair it with the account xpub in an external wallet
+                tool to derive this address independently and compare the result.
+              </Text>
+            </View>
+
+            <Pressable
+              style={({ pressed }) => [styles.primaryButton, pressed && { opacity: 0.7 }]}
+              onPress={() => handleShare(analysis.path)}
+            >
+              <Text style={styles.primaryButtonText}>Share Path</Text>
+            </Pressable>
+            <Pressable
+              style={({ pressed }) => [styles.secondaryButton, pressed && { opacity: 0.7 }]}
+              onPress={() => handleShare(`${walletAddress.address.address}\n${analysis.path}`)}
+            >
+              <Text style={styles.secondaryButtonText}>Share Address and Path</Text>
+            </Pressable>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BG_MAIN,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  header: {
+    marginBottom: 16,
+    gap: 4,
+  },
+  backButton: {
+    alignSelf: 'flex-start',
+    marginBottom: 8,
+  },
+  backText: {
+    fontSize: 16,
+    color: PRIMARY,
+    fontWeight: '500',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: TEXT_PRIMARY,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: TEXT_SECONDARY,
+  },
+  banner: {
+    marginHorizontal: 0,
+    marginBottom: 16,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: TEXT_PRIMARY,
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: BG_WHITE,
+    borderRadius: 12,
+    borderCurve: 'continuous',
+    padding: 16,
+    boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
+  },
+  fullAddress: {
+    fontSize: 14,
+    color: TEXT_PRIMARY,
+    fontFamily: 'Courier',
+  },
+  pathHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  path: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    fontFamily: 'Courier',
+    color: TEXT_PRIMARY,
+  },
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 6,
+  },
+  badgeStandard: {
+    backgroundColor: BG_LIGHT_GREEN,
+  },
+  badgeNonStandard: {
+    backgroundColor: BG_LIGHT_ORANGE,
+  },
+  badgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  scheme: {
+    fontSize: 13,
+    color: TEXT_SECONDARY,
+    marginTop: 4,
+  },
+  issues: {
+    marginTop: 12,
+    gap: 4,
+  },
+  issueText: {
+    fontSize: 13,
+    color: COUNTDOWN_ORANGE,
+    marginTop: 4,
+  },
+  segmentRow: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingTop: 12,
+    marginTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: BORDER_LIGHT,
+  },
+  segmentValue: {
+    width: 64,
+    fontSize: 15,
+    fontWeight: '600',
+    fontFamily: 'Courier',
+    color: TEXT_PRIMARY,
+    backgroundColor: BG_SUBTLE,
+    paddingHorizontal: 6,
+    paddingVertical: 4,
+    borderRadius: 6,
+    overflow: 'hidden',
+    textAlign: 'center',
+    alignSelf: 'flex-start',
+  },
+  segmentInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  segmentLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: TEXT_PRIMARY,
+  },
+  segmentExplanation: {
+    fontSize: 13,
+    color: TEXT_SECONDARY,
+  },
+  hint: {
+    fontSize: 13,
+    color: TEXT_TERTIARY,
+    marginTop: 8,
+  },
+  primaryButton: {
+    backgroundColor: PRIMARY,
+    paddingVertical: 14,
+    borderRadius: 10,
+    borderCurve: 'continuous',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  primaryButtonText: {
+    color: TEXT_WHITE,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    backgroundColor: BG_WHITE,
+    paddingVertical: 14,
+    borderRadius: 10,
+    borderCurve: 'continuous',
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: PRIMARY,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingTop: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: TEXT_TERTIARY,
+  },
+});
@@ -14,7 +14,9 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
 import { useAuth } from '../hooks/useAuth';
+import { usePaginatedQuery } from '../hooks/usePaginatedQuery';
 import { fetchAuditLogs } from '../services/api';
+import { toPageResponse, type PageFetcher } from '../services/pagination';
 import {
   PRIMARY,
   TEXT_PRIMARY,
@@ -36,7 +38,7 @@ import {
   formatAuditTimestamp,
   ALL_AUDIT_EVENT_TYPES,
 } from '../utils/auditLog';
-import type { AuditLogListItem, AuditLogPagination, AuditEventType, SortOrder } from '../types';
+import type { AuditLogListItem, AuditEventType, SortOrder } from '../types';
 
 const PAGE_SIZE = 20;
 
@@ -92,18 +94,21 @@ export const AuditLogListScreen: React.FC<Props> = ({ vaultId }) => {
   const { accessToken } = useAuth();
   const router = useRouter();
 
-  const [logs, setLogs] = useState<AuditLogListItem[]>([]);
-  const [pagination, setPagination] = useState<AuditLogPagination | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [loadingMore, setLoadingMore] = useState(false);
-  const [refreshing, setRefreshing] = useState(false);
   const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
   const [filters, setFilters] = useState<Filters>(DEFAULT_FILTERS);
   const [showFilterModal, setShowFilterModal] = useState(false);
   const [draftFilters, setDraftFilters] = useState<Filters>(DEFAULT_FILTERS);
 
   const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
+  useEffect(
+    () => () => {
+      if (debounceRef.current) clearTimeout(debounceRef.current);
+    },
+    [],
+  );
+
   const activeFilterCount = useMemo(() => {
     let count = 0;
     if (filters.eventTypes.length > 0) count++;
@@ -113,55 +118,42 @@ export const AuditLogListScreen: React.FC<Props> = ({ vaultId }) => {
     return count;
   }, [filters]);
 
-  const loadLogs = useCallback(
-    async (page: number, searchQuery: string, currentFilters: Filters, append: boolean) => {
-      if (!accessToken) return;
+  const fetchLogPage = useMemo<PageFetcher<AuditLogListItem> | null>(() => {
+    if (!accessToken) return null;
+    return async ({ page, pageSize, signal }) => {
       const res = await fetchAuditLogs(accessToken, vaultId, {
         page,
-        limit: PAGE_SIZE,
-        search: searchQuery || undefined,
-        startTime: currentFilters.startTime || undefined,
-        endTime: currentFilters.endTime || undefined,
-        eventTypes: currentFilters.eventTypes.length > 0 ? currentFilters.eventTypes : undefined,
-        sortOrder: currentFilters.sortOrder,
-      });
-
-      if (res._status === 200 && res.data) {
-        setLogs((prev) => (append ? [...prev, ...res.data!] : res.data!));
-        setPagination(res.pagination ?? null);
-      } else {
-        Alert.alert('Error', res.error?.message || 'Failed to load audit logs');
-      }
-    },
-    [accessToken, vaultId],
-  );
+        limit: pageSize,
+        search: query || undefined,
+        startTime: filters.startTime || undefined,
+        endTime: filters.endTime || undefined,
+        eventTypes: filters.eventTypes.length > 0 ? filters.eventTypes : undefined,
+        sortOrder: filters.sortOrder,
+      }, signal);
+      return toPageResponse(res, res.data, res.pagination, { page, pageSize });
+    };
+  }, [accessToken, vaultId, query, filters]);
+
+  const {
+    items: logs,
+    error,
+    isLoading: loading,
+    isRefreshing: refreshing,
+    isLoadingMore: loadingMore,
+    refresh: handleRefresh,
+    loadMore: handleLoadMore,
+  } = usePaginatedQuery(fetchLogPage, { getKey: keyExtractor, pageSize: PAGE_SIZE });
 
   useEffect(() => {
-    setLoading(true);
-    loadLogs(1, search, filters, false).then(() => setLoading(false));
-     
-  }, [loadLogs]);
+    if (error) Alert.alert('Error', error.message || 'Failed to load audit logs');
+  }, [error]);
 
   const handleSearch = (text: string) => {
     setSearch(text);
     if (debounceRef.current) clearTimeout(debounceRef.current);
-    debounceRef.current = setTimeout(() => {
-      setLoading(true);
-      loadLogs(1, text, filters, false).then(() => setLoading(false));
-    }, 300);
+    debounceRef.current = setTimeout(() => setQuery(text), 300);
   };
 
-  const handleLoadMore = useCallback(() => {
-    if (!pagination || pagination.page >= pagination.totalPage || loadingMore) return;
-    setLoadingMore(true);
-    loadLogs(pagination.page + 1, search, filters, true).then(() => setLoadingMore(false));
-  }, [pagination, loadingMore, loadLogs, search, filters]);
-
-  const handleRefresh = useCallback(() => {
-    setRefreshing(true);
-    loadLogs(1, search, filters, false).then(() => setRefreshing(false));
-  }, [loadLogs, search, filters]);
-
   const handleLogPress = useCallback(
     (item: AuditLogListItem) => {
       router.push(`/vaults/${vaultId}/audit-logs/${item.id}`);
@@ -177,9 +169,7 @@ export const AuditLogListScreen: React.FC<Props> = ({ vaultId }) => {
   const handleApplyFilters = useCallback(() => {
     setFilters(draftFilters);
     setShowFilterModal(false);
-    setLoading(true);
-    loadLogs(1, search, draftFilters, false).then(() => setLoading(false));
-  }, [draftFilters, loadLogs, search]);
+  }, [draftFilters]);
 
   const handleClearFilters = useCallback(() => {
     setDraftFilters(DEFAULT_FILTERS);
@@ -0,0 +1,349 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { View, Text, StyleSheet, Pressable, ActivityIndicator } from 'react-native';
+import { useAuth } from '../hooks/useAuth';
+import { useQuery } from '../hooks/useQuery';
+import { usePreferences } from '../hooks/usePreferences';
+import { BalanceHistoryChart } from '../components/BalanceHistoryChart';
+import { AssetLabel } from '../components/AssetLabel';
+import {
+  BG_WHITE,
+  BORDER_MID,
+  DANGER,
+  GREY,
+  PRIMARY,
+  SHADOW,
+  SUCCESS,
+  TEXT_PRIMARY,
+  TEXT_SECONDARY,
+  TEXT_TERTIARY,
+  TEXT_WHITE,
+} from '@/constants/colors';
+import { fetchVaultBalanceHistory, fetchWalletBalanceHistory } from '../services/api';
+import { isConnectivityError } from '../services/connectivity';
+import { queryKeys } from '../services/queryKeys';
+import { formatAssetAmount, getAsset } from '../utils/assets';
+import { formatFiat } from '../utils/currency';
+import {
+  BALANCE_HISTORY_RANGES,
+  DEFAULT_BALANCE_HISTORY_RANGE,
+  formatHistoryTimestamp,
+  getHistoryChange,
+  sumConvertedValues,
+  toChartColumns,
+} from '../utils/balanceHistory';
+import type { BalanceHistoryRange, BalanceHistoryUnit } from '../types';
+
+interface Props {
+  vaultId: string;
+  // Omit for the whole vault
+  walletId?: string;
+}
+
+const assetColor = (assetId: string): string => getAsset(assetId)?.color ?? GREY;
+
+export const BalanceHistorySection: React.FC<Props> = ({ vaultId, walletId }) => {
+  const { accessToken } = useAuth();
+  const { currency, isLoaded: preferencesLoaded } = usePreferences();
+
+  const [range, setRange] = useState<BalanceHistoryRange>(DEFAULT_BALANCE_HISTORY_RANGE);
+  const [unit, setUnit] = useState<BalanceHistoryUnit>('fiat');
+  // Fiat stacks every asset not hidden; native units show one asset at a time
+  const [hiddenAssetIds, setHiddenAssetIds] = useState<string[]>([]);
+  const [nativeAssetId, setNativeAssetId] = useState<string | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+
+  const params = { range, currency };
+  const enabled = !!accessToken && preferencesLoaded;
+  const {
+    data: series,
+    error,
+    isLoading: loading,
+  } = useQuery(
+    enabled
+      ? walletId
+        ? queryKeys.walletBalanceHistory(vaultId, walletId, params)
+        : queryKeys.vaultBalanceHistory(vaultId, params)
+      : null,
+    () =>
+      walletId
+        ? fetchWalletBalanceHistory(accessToken ?? '', vaultId, walletId, params)
+        : fetchVaultBalanceHistory(accessToken ?? '', vaultId, params),
+  );
+
+  // A new range means new columns; drop any stale selection
+  useEffect(() => setSelectedIndex(null), [range, series]);
+
+  const allSeries = useMemo(() => series ?? [], [series]);
+  const nativeAsset = nativeAssetId ?? allSeries[0]?.assetId;
+  const visibleSeries = useMemo(
+    () =>
+      unit === 'native'
+        ? allSeries.filter((s) => s.assetId === nativeAsset)
+        : allSeries.filter((s) => !hiddenAssetIds.includes(s.assetId)),
+    [allSeries, unit, nativeAsset, hiddenAssetIds],
+  );
+  const columns = useMemo(() => toChartColumns(visibleSeries, unit), [visibleSeries, unit]);
+
+  const index = selectedIndex ?? columns.length - 1;
+  const timestamp = columns[index]?.timestamp;
+  const change = getHistoryChange(columns, index);
+
+  const displayValue = (() => {
+    if (index < 0) return '—';
+    if (unit === 'native') {
+      const [only] = visibleSeries;
+      const point = only?.points[index];
+      return point
+        ? formatAssetAmount({
+            assetId: only.assetId,
+            amount: point.amount,
+            rawValue: point.rawValue,
+          })
+        : '—';
+    }
+    const total = sumConvertedValues(
+      visibleSeries.flatMap((s) => (s.points[index] ? [s.points[index].convertedValue] : [])),
+    );
+    return total ? formatFiat(total) : '—';
+  })();
+
+  const toggleAsset = (assetId: string) => {
+    if (unit === 'native') {
+      setNativeAssetId(assetId);
+      return;
+    }
+    setHiddenAssetIds((prev) => {
+      if (prev.includes(assetId)) return prev.filter((id) => id !== assetId);
+      // Keep at least one asset on the chart
+      const visible = allSeries.filter((s) => !prev.includes(s.assetId));
+      return visible.length > 1 ? [...prev, assetId] : prev;
+    });
+  };
+
+  return (
+    <View style={styles.card}>
+      {/* Value at the selected point */}
+      <View style={styles.headerRow}>
+        <View style={styles.headerText}>
+          <Text style={styles.value} numberOfLines={1}>
+            {displayValue}
+          </Text>
+          <Text style={styles.timestamp}>
+            {timestamp
+              ? selectedIndex === null
+                ? 'Now'
+                : formatHistoryTimestamp(timestamp, range)
+              : ' '}
+          </Text>
+        </View>
+        {change !== null && (
+          <Text style={[styles.change, { color: change < 0 ? DANGER : SUCCESS }]}>
+            {change >= 0 ? '+' : ''}
+            {(change * 100).toFixed(2)}%
+          </Text>
+        )}
+      </View>
+
+      {/* Chart */}
+      {loading ? (
+        <View style={styles.placeholder}>
+          <ActivityIndicator color={PRIMARY} />
+        </View>
+      ) : error && columns.length === 0 ? (
+        <View style={styles.placeholder}>
+          <Text style={styles.placeholderText}>
+            {isConnectivityError(error) ? 'History is unavailable offline' : error.message}
+          </Text>
+        </View>
+      ) : columns.length === 0 ? (
+        <View style={styles.placeholder}>
+          <Text style={styles.placeholderText}>No balance history</Text>
+        </View>
+      ) : (
+        <>
+          <BalanceHistoryChart
+            columns={columns}
+            colorFor={assetColor}
+            selectedIndex={selectedIndex}
+            onSelect={setSelectedIndex}
+          />
+          <View style={styles.axisRow}>
+            <Text style={styles.axisLabel}>
+              {formatHistoryTimestamp(columns[0].timestamp, range)}
+            </Text>
+            <Text style={styles.axisLabel}>Now</Text>
+          </View>
+        </>
+      )}
+
+      {/* Range */}
+      <View style={styles.segmented}>
+        {BALANCE_HISTORY_RANGES.map((option) => {
+          const selected = option.range === range;
+          return (
+            <Pressable
+              key={option.range}
+              style={({ pressed }) => [
+                styles.segment,
+                selected && styles.segmentSelected,
+                pressed && { opacity: 0.7 },
+              ]}
+              onPress={() => setRange(option.range)}
+            >
+              <Text style={[styles.segmentText, selected && styles.segmentTextSelected]}>
+                {option.label}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      {/* Assets and units */}
+      <View style={styles.chipRow}>
+        {allSeries.map((s) => {
+          const selected = visibleSeries.some((v) => v.assetId === s.assetId);
+          const color = assetColor(s.assetId);
+          return (
+            <Pressable
+              key={s.assetId}
+              style={({ pressed }) => [
+                styles.chip,
+                selected && { backgroundColor: color + '20', borderColor: color },
+                pressed && { opacity: 0.7 },
+              ]}
+              onPress={() => toggleAsset(s.assetId)}
+            >
+              <AssetLabel assetId={s.assetId} style={styles.chipText} />
+            </Pressable>
+          );
+        })}
+        <View style={styles.chipSpacer} />
+        {(['fiat', 'native'] as const).map((option) => {
+          const selected = option === unit;
+          return (
+            <Pressable
+              key={option}
+              style={({ pressed }) => [
+                styles.chip,
+                selected && styles.chipSelected,
+                pressed && { opacity: 0.7 },
+              ]}
+              onPress={() => setUnit(option)}
+            >
+              <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                {option === 'fiat' ? currency : 'Units'}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: BG_WHITE,
+    borderRadius: 12,
+    padding: 14,
+    gap: 12,
+    shadowColor: SHADOW,
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 1,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    gap: 8,
+  },
+  headerText: {
+    flex: 1,
+  },
+  value: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: TEXT_PRIMARY,
+  },
+  timestamp: {
+    fontSize: 12,
+    color: TEXT_TERTIARY,
+    marginTop: 2,
+  },
+  change: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  placeholder: {
+    height: 160,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  placeholderText: {
+    fontSize: 14,
+    color: TEXT_TERTIARY,
+    textAlign: 'center',
+  },
+  axisRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: -8,
+  },
+  axisLabel: {
+    fontSize: 11,
+    color: TEXT_TERTIARY,
+  },
+  segmented: {
+    flexDirection: 'row',
+    borderWidth: 1.5,
+    borderColor: BORDER_MID,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  segment: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 7,
+  },
+  segmentSelected: {
+    backgroundColor: PRIMARY,
+  },
+  segmentText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: TEXT_SECONDARY,
+  },
+  segmentTextSelected: {
+    color: TEXT_WHITE,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+  },
+  chipSpacer: {
+    flex: 1,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    borderRadius: 8,
+    borderWidth: 1.5,
+    borderColor: BORDER_MID,
+  },
+  chipSelected: {
+    backgroundColor: PRIMARY + '20',
+    borderColor: PRIMARY,
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: TEXT_SECONDARY,
+  },
+  chipTextSelected: {
+    color: PRIMARY,
+  },
+});
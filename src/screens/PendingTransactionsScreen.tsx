@@ -0,0 +1,535 @@
+import React, { useState, useCallback, useMemo, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  FlatList,
+  ActivityIndicator,
+  Alert,
+  TextInput,
+  Modal,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { useAuth } from '../hooks/useAuth';
+import { useIdempotencyKeys } from '../hooks/useIdempotencyKeys';
+import { useInFlightLock } from '../hooks/useInFlightLock';
+import { usePaginatedQuery } from '../hooks/usePaginatedQuery';
+import { useConnectivity } from '../hooks/useConnectivity';
+import { useVaultUserProfile } from '../hooks/useVaultUserProfile';
+import {
+  fetchTransactions,
+  approveTransaction,
+  rejectTransaction,
+  signTransaction,
+  cancelTransaction,
+} from '../services/api';
+import { fetchQuery } from '../services/queryCache';
+import { queryKeys } from '../services/queryKeys';
+import { isApiSuccess } from '../services/response';
+import { isConnectivityError } from '../services/connectivity';
+import { toPageResponse, type PageFetcher } from '../services/pagination';
+import { OfflineBanner } from '../components/OfflineBanner';
+import {
+  PRIMARY,
+  DANGER,
+  TEXT_PRIMARY,
+  TEXT_SECONDARY,
+  TEXT_TERTIARY,
+  TEXT_WHITE,
+  BG_MAIN,
+  BG_WHITE,
+  SHADOW,
+  OVERLAY,
+} from '@/constants/colors';
+import {
+  TRANSACTION_STATUS_LABELS,
+  PENDING_TRANSACTION_STATUSES,
+  getTransactionStatusColor,
+  truncateAddress,
+  canRespondToTransaction,
+  canSignTransaction,
+  canCancelTransaction,
+} from '../utils/transaction';
+import { getApprovalProgress } from '../utils/vaultAction';
+import { formatAssetAmount } from '../utils/assets';
+import { formatAuditTimestamp } from '../utils/auditLog';
+import { canApproveTransactions } from '../utils/permissions';
+import type { Transaction } from '../types';
+
+const PAGE_SIZE = 20;
+
+const keyExtractor = (item: Transaction) => item.id;
+
+interface PendingTransactionRowProps {
+  item: Transaction;
+  onPress: (item: Transaction) => void;
+}
+
+const PendingTransactionRow = React.memo<PendingTransactionRowProps>(({ item, onPress }) => {
+  const handlePress = useCallback(() => onPress(item), [onPress, item]);
+  const statusColor = getTransactionStatusColor(item.status);
+
+  return (
+    <Pressable
+      style={({ pressed }) => [styles.txRow, pressed && { opacity: 0.7 }]}
+      onPress={handlePress}
+    >
+      <View style={styles.txInfo}>
+        <Text style={styles.txTitle} numberOfLines={1}>
+          {formatAssetAmount(item.amount)} to {truncateAddress(item.destinationAddress)}
+        </Text>
+        <Text style={styles.txSubtitle} numberOfLines={1}>
+          {item.walletName} · {item.initiator?.name || item.initiator?.email}
+        </Text>
+        <Text style={styles.approvalProgress}>
+          {getApprovalProgress(item.approvals, item.requiredApprovers)}
+        </Text>
+      </View>
+      <View style={styles.txRight}>
+        <View style={[styles.statusBadge, { backgroundColor: statusColor + '20' }]}>
+          <Text style={[styles.statusBadgeText, { color: statusColor }]}>
+            {TRANSACTION_STATUS_LABELS[item.status] || item.status}
+          </Text>
+        </View>
+        <Text style={styles.timestamp}>{formatAuditTimestamp(item.createdAt)}</Text>
+      </View>
+    </Pressable>
+  );
+});
+
+interface Props {
+  vaultId: string;
+}
+
+export const PendingTransactionsScreen: React.FC<Props> = ({ vaultId }) => {
+  const { accessToken } = useAuth();
+  const router = useRouter();
+  const { run: runLocked, isPending } = useInFlightLock();
+  const { keyFor, release } = useIdempotencyKeys();
+  const { isOffline } = useConnectivity();
+  const me = useVaultUserProfile(vaultId).data;
+
+  const [showRejectModal, setShowRejectModal] = useState(false);
+  const [rejectReason, setRejectReason] = useState('');
+  const [rejectingTransaction, setRejectingTransaction] = useState<Transaction | null>(null);
+
+  const fetchPendingPage = useMemo<PageFetcher<Transaction> | null>(() => {
+    if (!accessToken) return null;
+    return async ({ page, pageSize, force }) => {
+      const params = {
+        page,
+        limit: pageSize,
+        statuses: PENDING_TRANSACTION_STATUSES,
+        directions: ['OUTGOING' as const],
+        sortOrder: 'ASC' as const,
+      };
+      const res = await fetchQuery(
+        queryKeys.transactions(vaultId, params),
+        () => fetchTransactions(accessToken, vaultId, params),
+        { force },
+      );
+      return toPageResponse(res, res.data, res.pagination, { page, pageSize });
+    };
+  }, [accessToken, vaultId]);
+
+  // Responses elsewhere invalidate the transaction list, which reloads the queue
+  const {
+    items: transactions,
+    error,
+    isLoading: loading,
+    isRefreshing: refreshing,
+    isLoadingMore: loadingMore,
+    refresh: handleRefresh,
+    loadMore: handleLoadMore,
+  } = usePaginatedQuery(fetchPendingPage, {
+    getKey: keyExtractor,
+    pageSize: PAGE_SIZE,
+    invalidateKey: queryKeys.transactions(vaultId),
+  });
+
+  useEffect(() => {
+    if (error && !isConnectivityError(error)) {
+      Alert.alert('Error', error.message || 'Failed to load pending transactions');
+    }
+  }, [error]);
+
+  // Responding to transactions is unavailable while offline
+  const canAct = !isOffline && !!me && canApproveTransactions(me.role);
+
+  const handleTransactionPress = useCallback(
+    (item: Transaction) => {
+      const isOwn = !!me && item.initiator?.id === me.userId;
+      const hasResponded = !!me && item.approvals.some((a) => a.approver.id === me.userId);
+      const buttons: { text: string; onPress?: () => void; style?: 'cancel' | 'destructive' }[] =
+        [];
+
+      if (canAct && canRespondToTransaction(item.status) && !isOwn && !hasResponded) {
+        buttons.push({
+          text: 'Approve',
+          onPress: () =>
+            runLocked(`respond:${item.id}`, async () => {
+              if (!accessToken) return;
+              const res = await approveTransaction(accessToken, vaultId, item.id, {
+                idempotencyKey: keyFor(`approve:${item.id}`),
+              });
+              if (isApiSuccess(res)) {
+                release(`approve:${item.id}`);
+                Alert.alert('Success', 'Transaction approved');
+              } else {
+                Alert.alert('Error', res.error?.message || 'Failed to approve transaction');
+              }
+            }),
+        });
+        buttons.push({
+          text: 'Reject',
+          style: 'destructive',
+          onPress: () => {
+            setRejectingTransaction(item);
+            setRejectReason('');
+            setShowRejectModal(true);
+          },
+        });
+      }
+
+      if (canAct && canSignTransaction(item.status)) {
+        buttons.push({
+          text: 'Sign',
+          onPress: () =>
+            runLocked(`sign:${item.id}`, async () => {
+              if (!accessToken) return;
+              const res = await signTransaction(accessToken, vaultId, item.id, {
+                idempotencyKey: keyFor(`sign:${item.id}`),
+              });
+              if (isApiSuccess(res)) {
+                release(`sign:${item.id}`);
+                Alert.alert('Success', 'Transaction signed and broadcasting');
+              } else {
+                Alert.alert('Error', res.error?.message || 'Failed to sign transaction');
+              }
+            }),
+        });
+      }
+
+      if (!isOffline && isOwn && canCancelTransaction(item.status)) {
+        buttons.push({
+          text: 'Cancel Transaction',
+          style: 'destructive',
+          onPress: () => {
+            Alert.alert('Cancel Transaction', 'Are you sure you want to cancel this transaction?', [
+              { text: 'No', style: 'cancel' },
+              {
+                text: 'Yes, Cancel',
+                style: 'destructive',
+                onPress: () =>
+                  runLocked(`cancel:${item.id}`, async () => {
+                    if (!accessToken) return;
+                    const res = await cancelTransaction(accessToken, vaultId, item.id, {
+                      idempotencyKey: keyFor(`cancel:${item.id}`),
+                    });
+                    if (isApiSuccess(res)) {
+                      release(`cancel:${item.id}`);
+                      Alert.alert('Success', 'Transaction canceled');
+                    } else {
+                      Alert.alert('Error', res.error?.message || 'Failed to cancel transaction');
+                    }
+                  }),
+              },
+            ]);
+          },
+        });
+      }
+
+      buttons.push({
+        text: 'View Details',
+        onPress: () => router.push(`/vaults/${vaultId}/transactions/${item.id}`),
+      });
+      buttons.push({ text: 'Close', style: 'cancel' });
+
+      Alert.alert(
+        `Send ${formatAssetAmount(item.amount)}`,
+        `Status: ${TRANSACTION_STATUS_LABELS[item.status]}\nTo: ${truncateAddress(item.destinationAddress)}\nInitiator: ${item.initiator?.name || item.initiator?.email}\n${getApprovalProgress(item.approvals, item.requiredApprovers)}`,
+        buttons,
+      );
+    },
+    [me, canAct, isOffline, accessToken, vaultId, router, runLocked, keyFor, release],
+  );
+
+  const handleRejectSubmit = useCallback(async () => {
+    if (!accessToken || !rejectingTransaction) return;
+    await runLocked(`respond:${rejectingTransaction.id}`, async () => {
+      const data = { reason: rejectReason.trim() || undefined };
+      const operation = `reject:${rejectingTransaction.id}`;
+      const res = await rejectTransaction(accessToken, vaultId, rejectingTransaction.id, data, {
+        idempotencyKey: keyFor(operation, data),
+      });
+      setShowRejectModal(false);
+      setRejectingTransaction(null);
+      if (isApiSuccess(res)) {
+        release(operation);
+        Alert.alert('Success', 'Transaction rejected');
+      } else {
+        Alert.alert('Error', res.error?.message || 'Failed to reject transaction');
+      }
+    });
+  }, [accessToken, vaultId, rejectingTransaction, rejectReason, runLocked, keyFor, release]);
+
+  const renderTransaction = useCallback(
+    ({ item }: { item: Transaction }) => (
+      <PendingTransactionRow item={item} onPress={handleTransactionPress} />
+    ),
+    [handleTransactionPress],
+  );
+
+  if (loading && transactions.length === 0) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={PRIMARY} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable
+          onPress={() => router.back()}
+          style={({ pressed }) => [styles.backButton, pressed && { opacity: 0.7 }]}
+        >
+          <Text style={styles.backText}>← Back</Text>
+        </Pressable>
+        <Text style={styles.headerTitle}>Pending Transactions</Text>
+      </View>
+
+      <OfflineBanner />
+
+      {/* List */}
+      <FlatList
+        data={transactions}
+        keyExtractor={keyExtractor}
+        renderItem={renderTransaction}
+        contentContainerStyle={styles.listContent}
+        onEndReached={handleLoadMore}
+        onEndReachedThreshold={0.5}
+        onRefresh={handleRefresh}
+        refreshing={refreshing}
+        ListFooterComponent={
+          loadingMore ? <ActivityIndicator style={styles.footerLoader} color={PRIMARY} /> : null
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyText}>No transactions waiting on the vault</Text>
+          </View>
+        }
+      />
+
+      {/* Reject Modal */}
+      <Modal visible={showRejectModal} transparent animationType="fade">
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Reject Transaction</Text>
+            <Text style={styles.modalLabel}>Reason (optional)</Text>
+            <TextInput
+              style={styles.rejectInput}
+              placeholder="Enter reason for rejection..."
+              value={rejectReason}
+              onChangeText={setRejectReason}
+              placeholderTextColor={TEXT_TERTIARY}
+              multiline
+              numberOfLines={3}
+              textAlignVertical="top"
+            />
+            <View style={styles.modalButtons}>
+              <Pressable
+                style={({ pressed }) => [
+                  styles.modalButton,
+                  styles.cancelButton,
+                  pressed && { opacity: 0.7 },
+                ]}
+                onPress={() => {
+                  setShowRejectModal(false);
+                  setRejectingTransaction(null);
+                }}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </Pressable>
+              <Pressable
+                style={({ pressed }) => [
+                  styles.modalButton,
+                  styles.rejectButton,
+                  pressed && { opacity: 0.7 },
+                ]}
+                onPress={handleRejectSubmit}
+                disabled={!!rejectingTransaction && isPending(`respond:${rejectingTransaction.id}`)}
+              >
+                <Text style={styles.rejectButtonText}>Reject</Text>
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BG_MAIN,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  backText: {
+    fontSize: 16,
+    color: PRIMARY,
+    fontWeight: '500',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: TEXT_PRIMARY,
+    flex: 1,
+  },
+  listContent: {
+    padding: 16,
+    paddingTop: 4,
+  },
+  txRow: {
+    backgroundColor: BG_WHITE,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+    shadowColor: SHADOW,
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 1,
+  },
+  txInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  txTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: TEXT_PRIMARY,
+  },
+  txSubtitle: {
+    fontSize: 13,
+    color: TEXT_SECONDARY,
+    marginTop: 2,
+  },
+  approvalProgress: {
+    fontSize: 12,
+    color: TEXT_TERTIARY,
+    marginTop: 2,
+  },
+  txRight: {
+    alignItems: 'flex-end',
+    gap: 4,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+  },
+  statusBadgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  timestamp: {
+    fontSize: 12,
+    color: TEXT_TERTIARY,
+  },
+  footerLoader: {
+    paddingVertical: 16,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingTop: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: TEXT_TERTIARY,
+  },
+  // Reject Modal
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: OVERLAY,
+    justifyContent: 'center',
+    padding: 24,
+  },
+  modalContent: {
+    backgroundColor: BG_WHITE,
+    borderRadius: 16,
+    padding: 24,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: TEXT_PRIMARY,
+    marginBottom: 16,
+  },
+  modalLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: TEXT_SECONDARY,
+    marginBottom: 8,
+    marginTop: 4,
+  },
+  rejectInput: {
+    backgroundColor: BG_MAIN,
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: TEXT_PRIMARY,
+    marginBottom: 12,
+    minHeight: 80,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 8,
+  },
+  modalButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: BG_MAIN,
+  },
+  cancelButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: TEXT_SECONDARY,
+  },
+  rejectButton: {
+    backgroundColor: DANGER,
+  },
+  rejectButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: TEXT_WHITE,
+  },
+});
@@ -0,0 +1,370 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  Share,
+  TextInput,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { useAuth } from '../hooks/useAuth';
+import { useQuery } from '../hooks/useQuery';
+import { OfflineBanner } from '../components/OfflineBanner';
+import { QrCodeView } from '../components/QrCodeView';
+import {
+  BG_MAIN,
+  BG_SUBTLE,
+  BG_WHITE,
+  DANGER,
+  PRIMARY,
+  TEXT_PRIMARY,
+  TEXT_SECONDARY,
+  TEXT_TERTIARY,
+  TEXT_WHITE,
+} from '@/constants/colors';
+import { fetchWalletAddresses } from '../services/api';
+import { isConnectivityError } from '../services/connectivity';
+import { queryKeys } from '../services/queryKeys';
+import { chunkAddress } from '../utils/address';
+import { buildPaymentUri, getRequestAmountError } from '../utils/paymentUri';
+import { getNetworkColor } from '../utils/permissions';
+
+const LABEL_MAX_LENGTH = 64;
+
+interface Props {
+  vaultId: string;
+  walletId: string;
+  addressId: string;
+}
+
+export const ReceiveScreen: React.FC<Props> = ({ vaultId, walletId, addressId }) => {
+  const { accessToken } = useAuth();
+  const router = useRouter();
+
+  const [amount, setAmount] = useState('');
+  const [label, setLabel] = useState('');
+
+  const {
+    data: addresses,
+    error,
+    isLoading: loading,
+  } = useQuery(accessToken ? queryKeys.walletAddresses(vaultId, walletId) : null, () =>
+    fetchWalletAddresses(accessToken ?? '', vaultId, walletId),
+  );
+
+  useEffect(() => {
+    if (error && !isConnectivityError(error)) {
+      Alert.alert('Error', error.message || 'Failed to load address');
+    }
+  }, [error]);
+
+  const walletAddress = addresses?.find((a) => a.id === addressId);
+  const network = walletAddress?.network;
+  const address = walletAddress?.address.address ?? '';
+
+  const amountError = network ? getRequestAmountError(network, amount) : null;
+  const uri = useMemo(
+    () => (network ? buildPaymentUri(network, address, { amount, label }) : ''),
+    [network, address, amount, label],
+  );
+  const chunks = useMemo(() => chunkAddress(address), [address]);
+
+  const handleShare = (message: string) => {
+    Share.share({ message }).catch(() => {
+      Alert.alert('Error', 'Could not open the share sheet');
+    });
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={PRIMARY} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <Pressable
+            onPress={() => router.back()}
+            style={({ pressed }) => [styles.backButton, pressed && { opacity: 0.7 }]}
+          >
+            <Text style={styles.backText}>← Back</Text>
+          </Pressable>
+          <Text style={styles.title}>Receive</Text>
+          {walletAddress && (
+            <Text style={styles.subtitle}>
+              {walletAddress.network} · {walletAddress.address.addressType}
+            </Text>
+          )}
+        </View>
+
+        <OfflineBanner style={styles.banner} />
+
+        {!walletAddress || !network ? (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyText}>Address not found</Text>
+          </View>
+        ) : (
+          <>
+            {/* QR code */}
+            <View style={[styles.card, styles.qrCard]}>
+              <QrCodeView value={uri} />
+              <Text style={styles.uriText} selectable>
+                {uri}
+              </Text>
+            </View>
+
+            {/* Full address, grouped for checking against the sender's screen */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Address</Text>
+              <View style={styles.card}>
+                <View style={styles.chunkGrid}>
+                  {chunks.map((chunk, i) => {
+                    const isEdge = i === 0 || i === chunks.length - 1;
+                    return (
+                      <Text
+                        key={i}
+                        style={[
+                          styles.chunk,
+                          isEdge && {
+                            color: getNetworkColor(network),
+                            backgroundColor: getNetworkColor(network) + '20',
+                          },
+                        ]}
+                      >
+                        {chunk}
+                      </Text>
+                    );
+                  })}
+                </View>
+                <Text style={styles.fullAddress} selectable>
+                  {address}
+                </Text>
+                <Text style={styles.hint}>
+                  Compare every group with what the sender sees, not just the highlighted ends.
+                </Text>
+                <Text style={styles.derivationPath}>{walletAddress.derivationPath}</Text>
+              </View>
+            </View>
+
+            {/* Optional payment request */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Request</Text>
+              <Text style={styles.label}>Amount (optional)</Text>
+              <TextInput
+                style={styles.input}
+                value={amount}
+                onChangeText={setAmount}
+                placeholder="0.00"
+                placeholderTextColor={TEXT_TERTIARY}
+                keyboardType="decimal-pad"
+                autoCorrect={false}
+              />
+              {amountError && (
+                <Text style={[styles.errorText, styles.fieldError]}>{amountError}</Text>
+              )}
+              <Text style={styles.label}>Label (optional)</Text>
+              <TextInput
+                style={styles.input}
+                value={label}
+                onChangeText={setLabel}
+                placeholder="e.g. Invoice 1042"
+                placeholderTextColor={TEXT_TERTIARY}
+                maxLength={LABEL_MAX_LENGTH}
+              />
+            </View>
+
+            <Pressable
+              style={({ pressed }) => [styles.primaryButton, pressed && { opacity: 0.7 }]}
+              onPress={() => handleShare(uri)}
+            >
+              <Text style={styles.primaryButtonText}>Share Payment Request</Text>
+            </Pressable>
+            <Pressable
+              style={({ pressed }) => [styles.secondaryButton, pressed && { opacity: 0.7 }]}
+              onPress={() => handleShare(address)}
+            >
+              <Text style={styles.secondaryButtonText}>Share Address Only</Text>
+            </Pressable>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BG_MAIN,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  header: {
+    marginBottom: 16,
+    gap: 4,
+  },
+  backButton: {
+    alignSelf: 'flex-start',
+    marginBottom: 8,
+  },
+  backText: {
+    fontSize: 16,
+    color: PRIMARY,
+    fontWeight: '500',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: TEXT_PRIMARY,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: TEXT_SECONDARY,
+  },
+  banner: {
+    marginHorizontal: 0,
+    marginBottom: 16,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: TEXT_PRIMARY,
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: TEXT_SECONDARY,
+    marginBottom: 8,
+  },
+  card: {
+    backgroundColor: BG_WHITE,
+    borderRadius: 12,
+    borderCurve: 'continuous',
+    padding: 16,
+    boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
+  },
+  qrCard: {
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 24,
+  },
+  uriText: {
+    fontSize: 12,
+    color: TEXT_SECONDARY,
+    fontFamily: 'Courier',
+    textAlign: 'center',
+  },
+  chunkGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 12,
+  },
+  chunk: {
+    fontSize: 16,
+    fontWeight: '600',
+    fontFamily: 'Courier',
+    color: TEXT_PRIMARY,
+    backgroundColor: BG_SUBTLE,
+    paddingHorizontal: 6,
+    paddingVertical: 4,
+    borderRadius: 6,
+    overflow: 'hidden',
+  },
+  fullAddress: {
+    fontSize: 13,
+    color: TEXT_SECONDARY,
+    fontFamily: 'Courier',
+  },
+  hint: {
+    fontSize: 13,
+    color: TEXT_TERTIARY,
+    marginTop: 8,
+  },
+  derivationPath: {
+    fontSize: 12,
+    color: TEXT_TERTIARY,
+    marginTop: 8,
+  },
+  input: {
+    backgroundColor: BG_WHITE,
+    borderRadius: 10,
+    borderCurve: 'continuous',
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: TEXT_PRIMARY,
+    marginBottom: 16,
+  },
+  errorText: {
+    fontSize: 13,
+    color: DANGER,
+  },
+  fieldError: {
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  primaryButton: {
+    backgroundColor: PRIMARY,
+    paddingVertical: 14,
+    borderRadius: 10,
+    borderCurve: 'continuous',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  primaryButtonText: {
+    color: TEXT_WHITE,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    backgroundColor: BG_WHITE,
+    paddingVertical: 14,
+    borderRadius: 10,
+    borderCurve: 'continuous',
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: PRIMARY,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingTop: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: TEXT_TERTIARY,
+  },
+});
@@ -0,0 +1,568 @@
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  TextInput,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter, useFocusEffect } from 'expo-router';
+import { useAuth } from '../hooks/useAuth';
+import { useInFlightLock } from '../hooks/useInFlightLock';
+import { useLatestRequest } from '../hooks/useLatestRequest';
+import { useConnectivity } from '../hooks/useConnectivity';
+import { usePreferences } from '../hooks/usePreferences';
+import { OfflineBanner } from '../components/OfflineBanner';
+import {
+  BG_MAIN,
+  BG_WHITE,
+  BG_LIGHT_BLUE,
+  BORDER_MID,
+  DANGER,
+  DIVIDER,
+  PRIMARY,
+  TEXT_PRIMARY,
+  TEXT_SECONDARY,
+  TEXT_TERTIARY,
+  TEXT_WHITE,
+} from '@/constants/colors';
+import { fetchWalletBalances, estimateTransactionFee, createTransaction } from '../services/api';
+import { createIdempotencyKey } from '../services/idempotency';
+import { isApiSuccess } from '../services/response';
+import { fetchQuery } from '../services/queryCache';
+import { queryKeys } from '../services/queryKeys';
+import { isPositiveAmount } from '../utils/amount';
+import { getAddressError } from '../utils/address';
+import { formatAssetAmount, getAsset, getSendAmountError } from '../utils/assets';
+import { formatFiat } from '../utils/currency';
+import { AssetLabel } from '../components/AssetLabel';
+import type { WalletBalance, TransactionFeeEstimate, AssetAmount } from '../types';
+
+type Step = 'details' | 'review';
+
+const ESTIMATE_DEBOUNCE_MS = 500;
+
+const formatAmountWithValue = (value: AssetAmount): string => {
+  const converted = formatFiat(value.convertedValue);
+  return `${formatAssetAmount(value)} (${converted})`;
+};
+
+interface Props {
+  vaultId: string;
+  walletId: string;
+}
+
+export const SendTransactionScreen: React.FC<Props> = ({ vaultId, walletId }) => {
+  const { accessToken } = useAuth();
+  const router = useRouter();
+  const { run: runLocked, isPending } = useInFlightLock();
+  const { begin, cancel } = useLatestRequest();
+  const { isOffline } = useConnectivity();
+  const { currency, isLoaded: preferencesLoaded } = usePreferences();
+
+  const [balances, setBalances] = useState<WalletBalance[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [step, setStep] = useState<Step>('details');
+  const [assetId, setAssetId] = useState<string | null>(null);
+  const [destination, setDestination] = useState('');
+  const [amount, setAmount] = useState('');
+  const [note, setNote] = useState('');
+
+  const [estimate, setEstimate] = useState<TransactionFeeEstimate | null>(null);
+  const [estimateError, setEstimateError] = useState<string | null>(null);
+  const [estimating, setEstimating] = useState(false);
+
+  // One key per transfer: submitting again after a timeout must not create a
+  // second transaction, so the key only changes with what is being sent
+  const submitKeyRef = useRef<string | null>(null);
+
+  const loadBalances = useCallback(async () => {
+    if (!accessToken || !preferencesLoaded) return;
+    const res = await fetchQuery(queryKeys.walletBalances(vaultId, walletId, { currency }), () =>
+      fetchWalletBalances(accessToken, vaultId, walletId, { currency }),
+    );
+    if (res._status === 200 && res.data) {
+      setBalances(res.data);
+      setAssetId((prev) => prev ?? res.data?.[0]?.assetId ?? null);
+    } else {
+      Alert.alert('Error', res.error?.message || 'Failed to load balances');
+    }
+    setLoading(false);
+  }, [accessToken, preferencesLoaded, vaultId, walletId, currency]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadBalances();
+    }, [loadBalances]),
+  );
+
+  const selectedBalance = balances.find((b) => b.assetId === assetId) ?? null;
+  const trimmedDestination = destination.trim();
+  const network = assetId ? getAsset(assetId)?.network : undefined;
+  const addressError =
+    network && trimmedDestination ? getAddressError(network, trimmedDestination) : null;
+  // Checked against the asset's decimals and what the wallet can spend
+  const amountError = selectedBalance ? getSendAmountError(selectedBalance, amount) : null;
+  const amountValid = isPositiveAmount(amount) && !amountError;
+
+  useEffect(() => {
+    submitKeyRef.current = null;
+  }, [assetId, trimmedDestination, amount, note]);
+
+  const openReview = () => {
+    submitKeyRef.current ??= createIdempotencyKey();
+    setStep('review');
+  };
+
+  // Re-quote the fee a moment after the user stops typing
+  useEffect(() => {
+    setEstimate(null);
+    setEstimateError(null);
+    if (!accessToken || !assetId || !trimmedDestination || addressError || !amountValid) {
+      cancel();
+      setEstimating(false);
+      return;
+    }
+    setEstimating(true);
+    const timer = setTimeout(async () => {
+      const signal = begin();
+      const res = await estimateTransactionFee(
+        accessToken,
+        vaultId,
+        { walletId, assetId, destinationAddress: trimmedDestination, amount: amount.trim() },
+        signal,
+      );
+      if (signal.aborted) return;
+      setEstimating(false);
+      if (res._status === 200 && res.data) {
+        setEstimate(res.data);
+      } else {
+        setEstimateError(res.error?.message || 'Failed to estimate fee');
+      }
+    }, ESTIMATE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [
+    accessToken,
+    vaultId,
+    walletId,
+    assetId,
+    trimmedDestination,
+    addressError,
+    amount,
+    amountValid,
+  ]);
+
+  const handleSubmit = () =>
+    runLocked('submit', async () => {
+      if (!accessToken || !assetId || !estimate || !submitKeyRef.current) return;
+      const res = await createTransaction(
+        accessToken,
+        vaultId,
+        {
+          walletId,
+          assetId,
+          destinationAddress: trimmedDestination,
+          amount: amount.trim(),
+          note: note.trim() || undefined,
+        },
+        { idempotencyKey: submitKeyRef.current },
+      );
+      if (isApiSuccess(res)) {
+        Alert.alert('Transaction Submitted', 'The transaction is now pending approval.', [
+          { text: 'OK', onPress: () => router.back() },
+        ]);
+      } else {
+        Alert.alert('Error', res.error?.message || 'Failed to submit transaction');
+      }
+    });
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={PRIMARY} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  // Sending is unavailable while offline
+  const canContinue = !isOffline && !!estimate && !estimating;
+  const submitting = isPending('submit');
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <Pressable
+            onPress={() => (step === 'review' ? setStep('details') : router.back())}
+            style={({ pressed }) => [styles.backButton, pressed && { opacity: 0.7 }]}
+          >
+            <Text style={styles.backText}>← Back</Text>
+          </Pressable>
+          <Text style={styles.title}>{step === 'review' ? 'Review Transaction' : 'Send'}</Text>
+          {selectedBalance ? (
+            <Text style={styles.subtitle}>From {selectedBalance.walletName}</Text>
+          ) : null}
+        </View>
+
+        <OfflineBanner style={styles.banner} />
+
+        {balances.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyText}>This wallet has no assets to send</Text>
+          </View>
+        ) : step === 'details' ? (
+          <>
+            {/* Asset */}
+            <View style={styles.section}>
+              <Text style={styles.label}>Asset</Text>
+              <View style={styles.assetRow}>
+                {balances.map((balance) => {
+                  const selected = balance.assetId === assetId;
+                  return (
+                    <Pressable
+                      key={balance.assetId}
+                      style={({ pressed }) => [
+                        styles.assetOption,
+                        selected && styles.assetOptionSelected,
+                        pressed && { opacity: 0.7 },
+                      ]}
+                      onPress={() => setAssetId(balance.assetId)}
+                    >
+                      <AssetLabel
+                        assetId={balance.assetId}
+                        style={[styles.assetOptionText, selected && { color: PRIMARY }]}
+                      />
+                      <Text style={styles.assetOptionBalance}>{formatAssetAmount(balance)}</Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+              {selectedBalance?.lockedAmount ? (
+                <Text style={styles.hint}>
+                  {formatAssetAmount({
+                    assetId: selectedBalance.assetId,
+                    amount: selectedBalance.lockedAmount,
+                  })}{' '}
+                  is locked by pending transactions
+                </Text>
+              ) : null}
+            </View>
+
+            {/* Destination & Amount */}
+            <View style={styles.section}>
+              <Text style={styles.label}>Destination Address</Text>
+              <TextInput
+                style={[styles.input, styles.monoInput]}
+                placeholder="Recipient address"
+                value={destination}
+                onChangeText={setDestination}
+                autoCapitalize="none"
+                autoCorrect={false}
+                placeholderTextColor={TEXT_TERTIARY}
+              />
+              {addressError ? (
+                <Text style={[styles.errorText, styles.fieldError]}>{addressError}</Text>
+              ) : null}
+              <Text style={styles.label}>Amount{assetId ? ` (${assetId})` : ''}</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="0.00"
+                value={amount}
+                onChangeText={setAmount}
+                keyboardType="decimal-pad"
+                autoCorrect={false}
+                placeholderTextColor={TEXT_TERTIARY}
+              />
+              {amount.trim() && !amountValid ? (
+                <Text style={styles.errorText}>
+                  {amountError ?? 'Enter an amount greater than zero'}
+                </Text>
+              ) : null}
+            </View>
+
+            {/* Fee Estimate */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Fee Estimate</Text>
+              <View style={styles.card}>
+                {estimating ? (
+                  <ActivityIndicator color={PRIMARY} />
+                ) : estimate ? (
+                  <>
+                    <InfoRow label="Network Fee" value={formatAmountWithValue(estimate.fee)} />
+                    <InfoRow
+                      label="Resulting Balance"
+                      value={formatAmountWithValue(estimate.resultingBalance)}
+                      isLast
+                    />
+                  </>
+                ) : estimateError ? (
+                  <Text style={styles.errorText}>{estimateError}</Text>
+                ) : (
+                  <Text style={styles.hint}>Enter a destination and amount to see the fee</Text>
+                )}
+              </View>
+            </View>
+
+            {/* Note */}
+            <View style={styles.section}>
+              <Text style={styles.label}>Note (optional)</Text>
+              <TextInput
+                style={[styles.input, styles.noteInput]}
+                placeholder="What is this transaction for?"
+                value={note}
+                onChangeText={setNote}
+                multiline
+                placeholderTextColor={TEXT_TERTIARY}
+              />
+            </View>
+
+            <Pressable
+              style={({ pressed }) => [
+                styles.primaryButton,
+                !canContinue && styles.buttonDisabled,
+                pressed && { opacity: 0.7 },
+              ]}
+              onPress={openReview}
+              disabled={!canContinue}
+            >
+              <Text style={styles.primaryButtonText}>Review</Text>
+            </Pressable>
+          </>
+        ) : estimate && selectedBalance ? (
+          <>
+            <View style={styles.section}>
+              <View style={styles.card}>
+                <InfoRow label="From" value={selectedBalance.walletName} />
+                <InfoRow label="To" value={trimmedDestination} />
+                <InfoRow label="Amount" value={`${amount.trim()} ${selectedBalance.assetId}`} />
+                <InfoRow label="Network Fee" value={formatAmountWithValue(estimate.fee)} />
+                <InfoRow
+                  label="Resulting Balance"
+                  value={formatAmountWithValue(estimate.resultingBalance)}
+                  isLast={!note.trim()}
+                />
+                {note.trim() ? <InfoRow label="Note" value={note.trim()} isLast /> : null}
+              </View>
+              <Text style={styles.hint}>
+                The transaction needs vault approval before it is signed and broadcast.
+              </Text>
+            </View>
+
+            <Pressable
+              style={({ pressed }) => [
+                styles.primaryButton,
+                (isOffline || submitting) && styles.buttonDisabled,
+                pressed && { opacity: 0.7 },
+              ]}
+              onPress={handleSubmit}
+              disabled={isOffline || submitting}
+            >
+              {submitting ? (
+                <ActivityIndicator color={TEXT_WHITE} size="small" />
+              ) : (
+                <Text style={styles.primaryButtonText}>Submit Transaction</Text>
+              )}
+            </Pressable>
+          </>
+        ) : null}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const InfoRow: React.FC<{ label: string; value: string; isLast?: boolean }> = ({
+  label,
+  value,
+  isLast,
+}) => (
+  <View style={[infoStyles.row, !isLast && infoStyles.border]}>
+    <Text style={infoStyles.label}>{label}</Text>
+    <Text style={infoStyles.value} numberOfLines={2}>
+      {value}
+    </Text>
+  </View>
+);
+
+const infoStyles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    gap: 12,
+  },
+  border: {
+    borderBottomWidth: 1,
+    borderBottomColor: DIVIDER,
+  },
+  label: {
+    fontSize: 14,
+    color: TEXT_SECONDARY,
+  },
+  value: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: TEXT_PRIMARY,
+    maxWidth: '65%',
+    textAlign: 'right',
+  },
+});
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BG_MAIN,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  header: {
+    marginBottom: 16,
+    gap: 4,
+  },
+  backButton: {
+    alignSelf: 'flex-start',
+    marginBottom: 8,
+  },
+  backText: {
+    fontSize: 16,
+    color: PRIMARY,
+    fontWeight: '500',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: TEXT_PRIMARY,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: TEXT_SECONDARY,
+  },
+  banner: {
+    marginHorizontal: 0,
+    marginBottom: 16,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: TEXT_PRIMARY,
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: TEXT_SECONDARY,
+    marginBottom: 8,
+  },
+  card: {
+    backgroundColor: BG_WHITE,
+    borderRadius: 12,
+    borderCurve: 'continuous',
+    padding: 16,
+    boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
+  },
+  assetRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  assetOption: {
+    backgroundColor: BG_WHITE,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderCurve: 'continuous',
+    borderWidth: 1.5,
+    borderColor: BORDER_MID,
+    gap: 2,
+  },
+  assetOptionSelected: {
+    backgroundColor: BG_LIGHT_BLUE,
+    borderColor: PRIMARY,
+  },
+  assetOptionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: TEXT_SECONDARY,
+  },
+  assetOptionBalance: {
+    fontSize: 12,
+    color: TEXT_TERTIARY,
+  },
+  input: {
+    backgroundColor: BG_WHITE,
+    borderRadius: 10,
+    borderCurve: 'continuous',
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: TEXT_PRIMARY,
+    marginBottom: 16,
+  },
+  monoInput: {
+    fontFamily: 'Courier',
+  },
+  noteInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  hint: {
+    fontSize: 13,
+    color: TEXT_TERTIARY,
+    marginTop: 8,
+  },
+  errorText: {
+    fontSize: 13,
+    color: DANGER,
+  },
+  fieldError: {
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  primaryButton: {
+    backgroundColor: PRIMARY,
+    paddingVertical: 14,
+    borderRadius: 10,
+    borderCurve: 'continuous',
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    color: TEXT_WHITE,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingTop: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: TEXT_TERTIARY,
+  },
+});
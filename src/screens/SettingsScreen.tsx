@@ -0,0 +1,172 @@
+import React from 'react';
+import { View, Text, StyleSheet, Pressable, ScrollView, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { usePreferences } from '../hooks/usePreferences';
+import {
+  BG_LIGHT_BLUE,
+  BG_MAIN,
+  BG_WHITE,
+  DIVIDER,
+  PRIMARY,
+  TEXT_PRIMARY,
+  TEXT_SECONDARY,
+  TEXT_TERTIARY,
+} from '@/constants/colors';
+import { FIAT_CURRENCIES, formatFiat } from '../utils/currency';
+import type { FiatCurrency } from '../types';
+
+export const SettingsScreen: React.FC = () => {
+  const router = useRouter();
+  const { currency, setCurrency } = usePreferences();
+
+  const handleSelectCurrency = (code: FiatCurrency) => {
+    if (code === currency) return;
+    setCurrency(code).catch(() => {
+      Alert.alert('Not Saved', `${code} is used until you sign out, but could not be saved`);
+    });
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+        <View style={styles.header}>
+          <Pressable
+            onPress={() => router.back()}
+            style={({ pressed }) => [styles.backButton, pressed && { opacity: 0.7 }]}
+          >
+            <Text style={styles.backText}>← Back</Text>
+          </Pressable>
+          <Text style={styles.title}>Settings</Text>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Display Currency</Text>
+          <Text style={styles.sectionHint}>
+            Balances and wallet values are converted to this currency.
+          </Text>
+          <View style={styles.card}>
+            {FIAT_CURRENCIES.map(({ code, name }, i) => {
+              const selected = code === currency;
+              return (
+                <Pressable
+                  key={code}
+                  style={({ pressed }) => [
+                    styles.option,
+                    i > 0 && styles.optionBorder,
+                    selected && styles.optionSelected,
+                    pressed && { opacity: 0.7 },
+                  ]}
+                  onPress={() => handleSelectCurrency(code)}
+                  accessibilityRole="radio"
+                  accessibilityState={{ checked: selected }}
+                >
+                  <View style={styles.optionText}>
+                    <Text style={[styles.optionCode, selected && { color: PRIMARY }]}>{code}</Text>
+                    <Text style={styles.optionName}>{name}</Text>
+                  </View>
+                  <Text style={styles.optionSample}>
+                    {formatFiat({ amount: '1234.5', currencyCode: code })}
+                  </Text>
+                  <Text style={[styles.check, !selected && styles.checkHidden]}>✓</Text>
+                </Pressable>
+              );
+            })}
+          </View>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BG_MAIN,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  header: {
+    marginBottom: 16,
+    gap: 4,
+  },
+  backButton: {
+    alignSelf: 'flex-start',
+    marginBottom: 8,
+  },
+  backText: {
+    fontSize: 16,
+    color: PRIMARY,
+    fontWeight: '500',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: TEXT_PRIMARY,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: TEXT_PRIMARY,
+    marginBottom: 4,
+  },
+  sectionHint: {
+    fontSize: 13,
+    color: TEXT_TERTIARY,
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: BG_WHITE,
+    borderRadius: 12,
+    borderCurve: 'continuous',
+    overflow: 'hidden',
+    boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    gap: 12,
+  },
+  optionBorder: {
+    borderTopWidth: 1,
+    borderTopColor: DIVIDER,
+  },
+  optionSelected: {
+    backgroundColor: BG_LIGHT_BLUE,
+  },
+  optionText: {
+    flex: 1,
+    gap: 2,
+  },
+  optionCode: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: TEXT_PRIMARY,
+  },
+  optionName: {
+    fontSize: 13,
+    color: TEXT_SECONDARY,
+  },
+  optionSample: {
+    fontSize: 13,
+    color: TEXT_TERTIARY,
+  },
+  check: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: PRIMARY,
+  },
+  checkHidden: {
+    opacity: 0,
+  },
+});
@@ -0,0 +1,700 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  Modal,
+  TextInput,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter, useFocusEffect } from 'expo-router';
+import { useAuth } from '../hooks/useAuth';
+import { useInFlightLock } from '../hooks/useInFlightLock';
+import { useConnectivity } from '../hooks/useConnectivity';
+import { useVaultUserProfile } from '../hooks/useVaultUserProfile';
+import { fetchAuditLogs, fetchTransaction, updateTransactionNote } from '../services/api';
+import { fetchQuery } from '../services/queryCache';
+import { queryKeys } from '../services/queryKeys';
+import { isApiSuccess } from '../services/response';
+import { isConnectivityError } from '../services/connectivity';
+import { OfflineBanner } from '../components/OfflineBanner';
+import {
+  TRANSACTION_STATUS_LABELS,
+  TRANSACTION_DIRECTION_LABELS,
+  getTransactionStatusColor,
+  getDirectionColor,
+  formatSignedAmount,
+  toNoteChange,
+} from '../utils/transaction';
+import { getApprovalProgress } from '../utils/vaultAction';
+import { formatAssetAmount } from '../utils/assets';
+import { formatAuditTimestamp, getActorDisplayName } from '../utils/auditLog';
+import { canEditTransactionNotes, getNetworkColor } from '../utils/permissions';
+import { formatFiat } from '../utils/currency';
+import type { Transaction, TransactionNoteChange } from '../types';
+import {
+  BG_MAIN,
+  BG_WHITE,
+  DANGER,
+  DIVIDER,
+  OVERLAY,
+  PRIMARY,
+  SHADOW,
+  SUCCESS,
+  TEXT_PRIMARY,
+  TEXT_SECONDARY,
+  TEXT_TERTIARY,
+  TEXT_WHITE,
+} from '@/constants/colors';
+
+// Edits beyond this are still in the vault's audit log
+const NOTE_HISTORY_LIMIT = 20;
+
+const InfoRow: React.FC<{
+  label: string;
+  value: string;
+  isLast?: boolean;
+  selectable?: boolean;
+}> = ({ label, value, isLast, selectable }) => (
+  <View style={[infoStyles.row, !isLast && infoStyles.border]}>
+    <Text style={infoStyles.label}>{label}</Text>
+    <Text
+      style={infoStyles.value}
+      numberOfLines={selectable ? undefined : 1}
+      selectable={selectable}
+    >
+      {value}
+    </Text>
+  </View>
+);
+
+interface Props {
+  vaultId: string;
+  transactionId: string;
+}
+
+export const TransactionDetailScreen: React.FC<Props> = ({ vaultId, transactionId }) => {
+  const { accessToken } = useAuth();
+  const router = useRouter();
+  const { run: runLocked, isPending } = useInFlightLock();
+  const { isOffline } = useConnectivity();
+  const myRole = useVaultUserProfile(vaultId).data?.role ?? null;
+
+  const [transaction, setTransaction] = useState<Transaction | null>(null);
+  const [noteHistory, setNoteHistory] = useState<TransactionNoteChange[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showNoteModal, setShowNoteModal] = useState(false);
+  const [draftNote, setDraftNote] = useState('');
+
+  const loadNoteHistory = useCallback(async () => {
+    if (!accessToken) return;
+    const res = await fetchAuditLogs(accessToken, vaultId, {
+      limit: NOTE_HISTORY_LIMIT,
+      transactionId,
+      eventTypes: ['UPDATE_TRANSACTION_NOTE'],
+      sortOrder: 'DESC',
+    });
+    if (res._status === 200 && res.data) {
+      setNoteHistory(res.data.map(toNoteChange));
+    }
+  }, [accessToken, vaultId, transactionId]);
+
+  const loadData = useCallback(async () => {
+    if (!accessToken) return;
+    const [res] = await Promise.all([
+      fetchQuery(queryKeys.transaction(vaultId, transactionId), () =>
+        fetchTransaction(accessToken, vaultId, transactionId),
+      ),
+      loadNoteHistory(),
+    ]);
+    if (res._status === 200 && res.data) {
+      setTransaction(res.data);
+    } else if (!isConnectivityError(res.error)) {
+      Alert.alert('Error', res.error?.message || 'Failed to load transaction');
+    }
+    setLoading(false);
+  }, [accessToken, vaultId, transactionId, loadNoteHistory]);
+
+  // Cached data is served instantly on focus; only stale or invalidated queries refetch
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData]),
+  );
+
+  const handleSaveNote = useCallback(async () => {
+    if (!accessToken) return;
+    await runLocked('note', async () => {
+      const res = await updateTransactionNote(accessToken, vaultId, transactionId, {
+        note: draftNote.trim(),
+      });
+      if (isApiSuccess(res) && res.data) {
+        setTransaction(res.data);
+        setShowNoteModal(false);
+        loadNoteHistory();
+      } else {
+        Alert.alert('Error', res.error?.message || 'Failed to update note');
+      }
+    });
+  }, [accessToken, vaultId, transactionId, draftNote, runLocked, loadNoteHistory]);
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={PRIMARY} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!transaction) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.centered}>
+          <Text style={styles.errorText}>Transaction not found</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const statusColor = getTransactionStatusColor(transaction.status);
+  const directionColor = getDirectionColor(transaction.direction);
+  const networkColor = getNetworkColor(transaction.network);
+  const isOutgoing = transaction.direction === 'OUTGOING';
+  // Note edits are unavailable while offline
+  const canEditNote = !isOffline && !!myRole && canEditTransactionNotes(myRole);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+        {/* Header */}
+        <View style={styles.header}>
+          <Pressable
+            onPress={() => router.back()}
+            style={({ pressed }) => [styles.backButton, pressed && { opacity: 0.7 }]}
+          >
+            <Text style={styles.backText}>← Back</Text>
+          </Pressable>
+        </View>
+
+        <OfflineBanner style={styles.banner} />
+
+        {/* Amount */}
+        <View style={styles.section}>
+          <View style={styles.amountCard}>
+            <Text style={styles.directionLabel}>
+              {TRANSACTION_DIRECTION_LABELS[transaction.direction]}
+            </Text>
+            <Text style={[styles.amountText, { color: directionColor }]}>
+              {formatSignedAmount(transaction)}
+            </Text>
+            <Text style={styles.fiatText}>{formatFiat(transaction.amount.convertedValue)}</Text>
+            <View style={styles.badgeRow}>
+              <View style={[styles.badge, { backgroundColor: statusColor + '20' }]}>
+                <Text style={[styles.badgeText, { color: statusColor }]}>
+                  {TRANSACTION_STATUS_LABELS[transaction.status] || transaction.status}
+                </Text>
+              </View>
+              <View style={[styles.badge, { backgroundColor: networkColor + '20' }]}>
+                <Text style={[styles.badgeText, { color: networkColor }]}>
+                  {transaction.network}
+                </Text>
+              </View>
+            </View>
+          </View>
+        </View>
+
+        {/* Counterparties */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Counterparties</Text>
+          <View style={styles.card}>
+            <InfoRow label="Wallet" value={transaction.walletName} />
+            <InfoRow label="From" value={transaction.sourceAddress} selectable />
+            <InfoRow label="To" value={transaction.destinationAddress} isLast selectable />
+          </View>
+        </View>
+
+        {/* Details */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Details</Text>
+          <View style={styles.card}>
+            <InfoRow label="Network Fee" value={formatAssetAmount(transaction.fee)} />
+            <InfoRow label="Confirmations" value={String(transaction.confirmations)} />
+            <InfoRow
+              label="Transaction Hash"
+              value={transaction.txHash ?? 'Not broadcast yet'}
+              selectable={!!transaction.txHash}
+            />
+            {transaction.initiator ? (
+              <InfoRow
+                label="Initiated By"
+                value={transaction.initiator.name || transaction.initiator.email}
+              />
+            ) : null}
+            <InfoRow label="Created" value={new Date(transaction.createdAt).toLocaleString()} />
+            <InfoRow
+              label="Updated"
+              value={new Date(transaction.updatedAt).toLocaleString()}
+              isLast
+            />
+          </View>
+        </View>
+
+        {/* Note */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Note</Text>
+            {canEditNote ? (
+              <Pressable
+                style={({ pressed }) => [styles.editButton, pressed && { opacity: 0.7 }]}
+                onPress={() => {
+                  setDraftNote(transaction.note ?? '');
+                  setShowNoteModal(true);
+                }}
+              >
+                <Text style={styles.editButtonText}>Edit</Text>
+              </Pressable>
+            ) : null}
+          </View>
+          <View style={styles.card}>
+            <Text style={transaction.note ? styles.noteText : styles.emptyText}>
+              {transaction.note || 'No note'}
+            </Text>
+          </View>
+        </View>
+
+        {/* Note History */}
+        {noteHistory.length > 0 ? (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Note History</Text>
+            <View style={styles.card}>
+              {noteHistory.map((change, index) => (
+                <View
+                  key={change.id}
+                  style={[
+                    styles.noteChangeRow,
+                    index < noteHistory.length - 1 && infoStyles.border,
+                  ]}
+                >
+                  <View style={styles.noteChangeHeader}>
+                    <Text style={styles.approverName}>{getActorDisplayName(change.actor)}</Text>
+                    <Text style={styles.timelineTime}>
+                      {formatAuditTimestamp(change.changedAt)}
+                    </Text>
+                  </View>
+                  {change.previousNote ? (
+                    <Text style={styles.previousNote}>{change.previousNote}</Text>
+                  ) : null}
+                  <Text style={change.note ? styles.noteChangeText : styles.emptyText}>
+                    {change.note || 'Note cleared'}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        ) : null}
+
+        {/* Approvals */}
+        {isOutgoing ? (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>
+              {`Approvals (${getApprovalProgress(transaction.approvals, transaction.requiredApprovers)})`}
+            </Text>
+            <View style={styles.card}>
+              {transaction.approvals.length > 0 ? (
+                transaction.approvals.map((approval, index) => (
+                  <View
+                    key={approval.id}
+                    style={[
+                      styles.approvalRow,
+                      index < transaction.approvals.length - 1 && infoStyles.border,
+                    ]}
+                  >
+                    <View style={styles.approvalInfo}>
+                      <Text style={styles.approverName}>
+                        {approval.approver.name || approval.approver.email}
+                      </Text>
+                      {approval.reason ? (
+                        <Text style={styles.approvalReason}>{approval.reason}</Text>
+                      ) : null}
+                    </View>
+                    <Text
+                      style={[
+                        styles.approvalVerdict,
+                        { color: approval.approved ? SUCCESS : DANGER },
+                      ]}
+                    >
+                      {approval.approved ? 'Approved' : 'Rejected'}
+                    </Text>
+                  </View>
+                ))
+              ) : (
+                <Text style={styles.emptyText}>No responses yet</Text>
+              )}
+            </View>
+          </View>
+        ) : null}
+
+        {/* Timeline */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Timeline</Text>
+          <View style={styles.card}>
+            {transaction.timelines.map((entry, index) => {
+              const color = getTransactionStatusColor(entry.transactionStatus);
+              const isLast = index === transaction.timelines.length - 1;
+              return (
+                <View key={entry.id} style={styles.timelineRow}>
+                  <View style={styles.timelineMarker}>
+                    <View style={[styles.timelineDot, { backgroundColor: color }]} />
+                    {!isLast ? <View style={styles.timelineLine} /> : null}
+                  </View>
+                  <View style={styles.timelineContent}>
+                    <Text style={styles.timelineStatus}>
+                      {TRANSACTION_STATUS_LABELS[entry.transactionStatus] ||
+                        entry.transactionStatus}
+                    </Text>
+                    {entry.description ? (
+                      <Text style={styles.timelineDescription}>{entry.description}</Text>
+                    ) : null}
+                    <Text style={styles.timelineTime}>
+                      {new Date(entry.createdAt).toLocaleString()}
+                    </Text>
+                  </View>
+                </View>
+              );
+            })}
+          </View>
+        </View>
+      </ScrollView>
+
+      {/* Edit Note Modal */}
+      <Modal visible={showNoteModal} transparent animationType="fade">
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Edit Note</Text>
+            <TextInput
+              style={styles.noteInput}
+              placeholder="Add a note for this transaction..."
+              value={draftNote}
+              onChangeText={setDraftNote}
+              placeholderTextColor={TEXT_TERTIARY}
+              multiline
+              numberOfLines={3}
+              textAlignVertical="top"
+              autoFocus
+            />
+            <View style={styles.modalButtons}>
+              <Pressable
+                style={({ pressed }) => [
+                  styles.modalButton,
+                  styles.cancelButton,
+                  pressed && { opacity: 0.7 },
+                ]}
+                onPress={() => setShowNoteModal(false)}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </Pressable>
+              <Pressable
+                style={({ pressed }) => [
+                  styles.modalButton,
+                  styles.saveButton,
+                  (pressed || isPending('note')) && { opacity: 0.7 },
+                ]}
+                onPress={handleSaveNote}
+                disabled={isPending('note')}
+              >
+                {isPending('note') ? (
+                  <ActivityIndicator color={TEXT_WHITE} />
+                ) : (
+                  <Text style={styles.saveButtonText}>Save</Text>
+                )}
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+};
+
+const infoStyles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    gap: 12,
+  },
+  border: {
+    borderBottomWidth: 1,
+    borderBottomColor: DIVIDER,
+  },
+  label: {
+    fontSize: 14,
+    color: TEXT_SECONDARY,
+  },
+  value: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: TEXT_PRIMARY,
+    maxWidth: '60%',
+    textAlign: 'right',
+  },
+});
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BG_MAIN,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  errorText: {
+    fontSize: 16,
+    color: TEXT_TERTIARY,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  header: {
+    marginBottom: 16,
+  },
+  backButton: {
+    alignSelf: 'flex-start',
+  },
+  backText: {
+    fontSize: 16,
+    color: PRIMARY,
+    fontWeight: '500',
+  },
+  banner: {
+    marginHorizontal: 0,
+    marginBottom: 16,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: TEXT_PRIMARY,
+    marginBottom: 12,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  editButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+  },
+  editButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: PRIMARY,
+  },
+  card: {
+    backgroundColor: BG_WHITE,
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: SHADOW,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  amountCard: {
+    backgroundColor: BG_WHITE,
+    borderRadius: 12,
+    padding: 20,
+    alignItems: 'center',
+    gap: 4,
+    shadowColor: SHADOW,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  directionLabel: {
+    fontSize: 14,
+    color: TEXT_SECONDARY,
+  },
+  amountText: {
+    fontSize: 26,
+    fontWeight: 'bold',
+  },
+  fiatText: {
+    fontSize: 14,
+    color: TEXT_TERTIARY,
+  },
+  badgeRow: {
+    flexDirection: 'row',
+    gap: 6,
+    marginTop: 8,
+  },
+  badge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 8,
+  },
+  badgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  noteText: {
+    fontSize: 15,
+    color: TEXT_PRIMARY,
+    lineHeight: 21,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: TEXT_TERTIARY,
+  },
+  noteChangeRow: {
+    paddingVertical: 10,
+    gap: 4,
+  },
+  noteChangeHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  previousNote: {
+    fontSize: 14,
+    color: TEXT_TERTIARY,
+    textDecorationLine: 'line-through',
+  },
+  noteChangeText: {
+    fontSize: 14,
+    color: TEXT_PRIMARY,
+  },
+  approvalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  approvalInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  approverName: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: TEXT_PRIMARY,
+  },
+  approvalReason: {
+    fontSize: 13,
+    color: TEXT_SECONDARY,
+    marginTop: 2,
+  },
+  approvalVerdict: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  timelineRow: {
+    flexDirection: 'row',
+  },
+  timelineMarker: {
+    alignItems: 'center',
+    width: 16,
+    marginRight: 12,
+  },
+  timelineDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginTop: 4,
+  },
+  timelineLine: {
+    flex: 1,
+    width: 2,
+    backgroundColor: DIVIDER,
+    marginVertical: 2,
+  },
+  timelineContent: {
+    flex: 1,
+    paddingBottom: 16,
+  },
+  timelineStatus: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: TEXT_PRIMARY,
+  },
+  timelineDescription: {
+    fontSize: 13,
+    color: TEXT_SECONDARY,
+    marginTop: 2,
+  },
+  timelineTime: {
+    fontSize: 12,
+    color: TEXT_TERTIARY,
+    marginTop: 2,
+  },
+  // Edit Note Modal
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: OVERLAY,
+    justifyContent: 'center',
+    padding: 24,
+  },
+  modalContent: {
+    backgroundColor: BG_WHITE,
+    borderRadius: 16,
+    padding: 24,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: TEXT_PRIMARY,
+    marginBottom: 16,
+  },
+  noteInput: {
+    backgroundColor: BG_MAIN,
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: TEXT_PRIMARY,
+    marginBottom: 12,
+    minHeight: 80,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 8,
+  },
+  modalButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: BG_MAIN,
+  },
+  cancelButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: TEXT_SECONDARY,
+  },
+  saveButton: {
+    backgroundColor: PRIMARY,
+  },
+  saveButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: TEXT_WHITE,
+  },
+});
@@ -0,0 +1,743 @@
+import React, { useState, useCallback, useRef, useMemo, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  FlatList,
+  ActivityIndicator,
+  Alert,
+  TextInput,
+  Modal,
+  ScrollView,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { useAuth } from '../hooks/useAuth';
+import { usePaginatedQuery } from '../hooks/usePaginatedQuery';
+import { fetchTransactions } from '../services/api';
+import { fetchQuery } from '../services/queryCache';
+import { queryKeys } from '../services/queryKeys';
+import { isConnectivityError } from '../services/connectivity';
+import { toPageResponse, type PageFetcher } from '../services/pagination';
+import { OfflineBanner } from '../components/OfflineBanner';
+import {
+  PRIMARY,
+  TEXT_PRIMARY,
+  TEXT_SECONDARY,
+  TEXT_TERTIARY,
+  TEXT_WHITE,
+  BG_MAIN,
+  BG_WHITE,
+  BLUE_GREY,
+  SHADOW,
+  OVERLAY,
+  BORDER_MID,
+  DANGER,
+} from '@/constants/colors';
+import {
+  TRANSACTION_STATUS_LABELS,
+  TRANSACTION_DIRECTION_LABELS,
+  ALL_TRANSACTION_STATUSES,
+  ALL_TRANSACTION_DIRECTIONS,
+  getTransactionStatusColor,
+  getDirectionColor,
+  getCounterparty,
+  formatSignedAmount,
+  truncateAddress,
+} from '../utils/transaction';
+import { formatAuditTimestamp } from '../utils/auditLog';
+import { getNetworkColor } from '../utils/permissions';
+import { formatFiat } from '../utils/currency';
+import type {
+  Network,
+  SortOrder,
+  Transaction,
+  TransactionDirection,
+  TransactionStatus,
+} from '../types';
+
+const PAGE_SIZE = 20;
+
+const AVAILABLE_NETWORKS: Network[] = ['BITCOIN', 'SOLANA'];
+
+const keyExtractor = (item: Transaction) => item.id;
+
+interface Filters {
+  statuses: TransactionStatus[];
+  directions: TransactionDirection[];
+  networks: Network[];
+  startTime: string;
+  endTime: string;
+  sortOrder: SortOrder;
+}
+
+const DEFAULT_FILTERS: Filters = {
+  statuses: [],
+  directions: [],
+  networks: [],
+  startTime: '',
+  endTime: '',
+  sortOrder: 'DESC',
+};
+
+const toggle = <T,>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+
+interface TransactionRowProps {
+  item: Transaction;
+  showWallet: boolean;
+  onPress: (item: Transaction) => void;
+}
+
+const TransactionRow = React.memo<TransactionRowProps>(({ item, showWallet, onPress }) => {
+  const handlePress = useCallback(() => onPress(item), [onPress, item]);
+  const statusColor = getTransactionStatusColor(item.status);
+  const directionColor = getDirectionColor(item.direction);
+
+  return (
+    <Pressable
+      style={({ pressed }) => [styles.txRow, pressed && { opacity: 0.7 }]}
+      onPress={handlePress}
+    >
+      <View style={[styles.directionIcon, { backgroundColor: directionColor + '20' }]}>
+        <Text style={[styles.directionArrow, { color: directionColor }]}>
+          {item.direction === 'INCOMING' ? '↓' : '↑'}
+        </Text>
+      </View>
+      <View style={styles.txInfo}>
+        <Text style={styles.txTitle} numberOfLines={1}>
+          {TRANSACTION_DIRECTION_LABELS[item.direction]}{' '}
+          {item.direction === 'INCOMING' ? 'from' : 'to'} {truncateAddress(getCounterparty(item))}
+        </Text>
+        <Text style={styles.txSubtitle} numberOfLines={1}>
+          {showWallet ? `${item.walletName} · ` : ''}
+          {formatAuditTimestamp(item.createdAt)}
+        </Text>
+        <View style={[styles.statusBadge, { backgroundColor: statusColor + '20' }]}>
+          <Text style={[styles.statusText, { color: statusColor }]}>
+            {TRANSACTION_STATUS_LABELS[item.status] || item.status}
+          </Text>
+        </View>
+      </View>
+      <View style={styles.amountColumn}>
+        <Text style={[styles.amountText, { color: directionColor }]} numberOfLines={1}>
+          {formatSignedAmount(item, { compact: true })}
+        </Text>
+        <Text style={styles.fiatText}>{formatFiat(item.amount.convertedValue)}</Text>
+      </View>
+    </Pressable>
+  );
+});
+
+interface Props {
+  vaultId: string;
+  // Limit the history to one wallet; omit for the vault-wide view
+  walletId?: string;
+}
+
+export const TransactionListScreen: React.FC<Props> = ({ vaultId, walletId }) => {
+  const { accessToken } = useAuth();
+  const router = useRouter();
+
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<Filters>(DEFAULT_FILTERS);
+  const [showFilterModal, setShowFilterModal] = useState(false);
+  const [draftFilters, setDraftFilters] = useState<Filters>(DEFAULT_FILTERS);
+
+  const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(
+    () => () => {
+      if (debounceRef.current) clearTimeout(debounceRef.current);
+    },
+    [],
+  );
+
+  const activeFilterCount = useMemo(() => {
+    let count = 0;
+    if (filters.statuses.length > 0) count++;
+    if (filters.directions.length > 0) count++;
+    if (filters.networks.length > 0) count++;
+    if (filters.startTime) count++;
+    if (filters.endTime) count++;
+    if (filters.sortOrder !== 'DESC') count++;
+    return count;
+  }, [filters]);
+
+  const fetchTransactionPage = useMemo<PageFetcher<Transaction> | null>(() => {
+    if (!accessToken) return null;
+    return async ({ page, pageSize, force }) => {
+      const params = {
+        page,
+        limit: pageSize,
+        walletId,
+        search: query || undefined,
+        startTime: filters.startTime || undefined,
+        endTime: filters.endTime || undefined,
+        statuses: filters.statuses.length > 0 ? filters.statuses : undefined,
+        directions: filters.directions.length > 0 ? filters.directions : undefined,
+        networks: filters.networks.length > 0 ? filters.networks : undefined,
+        sortOrder: filters.sortOrder,
+      };
+      const res = await fetchQuery(
+        queryKeys.transactions(vaultId, params),
+        () => fetchTransactions(accessToken, vaultId, params),
+        { force },
+      );
+      return toPageResponse(res, res.data, res.pagination, { page, pageSize });
+    };
+  }, [accessToken, vaultId, walletId, query, filters]);
+
+  // Reloads when a transaction is created or changes state elsewhere
+  const {
+    items: transactions,
+    error,
+    isLoading: loading,
+    isRefreshing: refreshing,
+    isLoadingMore: loadingMore,
+    refresh: handleRefresh,
+    loadMore: handleLoadMore,
+  } = usePaginatedQuery(fetchTransactionPage, {
+    getKey: keyExtractor,
+    pageSize: PAGE_SIZE,
+    invalidateKey: queryKeys.transactions(vaultId),
+  });
+
+  useEffect(() => {
+    if (error && !isConnectivityError(error)) {
+      Alert.alert('Error', error.message || 'Failed to load transactions');
+    }
+  }, [error]);
+
+  const handleSearch = (text: string) => {
+    setSearch(text);
+    if (debounceRef.current) clearTimeout(debounceRef.current);
+    debounceRef.current = setTimeout(() => setQuery(text), 300);
+  };
+
+  const handleTransactionPress = useCallback(
+    (item: Transaction) => {
+      router.push(`/vaults/${vaultId}/transactions/${item.id}`);
+    },
+    [router, vaultId],
+  );
+
+  const handleOpenFilters = useCallback(() => {
+    setDraftFilters(filters);
+    setShowFilterModal(true);
+  }, [filters]);
+
+  const handleApplyFilters = useCallback(() => {
+    setFilters(draftFilters);
+    setShowFilterModal(false);
+  }, [draftFilters]);
+
+  const handleClearFilters = useCallback(() => {
+    setDraftFilters(DEFAULT_FILTERS);
+  }, []);
+
+  const renderTransaction = useCallback(
+    ({ item }: { item: Transaction }) => (
+      <TransactionRow item={item} showWallet={!walletId} onPress={handleTransactionPress} />
+    ),
+    [walletId, handleTransactionPress],
+  );
+
+  if (loading && transactions.length === 0) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={PRIMARY} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable
+          onPress={() => router.back()}
+          style={({ pressed }) => [styles.backButton, pressed && { opacity: 0.7 }]}
+        >
+          <Text style={styles.backText}>← Back</Text>
+        </Pressable>
+        <Text style={styles.headerTitle}>Transactions</Text>
+        <Pressable
+          style={({ pressed }) => [styles.filterButton, pressed && { opacity: 0.7 }]}
+          onPress={handleOpenFilters}
+        >
+          <Text style={styles.filterButtonText}>
+            Filters{activeFilterCount > 0 ? ` (${activeFilterCount})` : ''}
+          </Text>
+        </Pressable>
+      </View>
+
+      <OfflineBanner />
+
+      {/* Search */}
+      <View style={styles.searchContainer}>
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Search address, note or hash..."
+          value={search}
+          onChangeText={handleSearch}
+          placeholderTextColor={TEXT_TERTIARY}
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+      </View>
+
+      {/* List */}
+      <FlatList
+        data={transactions}
+        keyExtractor={keyExtractor}
+        renderItem={renderTransaction}
+        contentContainerStyle={styles.listContent}
+        onEndReached={handleLoadMore}
+        onEndReachedThreshold={0.5}
+        onRefresh={handleRefresh}
+        refreshing={refreshing}
+        ListFooterComponent={
+          loadingMore ? <ActivityIndicator style={styles.footerLoader} color={PRIMARY} /> : null
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyText}>No transactions found</Text>
+          </View>
+        }
+      />
+
+      {/* Filter Modal */}
+      <Modal visible={showFilterModal} transparent animationType="fade">
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <ScrollView showsVerticalScrollIndicator={false}>
+              <Text style={styles.modalTitle}>Filters</Text>
+
+              {/* Sort Order */}
+              <Text style={styles.modalLabel}>Sort Order</Text>
+              <View style={styles.sortRow}>
+                {(['DESC', 'ASC'] as SortOrder[]).map((order) => {
+                  const active = draftFilters.sortOrder === order;
+                  return (
+                    <Pressable
+                      key={order}
+                      style={({ pressed }) => [
+                        styles.sortOption,
+                        active && styles.sortOptionActive,
+                        pressed && { opacity: 0.7 },
+                      ]}
+                      onPress={() => setDraftFilters((prev) => ({ ...prev, sortOrder: order }))}
+                    >
+                      <Text style={[styles.sortOptionText, active && styles.sortOptionTextActive]}>
+                        {order === 'DESC' ? 'Newest First' : 'Oldest First'}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+
+              {/* Date Range */}
+              <Text style={styles.modalLabel}>Start Time (ISO 8601)</Text>
+              <TextInput
+                style={styles.modalInput}
+                placeholder="e.g. 2024-01-01T00:00:00Z"
+                value={draftFilters.startTime}
+                onChangeText={(text) => setDraftFilters((prev) => ({ ...prev, startTime: text }))}
+                placeholderTextColor={TEXT_TERTIARY}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+
+              <Text style={styles.modalLabel}>End Time (ISO 8601)</Text>
+              <TextInput
+                style={styles.modalInput}
+                placeholder="e.g. 2024-12-31T23:59:59Z"
+                value={draftFilters.endTime}
+                onChangeText={(text) => setDraftFilters((prev) => ({ ...prev, endTime: text }))}
+                placeholderTextColor={TEXT_TERTIARY}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+
+              {/* Direction */}
+              <Text style={styles.modalLabel}>Direction</Text>
+              <View style={styles.chipRow}>
+                {ALL_TRANSACTION_DIRECTIONS.map((direction) => {
+                  const selected = draftFilters.directions.includes(direction);
+                  const color = getDirectionColor(direction);
+                  return (
+                    <Pressable
+                      key={direction}
+                      style={({ pressed }) => [
+                        styles.chip,
+                        selected && { backgroundColor: color + '20', borderColor: color },
+                        pressed && { opacity: 0.7 },
+                      ]}
+                      onPress={() =>
+                        setDraftFilters((prev) => ({
+                          ...prev,
+                          directions: toggle(prev.directions, direction),
+                        }))
+                      }
+                    >
+                      <Text style={[styles.chipText, selected && { color }]}>
+                        {TRANSACTION_DIRECTION_LABELS[direction]}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+
+              {/* Network */}
+              <Text style={styles.modalLabel}>Network</Text>
+              <View style={styles.chipRow}>
+                {AVAILABLE_NETWORKS.map((network) => {
+                  const selected = draftFilters.networks.includes(network);
+                  const color = getNetworkColor(network);
+                  return (
+                    <Pressable
+                      key={network}
+                      style={({ pressed }) => [
+                        styles.chip,
+                        selected && { backgroundColor: color + '20', borderColor: color },
+                        pressed && { opacity: 0.7 },
+                      ]}
+                      onPress={() =>
+                        setDraftFilters((prev) => ({
+                          ...prev,
+                          networks: toggle(prev.networks, network),
+                        }))
+                      }
+                    >
+                      <Text style={[styles.chipText, selected && { color }]}>{network}</Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+
+              {/* Status */}
+              <Text style={styles.modalLabel}>Status</Text>
+              <View style={styles.chipRow}>
+                {ALL_TRANSACTION_STATUSES.map((status) => {
+                  const selected = draftFilters.statuses.includes(status);
+                  const color = getTransactionStatusColor(status);
+                  return (
+                    <Pressable
+                      key={status}
+                      style={({ pressed }) => [
+                        styles.chip,
+                        selected && { backgroundColor: color + '20', borderColor: color },
+                        pressed && { opacity: 0.7 },
+                      ]}
+                      onPress={() =>
+                        setDraftFilters((prev) => ({
+                          ...prev,
+                          statuses: toggle(prev.statuses, status),
+                        }))
+                      }
+                    >
+                      <Text style={[styles.chipText, selected && { color }]} numberOfLines={1}>
+                        {TRANSACTION_STATUS_LABELS[status]}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            </ScrollView>
+
+            {/* Bottom Buttons */}
+            <View style={styles.modalButtons}>
+              <Pressable
+                style={({ pressed }) => [
+                  styles.modalButton,
+                  styles.clearButton,
+                  pressed && { opacity: 0.7 },
+                ]}
+                onPress={handleClearFilters}
+              >
+                <Text style={styles.clearButtonText}>Clear</Text>
+              </Pressable>
+              <Pressable
+                style={({ pressed }) => [
+                  styles.modalButton,
+                  styles.cancelButton,
+                  pressed && { opacity: 0.7 },
+                ]}
+                onPress={() => setShowFilterModal(false)}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </Pressable>
+              <Pressable
+                style={({ pressed }) => [
+                  styles.modalButton,
+                  styles.applyButton,
+                  pressed && { opacity: 0.7 },
+                ]}
+                onPress={handleApplyFilters}
+              >
+                <Text style={styles.applyButtonText}>Apply</Text>
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BG_MAIN,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  backText: {
+    fontSize: 16,
+    color: PRIMARY,
+    fontWeight: '500',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: TEXT_PRIMARY,
+    flex: 1,
+  },
+  filterButton: {
+    backgroundColor: BLUE_GREY,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  filterButtonText: {
+    color: TEXT_WHITE,
+    fontWeight: '600',
+    fontSize: 14,
+  },
+  searchContainer: {
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+  searchInput: {
+    backgroundColor: BG_WHITE,
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: TEXT_PRIMARY,
+    shadowColor: SHADOW,
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 1,
+  },
+  listContent: {
+    padding: 16,
+    paddingTop: 4,
+  },
+  txRow: {
+    backgroundColor: BG_WHITE,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+    shadowColor: SHADOW,
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 1,
+  },
+  directionIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  directionArrow: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  txInfo: {
+    flex: 1,
+    marginRight: 8,
+    gap: 2,
+  },
+  txTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: TEXT_PRIMARY,
+  },
+  txSubtitle: {
+    fontSize: 13,
+    color: TEXT_SECONDARY,
+  },
+  statusBadge: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 6,
+    marginTop: 4,
+  },
+  statusText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  amountColumn: {
+    alignItems: 'flex-end',
+    maxWidth: '40%',
+  },
+  amountText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  fiatText: {
+    fontSize: 12,
+    color: TEXT_TERTIARY,
+    marginTop: 2,
+  },
+  footerLoader: {
+    paddingVertical: 16,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingTop: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: TEXT_TERTIARY,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: OVERLAY,
+    justifyContent: 'center',
+    padding: 24,
+  },
+  modalContent: {
+    backgroundColor: BG_WHITE,
+    borderRadius: 16,
+    padding: 24,
+    maxHeight: '80%',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: TEXT_PRIMARY,
+    marginBottom: 16,
+  },
+  modalLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: TEXT_SECONDARY,
+    marginBottom: 8,
+    marginTop: 4,
+  },
+  modalInput: {
+    backgroundColor: BG_MAIN,
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: TEXT_PRIMARY,
+    marginBottom: 12,
+  },
+  sortRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  sortOption: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1.5,
+    borderColor: BORDER_MID,
+    alignItems: 'center',
+  },
+  sortOptionActive: {
+    backgroundColor: PRIMARY + '20',
+    borderColor: PRIMARY,
+  },
+  sortOptionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: TEXT_SECONDARY,
+  },
+  sortOptionTextActive: {
+    color: PRIMARY,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    borderRadius: 8,
+    borderWidth: 1.5,
+    borderColor: BORDER_MID,
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: TEXT_SECONDARY,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 8,
+  },
+  modalButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  clearButton: {
+    backgroundColor: BG_WHITE,
+    borderWidth: 1,
+    borderColor: BORDER_MID,
+  },
+  clearButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: DANGER,
+  },
+  cancelButton: {
+    backgroundColor: BG_MAIN,
+  },
+  cancelButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: TEXT_SECONDARY,
+  },
+  applyButton: {
+    backgroundColor: PRIMARY,
+  },
+  applyButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: TEXT_WHITE,
+  },
+});
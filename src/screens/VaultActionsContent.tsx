@@ -13,12 +13,22 @@ import {
   RefreshControl,
 } from 'react-native';
 import { useAuth } from '../hooks/useAuth';
+import { useIdempotencyKeys } from '../hooks/useIdempotencyKeys';
+import { useInFlightLock } from '../hooks/useInFlightLock';
+import { usePaginatedQuery } from '../hooks/usePaginatedQuery';
+import { useConnectivity } from '../hooks/useConnectivity';
+import { useRefetchOnReconnect } from '../hooks/useRefetchOnReconnect';
+import { OfflineBanner } from '../components/OfflineBanner';
 import {
   fetchVaultActions,
   approveVaultAction,
   rejectVaultAction,
   cancelVaultAction,
 } from '../services/api';
+import { isApiSuccess } from '../services/response';
+import { isConnectivityError } from '../services/connectivity';
+import { resolveWithSnapshot } from '../services/offlineSnapshot';
+import { toPageResponse, toSnapshotPage, type PageFetcher } from '../services/pagination';
 import {
   PRIMARY,
   DANGER,
@@ -47,7 +57,6 @@ import {
 import { formatAuditTimestamp } from '../utils/auditLog';
 import type {
   VaultAction,
-  VaultActionPagination,
   VaultActionType,
   VaultActionStatus,
   VaultRole,
@@ -72,16 +81,21 @@ const DEFAULT_FILTERS: Filters = {
 
 interface VaultActionRowProps {
   item: VaultAction;
+  highlighted: boolean;
   onPress: (item: VaultAction) => void;
 }
 
-const VaultActionRow = React.memo<VaultActionRowProps>(({ item, onPress }) => {
+const VaultActionRow = React.memo<VaultActionRowProps>(({ item, highlighted, onPress }) => {
   const handlePress = useCallback(() => onPress(item), [onPress, item]);
   const statusColor = getActionStatusColor(item.status);
 
   return (
     <Pressable
-      style={({ pressed }) => [styles.actionRow, pressed && { opacity: 0.7 }]}
+      style={({ pressed }) => [
+        styles.actionRow,
+        highlighted && styles.actionRowHighlighted,
+        pressed && { opacity: 0.7 },
+      ]}
       onPress={handlePress}
     >
       <View style={styles.actionInfo}>
@@ -110,17 +124,18 @@ const VaultActionRow = React.memo<VaultActionRowProps>(({ item, onPress }) => {
 interface Props {
   vaultId: string;
   role: VaultRole | null;
+  // Highlighted, and opened once it shows up in the list
+  focusActionId?: string;
 }
 
-export const VaultActionsContent: React.FC<Props> = ({ vaultId, role }) => {
-  const { accessToken } = useAuth();
+export const VaultActionsContent: React.FC<Props> = ({ vaultId, role, focusActionId }) => {
+  const { accessToken, user } = useAuth();
+  const { run: runLocked, isPending } = useInFlightLock();
+  const { keyFor, release } = useIdempotencyKeys();
+  const { isOffline } = useConnectivity();
 
-  const [actions, setActions] = useState<VaultAction[]>([]);
-  const [pagination, setPagination] = useState<VaultActionPagination | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [loadingMore, setLoadingMore] = useState(false);
-  const [refreshing, setRefreshing] = useState(false);
   const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
   const [filters, setFilters] = useState<Filters>(DEFAULT_FILTERS);
   const [showFilterModal, setShowFilterModal] = useState(false);
   const [draftFilters, setDraftFilters] = useState<Filters>(DEFAULT_FILTERS);
@@ -129,6 +144,14 @@ export const VaultActionsContent: React.FC<Props> = ({ vaultId, role }) => {
   const [rejectingAction, setRejectingAction] = useState<VaultAction | null>(null);
 
   const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const openedFocusRef = useRef<string | null>(null);
+
+  useEffect(
+    () => () => {
+      if (debounceRef.current) clearTimeout(debounceRef.current);
+    },
+    [],
+  );
 
   const activeFilterCount = useMemo(() => {
     let count = 0;
@@ -138,57 +161,61 @@ export const VaultActionsContent: React.FC<Props> = ({ vaultId, role }) => {
     return count;
   }, [filters]);
 
-  const loadActions = useCallback(
-    async (page: number, searchQuery: string, currentFilters: Filters, append: boolean) => {
-      if (!accessToken) return;
+  const fetchActionPage = useMemo<PageFetcher<VaultAction> | null>(() => {
+    if (!accessToken) return null;
+    return async ({ page, pageSize, signal }) => {
       const res = await fetchVaultActions(accessToken, vaultId, {
         page,
-        limit: PAGE_SIZE,
-        initiator: searchQuery || undefined,
-        types: currentFilters.types.length > 0 ? currentFilters.types : undefined,
-        statuses: currentFilters.statuses.length > 0 ? currentFilters.statuses : undefined,
-        sortOrder: currentFilters.sortOrder,
-      });
-
-      if (res._status === 200 && res.data) {
-        setActions((prev) => (append ? [...prev, ...res.data!] : res.data!));
-        setPagination(res.pagination ?? null);
-      } else {
-        Alert.alert('Error', res.error?.message || 'Failed to load vault actions');
+        limit: pageSize,
+        initiator: query || undefined,
+        types: filters.types.length > 0 ? filters.types : undefined,
+        statuses: filters.statuses.length > 0 ? filters.statuses : undefined,
+        sortOrder: filters.sortOrder,
+      }, signal);
+
+      // The unfiltered first page doubles as the offline snapshot
+      const isDefaultView =
+        page === 1 &&
+        !query &&
+        filters.types.length === 0 &&
+        filters.statuses.length === 0 &&
+        filters.sortOrder === DEFAULT_FILTERS.sortOrder;
+      if (isDefaultView) {
+        const result = await resolveWithSnapshot(user?.sub, `actions_${vaultId}`, res);
+        if (result?.savedAt) return toSnapshotPage(res, result.data, result.savedAt);
       }
-    },
-    [accessToken, vaultId],
-  );
+      return toPageResponse(res, res.data, res.pagination, { page, pageSize });
+    };
+  }, [accessToken, user?.sub, vaultId, query, filters]);
+
+  const {
+    items: actions,
+    asOf,
+    error,
+    isLoading: loading,
+    isRefreshing: refreshing,
+    isLoadingMore: loadingMore,
+    refresh: handleRefresh,
+    reload,
+    loadMore: handleLoadMore,
+  } = usePaginatedQuery(fetchActionPage, { getKey: keyExtractor, pageSize: PAGE_SIZE });
 
   useEffect(() => {
-    setLoading(true);
-    loadActions(1, search, filters, false).then(() => setLoading(false));
-  }, [loadActions]);
-
-  const handleSearch = useCallback(
-    (text: string) => {
-      setSearch(text);
-      if (debounceRef.current) clearTimeout(debounceRef.current);
-      debounceRef.current = setTimeout(() => {
-        setLoading(true);
-        loadActions(1, text, filters, false).then(() => setLoading(false));
-      }, 300);
-    },
-    [loadActions, filters],
-  );
+    if (error && !isConnectivityError(error)) {
+      Alert.alert('Error', error.message || 'Failed to load vault actions');
+    }
+  }, [error]);
 
-  const handleLoadMore = useCallback(() => {
-    if (!pagination || pagination.page >= pagination.totalPage || loadingMore) return;
-    setLoadingMore(true);
-    loadActions(pagination.page + 1, search, filters, true).then(() => setLoadingMore(false));
-  }, [pagination, loadingMore, loadActions, search, filters]);
+  const handleSearch = useCallback((text: string) => {
+    setSearch(text);
+    if (debounceRef.current) clearTimeout(debounceRef.current);
+    debounceRef.current = setTimeout(() => setQuery(text), 300);
+  }, []);
 
-  const handleRefresh = useCallback(() => {
-    setRefreshing(true);
-    loadActions(1, search, filters, false).then(() => setRefreshing(false));
-  }, [loadActions, search, filters]);
+  useRefetchOnReconnect(isOffline, !!asOf, handleRefresh);
 
-  const canAct = role !== 'VIEWER' && role !== null;
+  // Responding to actions is unavailable while offline
+  const canAct = !isOffline && role !== 'VIEWER' && role !== null;
 
   const handleActionPress = useCallback(
     (item: VaultAction) => {
@@ -198,17 +225,20 @@ export const VaultActionsContent: React.FC<Props> = ({ vaultId, role }) => {
       if (canAct && canRespondToAction(item.status)) {
         buttons.push({
           text: 'Approve',
-          onPress: async () => {
-            if (!accessToken) return;
-            const res = await approveVaultAction(accessToken, vaultId, item.id);
-            if (res._status === 200) {
-              Alert.alert('Success', 'Action approved');
-              setLoading(true);
-              loadActions(1, search, filters, false).then(() => setLoading(false));
-            } else {
-              Alert.alert('Error', res.error?.message || 'Failed to approve action');
-            }
-          },
+          onPress: () =>
+            runLocked(`respond:${item.id}`, async () => {
+              if (!accessToken) return;
+              const res = await approveVaultAction(accessToken, vaultId, item.id, {
+                idempotencyKey: keyFor(`approve:${item.id}`),
+              });
+              if (isApiSuccess(res)) {
+                release(`approve:${item.id}`);
+                Alert.alert('Success', 'Action approved');
+                reload();
+              } else {
+                Alert.alert('Error', res.error?.message || 'Failed to approve action');
+              }
+            }),
         });
         buttons.push({
           text: 'Reject',
@@ -231,17 +261,20 @@ export const VaultActionsContent: React.FC<Props> = ({ vaultId, role }) => {
               {
                 text: 'Yes, Cancel',
                 style: 'destructive',
-                onPress: async () => {
-                  if (!accessToken) return;
-                  const res = await cancelVaultAction(accessToken, vaultId, item.id);
-                  if (res._status === 200) {
-                    Alert.alert('Success', 'Action canceled');
-                    setLoading(true);
-                    loadActions(1, search, filters, false).then(() => setLoading(false));
-                  } else {
-                    Alert.alert('Error', res.error?.message || 'Failed to cancel action');
-                  }
-                },
+                onPress: () =>
+                  runLocked(`cancel:${item.id}`, async () => {
+                    if (!accessToken) return;
+                    const res = await cancelVaultAction(accessToken, vaultId, item.id, {
+                      idempotencyKey: keyFor(`cancel:${item.id}`),
+                    });
+                    if (isApiSuccess(res)) {
+                      release(`cancel:${item.id}`);
+                      Alert.alert('Success', 'Action canceled');
+                      reload();
+                    } else {
+                      Alert.alert('Error', res.error?.message || 'Failed to cancel action');
+                    }
+                  }),
               },
             ]);
           },
@@ -256,24 +289,36 @@ export const VaultActionsContent: React.FC<Props> = ({ vaultId, role }) => {
         buttons,
       );
     },
-    [canAct, accessToken, vaultId, loadActions, search, filters],
+    [canAct, accessToken, vaultId, reload, runLocked, keyFor, release],
   );
 
+  useEffect(() => {
+    if (!focusActionId || openedFocusRef.current === focusActionId) return;
+    const focused = actions.find((a) => a.id === focusActionId);
+    if (!focused) return;
+    openedFocusRef.current = focusActionId;
+    handleActionPress(focused);
+  }, [focusActionId, actions, handleActionPress]);
+
   const handleRejectSubmit = useCallback(async () => {
     if (!accessToken || !rejectingAction) return;
-    const res = await rejectVaultAction(accessToken, vaultId, rejectingAction.id, {
-      reason: rejectReason || undefined,
+    await runLocked(`respond:${rejectingAction.id}`, async () => {
+      const data = { reason: rejectReason || undefined };
+      const operation = `reject:${rejectingAction.id}`;
+      const res = await rejectVaultAction(accessToken, vaultId, rejectingAction.id, data, {
+        idempotencyKey: keyFor(operation, data),
+      });
+      setShowRejectModal(false);
+      setRejectingAction(null);
+      if (isApiSuccess(res)) {
+        release(operation);
+        Alert.alert('Success', 'Action rejected');
+        reload();
+      } else {
+        Alert.alert('Error', res.error?.message || 'Failed to reject action');
+      }
     });
-    setShowRejectModal(false);
-    setRejectingAction(null);
-    if (res._status === 200) {
-      Alert.alert('Success', 'Action rejected');
-      setLoading(true);
-      loadActions(1, search, filters, false).then(() => setLoading(false));
-    } else {
-      Alert.alert('Error', res.error?.message || 'Failed to reject action');
-    }
-  }, [accessToken, vaultId, rejectingAction, rejectReason, loadActions, search, filters]);
+  }, [accessToken, vaultId, rejectingAction, rejectReason, reload, runLocked, keyFor, release]);
 
   // ─── Filter handlers ───
 
@@ -285,9 +330,7 @@ export const VaultActionsContent: React.FC<Props> = ({ vaultId, role }) => {
   const handleApplyFilters = useCallback(() => {
     setFilters(draftFilters);
     setShowFilterModal(false);
-    setLoading(true);
-    loadActions(1, search, draftFilters, false).then(() => setLoading(false));
-  }, [draftFilters, loadActions, search]);
+  }, [draftFilters]);
 
   const handleClearFilters = useCallback(() => {
     setDraftFilters(DEFAULT_FILTERS);
@@ -313,9 +356,13 @@ export const VaultActionsContent: React.FC<Props> = ({ vaultId, role }) => {
 
   const renderAction = useCallback(
     ({ item }: { item: VaultAction }) => (
-      <VaultActionRow item={item} onPress={handleActionPress} />
+      <VaultActionRow
+        item={item}
+        highlighted={item.id === focusActionId}
+        onPress={handleActionPress}
+      />
     ),
-    [handleActionPress],
+    [handleActionPress, focusActionId],
   );
 
   if (loading && actions.length === 0) {
@@ -349,6 +396,8 @@ export const VaultActionsContent: React.FC<Props> = ({ vaultId, role }) => {
         </Pressable>
       </View>
 
+      <OfflineBanner asOf={asOf} />
+
       {/* List */}
       <FlatList
         data={actions}
@@ -541,6 +590,7 @@ export const VaultActionsContent: React.FC<Props> = ({ vaultId, role }) => {
                   pressed && { opacity: 0.7 },
                 ]}
                 onPress={handleRejectSubmit}
+                disabled={!!rejectingAction && isPending(`respond:${rejectingAction.id}`)}
               >
                 <Text style={styles.rejectButtonText}>Reject</Text>
               </Pressable>
@@ -611,6 +661,10 @@ const styles = StyleSheet.create({
     shadowRadius: 2,
     elevation: 1,
   },
+  actionRowHighlighted: {
+    borderWidth: 1.5,
+    borderColor: PRIMARY,
+  },
   actionInfo: {
     flex: 1,
     marginRight: 8,
@@ -5,26 +5,35 @@ import {
   StyleSheet,
   Pressable,
   ScrollView,
-  FlatList,
   ActivityIndicator,
   Alert,
   RefreshControl,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useRouter, useFocusEffect } from 'expo-router';
+import { useRouter } from 'expo-router';
 import { useAuth } from '../hooks/useAuth';
 import { useVault } from '../hooks/useVault';
-import { fetchVault, fetchVaultUserProfile, fetchVaultBalances } from '../services/api';
+import { useQuery } from '../hooks/useQuery';
+import { useVaultUserProfile } from '../hooks/useVaultUserProfile';
+import { useConnectivity } from '../hooks/useConnectivity';
+import { useRefetchOnReconnect } from '../hooks/useRefetchOnReconnect';
+import { usePreferences } from '../hooks/usePreferences';
+import { fetchVault, fetchVaultBalances } from '../services/api';
+import { fetchQuery, subscribeQuery } from '../services/queryCache';
+import { queryKeys } from '../services/queryKeys';
+import { resolveWithSnapshot } from '../services/offlineSnapshot';
 import { canManageMembers } from '../utils/permissions';
 import { VaultSwitcherHeader } from '../components/VaultSwitcherHeader';
 import { WalletListScreen } from './WalletListScreen';
 import { VaultActionsContent } from './VaultActionsContent';
+import { VaultPortfolioContent } from './VaultPortfolioContent';
 import {
   PRIMARY,
   SUCCESS,
   DANGER,
   WARNING,
   BLUE_GREY,
+  PURPLE,
   TEXT_PRIMARY,
   TEXT_SECONDARY,
   TEXT_TERTIARY,
@@ -39,75 +48,66 @@ import {
   SHADOW,
   TRANSPARENT,
 } from '@/constants/colors';
-import type { Vault, VaultUserData, VaultRole, VaultBalance } from '../types';
+import type { Vault, VaultRole, VaultBalance } from '../types';
 
-type TabKey = 'wallets' | 'balances' | 'actions' | 'settings';
-
-const currencyFormatter = new Intl.NumberFormat('en-US', {
-  style: 'currency',
-  currency: 'USD',
-});
+type TabKey = 'wallets' | 'portfolio' | 'actions' | 'settings';
 
 interface Props {
   vaultId: string;
+  // Opens the Actions tab with this action selected, e.g. from a pending wallet change
+  focusActionId?: string;
 }
 
-export const VaultDetailScreen: React.FC<Props> = ({ vaultId }) => {
-  const { accessToken } = useAuth();
+export const VaultDetailScreen: React.FC<Props> = ({ vaultId, focusActionId }) => {
+  const { accessToken, user } = useAuth();
   const { refreshVaults } = useVault();
+  const { isOffline } = useConnectivity();
+  const { currency, isLoaded: preferencesLoaded } = usePreferences();
   const router = useRouter();
 
-  const [vault, setVault] = useState<Vault | null>(null);
-  const [vaultUser, setVaultUser] = useState<VaultUserData | null>(null);
-  const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [activeTab, setActiveTab] = useState<TabKey>('wallets');
+  const [activeTab, setActiveTab] = useState<TabKey>(focusActionId ? 'actions' : 'wallets');
   const [balances, setBalances] = useState<VaultBalance[]>([]);
   const [balancesLoading, setBalancesLoading] = useState(false);
   const [balancesRefreshing, setBalancesRefreshing] = useState(false);
+  const [balancesAsOf, setBalancesAsOf] = useState<string | null>(null);
+
+  const {
+    data: vault,
+    error: vaultError,
+    isLoading,
+    refetch: refetchVault,
+  } = useQuery(accessToken ? queryKeys.vault(vaultId) : null, () =>
+    fetchVault(accessToken ?? '', vaultId),
+  );
+  const { data: vaultUser, refetch: refetchVaultUser } = useVaultUserProfile(vaultId);
 
-  const loadData = useCallback(async () => {
-    if (!accessToken) return;
-    try {
-      const [vaultRes, profileRes] = await Promise.all([
-        fetchVault(accessToken, vaultId),
-        fetchVaultUserProfile(accessToken, vaultId),
-      ]);
-      if (vaultRes._status === 200 && vaultRes.data) {
-        setVault(vaultRes.data);
-      } else {
-        Alert.alert('Error', vaultRes.error?.message || 'Failed to load vault');
-      }
-      if (profileRes._status === 200 && profileRes.data) {
-        setVaultUser(profileRes.data);
-      }
-    } catch {
-      Alert.alert('Error', 'Failed to load vault details');
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
+  useEffect(() => {
+    if (vaultError) {
+      Alert.alert('Error', vaultError.message || 'Failed to load vault');
     }
-  }, [accessToken, vaultId]);
-
-  useFocusEffect(
-    useCallback(() => {
-      setLoading(true);
-      loadData();
-    }, [loadData]),
-  );
+  }, [vaultError]);
 
   const onRefresh = useCallback(() => {
     setRefreshing(true);
-    Promise.all([loadData(), refreshVaults()]);
-  }, [loadData, refreshVaults]);
+    Promise.all([refetchVault(), refetchVaultUser(), refreshVaults()]).finally(() =>
+      setRefreshing(false),
+    );
+  }, [refetchVault, refetchVaultUser, refreshVaults]);
 
-  const loadBalances = useCallback(async () => {
-    if (!accessToken) return;
+  const loadBalances = useCallback(async (force = false) => {
+    if (!accessToken || !preferencesLoaded) return;
     setBalancesLoading(true);
     try {
-      const res = await fetchVaultBalances(accessToken, vaultId);
-      if (res._status === 200 && res.data) {
-        setBalances(res.data);
+      const res = await fetchQuery(
+        queryKeys.vaultBalances(vaultId, { currency }),
+        () => fetchVaultBalances(accessToken, vaultId, { currency }),
+        { force },
+      );
+      const result = await resolveWithSnapshot(user?.sub, `balances_${vaultId}`, res);
+      if (result) {
+        setBalances(result.data);
+        setBalancesAsOf(result.savedAt);
       }
     } catch {
       Alert.alert('Error', 'Failed to load balances');
@@ -115,20 +115,24 @@ export const VaultDetailScreen: React.FC<Props> = ({ vaultId }) => {
       setBalancesLoading(false);
       setBalancesRefreshing(false);
     }
-  }, [accessToken, vaultId]);
+  }, [accessToken, preferencesLoaded, user?.sub, vaultId, currency]);
 
   const onRefreshBalances = useCallback(() => {
     setBalancesRefreshing(true);
-    loadBalances();
+    loadBalances(true);
   }, [loadBalances]);
 
+  useRefetchOnReconnect(isOffline, !!balancesAsOf, () => loadBalances(true));
+
   useEffect(() => {
-    if (activeTab === 'balances') {
-      loadBalances();
-    }
-  }, [activeTab, loadBalances]);
+    if (activeTab !== 'portfolio') return;
+    loadBalances();
+    return subscribeQuery(queryKeys.vaultBalances(vaultId), (event) => {
+      if (event === 'invalidated') loadBalances();
+    });
+  }, [activeTab, loadBalances, vaultId]);
 
-  if (loading) {
+  if (isLoading) {
     return (
       <SafeAreaView style={styles.container}>
         <View style={styles.centered}>
@@ -156,18 +160,20 @@ export const VaultDetailScreen: React.FC<Props> = ({ vaultId }) => {
       <View style={styles.tabContent}>
         {activeTab === 'wallets' ? (
           <WalletListScreen vaultId={vaultId} embedded role={role} />
-        ) : activeTab === 'balances' ? (
-          <VaultBalancesContent
+        ) : activeTab === 'portfolio' ? (
+          <VaultPortfolioContent
+            vaultId={vaultId}
             balances={balances}
+            asOf={balancesAsOf}
             loading={balancesLoading}
             refreshing={balancesRefreshing}
             onRefresh={onRefreshBalances}
           />
         ) : activeTab === 'actions' ? (
-          <VaultActionsContent vaultId={vaultId} role={role} />
+          <VaultActionsContent vaultId={vaultId} role={role} focusActionId={focusActionId} />
         ) : (
           <VaultOverviewContent
-            vault={vault}
+            vault={vault ?? null}
             vaultId={vaultId}
             role={role}
             showSettings={showSettings}
@@ -186,9 +192,9 @@ export const VaultDetailScreen: React.FC<Props> = ({ vaultId }) => {
           onPress={() => setActiveTab('wallets')}
         />
         <TabButton
-          label="Balances"
-          active={activeTab === 'balances'}
-          onPress={() => setActiveTab('balances')}
+          label="Portfolio"
+          active={activeTab === 'portfolio'}
+          onPress={() => setActiveTab('portfolio')}
         />
         <TabButton
           label="Actions"
@@ -313,6 +319,39 @@ const VaultOverviewContent: React.FC<VaultOverviewProps> = ({
         <Text style={styles.navButtonText}>Audit Logs</Text>
       </Pressable>
 
+      <Pressable
+        style={({ pressed }) => [
+          styles.navButton,
+          styles.transactionsButton,
+          pressed && { opacity: 0.7 },
+        ]}
+        onPress={() => router.push(`/vaults/${vaultId}/transactions`)}
+      >
+        <Text style={styles.navButtonText}>Transactions</Text>
+      </Pressable>
+
+      <Pressable
+        style={({ pressed }) => [
+          styles.navButton,
+          styles.pendingTransactionsButton,
+          pressed && { opacity: 0.7 },
+        ]}
+        onPress={() => router.push(`/vaults/${vaultId}/transactions/pending`)}
+      >
+        <Text style={styles.navButtonText}>Pending Transactions</Text>
+      </Pressable>
+
+      <Pressable
+        style={({ pressed }) => [
+          styles.navButton,
+          styles.addressBookButton,
+          pressed && { opacity: 0.7 },
+        ]}
+        onPress={() => router.push(`/vaults/${vaultId}/address-book`)}
+      >
+        <Text style={styles.navButtonText}>Address Book</Text>
+      </Pressable>
+
       {showSettings && (
         <Pressable
           style={({ pressed }) => [
@@ -353,99 +392,6 @@ const InfoRow: React.FC<{ label: string; value: string; isLast?: boolean }> = ({
   </View>
 );
 
-// ─── Balances Tab ───
-
-interface VaultBalancesContentProps {
-  balances: VaultBalance[];
-  loading: boolean;
-  refreshing: boolean;
-  onRefresh: () => void;
-}
-
-const balanceKeyExtractor = (item: VaultBalance) => item.assetId;
-
-const BalanceCard = React.memo(function BalanceCard({ balance }: { balance: VaultBalance }) {
-  return (
-    <View style={balanceStyles.card}>
-      <View style={balanceStyles.cardHeader}>
-        <Text style={balanceStyles.assetId} numberOfLines={1}>
-          {balance.assetId}
-        </Text>
-      </View>
-      <View style={balanceStyles.row}>
-        <Text style={balanceStyles.label}>Amount</Text>
-        <Text style={balanceStyles.value}>{balance.amount}</Text>
-      </View>
-      <View style={balanceStyles.row}>
-        <Text style={balanceStyles.label}>Value</Text>
-        <Text style={balanceStyles.value}>
-          {currencyFormatter.format(parseFloat(balance.convertedValue.amount) || 0)}
-        </Text>
-      </View>
-      {balance.lockedAmount ? (
-        <View style={balanceStyles.row}>
-          <Text style={balanceStyles.label}>Locked</Text>
-          <Text style={balanceStyles.valueLocked}>{balance.lockedAmount}</Text>
-        </View>
-      ) : null}
-      {balance.walletBalances.length > 0 && (
-        <View style={balanceStyles.walletBreakdown}>
-          <Text style={balanceStyles.breakdownTitle}>Per Wallet</Text>
-          {balance.walletBalances.map((wb) => (
-            <View key={wb.walletId} style={balanceStyles.walletRow}>
-              <Text style={balanceStyles.walletName} numberOfLines={1}>
-                {wb.walletName}
-              </Text>
-              <View style={balanceStyles.walletValues}>
-                <Text style={balanceStyles.walletAmount}>{wb.amount}</Text>
-                <Text style={balanceStyles.walletConverted}>
-                  {currencyFormatter.format(parseFloat(wb.convertedValue.amount) || 0)}
-                </Text>
-              </View>
-            </View>
-          ))}
-        </View>
-      )}
-    </View>
-  );
-});
-
-const renderBalanceItem = ({ item }: { item: VaultBalance }) => (
-  <BalanceCard balance={item} />
-);
-
-const VaultBalancesContent: React.FC<VaultBalancesContentProps> = ({
-  balances,
-  loading,
-  refreshing,
-  onRefresh,
-}) => {
-  if (loading && !refreshing) {
-    return (
-      <View style={styles.centered}>
-        <ActivityIndicator size="large" color={PRIMARY} />
-      </View>
-    );
-  }
-
-  return (
-    <FlatList
-      data={balances}
-      keyExtractor={balanceKeyExtractor}
-      renderItem={renderBalanceItem}
-      contentContainerStyle={balanceStyles.listContent}
-      refreshControl={
-        <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={PRIMARY} />
-      }
-      ListEmptyComponent={
-        <View style={balanceStyles.emptyState}>
-          <Text style={balanceStyles.emptyText}>No balances</Text>
-        </View>
-      }
-    />
-  );
-};
-
 const infoStyles = StyleSheet.create({
   row: {
     flexDirection: 'row',
@@ -549,6 +495,15 @@ const styles = StyleSheet.create({
   auditLogsButton: {
     backgroundColor: BLUE_GREY,
   },
+  transactionsButton: {
+    backgroundColor: PURPLE,
+  },
+  pendingTransactionsButton: {
+    backgroundColor: WARNING,
+  },
+  addressBookButton: {
+    backgroundColor: BLUE_GREY,
+  },
   settingsButton: {
     backgroundColor: WARNING,
   },
@@ -587,93 +542,3 @@ const styles = StyleSheet.create({
     color: PRIMARY,
   },
 });
-
-const balanceStyles = StyleSheet.create({
-  listContent: {
-    padding: 16,
-    paddingBottom: 32,
-  },
-  card: {
-    backgroundColor: BG_WHITE,
-    borderRadius: 12,
-    padding: 14,
-    marginBottom: 10,
-    gap: 6,
-    shadowColor: SHADOW,
-    shadowOffset: { width: 0, height: 1 },
-    shadowOpacity: 0.05,
-    shadowRadius: 4,
-    elevation: 1,
-  },
-  cardHeader: {
-    marginBottom: 4,
-  },
-  assetId: {
-    fontSize: 13,
-    fontWeight: '600',
-    color: TEXT_SECONDARY,
-  },
-  row: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-  },
-  label: {
-    fontSize: 14,
-    color: TEXT_SECONDARY,
-  },
-  value: {
-    fontSize: 14,
-    fontWeight: '500',
-    color: TEXT_PRIMARY,
-  },
-  valueLocked: {
-    fontSize: 14,
-    fontWeight: '500',
-    color: WARNING,
-  },
-  walletBreakdown: {
-    marginTop: 8,
-    paddingTop: 8,
-    borderTopWidth: 1,
-    borderTopColor: DIVIDER,
-  },
-  breakdownTitle: {
-    fontSize: 12,
-    fontWeight: '600',
-    color: TEXT_TERTIARY,
-    marginBottom: 6,
-  },
-  walletRow: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    paddingVertical: 4,
-  },
-  walletName: {
-    fontSize: 13,
-    color: TEXT_SECONDARY,
-    flex: 1,
-    marginRight: 8,
-  },
-  walletValues: {
-    alignItems: 'flex-end',
-  },
-  walletAmount: {
-    fontSize: 13,
-    fontWeight: '500',
-    color: TEXT_PRIMARY,
-  },
-  walletConverted: {
-    fontSize: 12,
-    color: TEXT_TERTIARY,
-  },
-  emptyState: {
-    alignItems: 'center',
-    paddingTop: 40,
-  },
-  emptyText: {
-    fontSize: 16,
-    color: TEXT_TERTIARY,
-  },
-});
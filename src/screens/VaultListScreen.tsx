@@ -14,6 +14,7 @@ import { useRouter } from 'expo-router';
 import { useAuth } from '../hooks/useAuth';
 import { useVault } from '../hooks/useVault';
 import { getRoleColor } from '../utils/permissions';
+import { OfflineBanner } from '../components/OfflineBanner';
 import type { Vault, VaultRole } from '../types';
 import {
   PRIMARY,
@@ -82,7 +83,8 @@ const VaultCard = React.memo<VaultCardProps>(({ item, role, onPress }) => {
 
 export const VaultListScreen: React.FC = () => {
   const { logout, isLoading } = useAuth();
-  const { vaults, membershipMap, isLoading: vaultLoading, refreshVaults } = useVault();
+  const { vaults, membershipMap, vaultsAsOf, isLoading: vaultLoading, refreshVaults } =
+    useVault();
   const router = useRouter();
 
   const loading = vaultLoading && vaults.length === 0;
@@ -127,14 +129,23 @@ export const VaultListScreen: React.FC = () => {
     <SafeAreaView style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.headerTitle}>MPC Mobile</Text>
-        <Pressable
-          style={({ pressed }) => [styles.logoutButton, pressed && { opacity: 0.7 }]}
-          onPress={handleLogout}
-          disabled={isLoading}
-        >
-          <Text style={styles.logoutButtonText}>Sign Out</Text>
-        </Pressable>
+        <View style={styles.headerActions}>
+          <Pressable
+            style={({ pressed }) => [styles.settingsButton, pressed && { opacity: 0.7 }]}
+            onPress={() => router.push('/settings')}
+          >
+            <Text style={styles.settingsButtonText}>Settings</Text>
+          </Pressable>
+          <Pressable
+            style={({ pressed }) => [styles.logoutButton, pressed && { opacity: 0.7 }]}
+            onPress={handleLogout}
+            disabled={isLoading}
+          >
+            <Text style={styles.logoutButtonText}>Sign Out</Text>
+          </Pressable>
+        </View>
       </View>
+      <OfflineBanner asOf={vaultsAsOf} />
       <FlatList
         data={vaults}
         keyExtractor={keyExtractor}
@@ -178,6 +189,20 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: TEXT_PRIMARY,
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  settingsButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: BG_WHITE,
+  },
+  settingsButtonText: {
+    color: PRIMARY,
+    fontWeight: '600',
+  },
   logoutButton: {
     paddingHorizontal: 16,
     paddingVertical: 8,
@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -13,13 +13,21 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
 import { useAuth } from '../hooks/useAuth';
+import { useInFlightLock } from '../hooks/useInFlightLock';
+import { usePaginatedQuery } from '../hooks/usePaginatedQuery';
+import { useVaultUserProfile } from '../hooks/useVaultUserProfile';
+import { useConnectivity } from '../hooks/useConnectivity';
+import { OfflineBanner } from '../components/OfflineBanner';
 import {
   fetchVaultMembers,
-  fetchVaultUserProfile,
   addVaultMember,
   updateVaultMemberRole,
   deleteVaultMember,
 } from '../services/api';
+import { isApiSuccess } from '../services/response';
+import { fetchQuery } from '../services/queryCache';
+import { queryKeys } from '../services/queryKeys';
+import { toPageResponse, type PageFetcher } from '../services/pagination';
 import { canManageMembers, canManageMember, getRoleColor } from '../utils/permissions';
 import {
   BG_MAIN,
@@ -33,7 +41,7 @@ import {
   OVERLAY,
   BORDER_MID,
 } from '@/constants/colors';
-import type { VaultMember, VaultRole, Pagination } from '../types';
+import type { VaultMember, VaultRole } from '../types';
 
 const ROLES: VaultRole[] = ['OWNER', 'ADMIN', 'SIGNER', 'VIEWER'];
 const PAGE_SIZE = 20;
@@ -83,13 +91,14 @@ interface Props {
 export const VaultMembersScreen: React.FC<Props> = ({ vaultId }) => {
   const { accessToken } = useAuth();
   const router = useRouter();
+  const { run: runLocked } = useInFlightLock();
+  const { isOffline } = useConnectivity();
+  const myRole = useVaultUserProfile(vaultId).data?.role ?? null;
+  // Member changes are unavailable while offline
+  const canEditMembers = !isOffline && !!myRole && canManageMembers(myRole);
 
-  const [members, setMembers] = useState<VaultMember[]>([]);
-  const [pagination, setPagination] = useState<Pagination | null>(null);
-  const [myRole, setMyRole] = useState<VaultRole | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [loadingMore, setLoadingMore] = useState(false);
   const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
   const [showAddModal, setShowAddModal] = useState(false);
   const [addEmail, setAddEmail] = useState('');
   const [addRole, setAddRole] = useState<VaultRole>('VIEWER');
@@ -97,59 +106,55 @@ export const VaultMembersScreen: React.FC<Props> = ({ vaultId }) => {
 
   const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-  const loadMyRole = useCallback(async () => {
-    if (!accessToken) return;
-    const res = await fetchVaultUserProfile(accessToken, vaultId);
-    if (res._status === 200 && res.data) {
-      setMyRole(res.data.role);
-    }
-  }, [accessToken, vaultId]);
-
-  const loadMembers = useCallback(
-    async (page: number, searchQuery: string, append: boolean) => {
-      if (!accessToken) return;
-      const res = await fetchVaultMembers(accessToken, vaultId, {
-        page,
-        pageSize: PAGE_SIZE,
-        search: searchQuery || undefined,
-      });
-      if (res._status === 200 && res.data) {
-        setMembers((prev) => (append ? [...prev, ...res.data!.members] : res.data!.members));
-        setPagination(res.data.pagination);
-      } else {
-        Alert.alert('Error', res.error?.message || 'Failed to load members');
-      }
+  useEffect(
+    () => () => {
+      if (debounceRef.current) clearTimeout(debounceRef.current);
     },
-    [accessToken, vaultId],
+    [],
   );
 
-  useEffect(() => {
-    const init = async () => {
-      await loadMyRole();
-      await loadMembers(1, '', false);
-      setLoading(false);
+  const fetchMemberPage = useMemo<PageFetcher<VaultMember> | null>(() => {
+    if (!accessToken) return null;
+    return async ({ page, pageSize, force }) => {
+      const params = { page, pageSize, search: query || undefined };
+      const res = await fetchQuery(
+        queryKeys.members(vaultId, params),
+        () => fetchVaultMembers(accessToken, vaultId, params),
+        { force },
+      );
+      return toPageResponse(res, res.data?.members, res.data?.pagination, { page, pageSize });
     };
-    init();
-  }, [loadMyRole, loadMembers]);
+  }, [accessToken, vaultId, query]);
+
+  // Reloads when a mutation elsewhere (e.g. an approved vault action) changes members
+  const {
+    items: members,
+    error,
+    isLoading: loading,
+    isRefreshing,
+    isLoadingMore: loadingMore,
+    refresh: handleRefresh,
+    reload,
+    loadMore: handleLoadMore,
+  } = usePaginatedQuery(fetchMemberPage, {
+    getKey: keyExtractor,
+    pageSize: PAGE_SIZE,
+    invalidateKey: queryKeys.members(vaultId),
+  });
+
+  useEffect(() => {
+    if (error) Alert.alert('Error', error.message || 'Failed to load members');
+  }, [error]);
 
   const handleSearch = (text: string) => {
     setSearch(text);
     if (debounceRef.current) clearTimeout(debounceRef.current);
-    debounceRef.current = setTimeout(() => {
-      setLoading(true);
-      loadMembers(1, text, false).then(() => setLoading(false));
-    }, 300);
+    debounceRef.current = setTimeout(() => setQuery(text), 300);
   };
 
-  const handleLoadMore = useCallback(() => {
-    if (!pagination || pagination.page >= pagination.totalPages || loadingMore) return;
-    setLoadingMore(true);
-    loadMembers(pagination.page + 1, search, true).then(() => setLoadingMore(false));
-  }, [pagination, loadingMore, loadMembers, search]);
-
   const handleMemberPress = useCallback(
     (member: VaultMember) => {
-      if (!myRole || !canManageMembers(myRole) || !canManageMember(myRole, member.role)) return;
+      if (!myRole || !canEditMembers || !canManageMember(myRole, member.role)) return;
 
       const options: Array<{ text: string; onPress?: () => void; style?: 'cancel' | 'destructive' }> =
         [
@@ -167,7 +172,7 @@ export const VaultMembersScreen: React.FC<Props> = ({ vaultId }) => {
 
       Alert.alert(member.name || member.email, `Current role: ${member.role}`, options);
     },
-    [myRole],
+    [myRole, canEditMembers],
   );
 
   const showRolePicker = (member: VaultMember) => {
@@ -182,20 +187,19 @@ export const VaultMembersScreen: React.FC<Props> = ({ vaultId }) => {
     Alert.alert('Select Role', `Change role for ${member.name || member.email}`, buttons);
   };
 
-  const handleUpdateRole = async (member: VaultMember, newRole: VaultRole) => {
-    if (!accessToken) return;
-    const res = await updateVaultMemberRole(accessToken, vaultId, member.userId, {
-      role: newRole,
+  const handleUpdateRole = (member: VaultMember, newRole: VaultRole) =>
+    runLocked(`member:${member.userId}`, async () => {
+      if (!accessToken) return;
+      const res = await updateVaultMemberRole(accessToken, vaultId, member.userId, {
+        role: newRole,
+      });
+      if (isApiSuccess(res)) {
+        Alert.alert('Success', 'Role updated');
+        await reload();
+      } else {
+        Alert.alert('Error', res.error?.message || 'Failed to update role');
+      }
     });
-    if (res._status === 200) {
-      Alert.alert('Success', 'Role updated');
-      setLoading(true);
-      await loadMembers(1, search, false);
-      setLoading(false);
-    } else {
-      Alert.alert('Error', res.error?.message || 'Failed to update role');
-    }
-  };
 
   const confirmRemoveMember = (member: VaultMember) => {
     Alert.alert(
@@ -212,46 +216,44 @@ export const VaultMembersScreen: React.FC<Props> = ({ vaultId }) => {
     );
   };
 
-  const handleRemoveMember = async (member: VaultMember) => {
-    if (!accessToken) return;
-    const res = await deleteVaultMember(accessToken, vaultId, member.userId);
-    if (res._status === 200) {
-      Alert.alert('Success', 'Member removed');
-      setLoading(true);
-      await loadMembers(1, search, false);
-      setLoading(false);
-    } else {
-      Alert.alert('Error', res.error?.message || 'Failed to remove member');
-    }
-  };
+  const handleRemoveMember = (member: VaultMember) =>
+    runLocked(`member:${member.userId}`, async () => {
+      if (!accessToken) return;
+      const res = await deleteVaultMember(accessToken, vaultId, member.userId);
+      if (isApiSuccess(res)) {
+        Alert.alert('Success', 'Member removed');
+        await reload();
+      } else {
+        Alert.alert('Error', res.error?.message || 'Failed to remove member');
+      }
+    });
 
-  const handleAddMember = async () => {
-    if (!accessToken || !addEmail.trim()) return;
-    setAddLoading(true);
-    const res = await addVaultMember(accessToken, vaultId, {
-      email: addEmail.trim(),
-      role: addRole,
+  const handleAddMember = () =>
+    runLocked('add', async () => {
+      if (!accessToken || !addEmail.trim()) return;
+      setAddLoading(true);
+      const res = await addVaultMember(accessToken, vaultId, {
+        email: addEmail.trim(),
+        role: addRole,
+      });
+      setAddLoading(false);
+      if (isApiSuccess(res)) {
+        Alert.alert('Success', 'Member added');
+        setShowAddModal(false);
+        setAddEmail('');
+        setAddRole('VIEWER');
+        await reload();
+      } else {
+        Alert.alert('Error', res.error?.message || 'Failed to add member');
+      }
     });
-    setAddLoading(false);
-    if (res._status === 200 || res._status === 201) {
-      Alert.alert('Success', 'Member added');
-      setShowAddModal(false);
-      setAddEmail('');
-      setAddRole('VIEWER');
-      setLoading(true);
-      await loadMembers(1, search, false);
-      setLoading(false);
-    } else {
-      Alert.alert('Error', res.error?.message || 'Failed to add member');
-    }
-  };
 
   const renderMember = useCallback(
     ({ item }: { item: VaultMember }) => {
-      const canManage = !!(myRole && canManageMembers(myRole) && canManageMember(myRole, item.role));
+      const canManage = !!(myRole && canEditMembers && canManageMember(myRole, item.role));
       return <MemberRow item={item} canManage={canManage} onPress={handleMemberPress} />;
     },
-    [myRole, handleMemberPress],
+    [myRole, canEditMembers, handleMemberPress],
   );
 
   if (loading && members.length === 0) {
@@ -275,7 +277,7 @@ export const VaultMembersScreen: React.FC<Props> = ({ vaultId }) => {
           <Text style={styles.backText}>← Back</Text>
         </Pressable>
         <Text style={styles.headerTitle}>Members</Text>
-        {myRole && canManageMembers(myRole) && (
+        {canEditMembers && (
           <Pressable
             style={({ pressed }) => [styles.addButton, pressed && { opacity: 0.7 }]}
             onPress={() => setShowAddModal(true)}
@@ -285,6 +287,8 @@ export const VaultMembersScreen: React.FC<Props> = ({ vaultId }) => {
         )}
       </View>
 
+      <OfflineBanner />
+
       {/* Search */}
       <View style={styles.searchContainer}>
         <TextInput
@@ -306,6 +310,8 @@ export const VaultMembersScreen: React.FC<Props> = ({ vaultId }) => {
         contentContainerStyle={styles.listContent}
         onEndReached={handleLoadMore}
         onEndReachedThreshold={0.5}
+        onRefresh={handleRefresh}
+        refreshing={isRefreshing}
         ListFooterComponent={
           loadingMore ? (
             <ActivityIndicator style={styles.footerLoader} color={PRIMARY} />
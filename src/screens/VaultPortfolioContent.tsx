@@ -0,0 +1,373 @@
+import React, { useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  ScrollView,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { OfflineBanner } from '../components/OfflineBanner';
+import { AssetLabel } from '../components/AssetLabel';
+import { AllocationBar } from '../components/AllocationBar';
+import { BalanceHistorySection } from './BalanceHistorySection';
+import {
+  PRIMARY,
+  SUCCESS,
+  WARNING,
+  GREY,
+  TEXT_PRIMARY,
+  TEXT_SECONDARY,
+  TEXT_TERTIARY,
+  BG_WHITE,
+  DIVIDER,
+  SHADOW,
+} from '@/constants/colors';
+import { formatAssetAmount, getAsset } from '../utils/assets';
+import { formatFiat } from '../utils/currency';
+import { formatShare, summarizePortfolio } from '../utils/portfolio';
+import type { PortfolioAsset, PortfolioWallet, VaultBalance } from '../types';
+
+interface Props {
+  vaultId: string;
+  balances: VaultBalance[];
+  asOf: string | null;
+  loading: boolean;
+  refreshing: boolean;
+  onRefresh: () => void;
+}
+
+const AssetCard = React.memo(function AssetCard({ asset }: { asset: PortfolioAsset }) {
+  const { balance } = asset;
+  return (
+    <View style={styles.card}>
+      <View style={styles.row}>
+        <AssetLabel assetId={balance.assetId} style={styles.assetSymbol} showName />
+        <Text style={styles.value}>{formatFiat(balance.convertedValue)}</Text>
+      </View>
+      <View style={styles.row}>
+        <Text style={styles.label}>Amount</Text>
+        <Text style={styles.value}>{formatAssetAmount(balance)}</Text>
+      </View>
+      {balance.lockedAmount ? (
+        <>
+          <AllocationBar
+            style={styles.cardBar}
+            height={6}
+            segments={[
+              { key: 'available', share: 1 - asset.lockedShare, color: SUCCESS },
+              { key: 'locked', share: asset.lockedShare, color: WARNING },
+            ]}
+          />
+          <View style={styles.row}>
+            <Text style={styles.label}>Available</Text>
+            <Text style={styles.valueAvailable}>
+              {formatAssetAmount({
+                assetId: balance.assetId,
+                amount: asset.availableAmount,
+                rawValue: asset.availableRawValue,
+              })}
+            </Text>
+          </View>
+          <View style={styles.row}>
+            <Text style={styles.label}>Locked in pending transactions</Text>
+            <Text style={styles.valueLocked}>
+              {formatAssetAmount({ assetId: balance.assetId, amount: balance.lockedAmount })}
+            </Text>
+          </View>
+          {balance.lockedConvertedValue && (
+            <View style={styles.row}>
+              <Text style={styles.label}>Locked value</Text>
+              <Text style={styles.valueLocked}>{formatFiat(balance.lockedConvertedValue)}</Text>
+            </View>
+          )}
+        </>
+      ) : null}
+    </View>
+  );
+});
+
+const WalletRow: React.FC<{ wallet: PortfolioWallet; onPress: () => void; isLast: boolean }> = ({
+  wallet,
+  onPress,
+  isLast,
+}) => (
+  <Pressable
+    style={({ pressed }) => [
+      styles.walletRow,
+      !isLast && styles.walletRowBorder,
+      pressed && { opacity: 0.7 },
+    ]}
+    onPress={onPress}
+  >
+    <View style={styles.row}>
+      <Text style={styles.walletName} numberOfLines={1}>
+        {wallet.walletName}
+      </Text>
+      <Text style={styles.value}>{formatFiat(wallet.value)}</Text>
+    </View>
+    <AllocationBar
+      style={styles.walletBar}
+      height={6}
+      segments={[{ key: wallet.walletId, share: wallet.share, color: PRIMARY }]}
+    />
+    <View style={styles.row}>
+      <Text style={styles.walletAssets} numberOfLines={1}>
+        {wallet.assetIds.map((id) => getAsset(id)?.symbol ?? id).join(' · ')}
+      </Text>
+      <Text style={styles.share}>{formatShare(wallet.share)} ›</Text>
+    </View>
+  </Pressable>
+);
+
+export const VaultPortfolioContent: React.FC<Props> = ({
+  vaultId,
+  balances,
+  asOf,
+  loading,
+  refreshing,
+  onRefresh,
+}) => {
+  const router = useRouter();
+  const portfolio = useMemo(() => summarizePortfolio(balances), [balances]);
+
+  if (loading && !refreshing) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={PRIMARY} />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      style={styles.scrollView}
+      contentContainerStyle={styles.scrollContent}
+      refreshControl={
+        <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={PRIMARY} />
+      }
+    >
+      <OfflineBanner asOf={asOf} style={styles.banner} />
+
+      {balances.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyText}>No balances</Text>
+        </View>
+      ) : (
+        <>
+          {/* Total */}
+          <View style={[styles.card, styles.section]}>
+            <Text style={styles.label}>Total value</Text>
+            <Text style={styles.total}>{formatFiat(portfolio.total)}</Text>
+            <AllocationBar
+              style={styles.cardBar}
+              segments={[
+                { key: 'available', share: 1 - portfolio.lockedShare, color: SUCCESS },
+                { key: 'locked', share: portfolio.lockedShare, color: WARNING },
+              ]}
+            />
+            <View style={styles.row}>
+              <LegendItem color={SUCCESS} label="Available" />
+              <Text style={styles.value}>{formatFiat(portfolio.available)}</Text>
+            </View>
+            <View style={styles.row}>
+              <LegendItem color={WARNING} label="Locked" />
+              <Text style={styles.valueLocked}>{formatFiat(portfolio.locked)}</Text>
+            </View>
+          </View>
+
+          {/* History */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>History</Text>
+            <BalanceHistorySection vaultId={vaultId} />
+          </View>
+
+          {/* Allocation by asset */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Allocation</Text>
+            <View style={styles.card}>
+              <AllocationBar
+                height={14}
+                segments={portfolio.assets.map((a) => ({
+                  key: a.balance.assetId,
+                  share: a.share,
+                  color: getAsset(a.balance.assetId)?.color ?? GREY,
+                }))}
+              />
+              {portfolio.assets.map((a) => (
+                <View key={a.balance.assetId} style={styles.legendRow}>
+                  <AssetLabel assetId={a.balance.assetId} style={styles.assetSymbol} />
+                  <Text style={styles.share}>{formatShare(a.share)}</Text>
+                </View>
+              ))}
+            </View>
+          </View>
+
+          {/* Per-asset detail */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Assets</Text>
+            {portfolio.assets.map((a) => (
+              <AssetCard key={a.balance.assetId} asset={a} />
+            ))}
+          </View>
+
+          {/* Contribution by wallet */}
+          {portfolio.wallets.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Wallets</Text>
+              <View style={styles.card}>
+                {portfolio.wallets.map((w, i) => (
+                  <WalletRow
+                    key={w.walletId}
+                    wallet={w}
+                    isLast={i === portfolio.wallets.length - 1}
+                    onPress={() => router.push(`/vaults/${vaultId}/wallets/${w.walletId}`)}
+                  />
+                ))}
+              </View>
+            </View>
+          )}
+        </>
+      )}
+    </ScrollView>
+  );
+};
+
+const LegendItem: React.FC<{ color: string; label: string }> = ({ color, label }) => (
+  <View style={styles.legendItem}>
+    <View style={[styles.legendDot, { backgroundColor: color }]} />
+    <Text style={styles.label}>{label}</Text>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  banner: {
+    marginHorizontal: 0,
+    marginBottom: 12,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: TEXT_PRIMARY,
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: BG_WHITE,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 10,
+    gap: 6,
+    shadowColor: SHADOW,
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 1,
+  },
+  cardBar: {
+    marginVertical: 6,
+  },
+  total: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: TEXT_PRIMARY,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+  },
+  label: {
+    fontSize: 14,
+    color: TEXT_SECONDARY,
+    flexShrink: 1,
+  },
+  value: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: TEXT_PRIMARY,
+  },
+  valueAvailable: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: SUCCESS,
+  },
+  valueLocked: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: WARNING,
+  },
+  assetSymbol: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: TEXT_PRIMARY,
+  },
+  share: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: TEXT_SECONDARY,
+  },
+  legendRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingTop: 6,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  legendDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  walletRow: {
+    paddingVertical: 8,
+    gap: 4,
+  },
+  walletRowBorder: {
+    borderBottomWidth: 1,
+    borderBottomColor: DIVIDER,
+  },
+  walletName: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: TEXT_PRIMARY,
+    flex: 1,
+  },
+  walletBar: {
+    marginVertical: 2,
+  },
+  walletAssets: {
+    fontSize: 12,
+    color: TEXT_TERTIARY,
+    flex: 1,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingTop: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: TEXT_TERTIARY,
+  },
+});
@@ -12,7 +12,12 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter, useFocusEffect } from 'expo-router';
 import { useAuth } from '../hooks/useAuth';
+import { useInFlightLock } from '../hooks/useInFlightLock';
+import { useConnectivity } from '../hooks/useConnectivity';
+import { OfflineBanner } from '../components/OfflineBanner';
 import { fetchVault, updateVault } from '../services/api';
+import { fetchQuery } from '../services/queryCache';
+import { queryKeys } from '../services/queryKeys';
 import type { Vault } from '../types';
 import {
   BG_MAIN,
@@ -31,6 +36,8 @@ interface Props {
 export const VaultSettingsScreen: React.FC<Props> = ({ vaultId }) => {
   const { accessToken } = useAuth();
   const router = useRouter();
+  const { run: runLocked } = useInFlightLock();
+  const { isOffline } = useConnectivity();
 
   const [vault, setVault] = useState<Vault | null>(null);
   const [loading, setLoading] = useState(true);
@@ -43,7 +50,7 @@ export const VaultSettingsScreen: React.FC<Props> = ({ vaultId }) => {
 
   const loadVault = useCallback(async () => {
     if (!accessToken) return;
-    const res = await fetchVault(accessToken, vaultId);
+    const res = await fetchQuery(queryKeys.vault(vaultId), () => fetchVault(accessToken, vaultId));
     if (res._status === 200 && res.data) {
       const v = res.data;
       setVault(v);
@@ -64,37 +71,38 @@ export const VaultSettingsScreen: React.FC<Props> = ({ vaultId }) => {
     }, [loadVault]),
   );
 
-  const handleSave = async () => {
-    if (!accessToken || !vault) return;
-    if (!name.trim()) {
-      Alert.alert('Validation', 'Name is required');
-      return;
-    }
-    if (!businessEmail.trim()) {
-      Alert.alert('Validation', 'Business email is required');
-      return;
-    }
-    if (!phone.trim()) {
-      Alert.alert('Validation', 'Phone is required');
-      return;
-    }
+  const handleSave = () =>
+    runLocked('save', async () => {
+      if (!accessToken || !vault) return;
+      if (!name.trim()) {
+        Alert.alert('Validation', 'Name is required');
+        return;
+      }
+      if (!businessEmail.trim()) {
+        Alert.alert('Validation', 'Business email is required');
+        return;
+      }
+      if (!phone.trim()) {
+        Alert.alert('Validation', 'Phone is required');
+        return;
+      }
 
-    setSaving(true);
-    const res = await updateVault(accessToken, vaultId, {
-      name: name.trim(),
-      businessEmail: businessEmail.trim(),
-      phone: phone.trim(),
-      websiteUrl: websiteUrl.trim() || null,
-    });
-    setSaving(false);
+      setSaving(true);
+      const res = await updateVault(accessToken, vaultId, {
+        name: name.trim(),
+        businessEmail: businessEmail.trim(),
+        phone: phone.trim(),
+        websiteUrl: websiteUrl.trim() || null,
+      });
+      setSaving(false);
 
-    if (res._status === 200 && res.data) {
-      setVault(res.data);
-      Alert.alert('Success', 'Vault settings updated');
-    } else {
-      Alert.alert('Error', res.error?.message || 'Failed to update vault');
-    }
-  };
+      if (res._status === 200 && res.data) {
+        setVault(res.data);
+        Alert.alert('Success', 'Vault settings updated');
+      } else {
+        Alert.alert('Error', res.error?.message || 'Failed to update vault');
+      }
+    });
 
   if (loading) {
     return (
@@ -120,6 +128,8 @@ export const VaultSettingsScreen: React.FC<Props> = ({ vaultId }) => {
           <Text style={styles.headerTitle}>Settings</Text>
         </View>
 
+        <OfflineBanner style={styles.banner} />
+
         {/* Form */}
         <View style={styles.card}>
           <Text style={styles.label}>Name *</Text>
@@ -166,11 +176,11 @@ export const VaultSettingsScreen: React.FC<Props> = ({ vaultId }) => {
           <Pressable
             style={({ pressed }) => [
               styles.saveButton,
-              saving && styles.saveButtonDisabled,
+              (saving || isOffline) && styles.saveButtonDisabled,
               pressed && { opacity: 0.7 },
             ]}
             onPress={handleSave}
-            disabled={saving}
+            disabled={saving || isOffline}
           >
             {saving ? (
               <ActivityIndicator color={TEXT_WHITE} size="small" />
@@ -206,6 +216,10 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 20,
   },
+  banner: {
+    marginHorizontal: 0,
+    marginBottom: 16,
+  },
   backButton: {
     marginRight: 12,
   },
@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useEffect } from 'react';
 import {
   View,
   Text,
@@ -9,9 +9,8 @@ import {
   Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useRouter, useFocusEffect } from 'expo-router';
-import { useAuth } from '../hooks/useAuth';
-import { fetchVaultUserProfile } from '../services/api';
+import { useRouter } from 'expo-router';
+import { useVaultUserProfile } from '../hooks/useVaultUserProfile';
 import { getRoleColor } from '../utils/permissions';
 import {
   BG_MAIN,
@@ -23,38 +22,22 @@ import {
   TEXT_SECONDARY,
   TEXT_TERTIARY,
 } from '@/constants/colors';
-import type { VaultUserData } from '../types';
 
 interface Props {
   vaultId: string;
 }
 
 export const VaultUserProfileScreen: React.FC<Props> = ({ vaultId }) => {
-  const { accessToken } = useAuth();
   const router = useRouter();
+  const { data: profile, error, isLoading } = useVaultUserProfile(vaultId);
 
-  const [profile, setProfile] = useState<VaultUserData | null>(null);
-  const [loading, setLoading] = useState(true);
-
-  const loadProfile = useCallback(async () => {
-    if (!accessToken) return;
-    const res = await fetchVaultUserProfile(accessToken, vaultId);
-    if (res._status === 200 && res.data) {
-      setProfile(res.data);
-    } else {
-      Alert.alert('Error', res.error?.message || 'Failed to load profile');
+  useEffect(() => {
+    if (error) {
+      Alert.alert('Error', error.message || 'Failed to load profile');
     }
-    setLoading(false);
-  }, [accessToken, vaultId]);
-
-  useFocusEffect(
-    useCallback(() => {
-      setLoading(true);
-      loadProfile();
-    }, [loadProfile]),
-  );
+  }, [error]);
 
-  if (loading) {
+  if (isLoading) {
     return (
       <SafeAreaView style={styles.container}>
         <View style={styles.centered}>
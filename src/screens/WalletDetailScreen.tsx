@@ -13,13 +13,25 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter, useFocusEffect } from 'expo-router';
 import { useAuth } from '../hooks/useAuth';
+import { useIdempotencyKeys } from '../hooks/useIdempotencyKeys';
+import { useInFlightLock } from '../hooks/useInFlightLock';
+import { useVaultUserProfile } from '../hooks/useVaultUserProfile';
+import { useConnectivity } from '../hooks/useConnectivity';
+import { usePreferences } from '../hooks/usePreferences';
+import { usePendingWalletChanges } from '../hooks/usePendingWalletChanges';
+import { OfflineBanner } from '../components/OfflineBanner';
+import { PendingActionNotice } from '../components/PendingActionNotice';
+import { AssetLabel } from '../components/AssetLabel';
+import { BalanceHistorySection } from './BalanceHistorySection';
 import {
   BG_MAIN,
   BG_WHITE,
   BG_LIGHT_ORANGE,
+  BLUE_GREY,
   BORDER_MID,
   DIVIDER,
   PRIMARY,
+  PURPLE,
   SUCCESS,
   WARNING,
   TEXT_PRIMARY,
@@ -28,8 +40,7 @@ import {
   TEXT_WHITE,
 } from '@/constants/colors';
 import {
-  fetchWallets,
-  fetchVaultUserProfile,
+  fetchWallet,
   fetchWalletAddresses,
   fetchWalletBalances,
   renameWallet,
@@ -37,16 +48,22 @@ import {
   unarchiveWallet,
   addWalletAddress,
 } from '../services/api';
-import { canManageWallets, getNetworkColor } from '../utils/permissions';
-import type { Wallet, WalletAddress, WalletBalance, VaultRole, Network } from '../types';
+import { isApiSuccess } from '../services/response';
+import { fetchQuery } from '../services/queryCache';
+import { queryKeys } from '../services/queryKeys';
+import { canInitiateTransactions, canManageWallets, getNetworkColor } from '../utils/permissions';
+import { formatAssetAmount } from '../utils/assets';
+import { formatFiat } from '../utils/currency';
+import {
+  getPendingAction,
+  getPendingActionMessage,
+  getVaultActionHref,
+} from '../utils/vaultAction';
+import { describeWalletChange } from '../utils/walletActions';
+import type { Wallet, WalletAddress, WalletBalance, Network, VaultAction } from '../types';
 
 const AVAILABLE_NETWORKS: Network[] = ['BITCOIN', 'SOLANA'];
 
-const currencyFormatter = new Intl.NumberFormat('en-US', {
-  style: 'currency',
-  currency: 'USD',
-});
-
 interface Props {
   vaultId: string;
   walletId: string;
@@ -55,12 +72,20 @@ interface Props {
 export const WalletDetailScreen: React.FC<Props> = ({ vaultId, walletId }) => {
   const { accessToken } = useAuth();
   const router = useRouter();
+  const { run: runLocked } = useInFlightLock();
+  const { keyFor, release } = useIdempotencyKeys();
+  const { isOffline } = useConnectivity();
+  const { currency, isLoaded: preferencesLoaded } = usePreferences();
+  const myRole = useVaultUserProfile(vaultId).data?.role ?? null;
+  const pendingAction = usePendingWalletChanges(vaultId).changes.byWalletId[walletId] ?? null;
 
   const [wallet, setWallet] = useState<Wallet | null>(null);
   const [addresses, setAddresses] = useState<WalletAddress[]>([]);
   const [balances, setBalances] = useState<WalletBalance[]>([]);
-  const [myRole, setMyRole] = useState<VaultRole | null>(null);
   const [loading, setLoading] = useState(true);
+  // Kept apart so a deleted wallet or bad deep link never reads as a network problem
+  const [notFound, setNotFound] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
 
   const [showRenameModal, setShowRenameModal] = useState(false);
   const [renameName, setRenameName] = useState('');
@@ -71,28 +96,29 @@ export const WalletDetailScreen: React.FC<Props> = ({ vaultId, walletId }) => {
   const [addNetworkLoading, setAddNetworkLoading] = useState(false);
 
   const loadData = useCallback(async () => {
-    if (!accessToken) return;
+    if (!accessToken || !preferencesLoaded) return;
     try {
-      const [walletsRes, profileRes, addressesRes, balancesRes] = await Promise.all([
-        fetchWallets(accessToken, vaultId, { search: undefined }),
-        fetchVaultUserProfile(accessToken, vaultId),
-        fetchWalletAddresses(accessToken, vaultId, walletId),
-        fetchWalletBalances(accessToken, vaultId, walletId),
+      const [walletRes, addressesRes, balancesRes] = await Promise.all([
+        fetchQuery(queryKeys.wallet(vaultId, walletId, { currency }), () =>
+          fetchWallet(accessToken, vaultId, walletId, { currency }),
+        ),
+        fetchQuery(queryKeys.walletAddresses(vaultId, walletId), () =>
+          fetchWalletAddresses(accessToken, vaultId, walletId),
+        ),
+        fetchQuery(queryKeys.walletBalances(vaultId, walletId, { currency }), () =>
+          fetchWalletBalances(accessToken, vaultId, walletId, { currency }),
+        ),
       ]);
 
-      if (walletsRes._status === 200 && walletsRes.data) {
-        const found = walletsRes.data.find((w) => w.id === walletId);
-        if (found) {
-          setWallet(found);
-        } else {
-          Alert.alert('Error', 'Wallet not found');
-        }
+      if (walletRes._status === 200 && walletRes.data) {
+        setWallet(walletRes.data);
+        setNotFound(false);
+        setLoadError(null);
+      } else if (walletRes._status === 404) {
+        setWallet(null);
+        setNotFound(true);
       } else {
-        Alert.alert('Error', walletsRes.error?.message || 'Failed to load wallet');
-      }
-
-      if (profileRes._status === 200 && profileRes.data) {
-        setMyRole(profileRes.data.role);
+        setLoadError(walletRes.error?.message || 'Failed to load wallet');
       }
 
       if (addressesRes._status === 200 && addressesRes.data) {
@@ -103,35 +129,56 @@ export const WalletDetailScreen: React.FC<Props> = ({ vaultId, walletId }) => {
         setBalances(balancesRes.data);
       }
     } catch {
-      Alert.alert('Error', 'Failed to load wallet details');
+      setLoadError('Failed to load wallet details');
     } finally {
       setLoading(false);
     }
-  }, [accessToken, vaultId, walletId]);
+  }, [accessToken, preferencesLoaded, vaultId, walletId, currency]);
 
+  // Cached data is served instantly on focus; only stale or invalidated queries refetch
   useFocusEffect(
     useCallback(() => {
-      setLoading(true);
       loadData();
     }, [loadData]),
   );
 
-  const handleRename = async () => {
-    if (!accessToken || !renameName.trim()) return;
-    setRenameLoading(true);
-    const res = await renameWallet(accessToken, vaultId, walletId, {
-      name: renameName.trim(),
+  const openAction = (action: VaultAction) => router.push(getVaultActionHref(vaultId, action.id));
+
+  // The wallet itself is unchanged until the action is approved
+  const notifyPending = (action: VaultAction) =>
+    Alert.alert('Awaiting Approval', getPendingActionMessage(action), [
+      { text: 'OK', style: 'cancel' },
+      { text: 'View Action', onPress: () => openAction(action) },
+    ]);
+
+  const handleRename = () =>
+    runLocked('rename', async () => {
+      if (!accessToken || !renameName.trim()) return;
+      setRenameLoading(true);
+      const name = renameName.trim();
+      const res = await renameWallet(
+        accessToken,
+        vaultId,
+        walletId,
+        { name },
+        { idempotencyKey: keyFor('rename', name) },
+      );
+      setRenameLoading(false);
+      if (isApiSuccess(res)) {
+        release('rename');
+        setShowRenameModal(false);
+        setRenameName('');
+        const action = getPendingAction(res);
+        if (action) {
+          notifyPending(action);
+          return;
+        }
+        setLoading(true);
+        loadData();
+      } else {
+        Alert.alert('Error', res.error?.message || 'Failed to rename wallet');
+      }
     });
-    setRenameLoading(false);
-    if (res._status === 200) {
-      setShowRenameModal(false);
-      setRenameName('');
-      setLoading(true);
-      loadData();
-    } else {
-      Alert.alert('Error', res.error?.message || 'Failed to rename wallet');
-    }
-  };
 
   const handleArchiveToggle = () => {
     if (!wallet) return;
@@ -145,27 +192,41 @@ export const WalletDetailScreen: React.FC<Props> = ({ vaultId, walletId }) => {
     }
   };
 
-  const handleArchive = async () => {
-    if (!accessToken) return;
-    const res = await archiveWallet(accessToken, vaultId, walletId);
-    if (res._status === 200) {
-      setLoading(true);
-      loadData();
-    } else {
-      Alert.alert('Error', res.error?.message || 'Failed to archive wallet');
-    }
-  };
+  const handleArchive = () =>
+    runLocked('archive', async () => {
+      if (!accessToken) return;
+      const res = await archiveWallet(accessToken, vaultId, walletId, {
+        idempotencyKey: keyFor('archive'),
+      });
+      if (isApiSuccess(res)) release('archive');
+      const action = getPendingAction(res);
+      if (action) {
+        notifyPending(action);
+      } else if (isApiSuccess(res)) {
+        setLoading(true);
+        loadData();
+      } else {
+        Alert.alert('Error', res.error?.message || 'Failed to archive wallet');
+      }
+    });
 
-  const handleUnarchive = async () => {
-    if (!accessToken) return;
-    const res = await unarchiveWallet(accessToken, vaultId, walletId);
-    if (res._status === 200) {
-      setLoading(true);
-      loadData();
-    } else {
-      Alert.alert('Error', res.error?.message || 'Failed to unarchive wallet');
-    }
-  };
+  const handleUnarchive = () =>
+    runLocked('archive', async () => {
+      if (!accessToken) return;
+      const res = await unarchiveWallet(accessToken, vaultId, walletId, {
+        idempotencyKey: keyFor('unarchive'),
+      });
+      if (isApiSuccess(res)) release('unarchive');
+      const action = getPendingAction(res);
+      if (action) {
+        notifyPending(action);
+      } else if (isApiSuccess(res)) {
+        setLoading(true);
+        loadData();
+      } else {
+        Alert.alert('Error', res.error?.message || 'Failed to unarchive wallet');
+      }
+    });
 
   const toggleAddNetwork = (network: Network) => {
     setAddNetworks((prev) =>
@@ -173,23 +234,24 @@ export const WalletDetailScreen: React.FC<Props> = ({ vaultId, walletId }) => {
     );
   };
 
-  const handleAddNetwork = async () => {
-    if (!accessToken || addNetworks.length === 0) return;
-    setAddNetworkLoading(true);
-    const res = await addWalletAddress(accessToken, vaultId, walletId, {
-      networks: addNetworks,
+  const handleAddNetwork = () =>
+    runLocked('addNetwork', async () => {
+      if (!accessToken || addNetworks.length === 0) return;
+      setAddNetworkLoading(true);
+      const res = await addWalletAddress(accessToken, vaultId, walletId, {
+        networks: addNetworks,
+      });
+      setAddNetworkLoading(false);
+      if (isApiSuccess(res)) {
+        Alert.alert('Success', 'Network added');
+        setShowAddNetworkModal(false);
+        setAddNetworks([]);
+        setLoading(true);
+        loadData();
+      } else {
+        Alert.alert('Error', res.error?.message || 'Failed to add network');
+      }
     });
-    setAddNetworkLoading(false);
-    if (res._status === 200 || res._status === 201) {
-      Alert.alert('Success', 'Network added');
-      setShowAddNetworkModal(false);
-      setAddNetworks([]);
-      setLoading(true);
-      loadData();
-    } else {
-      Alert.alert('Error', res.error?.message || 'Failed to add network');
-    }
-  };
 
   const truncateAddress = (addr: string): string => {
     if (addr.length <= 16) return addr;
@@ -206,7 +268,10 @@ export const WalletDetailScreen: React.FC<Props> = ({ vaultId, walletId }) => {
     );
   }
 
-  const canManage = myRole ? canManageWallets(myRole) : false;
+  // Wallet changes are unavailable while offline
+  const canManage = !isOffline && !!myRole && canManageWallets(myRole);
+  const canSend =
+    !isOffline && !!myRole && canInitiateTransactions(myRole) && !!wallet && !wallet.archived;
 
   return (
     <SafeAreaView style={styles.container}>
@@ -221,6 +286,8 @@ export const WalletDetailScreen: React.FC<Props> = ({ vaultId, walletId }) => {
           </Pressable>
         </View>
 
+        <OfflineBanner style={styles.banner} />
+
         {wallet ? (
           <>
             {/* Wallet Info */}
@@ -234,6 +301,15 @@ export const WalletDetailScreen: React.FC<Props> = ({ vaultId, walletId }) => {
                 ) : null}
               </View>
 
+              {pendingAction ? (
+                <PendingActionNotice
+                  style={styles.pendingNotice}
+                  title={describeWalletChange(pendingAction)}
+                  action={pendingAction}
+                  onPress={() => openAction(pendingAction)}
+                />
+              ) : null}
+
               <View style={styles.networksRow}>
                 {wallet.networks.map((network) => (
                   <View
@@ -252,10 +328,7 @@ export const WalletDetailScreen: React.FC<Props> = ({ vaultId, walletId }) => {
 
               <View style={styles.card}>
                 <InfoRow label="Account Index" value={String(wallet.accountIndex)} />
-                <InfoRow
-                  label="Created"
-                  value={new Date(wallet.createdAt).toLocaleDateString()}
-                />
+                <InfoRow label="Created" value={new Date(wallet.createdAt).toLocaleDateString()} />
                 <InfoRow
                   label="Updated"
                   value={new Date(wallet.updatedAt).toLocaleDateString()}
@@ -268,43 +341,74 @@ export const WalletDetailScreen: React.FC<Props> = ({ vaultId, walletId }) => {
             <View style={styles.section}>
               <Text style={styles.sectionTitle}>Total Value</Text>
               <View style={styles.valueCard}>
-                <Text style={styles.totalValue}>
-                  {currencyFormatter.format(parseFloat(wallet.convertedValue.amount) || 0)}
-                </Text>
+                <Text style={styles.totalValue}>{formatFiat(wallet.convertedValue)}</Text>
                 <Text style={styles.currencyCode}>{wallet.convertedValue.currencyCode}</Text>
               </View>
             </View>
 
+            {/* History */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>History</Text>
+              <BalanceHistorySection vaultId={vaultId} walletId={walletId} />
+            </View>
+
             {/* Actions */}
-            {canManage ? (
-              <View style={styles.section}>
-                <Text style={styles.sectionTitle}>Actions</Text>
-                <View style={styles.actionsRow}>
-                  <Pressable
-                    style={({ pressed }) => [
-                      styles.actionButton,
-                      styles.renameButton,
-                      pressed && { opacity: 0.7 },
-                    ]}
-                    onPress={() => {
-                      setRenameName(wallet.name);
-                      setShowRenameModal(true);
-                    }}
-                  >
-                    <Text style={styles.actionButtonText}>Rename</Text>
-                  </Pressable>
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Actions</Text>
+              <View style={styles.actionsRow}>
+                {canSend ? (
                   <Pressable
                     style={({ pressed }) => [
                       styles.actionButton,
-                      wallet.archived ? styles.unarchiveButton : styles.archiveButton,
+                      styles.sendButton,
                       pressed && { opacity: 0.7 },
                     ]}
-                    onPress={handleArchiveToggle}
+                    onPress={() => router.push(`/vaults/${vaultId}/wallets/${walletId}/send`)}
                   >
-                    <Text style={styles.actionButtonText}>
-                      {wallet.archived ? 'Unarchive' : 'Archive'}
-                    </Text>
+                    <Text style={styles.actionButtonText}>Send</Text>
                   </Pressable>
+                ) : null}
+                <Pressable
+                  style={({ pressed }) => [
+                    styles.actionButton,
+                    styles.transactionsButton,
+                    pressed && { opacity: 0.7 },
+                  ]}
+                  onPress={() => router.push(`/vaults/${vaultId}/wallets/${walletId}/transactions`)}
+                >
+                  <Text style={styles.actionButtonText}>Transactions</Text>
+                </Pressable>
+                {/* Only one change per wallet can wait on approval */}
+                {canManage && !pendingAction ? (
+                  <>
+                    <Pressable
+                      style={({ pressed }) => [
+                        styles.actionButton,
+                        styles.renameButton,
+                        pressed && { opacity: 0.7 },
+                      ]}
+                      onPress={() => {
+                        setRenameName(wallet.name);
+                        setShowRenameModal(true);
+                      }}
+                    >
+                      <Text style={styles.actionButtonText}>Rename</Text>
+                    </Pressable>
+                    <Pressable
+                      style={({ pressed }) => [
+                        styles.actionButton,
+                        wallet.archived ? styles.unarchiveButton : styles.archiveButton,
+                        pressed && { opacity: 0.7 },
+                      ]}
+                      onPress={handleArchiveToggle}
+                    >
+                      <Text style={styles.actionButtonText}>
+                        {wallet.archived ? 'Unarchive' : 'Archive'}
+                      </Text>
+                    </Pressable>
+                  </>
+                ) : null}
+                {canManage ? (
                   <Pressable
                     style={({ pressed }) => [
                       styles.actionButton,
@@ -315,9 +419,9 @@ export const WalletDetailScreen: React.FC<Props> = ({ vaultId, walletId }) => {
                   >
                     <Text style={styles.actionButtonText}>Add Network</Text>
                   </Pressable>
-                </View>
+                ) : null}
               </View>
-            ) : null}
+            </View>
 
             {/* Addresses */}
             <View style={styles.section}>
@@ -326,7 +430,15 @@ export const WalletDetailScreen: React.FC<Props> = ({ vaultId, walletId }) => {
               </Text>
               {addresses.length > 0 ? (
                 addresses.map((addr) => (
-                  <View key={addr.id} style={styles.addressCard}>
+                  <Pressable
+                    key={addr.id}
+                    style={({ pressed }) => [styles.addressCard, pressed && { opacity: 0.7 }]}
+                    onPress={() =>
+                      router.push(
+                        `/vaults/${vaultId}/wallets/${walletId}/receive?addressId=${addr.id}`,
+                      )
+                    }
+                  >
                     <View style={styles.addressTop}>
                       <View
                         style={[
@@ -341,12 +453,21 @@ export const WalletDetailScreen: React.FC<Props> = ({ vaultId, walletId }) => {
                         </Text>
                       </View>
                       <Text style={styles.addressType}>{addr.address.addressType}</Text>
+                      <Text style={styles.receiveLink}>Receive ›</Text>
                     </View>
-                    <Text style={styles.addressValue} selectable>
-                      {truncateAddress(addr.address.address)}
-                    </Text>
-                    <Text style={styles.derivationPath}>{addr.derivationPath}</Text>
-                  </View>
+                    <Text style={styles.addressValue}>{truncateAddress(addr.address.address)}</Text>
+                    <Pressable
+                      style={({ pressed }) => [styles.addressTop, pressed && { opacity: 0.7 }]}
+                      onPress={() =>
+                        router.push(
+                          `/vaults/${vaultId}/wallets/${walletId}/address?addressId=${addr.id}`,
+                        )
+                      }
+                    >
+                      <Text style={styles.derivationPath}>{addr.derivationPath}</Text>
+                      <Text style={styles.receiveLink}>Path details ›</Text>
+                    </Pressable>
+                  </Pressable>
                 ))
               ) : (
                 <Text style={styles.emptyText}>No addresses</Text>
@@ -362,26 +483,25 @@ export const WalletDetailScreen: React.FC<Props> = ({ vaultId, walletId }) => {
                 balances.map((balance, index) => (
                   <View key={balance.assetId + String(index)} style={styles.balanceCard}>
                     <View style={styles.balanceTop}>
-                      <Text style={styles.assetId} numberOfLines={1}>
-                        {balance.assetId}
-                      </Text>
+                      <AssetLabel assetId={balance.assetId} style={styles.assetId} showName />
                     </View>
                     <View style={styles.balanceRow}>
                       <Text style={styles.balanceLabel}>Amount</Text>
-                      <Text style={styles.balanceValue}>{balance.amount}</Text>
+                      <Text style={styles.balanceValue}>{formatAssetAmount(balance)}</Text>
                     </View>
                     <View style={styles.balanceRow}>
                       <Text style={styles.balanceLabel}>Value</Text>
-                      <Text style={styles.balanceValue}>
-                        {currencyFormatter.format(
-                          parseFloat(balance.convertedValue.amount) || 0,
-                        )}
-                      </Text>
+                      <Text style={styles.balanceValue}>{formatFiat(balance.convertedValue)}</Text>
                     </View>
                     {balance.lockedAmount ? (
                       <View style={styles.balanceRow}>
                         <Text style={styles.balanceLabel}>Locked</Text>
-                        <Text style={styles.balanceValueLocked}>{balance.lockedAmount}</Text>
+                        <Text style={styles.balanceValueLocked}>
+                          {formatAssetAmount({
+                            assetId: balance.assetId,
+                            amount: balance.lockedAmount,
+                          })}
+                        </Text>
                       </View>
                     ) : null}
                   </View>
@@ -391,9 +511,32 @@ export const WalletDetailScreen: React.FC<Props> = ({ vaultId, walletId }) => {
               )}
             </View>
           </>
+        ) : notFound ? (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyTitle}>Wallet not found</Text>
+            <Text style={styles.emptyMessage}>
+              It may have been removed, or it belongs to a different vault.
+            </Text>
+            <Pressable
+              style={({ pressed }) => [styles.emptyButton, pressed && { opacity: 0.7 }]}
+              onPress={() => router.replace(`/vaults/${vaultId}`)}
+            >
+              <Text style={styles.emptyButtonText}>Go to Vault</Text>
+            </Pressable>
+          </View>
         ) : (
           <View style={styles.emptyState}>
-            <Text style={styles.emptyText}>Wallet not found</Text>
+            <Text style={styles.emptyTitle}>Unable to load this wallet</Text>
+            <Text style={styles.emptyMessage}>{loadError ?? 'Failed to load wallet'}</Text>
+            <Pressable
+              style={({ pressed }) => [styles.emptyButton, pressed && { opacity: 0.7 }]}
+              onPress={() => {
+                setLoading(true);
+                loadData();
+              }}
+            >
+              <Text style={styles.emptyButtonText}>Try Again</Text>
+            </Pressable>
           </View>
         )}
       </ScrollView>
@@ -580,6 +723,10 @@ const styles = StyleSheet.create({
   header: {
     marginBottom: 16,
   },
+  banner: {
+    marginHorizontal: 0,
+    marginBottom: 16,
+  },
   backButton: {
     alignSelf: 'flex-start',
   },
@@ -597,6 +744,9 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 8,
   },
+  pendingNotice: {
+    marginBottom: 8,
+  },
   walletName: {
     fontSize: 22,
     fontWeight: 'bold',
@@ -669,6 +819,12 @@ const styles = StyleSheet.create({
     borderCurve: 'continuous',
     alignItems: 'center',
   },
+  sendButton: {
+    backgroundColor: PURPLE,
+  },
+  transactionsButton: {
+    backgroundColor: BLUE_GREY,
+  },
   renameButton: {
     backgroundColor: PRIMARY,
   },
@@ -705,6 +861,12 @@ const styles = StyleSheet.create({
     color: TEXT_TERTIARY,
     fontWeight: '500',
   },
+  receiveLink: {
+    marginLeft: 'auto',
+    fontSize: 13,
+    fontWeight: '600',
+    color: PRIMARY,
+  },
   addressValue: {
     fontSize: 14,
     fontWeight: '500',
@@ -754,11 +916,34 @@ const styles = StyleSheet.create({
   emptyState: {
     alignItems: 'center',
     paddingTop: 40,
+    gap: 8,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: TEXT_PRIMARY,
   },
   emptyText: {
     fontSize: 16,
     color: TEXT_TERTIARY,
   },
+  emptyMessage: {
+    fontSize: 15,
+    color: TEXT_SECONDARY,
+    textAlign: 'center',
+  },
+  emptyButton: {
+    marginTop: 8,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: PRIMARY,
+  },
+  emptyButtonText: {
+    color: TEXT_WHITE,
+    fontSize: 15,
+    fontWeight: '600',
+  },
   modalContainer: {
     flex: 1,
     padding: 24,
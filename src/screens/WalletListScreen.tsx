@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -9,10 +9,22 @@ import {
   Alert,
   TextInput,
   Modal,
+  Switch,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
 import { useAuth } from '../hooks/useAuth';
+import { useIdempotencyKeys } from '../hooks/useIdempotencyKeys';
+import { useInFlightLock } from '../hooks/useInFlightLock';
+import { usePaginatedQuery } from '../hooks/usePaginatedQuery';
+import { useVaultUserProfile } from '../hooks/useVaultUserProfile';
+import { useConnectivity } from '../hooks/useConnectivity';
+import { useRefetchOnReconnect } from '../hooks/useRefetchOnReconnect';
+import { usePreferences } from '../hooks/usePreferences';
+import { usePendingWalletChanges } from '../hooks/usePendingWalletChanges';
+import { OfflineBanner } from '../components/OfflineBanner';
+import { PendingActionNotice } from '../components/PendingActionNotice';
+import { WalletFilterSheet } from '../components/WalletFilterSheet';
 import {
   PRIMARY,
   WARNING,
@@ -24,26 +36,57 @@ import {
   BG_WHITE,
   BG_LIGHT_ORANGE,
   BORDER_MID,
+  BLUE_GREY,
 } from '@/constants/colors';
 import {
   fetchWallets,
-  fetchVaultUserProfile,
   createWallet,
   renameWallet,
   archiveWallet,
   unarchiveWallet,
 } from '../services/api';
+import { isApiSuccess } from '../services/response';
+import { fetchQuery } from '../services/queryCache';
+import { queryKeys } from '../services/queryKeys';
+import { isConnectivityError } from '../services/connectivity';
+import { resolveWithSnapshot } from '../services/offlineSnapshot';
+import { loadPreference, savePreference } from '../services/preferences';
+import {
+  filterPageFetcher,
+  toPageResponse,
+  toSnapshotPage,
+  type PageFetcher,
+} from '../services/pagination';
 import { canManageWallets, getNetworkColor } from '../utils/permissions';
-import type { Wallet, VaultRole, Network } from '../types';
+import { formatFiat } from '../utils/currency';
+import {
+  getAwaitingApprovalLabel,
+  getPendingAction,
+  getPendingActionMessage,
+  getVaultActionHref,
+} from '../utils/vaultAction';
+import { describeWalletChange } from '../utils/walletActions';
+import {
+  DEFAULT_WALLET_FILTERS,
+  clearWalletFilter,
+  getWalletFilterChips,
+  isDefaultWalletFilters,
+  matchesWalletStatus,
+  parseWalletFilters,
+  toWalletsParams,
+} from '../utils/walletFilters';
+import type {
+  Wallet,
+  VaultRole,
+  Network,
+  VaultAction,
+  WalletFilterChip,
+  WalletListFilters,
+} from '../types';
 
 const AVAILABLE_NETWORKS: Network[] = ['BITCOIN', 'SOLANA'];
 const PAGE_SIZE = 20;
 
-const currencyFormatter = new Intl.NumberFormat('en-US', {
-  style: 'currency',
-  currency: 'USD',
-});
-
 const keyExtractor = (item: Wallet) => item.id;
 
 interface WalletCardProps {
@@ -51,6 +94,8 @@ interface WalletCardProps {
   name: string;
   networks: Network[];
   archived: boolean;
+  // Set while a rename or (un)archive waits on approval
+  pendingLabel: string | null;
   convertedAmount: string;
   currencyCode: string;
   onPress: (id: string) => void;
@@ -62,7 +107,9 @@ const WalletCard = React.memo(function WalletCard({
   name,
   networks,
   archived,
+  pendingLabel,
   convertedAmount,
+  currencyCode,
   onPress,
   onLongPress,
 }: WalletCardProps) {
@@ -81,6 +128,11 @@ const WalletCard = React.memo(function WalletCard({
         </Text>
         {archived ? <Text style={styles.archivedBadge}>Archived</Text> : null}
       </View>
+      {pendingLabel ? (
+        <Text style={styles.pendingText} numberOfLines={1}>
+          {pendingLabel}
+        </Text>
+      ) : null}
       <View style={styles.walletCardMiddle}>
         {networks.map((network) => (
           <View
@@ -94,7 +146,7 @@ const WalletCard = React.memo(function WalletCard({
         ))}
       </View>
       <Text style={styles.walletValue}>
-        {currencyFormatter.format(parseFloat(convertedAmount) || 0)}
+        {formatFiat({ amount: convertedAmount, currencyCode })}
       </Text>
     </Pressable>
   );
@@ -107,85 +159,140 @@ interface Props {
 }
 
 export const WalletListScreen: React.FC<Props> = ({ vaultId, embedded, role: roleProp }) => {
-  const { accessToken } = useAuth();
+  const { accessToken, user } = useAuth();
   const router = useRouter();
+  const { run: runLocked } = useInFlightLock();
+  const { keyFor, release } = useIdempotencyKeys();
+  const { isOffline } = useConnectivity();
+  const { currency, isLoaded: preferencesLoaded } = usePreferences();
+  const { data: vaultUser } = useVaultUserProfile(vaultId);
+  const { changes: pendingChanges } = usePendingWalletChanges(vaultId);
+  const myRole = roleProp !== undefined ? roleProp : (vaultUser?.role ?? null);
+  // Write actions are unavailable while offline
+  const canManage = !isOffline && !!myRole && canManageWallets(myRole);
 
-  const [wallets, setWallets] = useState<Wallet[]>([]);
-  const [myRole, setMyRole] = useState<VaultRole | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [loadingMore, setLoadingMore] = useState(false);
-  const [hasMore, setHasMore] = useState(true);
-  const [currentPage, setCurrentPage] = useState(1);
   const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<WalletListFilters>(DEFAULT_WALLET_FILTERS);
+  const [filtersLoaded, setFiltersLoaded] = useState(false);
+  const [showFilterSheet, setShowFilterSheet] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [createName, setCreateName] = useState('');
   const [createNetworks, setCreateNetworks] = useState<Network[]>([]);
   const [createLoading, setCreateLoading] = useState(false);
 
   const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const walletsRef = useRef<Wallet[]>([]);
 
-  const loadMyRole = useCallback(async () => {
-    if (!accessToken) return;
-    const res = await fetchVaultUserProfile(accessToken, vaultId);
-    if (res._status === 200 && res.data) {
-      setMyRole(res.data.role);
-    }
-  }, [accessToken, vaultId]);
-
-  const loadWallets = useCallback(
-    async (page: number, searchQuery: string, append: boolean) => {
-      if (!accessToken) return;
-      const res = await fetchWallets(accessToken, vaultId, {
-        page,
-        limit: PAGE_SIZE,
-        search: searchQuery || undefined,
-      });
-      if (res._status === 200 && res.data) {
-        const newWallets = append ? [...walletsRef.current, ...res.data] : res.data;
-        walletsRef.current = newWallets;
-        setWallets(newWallets);
-        setCurrentPage(page);
-        setHasMore(res.data.length >= PAGE_SIZE);
-      } else {
-        Alert.alert('Error', res.error?.message || 'Failed to load wallets');
-      }
+  useEffect(
+    () => () => {
+      if (debounceRef.current) clearTimeout(debounceRef.current);
     },
-    [accessToken, vaultId],
+    [],
   );
 
+  // Filters are remembered per vault; hold the first fetch until they're read
+  const filtersPreference = `wallet_filters_${vaultId}`;
   useEffect(() => {
-    const init = async () => {
-      if (roleProp !== undefined) {
-        setMyRole(roleProp);
-      } else {
-        await loadMyRole();
+    setFilters(DEFAULT_WALLET_FILTERS);
+    setFiltersLoaded(false);
+    if (!user?.sub) return;
+    let cancelled = false;
+    loadPreference(user.sub, filtersPreference).then((stored) => {
+      if (cancelled) return;
+      if (stored) setFilters(parseWalletFilters(stored));
+      setFiltersLoaded(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.sub, filtersPreference]);
+
+  const applyFilters = useCallback(
+    (next: WalletListFilters) => {
+      setFilters(next);
+      // Still applies for this session if it can't be stored
+      if (user?.sub) savePreference(user.sub, filtersPreference, next).catch(() => {});
+    },
+    [user?.sub, filtersPreference],
+  );
+
+  const filterChips = useMemo(() => getWalletFilterChips(filters), [filters]);
+
+  const fetchWalletPage = useMemo<PageFetcher<Wallet> | null>(() => {
+    if (!accessToken || !preferencesLoaded || !filtersLoaded) return null;
+    const fetchPage: PageFetcher<Wallet> = async ({ page, pageSize, force }) => {
+      const params = {
+        page,
+        limit: pageSize,
+        search: query || undefined,
+        currency,
+        ...toWalletsParams(filters),
+      };
+      const res = await fetchQuery(
+        queryKeys.wallets(vaultId, params),
+        () => fetchWallets(accessToken, vaultId, params),
+        { force },
+      );
+      // The unfiltered first page doubles as the offline snapshot
+      if (page === 1 && !query && isDefaultWalletFilters(filters)) {
+        const result = await resolveWithSnapshot(user?.sub, `wallets_${vaultId}`, res);
+        if (result?.savedAt) return toSnapshotPage(res, result.data, result.savedAt);
       }
-      await loadWallets(1, '', false);
-      setLoading(false);
+      return toPageResponse(res, res.data, undefined, { page, pageSize });
     };
-    init();
-  }, [loadMyRole, loadWallets, roleProp]);
+    // The status filter applies to fetched pages, see toWalletsParams
+    return filterPageFetcher(fetchPage, (wallet) => matchesWalletStatus(wallet, filters.status));
+  }, [
+    accessToken,
+    preferencesLoaded,
+    filtersLoaded,
+    user?.sub,
+    vaultId,
+    query,
+    currency,
+    filters,
+  ]);
+
+  // Reloads when a wallet is changed elsewhere, e.g. renamed on its detail screen
+  const {
+    items: wallets,
+    asOf,
+    error,
+    isLoading: loading,
+    isRefreshing,
+    isLoadingMore: loadingMore,
+    refresh: handleRefresh,
+    reload,
+    loadMore: handleLoadMore,
+  } = usePaginatedQuery(fetchWalletPage, {
+    getKey: keyExtractor,
+    pageSize: PAGE_SIZE,
+    invalidateKey: queryKeys.wallets(vaultId),
+  });
+  const walletsRef = useRef<Wallet[]>(wallets);
+  const pendingChangesRef = useRef(pendingChanges);
+
+  useEffect(() => {
+    walletsRef.current = wallets;
+  }, [wallets]);
+
+  useEffect(() => {
+    pendingChangesRef.current = pendingChanges;
+  }, [pendingChanges]);
+
+  useEffect(() => {
+    if (error && !isConnectivityError(error)) {
+      Alert.alert('Error', error.message || 'Failed to load wallets');
+    }
+  }, [error]);
 
   const handleSearch = (text: string) => {
     setSearch(text);
     if (debounceRef.current) clearTimeout(debounceRef.current);
-    debounceRef.current = setTimeout(() => {
-      setLoading(true);
-      loadWallets(1, text, false).then(() => setLoading(false));
-    }, 300);
+    debounceRef.current = setTimeout(() => setQuery(text), 300);
   };
 
-  const handleLoadMore = useCallback(() => {
-    if (!hasMore || loadingMore) return;
-    setLoadingMore(true);
-    loadWallets(currentPage + 1, search, true).then(() => setLoadingMore(false));
-  }, [hasMore, loadingMore, loadWallets, currentPage, search]);
-
-  const handleRefresh = useCallback(() => {
-    setLoading(true);
-    loadWallets(1, search, false).then(() => setLoading(false));
-  }, [loadWallets, search]);
+  useRefetchOnReconnect(isOffline, !!asOf, handleRefresh);
 
   const handleWalletPress = useCallback(
     (walletId: string) => {
@@ -194,12 +301,34 @@ export const WalletListScreen: React.FC<Props> = ({ vaultId, embedded, role: rol
     [router, vaultId],
   );
 
+  const openAction = useCallback(
+    (action: VaultAction) => router.push(getVaultActionHref(vaultId, action.id)),
+    [router, vaultId],
+  );
+
+  // The list is unchanged until the action is approved
+  const notifyPending = (action: VaultAction) =>
+    Alert.alert('Awaiting Approval', getPendingActionMessage(action), [
+      { text: 'OK', style: 'cancel' },
+      { text: 'View Action', onPress: () => openAction(action) },
+    ]);
+
   const handleWalletLongPress = useCallback(
     (walletId: string) => {
-      if (!myRole || !canManageWallets(myRole)) return;
+      if (!canManage) return;
       const wallet = walletsRef.current.find((w) => w.id === walletId);
       if (!wallet) return;
 
+      // Only one change per wallet can wait on approval
+      const pending = pendingChangesRef.current.byWalletId[walletId];
+      if (pending) {
+        Alert.alert(wallet.name, `${describeWalletChange(pending)} is awaiting approval.`, [
+          { text: 'View Action', onPress: () => openAction(pending) },
+          { text: 'Cancel', style: 'cancel' },
+        ]);
+        return;
+      }
+
       const options: Array<{
         text: string;
         onPress?: () => void;
@@ -224,7 +353,7 @@ export const WalletListScreen: React.FC<Props> = ({ vaultId, embedded, role: rol
 
       Alert.alert(wallet.name, `Networks: ${wallet.networks.join(', ')}`, options);
     },
-    [myRole],
+    [canManage, openAction],
   );
 
   const promptRename = (wallet: Wallet) => {
@@ -232,17 +361,27 @@ export const WalletListScreen: React.FC<Props> = ({ vaultId, embedded, role: rol
       { text: 'Cancel', style: 'cancel' },
       {
         text: 'Rename',
-        onPress: async (newName?: string) => {
-          if (!accessToken || !newName?.trim()) return;
-          const res = await renameWallet(accessToken, vaultId, wallet.id, {
-            name: newName.trim(),
-          });
-          if (res._status === 200) {
-            handleRefresh();
-          } else {
-            Alert.alert('Error', res.error?.message || 'Failed to rename wallet');
-          }
-        },
+        onPress: (newName?: string) =>
+          runLocked(`wallet:${wallet.id}`, async () => {
+            if (!accessToken || !newName?.trim()) return;
+            const name = newName.trim();
+            const res = await renameWallet(
+              accessToken,
+              vaultId,
+              wallet.id,
+              { name },
+              { idempotencyKey: keyFor(`rename:${wallet.id}`, name) },
+            );
+            if (isApiSuccess(res)) release(`rename:${wallet.id}`);
+            const action = getPendingAction(res);
+            if (action) {
+              notifyPending(action);
+            } else if (isApiSuccess(res)) {
+              reload();
+            } else {
+              Alert.alert('Error', res.error?.message || 'Failed to rename wallet');
+            }
+          }),
       },
     ], 'plain-text', wallet.name);
   };
@@ -253,53 +392,93 @@ export const WalletListScreen: React.FC<Props> = ({ vaultId, embedded, role: rol
       {
         text: 'Archive',
         style: 'destructive',
-        onPress: async () => {
-          if (!accessToken) return;
-          const res = await archiveWallet(accessToken, vaultId, wallet.id);
-          if (res._status === 200) {
-            handleRefresh();
-          } else {
-            Alert.alert('Error', res.error?.message || 'Failed to archive wallet');
-          }
-        },
+        onPress: () =>
+          runLocked(`wallet:${wallet.id}`, async () => {
+            if (!accessToken) return;
+            const res = await archiveWallet(accessToken, vaultId, wallet.id, {
+              idempotencyKey: keyFor(`archive:${wallet.id}`),
+            });
+            if (isApiSuccess(res)) release(`archive:${wallet.id}`);
+            const action = getPendingAction(res);
+            if (action) {
+              notifyPending(action);
+            } else if (isApiSuccess(res)) {
+              reload();
+            } else {
+              Alert.alert('Error', res.error?.message || 'Failed to archive wallet');
+            }
+          }),
       },
     ]);
   };
 
-  const handleUnarchive = async (wallet: Wallet) => {
-    if (!accessToken) return;
-    const res = await unarchiveWallet(accessToken, vaultId, wallet.id);
-    if (res._status === 200) {
-      handleRefresh();
-    } else {
-      Alert.alert('Error', res.error?.message || 'Failed to unarchive wallet');
-    }
+  const handleUnarchive = (wallet: Wallet) =>
+    runLocked(`wallet:${wallet.id}`, async () => {
+      if (!accessToken) return;
+      const res = await unarchiveWallet(accessToken, vaultId, wallet.id, {
+        idempotencyKey: keyFor(`unarchive:${wallet.id}`),
+      });
+      if (isApiSuccess(res)) release(`unarchive:${wallet.id}`);
+      const action = getPendingAction(res);
+      if (action) {
+        notifyPending(action);
+      } else if (isApiSuccess(res)) {
+        reload();
+      } else {
+        Alert.alert('Error', res.error?.message || 'Failed to unarchive wallet');
+      }
+    });
+
+  const handleApplyFilters = (next: WalletListFilters) => {
+    setShowFilterSheet(false);
+    applyFilters(next);
   };
 
+  const handleRemoveFilterChip = (key: WalletFilterChip['key']) =>
+    applyFilters(clearWalletFilter(filters, key));
+
+  const handleIncludeArchived = (include: boolean) =>
+    applyFilters({ ...filters, status: include ? 'all' : 'active' });
+
   const toggleNetwork = (network: Network) => {
     setCreateNetworks((prev) =>
       prev.includes(network) ? prev.filter((n) => n !== network) : [...prev, network],
     );
   };
 
-  const handleCreateWallet = async () => {
-    if (!accessToken || !createName.trim() || createNetworks.length === 0) return;
-    setCreateLoading(true);
-    const res = await createWallet(accessToken, vaultId, {
-      name: createName.trim(),
-      networks: createNetworks,
+  const handleCreateWallet = () =>
+    runLocked('create', async () => {
+      if (!accessToken || !createName.trim() || createNetworks.length === 0) return;
+      setCreateLoading(true);
+      const request = { name: createName.trim(), networks: createNetworks };
+      const res = await createWallet(accessToken, vaultId, request, {
+        idempotencyKey: keyFor('create', request),
+      });
+      setCreateLoading(false);
+      if (isApiSuccess(res)) {
+        release('create');
+        setShowCreateModal(false);
+        setCreateName('');
+        setCreateNetworks([]);
+        const action = getPendingAction(res);
+        if (action) {
+          notifyPending(action);
+        } else {
+          Alert.alert('Success', 'Wallet created');
+          reload();
+        }
+      } else {
+        Alert.alert('Error', res.error?.message || 'Failed to create wallet');
+      }
     });
-    setCreateLoading(false);
-    if (res._status === 200 || res._status === 201) {
-      Alert.alert('Success', 'Wallet created');
-      setShowCreateModal(false);
-      setCreateName('');
-      setCreateNetworks([]);
-      handleRefresh();
-    } else {
-      Alert.alert('Error', res.error?.message || 'Failed to create wallet');
+
+  const pendingLabels = useMemo(() => {
+    const labels: Record<string, string> = {};
+    for (const [walletId, action] of Object.entries(pendingChanges.byWalletId)) {
+      labels[walletId] = `${describeWalletChange(action)} · ${getAwaitingApprovalLabel(action)}`;
     }
-  };
+    return labels;
+  }, [pendingChanges]);
 
   const renderWallet = useCallback(
     ({ item }: { item: Wallet }) => (
@@ -308,18 +487,19 @@ export const WalletListScreen: React.FC<Props> = ({ vaultId, embedded, role: rol
         name={item.name}
         networks={item.networks}
         archived={item.archived}
+        pendingLabel={pendingLabels[item.id] ?? null}
         convertedAmount={item.convertedValue.amount}
         currencyCode={item.convertedValue.currencyCode}
         onPress={handleWalletPress}
         onLongPress={handleWalletLongPress}
       />
     ),
-    [handleWalletPress, handleWalletLongPress],
+    [handleWalletPress, handleWalletLongPress, pendingLabels],
   );
 
   const Wrapper = embedded ? View : SafeAreaView;
 
-  if (loading && wallets.length === 0) {
+  if ((loading || !filtersLoaded) && wallets.length === 0) {
     return (
       <Wrapper style={styles.container}>
         <View style={styles.centered}>
@@ -341,7 +521,7 @@ export const WalletListScreen: React.FC<Props> = ({ vaultId, embedded, role: rol
             <Text style={styles.backText}>← Back</Text>
           </Pressable>
           <Text style={styles.headerTitle}>Wallets</Text>
-          {myRole && canManageWallets(myRole) ? (
+          {canManage ? (
             <Pressable
               style={({ pressed }) => [styles.createButton, pressed && { opacity: 0.7 }]}
               onPress={() => setShowCreateModal(true)}
@@ -354,9 +534,9 @@ export const WalletListScreen: React.FC<Props> = ({ vaultId, embedded, role: rol
 
       {/* Search */}
       <View style={styles.searchContainer}>
-        <View style={embedded ? styles.searchRow : undefined}>
+        <View style={styles.searchRow}>
           <TextInput
-            style={[styles.searchInput, embedded && styles.searchInputFlex]}
+            style={[styles.searchInput, styles.searchInputFlex]}
             placeholder="Search wallets..."
             value={search}
             onChangeText={handleSearch}
@@ -364,7 +544,15 @@ export const WalletListScreen: React.FC<Props> = ({ vaultId, embedded, role: rol
             autoCapitalize="none"
             autoCorrect={false}
           />
-          {embedded && myRole && canManageWallets(myRole) ? (
+          <Pressable
+            style={({ pressed }) => [styles.filterButton, pressed && { opacity: 0.7 }]}
+            onPress={() => setShowFilterSheet(true)}
+          >
+            <Text style={styles.filterButtonText}>
+              Filters{filterChips.length > 0 ? ` (${filterChips.length})` : ''}
+            </Text>
+          </Pressable>
+          {embedded && canManage ? (
             <Pressable
               style={({ pressed }) => [styles.createButton, pressed && { opacity: 0.7 }]}
               onPress={() => setShowCreateModal(true)}
@@ -373,8 +561,36 @@ export const WalletListScreen: React.FC<Props> = ({ vaultId, embedded, role: rol
             </Pressable>
           ) : null}
         </View>
+
+        {/* Include archived */}
+        <View style={styles.archivedRow}>
+          <Text style={styles.archivedLabel}>Include archived</Text>
+          <Switch
+            value={filters.status !== 'active'}
+            onValueChange={handleIncludeArchived}
+            trackColor={{ true: PRIMARY }}
+          />
+        </View>
+
+        {/* Active filters */}
+        {filterChips.length > 0 ? (
+          <View style={styles.filterChipRow}>
+            {filterChips.map((chip) => (
+              <Pressable
+                key={chip.key}
+                style={({ pressed }) => [styles.filterChip, pressed && { opacity: 0.7 }]}
+                onPress={() => handleRemoveFilterChip(chip.key)}
+                accessibilityLabel={`Remove filter ${chip.label}`}
+              >
+                <Text style={styles.filterChipText}>{chip.label} ✕</Text>
+              </Pressable>
+            ))}
+          </View>
+        ) : null}
       </View>
 
+      <OfflineBanner asOf={asOf} />
+
       {/* List */}
       <FlatList
         data={wallets}
@@ -383,6 +599,23 @@ export const WalletListScreen: React.FC<Props> = ({ vaultId, embedded, role: rol
         contentContainerStyle={styles.listContent}
         onEndReached={handleLoadMore}
         onEndReachedThreshold={0.5}
+        onRefresh={handleRefresh}
+        refreshing={isRefreshing}
+        ListHeaderComponent={
+          // Wallets waiting to be created, which the list itself can't show yet
+          !query && pendingChanges.creations.length > 0 ? (
+            <View style={styles.pendingCreations}>
+              {pendingChanges.creations.map(({ action, wallet }) => (
+                <PendingActionNotice
+                  key={action.id}
+                  title={`New wallet "${wallet.name}" · ${wallet.networks.join(', ')}`}
+                  action={action}
+                  onPress={() => openAction(action)}
+                />
+              ))}
+            </View>
+          ) : null
+        }
         ListFooterComponent={
           loadingMore ? (
             <ActivityIndicator style={styles.footerLoader} color={PRIMARY} />
@@ -395,6 +628,13 @@ export const WalletListScreen: React.FC<Props> = ({ vaultId, embedded, role: rol
         }
       />
 
+      <WalletFilterSheet
+        visible={showFilterSheet}
+        value={filters}
+        onApply={handleApplyFilters}
+        onClose={() => setShowFilterSheet(false)}
+      />
+
       {/* Create Wallet Modal */}
       <Modal
         visible={showCreateModal}
@@ -535,6 +775,46 @@ const styles = StyleSheet.create({
   searchInputFlex: {
     flex: 1,
   },
+  filterButton: {
+    backgroundColor: BLUE_GREY,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  filterButtonText: {
+    color: TEXT_WHITE,
+    fontWeight: '600',
+    fontSize: 14,
+  },
+  archivedRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingTop: 8,
+  },
+  archivedLabel: {
+    fontSize: 14,
+    color: TEXT_SECONDARY,
+  },
+  filterChipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    paddingTop: 8,
+  },
+  filterChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 8,
+    borderWidth: 1.5,
+    borderColor: PRIMARY,
+    backgroundColor: PRIMARY + '20',
+  },
+  filterChipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: PRIMARY,
+  },
   searchInput: {
     backgroundColor: BG_WHITE,
     borderRadius: 10,
@@ -593,6 +873,15 @@ const styles = StyleSheet.create({
     fontSize: 11,
     fontWeight: '600',
   },
+  pendingText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: WARNING,
+  },
+  pendingCreations: {
+    gap: 8,
+    marginBottom: 8,
+  },
   walletValue: {
     fontSize: 15,
     fontWeight: '600',
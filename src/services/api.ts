@@ -1,6 +1,40 @@
 import { authConfig } from '../config/auth';
+import { apiConfig } from '../config/api';
+import { decodeResponse, decodeException, isRetryableError, createApiError } from './response';
+import { resolveRetryPolicy, getBackoffDelay, delay } from './retry';
+import { withIdempotencyKey } from './idempotency';
+import { invalidateOnSuccess } from './queryCache';
+import { reportConnectivity } from './connectivity';
+import { array, validateResponse } from './schema';
+import {
+  userDataSchema,
+  vaultSchema,
+  vaultUserDataSchema,
+  vaultMembersDataSchema,
+  addVaultMemberResponseSchema,
+  updateVaultMemberRoleResponseSchema,
+  deleteVaultMemberResponseSchema,
+  walletSchema,
+  walletAddressSchema,
+  walletBalanceSchema,
+  vaultBalanceSchema,
+  balanceHistorySeriesSchema,
+  auditLogListItemSchema,
+  auditLogDetailSchema,
+  auditLogPaginationSchema,
+  vaultActionSchema,
+  vaultActionPaginationSchema,
+  transactionSchema,
+  transactionFeeEstimateSchema,
+  transactionPaginationSchema,
+  addressBookEntrySchema,
+} from './schemas';
+import { queryKeys } from './queryKeys';
+import { transport } from './transport';
 import type {
   ApiResponse,
+  ApiRequestOptions,
+  MutationOptions,
   UserData,
   Vault,
   VaultUserData,
@@ -17,6 +51,10 @@ import type {
   VaultBalance,
   WalletBalance,
   FetchWalletsParams,
+  FetchWalletParams,
+  FetchBalancesParams,
+  FetchBalanceHistoryParams,
+  BalanceHistorySeries,
   CreateWalletRequest,
   UpdateWalletRequest,
   CreateWalletAddressRequest,
@@ -28,93 +66,225 @@ import type {
   VaultActionsResponse,
   FetchVaultActionsParams,
   RejectVaultActionRequest,
+  Transaction,
+  TransactionFeeEstimate,
+  EstimateTransactionFeeRequest,
+  CreateTransactionRequest,
+  RejectTransactionRequest,
+  UpdateTransactionNoteRequest,
+  TransactionsResponse,
+  FetchTransactionsParams,
+  AddressBookEntry,
+  AddressBookEntryRequest,
 } from '../types';
 
 const API_BASE_URL = authConfig.backendApiUrl;
 
+// ─── Session Handling ───
+
+interface SessionHandlers {
+  getAccessToken: () => string | null;
+  refreshAccessToken: () => Promise<string | null>;
+}
+
+let sessionHandlers: SessionHandlers | null = null;
+let pendingRefresh: Promise<string | null> | null = null;
+
 /**
- * Fetch user profile from backend API
+ * Register the auth callbacks used to recover from expired access tokens.
+ * Called by AuthProvider; pass null on unmount.
  */
-export const fetchUserProfile = async (accessToken: string): Promise<ApiResponse<UserData>> => {
-  try {
-    const response = await fetch(`${API_BASE_URL}/api/v1/users/me`, {
-      method: 'GET',
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        'Content-Type': 'application/json',
-      },
-    });
+export const registerSessionHandlers = (handlers: SessionHandlers | null): void => {
+  sessionHandlers = handlers;
+};
 
-    const data = await response.json();
-    return data;
-  } catch (error) {
-    return {
-      _status: 500,
-      error: {
-        type: 'NETWORK_ERROR',
-        message: error instanceof Error ? error.message : 'Network request failed',
-      },
-    };
+/**
+ * Refresh the access token once, no matter how many requests hit a 401 at
+ * the same time. Every caller awaits the same in-flight refresh.
+ */
+const refreshSession = (): Promise<string | null> => {
+  if (!sessionHandlers) return Promise.resolve(null);
+  if (!pendingRefresh) {
+    pendingRefresh = sessionHandlers.refreshAccessToken().finally(() => {
+      pendingRefresh = null;
+    });
   }
+  return pendingRefresh;
 };
 
 /**
- * Generic authenticated API request
+ * Resolve the token a rejected request should be replayed with. If another
+ * request already refreshed the session, reuse that token instead of
+ * refreshing again.
  */
-export const authenticatedFetch = async <T>(
+const resolveReplayToken = async (rejectedToken: string): Promise<string | null> => {
+  if (pendingRefresh) return pendingRefresh;
+  const current = sessionHandlers?.getAccessToken() ?? null;
+  if (current && current !== rejectedToken) return current;
+  return refreshSession();
+};
+
+const isUnauthorized = (decoded: ApiResponse<unknown>): boolean =>
+  decoded._status === 401 || decoded.error?.type === 'UNAUTHORIZED';
+
+/**
+ * Send a single attempt and decode it, aborting once `timeoutMs` elapses or
+ * when the caller's `signal` fires. Never throws: failures come back as an
+ * error envelope, with a caller abort reported as CANCELLED.
+ */
+const executeRequest = async <T, R extends ApiResponse<T>>(
   endpoint: string,
   accessToken: string,
-  options: RequestInit = {}
-): Promise<ApiResponse<T>> => {
+  init: RequestInit,
+  timeoutMs: number,
+  signal?: AbortSignal | null,
+): Promise<R> => {
+  if (signal?.aborted) {
+    return { _status: 0, error: createApiError('CANCELLED') } as R;
+  }
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const abortFromCaller = () => controller.abort();
+  signal?.addEventListener('abort', abortFromCaller);
   try {
-    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
-      ...options,
+    const response = await transport(`${API_BASE_URL}${endpoint}`, {
+      ...init,
+      signal: controller.signal,
       headers: {
-        ...options.headers,
+        ...init.headers,
         Authorization: `Bearer ${accessToken}`,
         'Content-Type': 'application/json',
       },
     });
-
-    const data = await response.json();
-    return data;
+    reportConnectivity({ _status: response.status });
+    return await decodeResponse<T, R>(response);
   } catch (error) {
-    return {
-      _status: 500,
-      error: {
-        type: 'NETWORK_ERROR',
-        message: error instanceof Error ? error.message : 'Network request failed',
-      },
-    };
+    if (signal?.aborted) {
+      return { _status: 0, error: createApiError('CANCELLED') } as R;
+    }
+    const decoded = decodeException<R>(error);
+    reportConnectivity(decoded);
+    return decoded;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', abortFromCaller);
   }
 };
 
-export const fetchVaults = (accessToken: string): Promise<ApiResponse<Vault[]>> =>
-  authenticatedFetch<Vault[]>('/api/v1/vaults', accessToken);
+/**
+ * Generic authenticated API request.
+ * A 401 / invalid_token response triggers a single shared token refresh, after
+ * which the request is replayed once with the new token. If the refresh fails
+ * the original 401 is returned and AuthContext logs the user out.
+ * Responses are decoded by `decodeResponse`, so HTTP status, empty bodies and
+ * non-JSON bodies all map onto the ApiResponse envelope. When a `schema` is
+ * given, the payload of a successful response is validated at runtime and a
+ * mismatch is returned as a SCHEMA_MISMATCH error.
+ * State-changing requests get an Idempotency-Key that is shared by every
+ * attempt, which also makes them eligible for retries. Idempotent requests
+ * that time out, fail to connect or hit a 5xx are retried with exponential
+ * backoff (see `resolveRetryPolicy`).
+ */
+export const authenticatedFetch = async <T, R extends ApiResponse<T> = ApiResponse<T>>(
+  endpoint: string,
+  accessToken: string,
+  options: ApiRequestOptions<T> = {}
+): Promise<R> => {
+  const {
+    timeoutMs = apiConfig.timeoutMs,
+    retry,
+    idempotencyKey,
+    schema,
+    paginationSchema,
+    signal,
+    ...requestInit
+  } = options;
+  const init = withIdempotencyKey(requestInit, idempotencyKey);
+  const policy = resolveRetryPolicy(init, retry);
+  let token = accessToken;
+  let replayed = false;
 
-export const fetchVault = (accessToken: string, vaultId: string): Promise<ApiResponse<Vault>> =>
-  authenticatedFetch<Vault>(`/api/v1/vaults/${vaultId}`, accessToken);
+  for (let attempt = 1; ; attempt++) {
+    let decoded = await executeRequest<T, R>(endpoint, token, init, timeoutMs, signal);
 
-export const updateVault = (
+    if (!replayed && isUnauthorized(decoded)) {
+      replayed = true;
+      const newToken = await resolveReplayToken(token);
+      if (newToken) {
+        token = newToken;
+        decoded = await executeRequest<T, R>(endpoint, token, init, timeoutMs, signal);
+      }
+    }
+
+    if (attempt >= policy.maxAttempts || !isRetryableError(decoded.error)) {
+      return validateResponse(decoded, { data: schema, pagination: paginationSchema });
+    }
+    await delay(getBackoffDelay(attempt, policy), signal ?? undefined);
+  }
+};
+
+/**
+ * Fetch user profile from backend API
+ */
+export const fetchUserProfile = (
+  accessToken: string,
+  signal?: AbortSignal,
+): Promise<ApiResponse<UserData>> =>
+  authenticatedFetch<UserData>('/api/v1/users/me', accessToken, {
+    signal,
+    schema: userDataSchema,
+  });
+
+export const fetchVaults = (
+  accessToken: string,
+  signal?: AbortSignal,
+): Promise<ApiResponse<Vault[]>> =>
+  authenticatedFetch<Vault[]>('/api/v1/vaults', accessToken, {
+    signal,
+    schema: array(vaultSchema),
+  });
+
+export const fetchVault = (
   accessToken: string,
   vaultId: string,
-  data: UpdateVaultRequest,
+  signal?: AbortSignal,
 ): Promise<ApiResponse<Vault>> =>
   authenticatedFetch<Vault>(`/api/v1/vaults/${vaultId}`, accessToken, {
-    method: 'PUT',
-    body: JSON.stringify(data),
+    signal,
+    schema: vaultSchema,
   });
 
+export const updateVault = (
+  accessToken: string,
+  vaultId: string,
+  data: UpdateVaultRequest,
+  signal?: AbortSignal,
+): Promise<ApiResponse<Vault>> =>
+  invalidateOnSuccess(
+    authenticatedFetch<Vault>(`/api/v1/vaults/${vaultId}`, accessToken, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+      signal,
+      schema: vaultSchema,
+    }),
+    queryKeys.vault(vaultId),
+  );
+
 export const fetchVaultUserProfile = (
   accessToken: string,
   vaultId: string,
+  signal?: AbortSignal,
 ): Promise<ApiResponse<VaultUserData>> =>
-  authenticatedFetch<VaultUserData>(`/api/v1/vaults/${vaultId}/users/me`, accessToken);
+  authenticatedFetch<VaultUserData>(`/api/v1/vaults/${vaultId}/users/me`, accessToken, {
+    signal,
+    schema: vaultUserDataSchema,
+  });
 
 export const fetchVaultMembers = (
   accessToken: string,
   vaultId: string,
   params?: FetchVaultMembersParams,
+  signal?: AbortSignal,
 ): Promise<ApiResponse<VaultMembersData>> => {
   const searchParams = new URLSearchParams();
   if (params?.page !== undefined) searchParams.set('page', params.page.toString());
@@ -122,40 +292,65 @@ export const fetchVaultMembers = (
   if (params?.search) searchParams.set('search', params.search);
   const query = searchParams.toString();
   const endpoint = `/api/v1/vaults/${vaultId}/users${query ? `?${query}` : ''}`;
-  return authenticatedFetch<VaultMembersData>(endpoint, accessToken);
+  return authenticatedFetch<VaultMembersData>(endpoint, accessToken, {
+    signal,
+    schema: vaultMembersDataSchema,
+  });
 };
 
 export const addVaultMember = (
   accessToken: string,
   vaultId: string,
   data: AddVaultMemberRequest,
+  signal?: AbortSignal,
 ): Promise<ApiResponse<AddVaultMemberResponse>> =>
-  authenticatedFetch<AddVaultMemberResponse>(`/api/v1/vaults/${vaultId}/users`, accessToken, {
-    method: 'POST',
-    body: JSON.stringify(data),
-  });
+  invalidateOnSuccess(
+    authenticatedFetch<AddVaultMemberResponse>(`/api/v1/vaults/${vaultId}/users`, accessToken, {
+      method: 'POST',
+      body: JSON.stringify(data),
+      signal,
+      schema: addVaultMemberResponseSchema,
+    }),
+    queryKeys.members(vaultId),
+    queryKeys.vaultUser(vaultId),
+  );
 
 export const updateVaultMemberRole = (
   accessToken: string,
   vaultId: string,
   userId: string,
   data: UpdateVaultMemberRoleRequest,
+  signal?: AbortSignal,
 ): Promise<ApiResponse<UpdateVaultMemberRoleResponse>> =>
-  authenticatedFetch<UpdateVaultMemberRoleResponse>(
-    `/api/v1/vaults/${vaultId}/users/${userId}`,
-    accessToken,
-    { method: 'PUT', body: JSON.stringify(data) },
+  invalidateOnSuccess(
+    authenticatedFetch<UpdateVaultMemberRoleResponse>(
+      `/api/v1/vaults/${vaultId}/users/${userId}`,
+      accessToken,
+      {
+        method: 'PUT',
+        body: JSON.stringify(data),
+        signal,
+        schema: updateVaultMemberRoleResponseSchema,
+      },
+    ),
+    queryKeys.members(vaultId),
+    queryKeys.vaultUser(vaultId),
   );
 
 export const deleteVaultMember = (
   accessToken: string,
   vaultId: string,
   userId: string,
+  signal?: AbortSignal,
 ): Promise<ApiResponse<DeleteVaultMemberResponse>> =>
-  authenticatedFetch<DeleteVaultMemberResponse>(
-    `/api/v1/vaults/${vaultId}/users/${userId}`,
-    accessToken,
-    { method: 'DELETE' },
+  invalidateOnSuccess(
+    authenticatedFetch<DeleteVaultMemberResponse>(
+      `/api/v1/vaults/${vaultId}/users/${userId}`,
+      accessToken,
+      { method: 'DELETE', signal, schema: deleteVaultMemberResponseSchema },
+    ),
+    queryKeys.members(vaultId),
+    queryKeys.vaultUser(vaultId),
   );
 
 // ─── Wallet API ───
@@ -164,6 +359,7 @@ export const fetchWallets = (
   accessToken: string,
   vaultId: string,
   params?: FetchWalletsParams,
+  signal?: AbortSignal,
 ): Promise<ApiResponse<Wallet[]>> => {
   const searchParams = new URLSearchParams();
   if (params?.page !== undefined) searchParams.set('page', params.page.toString());
@@ -172,62 +368,133 @@ export const fetchWallets = (
   if (params?.network) searchParams.set('network', params.network);
   if (params?.sortBy) searchParams.set('sortBy', params.sortBy);
   if (params?.sortOrder) searchParams.set('sortOrder', params.sortOrder);
+  if (params?.currency) searchParams.set('currency', params.currency);
   const query = searchParams.toString();
   const endpoint = `/api/v1/vaults/${vaultId}/wallets${query ? `?${query}` : ''}`;
-  return authenticatedFetch<Wallet[]>(endpoint, accessToken);
+  return authenticatedFetch<Wallet[]>(endpoint, accessToken, {
+    signal,
+    schema: array(walletSchema),
+  });
+};
+
+// 404 NOT_FOUND when the wallet doesn't exist in this vault
+export const fetchWallet = (
+  accessToken: string,
+  vaultId: string,
+  walletId: string,
+  params?: FetchWalletParams,
+  signal?: AbortSignal,
+): Promise<ApiResponse<Wallet>> => {
+  const query = params?.currency ? `?${new URLSearchParams({ currency: params.currency })}` : '';
+  return authenticatedFetch<Wallet>(
+    `/api/v1/vaults/${vaultId}/wallets/${walletId}${query}`,
+    accessToken,
+    { signal, schema: walletSchema },
+  );
+};
+
+/**
+ * Wallet changes may need vault approval. The server then answers 202 with
+ * the pending VaultAction instead of applying the change; use
+ * `getPendingAction` to tell the two apart. Only that 202 body is validated:
+ * an applied change may come back with an empty body, a partial wallet or a
+ * message, so a 200/201 body is dropped rather than checked.
+ */
+const toWalletChangeResponse = async (
+  request: Promise<ApiResponse<unknown>>,
+): Promise<ApiResponse<VaultAction | undefined>> => {
+  const response = await request;
+  if (response._status === 202) {
+    return validateResponse(response as ApiResponse<VaultAction>, { data: vaultActionSchema });
+  }
+  return response.error
+    ? { _status: response._status, error: response.error }
+    : { _status: response._status };
 };
 
 export const createWallet = (
   accessToken: string,
   vaultId: string,
   data: CreateWalletRequest,
-): Promise<ApiResponse<void>> =>
-  authenticatedFetch<void>(`/api/v1/vaults/${vaultId}/wallets`, accessToken, {
-    method: 'POST',
-    body: JSON.stringify(data),
-  });
+  options: MutationOptions = {},
+): Promise<ApiResponse<VaultAction | undefined>> =>
+  invalidateOnSuccess(
+    toWalletChangeResponse(
+      authenticatedFetch<unknown>(`/api/v1/vaults/${vaultId}/wallets`, accessToken, {
+        method: 'POST',
+        body: JSON.stringify(data),
+        ...options,
+      }),
+    ),
+    queryKeys.wallets(vaultId),
+    queryKeys.vaultBalances(vaultId),
+  );
 
 export const renameWallet = (
   accessToken: string,
   vaultId: string,
   walletId: string,
   data: UpdateWalletRequest,
-): Promise<ApiResponse<void>> =>
-  authenticatedFetch<void>(`/api/v1/vaults/${vaultId}/wallets/${walletId}`, accessToken, {
-    method: 'PUT',
-    body: JSON.stringify(data),
-  });
+  options: MutationOptions = {},
+): Promise<ApiResponse<VaultAction | undefined>> =>
+  invalidateOnSuccess(
+    toWalletChangeResponse(
+      authenticatedFetch<unknown>(`/api/v1/vaults/${vaultId}/wallets/${walletId}`, accessToken, {
+        method: 'PUT',
+        body: JSON.stringify(data),
+        ...options,
+      }),
+    ),
+    queryKeys.wallets(vaultId),
+    queryKeys.vaultBalances(vaultId),
+  );
 
 export const archiveWallet = (
   accessToken: string,
   vaultId: string,
   walletId: string,
-): Promise<ApiResponse<void>> =>
-  authenticatedFetch<void>(
-    `/api/v1/vaults/${vaultId}/wallets/${walletId}/archive`,
-    accessToken,
-    { method: 'POST' },
+  options: MutationOptions = {},
+): Promise<ApiResponse<VaultAction | undefined>> =>
+  invalidateOnSuccess(
+    toWalletChangeResponse(
+      authenticatedFetch<unknown>(
+        `/api/v1/vaults/${vaultId}/wallets/${walletId}/archive`,
+        accessToken,
+        { method: 'POST', ...options },
+      ),
+    ),
+    queryKeys.wallets(vaultId),
+    queryKeys.vaultBalances(vaultId),
   );
 
 export const unarchiveWallet = (
   accessToken: string,
   vaultId: string,
   walletId: string,
-): Promise<ApiResponse<void>> =>
-  authenticatedFetch<void>(
-    `/api/v1/vaults/${vaultId}/wallets/${walletId}/unarchive`,
-    accessToken,
-    { method: 'POST' },
+  options: MutationOptions = {},
+): Promise<ApiResponse<VaultAction | undefined>> =>
+  invalidateOnSuccess(
+    toWalletChangeResponse(
+      authenticatedFetch<unknown>(
+        `/api/v1/vaults/${vaultId}/wallets/${walletId}/unarchive`,
+        accessToken,
+        { method: 'POST', ...options },
+      ),
+    ),
+    queryKeys.wallets(vaultId),
+    queryKeys.vaultBalances(vaultId),
   );
 
 export const fetchWalletAddresses = (
   accessToken: string,
   vaultId: string,
   walletId: string,
+  signal?: AbortSignal,
 ): Promise<ApiResponse<WalletAddress[]>> =>
   authenticatedFetch<WalletAddress[]>(
     `/api/v1/vaults/${vaultId}/wallets/${walletId}/addresses`,
     accessToken,
+    { signal, schema: array(walletAddressSchema) },
   );
 
 export const addWalletAddress = (
@@ -235,30 +502,71 @@ export const addWalletAddress = (
   vaultId: string,
   walletId: string,
   data: CreateWalletAddressRequest,
+  signal?: AbortSignal,
 ): Promise<ApiResponse<void>> =>
-  authenticatedFetch<void>(
-    `/api/v1/vaults/${vaultId}/wallets/${walletId}/addresses`,
-    accessToken,
-    { method: 'POST', body: JSON.stringify(data) },
+  invalidateOnSuccess(
+    authenticatedFetch<void>(
+      `/api/v1/vaults/${vaultId}/wallets/${walletId}/addresses`,
+      accessToken,
+      { method: 'POST', body: JSON.stringify(data), signal },
+    ),
+    queryKeys.walletAddresses(vaultId, walletId),
   );
 
+const balancesQuery = (params?: FetchBalancesParams): string =>
+  params?.currency ? `?${new URLSearchParams({ currency: params.currency })}` : '';
+
 export const fetchWalletBalances = (
   accessToken: string,
   vaultId: string,
   walletId: string,
+  params?: FetchBalancesParams,
+  signal?: AbortSignal,
 ): Promise<ApiResponse<WalletBalance[]>> =>
   authenticatedFetch<WalletBalance[]>(
-    `/api/v1/vaults/${vaultId}/wallets/${walletId}/balances`,
+    `/api/v1/vaults/${vaultId}/wallets/${walletId}/balances${balancesQuery(params)}`,
     accessToken,
+    { signal, schema: array(walletBalanceSchema) },
   );
 
 export const fetchVaultBalances = (
   accessToken: string,
   vaultId: string,
+  params?: FetchBalancesParams,
+  signal?: AbortSignal,
 ): Promise<ApiResponse<VaultBalance[]>> =>
   authenticatedFetch<VaultBalance[]>(
-    `/api/v1/vaults/${vaultId}/balances`,
+    `/api/v1/vaults/${vaultId}/balances${balancesQuery(params)}`,
     accessToken,
+    { signal, schema: array(vaultBalanceSchema) },
+  );
+
+const historyQuery = ({ range, currency }: FetchBalanceHistoryParams): string =>
+  `?${new URLSearchParams(currency ? { range, currency } : { range })}`;
+
+export const fetchWalletBalanceHistory = (
+  accessToken: string,
+  vaultId: string,
+  walletId: string,
+  params: FetchBalanceHistoryParams,
+  signal?: AbortSignal,
+): Promise<ApiResponse<BalanceHistorySeries[]>> =>
+  authenticatedFetch<BalanceHistorySeries[]>(
+    `/api/v1/vaults/${vaultId}/wallets/${walletId}/balances/history${historyQuery(params)}`,
+    accessToken,
+    { signal, schema: array(balanceHistorySeriesSchema) },
+  );
+
+export const fetchVaultBalanceHistory = (
+  accessToken: string,
+  vaultId: string,
+  params: FetchBalanceHistoryParams,
+  signal?: AbortSignal,
+): Promise<ApiResponse<BalanceHistorySeries[]>> =>
+  authenticatedFetch<BalanceHistorySeries[]>(
+    `/api/v1/vaults/${vaultId}/balances/history${historyQuery(params)}`,
+    accessToken,
+    { signal, schema: array(balanceHistorySeriesSchema) },
   );
 
 // ─── Audit Log API ───
@@ -267,6 +575,7 @@ export const fetchAuditLogs = (
   accessToken: string,
   vaultId: string,
   params?: FetchAuditLogsParams,
+  signal?: AbortSignal,
 ): Promise<AuditLogsResponse> => {
   const searchParams = new URLSearchParams();
   if (params?.page !== undefined) searchParams.set('page', params.page.toString());
@@ -281,21 +590,29 @@ export const fetchAuditLogs = (
   if (params?.eventTypes) {
     for (const et of params.eventTypes) searchParams.append('eventTypes', et);
   }
+  if (params?.transactionId) searchParams.set('transactionId', params.transactionId);
   const query = searchParams.toString();
-  return authenticatedFetch<AuditLogListItem[]>(
+  return authenticatedFetch<AuditLogListItem[], AuditLogsResponse>(
     `/api/v1/vaults/${vaultId}/audit-logs${query ? `?${query}` : ''}`,
     accessToken,
-  ) as Promise<AuditLogsResponse>;
+    {
+      signal,
+      schema: array(auditLogListItemSchema),
+      paginationSchema: auditLogPaginationSchema,
+    },
+  );
 };
 
 export const fetchAuditLogDetail = (
   accessToken: string,
   vaultId: string,
   logId: string,
+  signal?: AbortSignal,
 ): Promise<ApiResponse<AuditLogDetail>> =>
   authenticatedFetch<AuditLogDetail>(
     `/api/v1/vaults/${vaultId}/audit-logs/${logId}`,
     accessToken,
+    { signal, schema: auditLogDetailSchema },
   );
 
 // ─── Vault Action API ───
@@ -304,6 +621,7 @@ export const fetchVaultActions = (
   accessToken: string,
   vaultId: string,
   params?: FetchVaultActionsParams,
+  signal?: AbortSignal,
 ): Promise<VaultActionsResponse> => {
   const searchParams = new URLSearchParams();
   if (params?.page !== undefined) searchParams.set('page', params.page.toString());
@@ -317,21 +635,32 @@ export const fetchVaultActions = (
     for (const s of params.statuses) searchParams.append('statuses', s);
   }
   const query = searchParams.toString();
-  return authenticatedFetch<VaultAction[]>(
+  return authenticatedFetch<VaultAction[], VaultActionsResponse>(
     `/api/v1/vaults/${vaultId}/vault-actions${query ? `?${query}` : ''}`,
     accessToken,
-  ) as Promise<VaultActionsResponse>;
+    {
+      signal,
+      schema: array(vaultActionSchema),
+      paginationSchema: vaultActionPaginationSchema,
+    },
+  );
 };
 
+// Approving or rejecting can execute the action (member, wallet or quorum
+// changes), so the whole vault's cached data is invalidated.
 export const approveVaultAction = (
   accessToken: string,
   vaultId: string,
   actionId: string,
+  options: MutationOptions = {},
 ): Promise<ApiResponse<void>> =>
-  authenticatedFetch<void>(
-    `/api/v1/vaults/${vaultId}/vault-actions/${actionId}/approve`,
-    accessToken,
-    { method: 'PUT' },
+  invalidateOnSuccess(
+    authenticatedFetch<void>(
+      `/api/v1/vaults/${vaultId}/vault-actions/${actionId}/approve`,
+      accessToken,
+      { method: 'PUT', ...options },
+    ),
+    queryKeys.vaultScope(vaultId),
   );
 
 export const rejectVaultAction = (
@@ -339,20 +668,264 @@ export const rejectVaultAction = (
   vaultId: string,
   actionId: string,
   data?: RejectVaultActionRequest,
+  options: MutationOptions = {},
 ): Promise<ApiResponse<void>> =>
-  authenticatedFetch<void>(
-    `/api/v1/vaults/${vaultId}/vault-actions/${actionId}/reject`,
-    accessToken,
-    { method: 'PUT', body: data ? JSON.stringify(data) : undefined },
+  invalidateOnSuccess(
+    authenticatedFetch<void>(
+      `/api/v1/vaults/${vaultId}/vault-actions/${actionId}/reject`,
+      accessToken,
+      { method: 'PUT', body: data ? JSON.stringify(data) : undefined, ...options },
+    ),
+    queryKeys.vaultScope(vaultId),
   );
 
 export const cancelVaultAction = (
   accessToken: string,
   vaultId: string,
   actionId: string,
+  options: MutationOptions = {},
 ): Promise<ApiResponse<void>> =>
-  authenticatedFetch<void>(
-    `/api/v1/vaults/${vaultId}/vault-actions/${actionId}/cancel`,
+  invalidateOnSuccess(
+    authenticatedFetch<void>(
+      `/api/v1/vaults/${vaultId}/vault-actions/${actionId}/cancel`,
+      accessToken,
+      { method: 'PUT', ...options },
+    ),
+    queryKeys.vaultScope(vaultId),
+  );
+
+// ─── Transaction API ───
+
+export const fetchTransactions = (
+  accessToken: string,
+  vaultId: string,
+  params?: FetchTransactionsParams,
+  signal?: AbortSignal,
+): Promise<TransactionsResponse> => {
+  const searchParams = new URLSearchParams();
+  if (params?.page !== undefined) searchParams.set('page', params.page.toString());
+  if (params?.limit !== undefined) searchParams.set('limit', params.limit.toString());
+  if (params?.walletId) searchParams.set('walletId', params.walletId);
+  if (params?.search) searchParams.set('search', params.search);
+  if (params?.startTime) searchParams.set('startTime', params.startTime);
+  if (params?.endTime) searchParams.set('endTime', params.endTime);
+  if (params?.sortOrder) searchParams.set('sortOrder', params.sortOrder);
+  if (params?.statuses) {
+    for (const s of params.statuses) searchParams.append('statuses', s);
+  }
+  if (params?.directions) {
+    for (const d of params.directions) searchParams.append('directions', d);
+  }
+  if (params?.networks) {
+    for (const n of params.networks) searchParams.append('networks', n);
+  }
+  const query = searchParams.toString();
+  return authenticatedFetch<Transaction[], TransactionsResponse>(
+    `/api/v1/vaults/${vaultId}/transactions${query ? `?${query}` : ''}`,
+    accessToken,
+    {
+      signal,
+      schema: array(transactionSchema),
+      paginationSchema: transactionPaginationSchema,
+    },
+  );
+};
+
+export const fetchTransaction = (
+  accessToken: string,
+  vaultId: string,
+  transactionId: string,
+  signal?: AbortSignal,
+): Promise<ApiResponse<Transaction>> =>
+  authenticatedFetch<Transaction>(
+    `/api/v1/vaults/${vaultId}/transactions/${transactionId}`,
     accessToken,
-    { method: 'PUT' },
+    { signal, schema: transactionSchema },
+  );
+
+export const updateTransactionNote = (
+  accessToken: string,
+  vaultId: string,
+  transactionId: string,
+  data: UpdateTransactionNoteRequest,
+  signal?: AbortSignal,
+): Promise<ApiResponse<Transaction>> =>
+  invalidateOnSuccess(
+    authenticatedFetch<Transaction>(
+      `/api/v1/vaults/${vaultId}/transactions/${transactionId}/note`,
+      accessToken,
+      { method: 'PUT', body: JSON.stringify(data), signal, schema: transactionSchema },
+    ),
+    queryKeys.transactions(vaultId),
+  );
+
+export const estimateTransactionFee = (
+  accessToken: string,
+  vaultId: string,
+  data: EstimateTransactionFeeRequest,
+  signal?: AbortSignal,
+): Promise<ApiResponse<TransactionFeeEstimate>> =>
+  authenticatedFetch<TransactionFeeEstimate>(
+    `/api/v1/vaults/${vaultId}/transactions/estimate-fee`,
+    accessToken,
+    {
+      method: 'POST',
+      body: JSON.stringify(data),
+      signal,
+      schema: transactionFeeEstimateSchema,
+    },
+  );
+
+// The transferred amount and fee are locked until the transaction settles,
+// so the source wallet's balances change along with the transaction list.
+export const createTransaction = (
+  accessToken: string,
+  vaultId: string,
+  data: CreateTransactionRequest,
+  options: MutationOptions = {},
+): Promise<ApiResponse<Transaction>> =>
+  invalidateOnSuccess(
+    authenticatedFetch<Transaction>(`/api/v1/vaults/${vaultId}/transactions`, accessToken, {
+      method: 'POST',
+      body: JSON.stringify(data),
+      ...options,
+      schema: transactionSchema,
+    }),
+    queryKeys.transactions(vaultId),
+    queryKeys.walletBalances(vaultId, data.walletId),
+    queryKeys.vaultBalances(vaultId),
+  );
+
+// Responding to a transaction moves it along its lifecycle, and rejecting or
+// cancelling it releases the locked amount, so balances are invalidated along
+// with the transaction list.
+export const approveTransaction = (
+  accessToken: string,
+  vaultId: string,
+  transactionId: string,
+  options: MutationOptions = {},
+): Promise<ApiResponse<void>> =>
+  invalidateOnSuccess(
+    authenticatedFetch<void>(
+      `/api/v1/vaults/${vaultId}/transactions/${transactionId}/approve`,
+      accessToken,
+      { method: 'PUT', ...options },
+    ),
+    queryKeys.transactions(vaultId),
+    queryKeys.wallets(vaultId),
+    queryKeys.vaultBalances(vaultId),
+  );
+
+export const rejectTransaction = (
+  accessToken: string,
+  vaultId: string,
+  transactionId: string,
+  data?: RejectTransactionRequest,
+  options: MutationOptions = {},
+): Promise<ApiResponse<void>> =>
+  invalidateOnSuccess(
+    authenticatedFetch<void>(
+      `/api/v1/vaults/${vaultId}/transactions/${transactionId}/reject`,
+      accessToken,
+      { method: 'PUT', body: data ? JSON.stringify(data) : undefined, ...options },
+    ),
+    queryKeys.transactions(vaultId),
+    queryKeys.wallets(vaultId),
+    queryKeys.vaultBalances(vaultId),
+  );
+
+export const signTransaction = (
+  accessToken: string,
+  vaultId: string,
+  transactionId: string,
+  options: MutationOptions = {},
+): Promise<ApiResponse<void>> =>
+  invalidateOnSuccess(
+    authenticatedFetch<void>(
+      `/api/v1/vaults/${vaultId}/transactions/${transactionId}/sign`,
+      accessToken,
+      { method: 'PUT', ...options },
+    ),
+    queryKeys.transactions(vaultId),
+    queryKeys.wallets(vaultId),
+    queryKeys.vaultBalances(vaultId),
+  );
+
+export const cancelTransaction = (
+  accessToken: string,
+  vaultId: string,
+  transactionId: string,
+  options: MutationOptions = {},
+): Promise<ApiResponse<void>> =>
+  invalidateOnSuccess(
+    authenticatedFetch<void>(
+      `/api/v1/vaults/${vaultId}/transactions/${transactionId}/cancel`,
+      accessToken,
+      { method: 'PUT', ...options },
+    ),
+    queryKeys.transactions(vaultId),
+    queryKeys.wallets(vaultId),
+    queryKeys.vaultBalances(vaultId),
+  );
+
+// ─── Address Book API ───
+
+export const fetchAddressBook = (
+  accessToken: string,
+  vaultId: string,
+  signal?: AbortSignal,
+): Promise<ApiResponse<AddressBookEntry[]>> =>
+  authenticatedFetch<AddressBookEntry[]>(`/api/v1/vaults/${vaultId}/address-book`, accessToken, {
+    signal,
+    schema: array(addressBookEntrySchema),
+  });
+
+// Address book changes only take effect once their vault action is approved.
+// Each call returns the pending action, and invalidates the address book so
+// screens pick up the pending change.
+export const createAddressBookEntry = (
+  accessToken: string,
+  vaultId: string,
+  data: AddressBookEntryRequest,
+  signal?: AbortSignal,
+): Promise<ApiResponse<VaultAction>> =>
+  invalidateOnSuccess(
+    authenticatedFetch<VaultAction>(`/api/v1/vaults/${vaultId}/address-book`, accessToken, {
+      method: 'POST',
+      body: JSON.stringify(data),
+      signal,
+      schema: vaultActionSchema,
+    }),
+    queryKeys.addressBook(vaultId),
+  );
+
+export const updateAddressBookEntry = (
+  accessToken: string,
+  vaultId: string,
+  entryId: string,
+  data: AddressBookEntryRequest,
+  signal?: AbortSignal,
+): Promise<ApiResponse<VaultAction>> =>
+  invalidateOnSuccess(
+    authenticatedFetch<VaultAction>(
+      `/api/v1/vaults/${vaultId}/address-book/${entryId}`,
+      accessToken,
+      { method: 'PUT', body: JSON.stringify(data), signal, schema: vaultActionSchema },
+    ),
+    queryKeys.addressBook(vaultId),
+  );
+
+export const deleteAddressBookEntry = (
+  accessToken: string,
+  vaultId: string,
+  entryId: string,
+  signal?: AbortSignal,
+): Promise<ApiResponse<VaultAction>> =>
+  invalidateOnSuccess(
+    authenticatedFetch<VaultAction>(
+      `/api/v1/vaults/${vaultId}/address-book/${entryId}`,
+      accessToken,
+      { method: 'DELETE', signal, schema: vaultActionSchema },
+    ),
+    queryKeys.addressBook(vaultId),
   );
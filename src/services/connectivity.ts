@@ -0,0 +1,67 @@
+import { authConfig } from '../config/auth';
+import { apiConfig } from '../config/api';
+import { transport } from './transport';
+import type { ApiError, ApiErrorType, ApiResponse } from '../types';
+
+// Only a request that never reached the server says the backend is unreachable.
+// A TIMEOUT may be one slow endpoint, so it is retried but leaves the app online.
+const CONNECTIVITY_ERRORS: ApiErrorType[] = ['OFFLINE'];
+
+let offline = false;
+let probeTimer: ReturnType<typeof setInterval> | null = null;
+const listeners = new Set<(offline: boolean) => void>();
+
+export const isConnectivityError = (error?: ApiError): boolean =>
+  !!error && CONNECTIVITY_ERRORS.includes(error.type as ApiErrorType);
+
+export const isOffline = (): boolean => offline;
+
+/**
+ * Any HTTP response from the backend means we are reachable again, so a
+ * plain HEAD request is enough; its status is irrelevant. It goes through
+ * the same transport as API requests, so the mock backend answers it too.
+ */
+const probe = async () => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), apiConfig.timeoutMs);
+  try {
+    await transport(authConfig.backendApiUrl, { method: 'HEAD', signal: controller.signal });
+    setOffline(false);
+  } catch {
+    // Still unreachable; try again on the next tick
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const setOffline = (value: boolean) => {
+  if (offline === value) return;
+  offline = value;
+  if (offline && !probeTimer) {
+    probeTimer = setInterval(probe, apiConfig.offlineProbeIntervalMs);
+  } else if (!offline && probeTimer) {
+    clearInterval(probeTimer);
+    probeTimer = null;
+  }
+  listeners.forEach((listener) => listener(offline));
+};
+
+/**
+ * Update connectivity from a request outcome. Called by authenticatedFetch
+ * for every attempt: a connection failure marks the app offline, any HTTP
+ * response marks it online. Cancelled requests say nothing either way.
+ */
+export const reportConnectivity = (response: ApiResponse<unknown>): void => {
+  if (response._status > 0) {
+    setOffline(false);
+  } else if (isConnectivityError(response.error)) {
+    setOffline(true);
+  }
+};
+
+export const subscribeConnectivity = (listener: (offline: boolean) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,25 @@
+import * as Crypto from 'expo-crypto';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+const STATE_CHANGING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+export const createIdempotencyKey = (): string => Crypto.randomUUID();
+
+/**
+ * Attach an Idempotency-Key header to state-changing requests that don't have
+ * one yet. Automatic retries and the post-refresh replay all send the same
+ * key, so the server applies the change at most once. Pass `key` to extend
+ * that to manual retries of the same operation (see `useIdempotencyKeys`);
+ * otherwise every call gets a fresh one.
+ */
+export const withIdempotencyKey = (init: RequestInit, key?: string): RequestInit => {
+  const method = (init.method ?? 'GET').toUpperCase();
+  if (!STATE_CHANGING_METHODS.includes(method)) return init;
+
+  const headers = new Headers(init.headers);
+  if (!headers.has(IDEMPOTENCY_KEY_HEADER)) {
+    headers.set(IDEMPOTENCY_KEY_HEADER, key ?? createIdempotencyKey());
+  }
+  return { ...init, headers: Object.fromEntries(headers.entries()) };
+};
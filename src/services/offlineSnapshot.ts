@@ -0,0 +1,137 @@
+import * as SecureStore from 'expo-secure-store';
+import { isApiSuccess } from './response';
+import { isConnectivityError } from './connectivity';
+import type { ApiResponse, OfflineSnapshot } from '../types';
+
+// SecureStore may reject values over 2KB, so snapshots are stored in chunks
+const CHUNK_SIZE = 2000;
+const KEY_PREFIX = 'snapshot';
+// Every snapshot key ever written, so logout can remove them all
+const INDEX_KEY = `${KEY_PREFIX}_index`;
+
+// Writes and clears run one at a time, so concurrent saves can't drop each
+// other's index entries and a clear always sees every key written before it
+let writeQueue: Promise<void> = Promise.resolve();
+// Bumped by clearSnapshots; writes queued before a clear are discarded
+let generation = 0;
+
+const enqueue = (task: () => Promise<void>): Promise<void> => {
+  const run = writeQueue.then(task);
+  // A failed task must not block the ones queued after it
+  writeQueue = run.catch(() => undefined);
+  return run;
+};
+
+// SecureStore keys may only contain alphanumerics, '.', '-' and '_'
+const toStorageKey = (userId: string, name: string): string =>
+  `${KEY_PREFIX}_${userId}_${name}`.replace(/[^A-Za-z0-9._-]/g, '_');
+
+const readIndex = async (): Promise<string[]> => {
+  try {
+    const raw = await SecureStore.getItemAsync(INDEX_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeChunks = async (key: string, value: string): Promise<void> => {
+  const chunks: string[] = [];
+  for (let i = 0; i < value.length; i += CHUNK_SIZE) {
+    chunks.push(value.slice(i, i + CHUNK_SIZE));
+  }
+  const previousCount = Number(await SecureStore.getItemAsync(key)) || 0;
+  await Promise.all(chunks.map((chunk, i) => SecureStore.setItemAsync(`${key}_${i}`, chunk)));
+  await SecureStore.setItemAsync(key, String(chunks.length));
+  // Drop chunks left over from a longer previous value
+  await Promise.all(
+    Array.from({ length: Math.max(previousCount - chunks.length, 0) }, (_, i) =>
+      SecureStore.deleteItemAsync(`${key}_${chunks.length + i}`),
+    ),
+  );
+};
+
+const readChunks = async (key: string): Promise<string | null> => {
+  const count = Number(await SecureStore.getItemAsync(key));
+  if (!count) return null;
+  const chunks = await Promise.all(
+    Array.from({ length: count }, (_, i) => SecureStore.getItemAsync(`${key}_${i}`)),
+  );
+  return chunks.some((chunk) => chunk === null) ? null : chunks.join('');
+};
+
+const deleteChunks = async (key: string): Promise<void> => {
+  const count = Number(await SecureStore.getItemAsync(key)) || 0;
+  await Promise.all([
+    SecureStore.deleteItemAsync(key),
+    ...Array.from({ length: count }, (_, i) => SecureStore.deleteItemAsync(`${key}_${i}`)),
+  ]);
+};
+
+/**
+ * Persist the last successful result of a read for one user. Failures are
+ * swallowed: a missing snapshot only means less to show while offline.
+ */
+export const saveSnapshot = <T>(userId: string, name: string, data: T): Promise<void> => {
+  const key = toStorageKey(userId, name);
+  const snapshot: OfflineSnapshot<T> = { data, savedAt: new Date().toISOString() };
+  const queuedIn = generation;
+  return enqueue(async () => {
+    // Logged out since this save was requested
+    if (queuedIn !== generation) return;
+    // Index the key before writing it, so a failed write still gets cleared
+    const index = await readIndex();
+    if (!index.includes(key)) {
+      await SecureStore.setItemAsync(INDEX_KEY, JSON.stringify([...index, key]));
+    }
+    await writeChunks(key, JSON.stringify(snapshot));
+  }).catch(() => {
+    // Best effort
+  });
+};
+
+export const loadSnapshot = async <T>(
+  userId: string,
+  name: string,
+): Promise<OfflineSnapshot<T> | null> => {
+  try {
+    const raw = await readChunks(toStorageKey(userId, name));
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Remove every stored snapshot, for all users. Called on logout. Resolves
+ * once writes already in flight have finished and been removed too.
+ */
+export const clearSnapshots = (): Promise<void> => {
+  generation++;
+  return enqueue(async () => {
+    const index = await readIndex();
+    await Promise.all(index.map(deleteChunks));
+    await SecureStore.deleteItemAsync(INDEX_KEY);
+  });
+};
+
+/**
+ * Snapshot a successful response, or fall back to the stored snapshot when
+ * the request failed because the backend was unreachable. Returns null when
+ * there is nothing to show, in which case the caller reports the error.
+ * `savedAt` is null for live data.
+ */
+export const resolveWithSnapshot = async <T>(
+  userId: string | undefined,
+  name: string,
+  response: ApiResponse<T>,
+): Promise<{ data: T; savedAt: string | null } | null> => {
+  if (isApiSuccess(response) && response.data !== undefined) {
+    // Queued behind other snapshot writes; live data doesn't wait for it
+    if (userId) saveSnapshot(userId, name, response.data);
+    return { data: response.data, savedAt: null };
+  }
+  if (!userId || !isConnectivityError(response.error)) return null;
+  const snapshot = await loadSnapshot<T>(userId, name);
+  return snapshot ? { data: snapshot.data, savedAt: snapshot.savedAt } : null;
+};
@@ -0,0 +1,146 @@
+import type { ApiResponse, Page, PageInfo, PageRequest, RawPagination } from '../types';
+
+export type PageFetcher<T> = (request: PageRequest) => Promise<ApiResponse<Page<T>>>;
+
+/**
+ * Map either raw pagination shape onto PageInfo. Endpoints that return a bare
+ * array (wallets) have no totals; a full page is taken to mean there may be
+ * more.
+ */
+export const normalizePagination = (
+  raw: RawPagination | undefined,
+  request: Pick<PageRequest, 'page' | 'pageSize'>,
+  itemCount: number,
+): PageInfo => {
+  if (!raw) {
+    return {
+      page: request.page,
+      pageSize: request.pageSize,
+      totalItems: null,
+      totalPages: null,
+      hasMore: itemCount >= request.pageSize,
+    };
+  }
+  if ('pageSize' in raw) {
+    return {
+      page: raw.page,
+      pageSize: raw.pageSize,
+      totalItems: raw.totalItems,
+      totalPages: raw.totalPages,
+      hasMore: raw.page < raw.totalPages,
+    };
+  }
+  return {
+    page: raw.page,
+    pageSize: raw.limit,
+    totalItems: raw.totalCount,
+    totalPages: raw.totalPage,
+    hasMore: raw.page < raw.totalPage,
+  };
+};
+
+/**
+ * Wrap a list response as a Page. Errors pass through without data.
+ */
+export const toPageResponse = <T>(
+  response: ApiResponse<unknown>,
+  items: T[] | undefined,
+  pagination: RawPagination | undefined,
+  request: Pick<PageRequest, 'page' | 'pageSize'>,
+): ApiResponse<Page<T>> => {
+  if (response.error || !items) {
+    return { _status: response._status, error: response.error };
+  }
+  return {
+    _status: response._status,
+    data: { items, pageInfo: normalizePagination(pagination, request, items.length) },
+  };
+};
+
+/**
+ * A single read-only page of offline snapshot data. The original error is
+ * kept so callers still know the request failed.
+ */
+export const toSnapshotPage = <T>(
+  response: ApiResponse<unknown>,
+  items: T[],
+  savedAt: string,
+): ApiResponse<Page<T>> => ({
+  _status: response._status,
+  error: response.error,
+  data: {
+    items,
+    pageInfo: {
+      page: 1,
+      pageSize: items.length,
+      totalItems: items.length,
+      totalPages: 1,
+      hasMore: false,
+    },
+    asOf: savedAt,
+  },
+});
+
+/**
+ * Keep only the items matching `predicate`, for filters the endpoint doesn't
+ * support. A page left with no items is skipped in favour of the next one,
+ * so the list never stops or shows an empty page while more remain.
+ */
+export const filterPageFetcher =
+  <T>(fetchPage: PageFetcher<T>, predicate: (item: T) => boolean): PageFetcher<T> =>
+  async (request) => {
+    for (let page = request.page; ; page++) {
+      const response = await fetchPage({
+        ...request,
+        page,
+        force: request.force && page === request.page,
+      });
+      if (!response.data) return response;
+      const items = response.data.items.filter(predicate);
+      if (items.length > 0 || !response.data.pageInfo.hasMore || request.signal.aborted) {
+        return { ...response, data: { ...response.data, items } };
+      }
+    }
+  };
+
+/**
+ * Append a page, skipping items already loaded. Offsets shift when items are
+ * created or removed between requests, so the same item can show up at the
+ * end of one page and the start of the next.
+ */
+export const mergePageItems = <T>(
+  existing: T[],
+  incoming: T[],
+  getKey: (item: T) => string,
+): T[] => {
+  const seen = new Set(existing.map(getKey));
+  const merged = [...existing];
+  for (const item of incoming) {
+    const key = getKey(item);
+    if (!seen.has(key)) {
+      seen.add(key);
+      merged.push(item);
+    }
+  }
+  return merged;
+};
+
+/**
+ * Iterate a paginated endpoint one page per `next()`. A failed page is
+ * yielded and retried on the following call; the iterator finishes after the
+ * last page or once `signal` is aborted. `force` applies to the first page.
+ */
+export async function* iteratePages<T>(
+  fetchPage: PageFetcher<T>,
+  options: { pageSize: number; signal: AbortSignal; force?: boolean },
+): AsyncGenerator<ApiResponse<Page<T>>, void, undefined> {
+  const { pageSize, signal, force = false } = options;
+  let page = 1;
+  while (!signal.aborted) {
+    const response = await fetchPage({ page, pageSize, signal, force: force && page === 1 });
+    yield response;
+    if (!response.data) continue;
+    if (!response.data.pageInfo.hasMore) return;
+    page = response.data.pageInfo.page + 1;
+  }
+}
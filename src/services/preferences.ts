@@ -0,0 +1,32 @@
+import * as SecureStore from 'expo-secure-store';
+
+const KEY_PREFIX = 'preference';
+
+// SecureStore keys may only contain alphanumerics, '.', '-' and '_'
+const toStorageKey = (userId: string, name: string): string =>
+  `${KEY_PREFIX}_${userId}_${name}`.replace(/[^A-Za-z0-9._-]/g, '_');
+
+/**
+ * Read one stored preference for a user. Returns null when it was never set
+ * or can't be read, so callers fall back to their default.
+ */
+export const loadPreference = async (userId: string, name: string): Promise<unknown> => {
+  try {
+    const raw = await SecureStore.getItemAsync(toStorageKey(userId, name));
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Store a preference for a user. Unlike offline snapshots, preferences are
+ * kept across logout so they're still there on the next sign-in.
+ */
+export const savePreference = async (
+  userId: string,
+  name: string,
+  value: unknown,
+): Promise<void> => {
+  await SecureStore.setItemAsync(toStorageKey(userId, name), JSON.stringify(value));
+};
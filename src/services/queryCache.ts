@@ -0,0 +1,152 @@
+import { apiConfig } from '../config/api';
+import { isApiSuccess } from './response';
+import type { ApiResponse, QueryKey, QueryOptions } from '../types';
+
+type QueryEvent = 'updated' | 'invalidated';
+
+interface CacheEntry {
+  key: QueryKey;
+  response?: ApiResponse<unknown>;
+  updatedAt: number;
+  invalidated: boolean;
+  // Bumped on every invalidation; a request only counts for the generation it started in
+  generation: number;
+  inFlight?: { request: Promise<ApiResponse<unknown>>; generation: number };
+}
+
+interface Listener {
+  key: QueryKey;
+  callback: (event: QueryEvent) => void;
+}
+
+const cache = new Map<string, CacheEntry>();
+const listeners = new Set<Listener>();
+
+const hashPart = (part: QueryKey[number]): string => {
+  if (part && typeof part === 'object' && !Array.isArray(part)) {
+    // Sort object keys and drop undefined values so equivalent params share a key
+    const record = part as Record<string, unknown>;
+    const sorted = Object.keys(record)
+      .sort()
+      .filter((k) => record[k] !== undefined)
+      .map((k) => [k, record[k]]);
+    return JSON.stringify(sorted);
+  }
+  return JSON.stringify(part ?? null);
+};
+
+export const hashQueryKey = (key: QueryKey): string => key.map(hashPart).join('|');
+
+const startsWith = (key: QueryKey, prefix: QueryKey): boolean =>
+  prefix.length <= key.length && prefix.every((part, i) => hashPart(part) === hashPart(key[i]));
+
+const notify = (key: QueryKey, event: QueryEvent) => {
+  for (const listener of listeners) {
+    if (startsWith(key, listener.key) || startsWith(listener.key, key)) {
+      listener.callback(event);
+    }
+  }
+};
+
+const isFresh = (entry: CacheEntry, staleTime: number): boolean =>
+  !!entry.response && !entry.invalidated && Date.now() - entry.updatedAt < staleTime;
+
+/**
+ * Read a cached response without fetching. Stale data is returned too, so
+ * screens can render it immediately while revalidating.
+ */
+export const getQueryData = <R extends ApiResponse<unknown>>(key: QueryKey): R | undefined =>
+  cache.get(hashQueryKey(key))?.response as R | undefined;
+
+/**
+ * Fetch through the cache.
+ * - A fresh cached response is returned without a request.
+ * - Concurrent calls for the same key share one in-flight request, unless the
+ *   key was invalidated after it started: that request may have read data from
+ *   before the mutation, so a new one is sent and the old result isn't cached.
+ * - Only successful responses are cached; errors are returned but not stored.
+ * The fetcher is not tied to any caller's AbortSignal because its result may
+ * be shared; callers bail out on their own signal after awaiting.
+ */
+export const fetchQuery = <R extends ApiResponse<unknown>>(
+  key: QueryKey,
+  fetcher: () => Promise<R>,
+  options: QueryOptions = {},
+): Promise<R> => {
+  const { staleTime = apiConfig.staleTimeMs, force = false } = options;
+  const hash = hashQueryKey(key);
+  const entry = cache.get(hash) ?? { key, updatedAt: 0, invalidated: false, generation: 0 };
+  cache.set(hash, entry);
+
+  if (entry.inFlight?.generation === entry.generation) {
+    return entry.inFlight.request as Promise<R>;
+  }
+  if (!force && isFresh(entry, staleTime)) return Promise.resolve(entry.response as R);
+
+  const { generation } = entry;
+  const request = fetcher()
+    .then((response) => {
+      if (isApiSuccess(response) && generation === entry.generation) {
+        entry.response = response;
+        entry.updatedAt = Date.now();
+        entry.invalidated = false;
+        notify(key, 'updated');
+      }
+      return response;
+    })
+    .finally(() => {
+      if (entry.inFlight?.request === request) entry.inFlight = undefined;
+    });
+  entry.inFlight = { request, generation };
+  return request;
+};
+
+/**
+ * Mark every query under `prefix` as stale and tell mounted subscribers to
+ * refetch. Called after mutations, e.g. ['vaults', vaultId, 'wallets'].
+ */
+export const invalidateQueries = (prefix: QueryKey): void => {
+  for (const entry of cache.values()) {
+    if (startsWith(entry.key, prefix)) {
+      entry.invalidated = true;
+      entry.generation++;
+    }
+  }
+  notify(prefix, 'invalidated');
+};
+
+/**
+ * Subscribe to updates and invalidations of `key`, its parents and its
+ * children. Returns the unsubscribe function.
+ */
+export const subscribeQuery = (
+  key: QueryKey,
+  callback: (event: QueryEvent) => void,
+): (() => void) => {
+  const listener: Listener = { key, callback };
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Await a mutation and, if it succeeded, invalidate the queries it affects.
+ */
+export const invalidateOnSuccess = async <R extends ApiResponse<unknown>>(
+  request: Promise<R>,
+  ...prefixes: QueryKey[]
+): Promise<R> => {
+  const response = await request;
+  if (isApiSuccess(response)) {
+    prefixes.forEach(invalidateQueries);
+  }
+  return response;
+};
+
+/**
+ * Drop all cached data, e.g. on logout.
+ */
+export const clearQueryCache = (): void => {
+  cache.clear();
+};
@@ -0,0 +1,55 @@
+import type {
+  FetchBalanceHistoryParams,
+  FetchBalancesParams,
+  FetchTransactionsParams,
+  FetchVaultMembersParams,
+  FetchWalletParams,
+  FetchWalletsParams,
+  QueryKey,
+} from '../types';
+
+/**
+ * Query cache keys. Every key lives under ['vaults', vaultId] so a mutation
+ * can invalidate exactly the subtree it affects.
+ */
+export const queryKeys = {
+  vaultScope: (vaultId: string): QueryKey => ['vaults', vaultId],
+  vault: (vaultId: string): QueryKey => ['vaults', vaultId, 'detail'],
+  vaultUser: (vaultId: string): QueryKey => ['vaults', vaultId, 'me'],
+  vaultBalances: (vaultId: string, params?: FetchBalancesParams): QueryKey =>
+    params ? ['vaults', vaultId, 'balances', params] : ['vaults', vaultId, 'balances'],
+  // Under the balances key, so anything that moves a balance refreshes its history too
+  vaultBalanceHistory: (vaultId: string, params: FetchBalanceHistoryParams): QueryKey =>
+    ['vaults', vaultId, 'balances', 'history', params],
+  members: (vaultId: string, params?: FetchVaultMembersParams): QueryKey =>
+    params ? ['vaults', vaultId, 'members', params] : ['vaults', vaultId, 'members'],
+  wallets: (vaultId: string, params?: FetchWalletsParams): QueryKey =>
+    params ? ['vaults', vaultId, 'wallets', 'list', params] : ['vaults', vaultId, 'wallets'],
+  wallet: (vaultId: string, walletId: string, params?: FetchWalletParams): QueryKey =>
+    params
+      ? ['vaults', vaultId, 'wallets', walletId, 'detail', params]
+      : ['vaults', vaultId, 'wallets', walletId, 'detail'],
+  // Pending wallet vault actions, under the wallets key so wallet changes refresh them
+  walletChanges: (vaultId: string): QueryKey => ['vaults', vaultId, 'wallets', 'changes'],
+  walletAddresses: (vaultId: string, walletId: string): QueryKey =>
+    ['vaults', vaultId, 'wallets', walletId, 'addresses'],
+  walletBalances: (vaultId: string, walletId: string, params?: FetchBalancesParams): QueryKey =>
+    params
+      ? ['vaults', vaultId, 'wallets', walletId, 'balances', params]
+      : ['vaults', vaultId, 'wallets', walletId, 'balances'],
+  walletBalanceHistory: (
+    vaultId: string,
+    walletId: string,
+    params: FetchBalanceHistoryParams,
+  ): QueryKey => ['vaults', vaultId, 'wallets', walletId, 'balances', 'history', params],
+  transactions: (vaultId: string, params?: FetchTransactionsParams): QueryKey =>
+    params
+      ? ['vaults', vaultId, 'transactions', 'list', params]
+      : ['vaults', vaultId, 'transactions'],
+  transaction: (vaultId: string, transactionId: string): QueryKey =>
+    ['vaults', vaultId, 'transactions', transactionId],
+  addressBook: (vaultId: string): QueryKey => ['vaults', vaultId, 'address-book'],
+  // Pending address book vault actions, cached with the entries they change
+  addressBookChanges: (vaultId: string): QueryKey =>
+    ['vaults', vaultId, 'address-book', 'changes'],
+};
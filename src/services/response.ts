@@ -0,0 +1,133 @@
+import type { ApiResponse, ApiError, ApiErrorType } from '../types';
+
+const ERROR_MESSAGES: Record<ApiErrorType, string> = {
+  TIMEOUT: 'The request timed out. Please try again.',
+  CANCELLED: 'The request was cancelled.',
+  OFFLINE: 'You appear to be offline. Check your connection and try again.',
+  NETWORK_ERROR: 'Network request failed',
+  SERVER_ERROR: 'The server is unavailable. Please try again later.',
+  PARSE_ERROR: 'Received an invalid response from the server.',
+  UNAUTHORIZED: 'Your session has expired. Please sign in again.',
+  FORBIDDEN: 'You do not have permission to perform this action.',
+  NOT_FOUND: 'The requested resource was not found.',
+  REQUEST_ERROR: 'The request could not be completed.',
+  SCHEMA_MISMATCH: 'Received unexpected data from the server.',
+};
+
+const RETRYABLE_ERRORS: ApiErrorType[] = ['TIMEOUT', 'OFFLINE', 'NETWORK_ERROR', 'SERVER_ERROR'];
+
+export const createApiError = (type: ApiErrorType, message?: string): ApiError => ({
+  type,
+  message: message || ERROR_MESSAGES[type],
+});
+
+const errorTypeForStatus = (status: number): ApiErrorType => {
+  if (status === 401) return 'UNAUTHORIZED';
+  if (status === 403) return 'FORBIDDEN';
+  if (status === 404) return 'NOT_FOUND';
+  if (status >= 500) return 'SERVER_ERROR';
+  return 'REQUEST_ERROR';
+};
+
+const isJsonContentType = (contentType: string | null): boolean =>
+  !!contentType && /application\/([\w.+-]+\+)?json/i.test(contentType);
+
+/**
+ * Build the error for a non-2xx response. The backend's own error message is
+ * kept when it sent one, but auth and server failures are always reported
+ * with the status-derived type so callers can branch on them.
+ */
+const buildStatusError = (status: number, bodyError?: ApiError): ApiError => {
+  const statusType = errorTypeForStatus(status);
+  if (!bodyError) {
+    return createApiError(
+      statusType,
+      statusType === 'SERVER_ERROR' ? `${ERROR_MESSAGES.SERVER_ERROR} (${status})` : undefined,
+    );
+  }
+  if (bodyError.type === 'invalid_token') return createApiError('UNAUTHORIZED', bodyError.message);
+  if (statusType === 'REQUEST_ERROR' || statusType === 'NOT_FOUND') {
+    return {
+      type: bodyError.type || statusType,
+      message: bodyError.message || ERROR_MESSAGES[statusType],
+    };
+  }
+  return createApiError(statusType, bodyError.message);
+};
+
+/**
+ * Decode a fetch Response into the ApiResponse envelope.
+ * The HTTP status is the source of truth for `_status`; empty bodies (204)
+ * and non-JSON bodies (e.g. an HTML error page from a proxy) are handled
+ * without throwing.
+ */
+export const decodeResponse = async <T, R extends ApiResponse<T> = ApiResponse<T>>(
+  response: Response,
+): Promise<R> => {
+  const status = response.status;
+  let text: string;
+  try {
+    text = status === 204 ? '' : await response.text();
+  } catch {
+    return { _status: status, error: createApiError('PARSE_ERROR') } as R;
+  }
+
+  if (!text.trim()) {
+    return (response.ok
+      ? { _status: status }
+      : { _status: status, error: buildStatusError(status) }) as R;
+  }
+
+  if (!isJsonContentType(response.headers.get('Content-Type'))) {
+    return {
+      _status: status,
+      error: response.ok ? createApiError('PARSE_ERROR') : buildStatusError(status),
+    } as R;
+  }
+
+  let body: Partial<R>;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return {
+      _status: status,
+      error: response.ok ? createApiError('PARSE_ERROR') : buildStatusError(status),
+    } as R;
+  }
+
+  if (response.ok) {
+    return { ...body, _status: status } as R;
+  }
+  return {
+    ...body,
+    _status: status,
+    data: undefined,
+    error: buildStatusError(status, body.error),
+  } as R;
+};
+
+/**
+ * Convert an exception thrown by fetch into the ApiResponse envelope.
+ */
+export const decodeException = <R extends ApiResponse<unknown>>(error: unknown): R => {
+  if (error instanceof Error && (error.name === 'AbortError' || error.name === 'TimeoutError')) {
+    return { _status: 0, error: createApiError('TIMEOUT') } as R;
+  }
+  if (error instanceof TypeError) {
+    // fetch rejects with a TypeError when the request never reached the server
+    return { _status: 0, error: createApiError('OFFLINE') } as R;
+  }
+  return {
+    _status: 0,
+    error: createApiError(
+      'NETWORK_ERROR',
+      error instanceof Error ? error.message : undefined,
+    ),
+  } as R;
+};
+
+export const isApiSuccess = (response: ApiResponse<unknown>): boolean =>
+  response._status >= 200 && response._status < 300 && !response.error;
+
+export const isRetryableError = (error?: ApiError): boolean =>
+  !!error && RETRYABLE_ERRORS.includes(error.type as ApiErrorType);
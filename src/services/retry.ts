@@ -0,0 +1,56 @@
+import { apiConfig } from '../config/api';
+import { IDEMPOTENCY_KEY_HEADER } from './idempotency';
+import type { RetryPolicy, ApiRequestOptions } from '../types';
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * A request may be retried if repeating it cannot apply a change twice:
+ * read-only methods, or state-changing calls carrying an Idempotency-Key.
+ */
+export const isIdempotentRequest = (init: RequestInit): boolean => {
+  const method = (init.method ?? 'GET').toUpperCase();
+  if (IDEMPOTENT_METHODS.includes(method)) return true;
+  return new Headers(init.headers).has(IDEMPOTENCY_KEY_HEADER);
+};
+
+/**
+ * Resolve the retry policy for a request. Non-idempotent requests are never
+ * retried, whatever the caller asks for.
+ */
+export const resolveRetryPolicy = (
+  init: RequestInit,
+  retry: ApiRequestOptions['retry'],
+): RetryPolicy => {
+  if (retry === false || !isIdempotentRequest(init)) {
+    return { ...apiConfig.retry, maxAttempts: 1 };
+  }
+  return { ...apiConfig.retry, ...retry };
+};
+
+/**
+ * Exponential backoff with full jitter: a random delay between 0 and
+ * min(maxDelay, baseDelay * 2^(attempt - 1)).
+ */
+export const getBackoffDelay = (attempt: number, policy: RetryPolicy): number => {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+};
+
+/**
+ * Wait `ms` before the next attempt; resolves early if `signal` aborts.
+ */
+export const delay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done);
+  });
@@ -0,0 +1,120 @@
+import { createApiError, isApiSuccess } from './response';
+import type { ApiResponse, Schema, SchemaIssue } from '../types';
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const issue = (path: string, expected: string, value: unknown): SchemaIssue => ({
+  path,
+  expected,
+  received: describe(value),
+});
+
+const primitive = <T>(expected: string, test: (value: unknown) => boolean): Schema<T> =>
+  ((value, path) => (test(value) ? null : issue(path, expected, value))) as Schema<T>;
+
+export const string = primitive<string>('string', (v) => typeof v === 'string');
+
+/**
+ * A whole number written as a string, e.g. a base-unit amount. These go
+ * through BigInt, which throws on "1.5", "" or "1e8".
+ */
+export const integerString = primitive<string>(
+  'integer string',
+  (v) => typeof v === 'string' && /^-?\d+$/.test(v),
+);
+
+export const number = primitive<number>(
+  'number',
+  (v) => typeof v === 'number' && Number.isFinite(v),
+);
+
+export const boolean = primitive<boolean>('boolean', (v) => typeof v === 'boolean');
+
+export const unknownRecord = primitive<Record<string, unknown>>(
+  'object',
+  (v) => typeof v === 'object' && v !== null && !Array.isArray(v),
+);
+
+/**
+ * A closed set of string values, e.g. VaultRole.
+ */
+export const oneOf = <T extends string>(...values: T[]): Schema<T> =>
+  primitive<T>(values.join(' | '), (v) => values.includes(v as T));
+
+/**
+ * A string-valued enum the backend may extend. Any string is accepted so a
+ * new status or event type doesn't reject the whole response; screens
+ * already fall back to the raw value for unknown labels.
+ */
+export const openEnum = <T extends string>(): Schema<T> =>
+  primitive<T>('string', (v) => typeof v === 'string');
+
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> =>
+  ((value, path) => (value === undefined ? null : schema(value, path))) as Schema<T | undefined>;
+
+export const nullable = <T>(schema: Schema<T>): Schema<T | null> =>
+  ((value, path) => (value === null ? null : schema(value, path))) as Schema<T | null>;
+
+export const array = <T>(item: Schema<T>): Schema<T[]> =>
+  ((value, path) => {
+    if (!Array.isArray(value)) return issue(path, 'array', value);
+    for (let i = 0; i < value.length; i++) {
+      const result = item(value[i], `${path}[${i}]`);
+      if (result) return result;
+    }
+    return null;
+  }) as Schema<T[]>;
+
+export const object = <T>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> =>
+  ((value, path) => {
+    const base = unknownRecord(value, path);
+    if (base) return base;
+    const record = value as Record<string, unknown>;
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const result = shape[key](record[key], `${path}.${key}`);
+      if (result) return result;
+    }
+    return null;
+  }) as Schema<T>;
+
+/**
+ * Accept a value matching either member. When neither matches, the first
+ * member's issue is reported.
+ */
+export const union = <A, B>(a: Schema<A>, b: Schema<B>): Schema<A | B> =>
+  ((value, path) => {
+    const first = a(value, path);
+    return first && b(value, path) ? first : null;
+  }) as Schema<A | B>;
+
+const formatIssue = ({ path, expected, received }: SchemaIssue): string =>
+  `${path}: expected ${expected}, received ${received}`;
+
+/**
+ * Validate a successful response's payload. On a mismatch the response is
+ * turned into a SCHEMA_MISMATCH error so screens never render malformed data;
+ * in development builds the message names the failing field.
+ */
+export const validateResponse = <R extends ApiResponse<unknown>>(
+  response: R,
+  schemas: { data?: Schema<unknown>; pagination?: Schema<unknown> },
+): R => {
+  if (!isApiSuccess(response)) return response;
+  const body = response as R & { pagination?: unknown };
+  const result =
+    schemas.data?.(response.data, 'data') ??
+    schemas.pagination?.(body.pagination, 'pagination') ??
+    null;
+  if (!result) return response;
+  const error = createApiError('SCHEMA_MISMATCH');
+  return {
+    _status: response._status,
+    error: __DEV__
+      ? { ...error, message: `${error.message} (${formatIssue(result)})`, issue: result }
+      : error,
+  } as R;
+};
@@ -0,0 +1,379 @@
+import {
+  array,
+  boolean,
+  integerString,
+  nullable,
+  number,
+  object,
+  oneOf,
+  openEnum,
+  optional,
+  string,
+  union,
+  unknownRecord,
+} from './schema';
+import type {
+  ActorInfo,
+  AddressBookEntry,
+  AddVaultMemberResponse,
+  AssetAmount,
+  AuditEventType,
+  AuditLogDetail,
+  AuditLogListItem,
+  AuditLogPagination,
+  BalanceHistoryPoint,
+  BalanceHistorySeries,
+  ConvertedValue,
+  DeleteVaultMemberResponse,
+  DisplayedAddress,
+  Network,
+  Pagination,
+  Transaction,
+  TransactionApproval,
+  TransactionDirection,
+  TransactionFeeEstimate,
+  TransactionPagination,
+  TransactionStatus,
+  TransactionTimeline,
+  UpdateVaultMemberRoleResponse,
+  UserBrief,
+  UserData,
+  Vault,
+  VaultAction,
+  VaultActionApproval,
+  VaultActionPagination,
+  VaultActionStatus,
+  VaultActionTimeline,
+  VaultActionType,
+  VaultBalance,
+  VaultMember,
+  VaultMembersData,
+  VaultMembership,
+  VaultRole,
+  VaultUserData,
+  Wallet,
+  WalletAddress,
+  WalletBalance,
+} from '../types';
+
+// Runtime counterparts of the response types in src/types/index.ts, applied
+// by the API layer. Roles and networks are closed sets: permissions depend on
+// roles, and address, asset and payment URI handling is keyed by network.
+// Other enums stay open so new backend values don't break old clients.
+
+const vaultRole = oneOf<VaultRole>('OWNER', 'ADMIN', 'SIGNER', 'VIEWER');
+const network = oneOf<Network>('BITCOIN', 'SOLANA');
+
+// ─── Users & Vaults ───
+
+const vaultMembership = object<VaultMembership>({
+  vaultId: string,
+  vaultName: string,
+  role: vaultRole,
+  joinedAt: string,
+});
+
+export const userDataSchema = object<UserData>({
+  userId: string,
+  keycloakUserId: string,
+  email: string,
+  username: string,
+  emailVerified: boolean,
+  vaultMemberships: array(vaultMembership),
+});
+
+export const vaultSchema = object<Vault>({
+  id: string,
+  name: string,
+  businessEmail: string,
+  phone: string,
+  websiteUrl: nullable(string),
+  tssCoordinatorEndpoint: string,
+  activated: boolean,
+  updatedAt: string,
+});
+
+export const vaultUserDataSchema = object<VaultUserData>({
+  userId: string,
+  keycloakUserId: string,
+  email: string,
+  username: string,
+  emailVerified: boolean,
+  vaultId: string,
+  role: vaultRole,
+  permissions: array(string),
+});
+
+const pagination = object<Pagination>({
+  page: number,
+  pageSize: number,
+  totalItems: number,
+  totalPages: number,
+});
+
+export const vaultMembersDataSchema = object<VaultMembersData>({
+  vaultId: string,
+  members: array(
+    object<VaultMember>({
+      userId: string,
+      name: string,
+      email: string,
+      role: vaultRole,
+      joinedAt: string,
+    }),
+  ),
+  pagination,
+});
+
+export const addVaultMemberResponseSchema = object<AddVaultMemberResponse>({
+  vaultId: string,
+  userId: string,
+  role: string,
+  message: string,
+});
+
+export const updateVaultMemberRoleResponseSchema = object<UpdateVaultMemberRoleResponse>({
+  vaultId: string,
+  userId: string,
+  role: string,
+  message: string,
+});
+
+export const deleteVaultMemberResponseSchema = object<DeleteVaultMemberResponse>({
+  vaultId: string,
+  userId: string,
+  message: string,
+});
+
+// ─── Wallets ───
+
+const convertedValue = object<ConvertedValue>({
+  amount: string,
+  currencyCode: string,
+});
+
+const displayedAddress = object<DisplayedAddress>({
+  address: string,
+  addressType: string,
+});
+
+export const walletSchema = object<Wallet>({
+  id: string,
+  vaultId: string,
+  name: string,
+  networks: array(network),
+  convertedValue,
+  addresses: array(displayedAddress),
+  balancedAssets: array(string),
+  accountIndex: number,
+  archived: boolean,
+  createdAt: string,
+  updatedAt: string,
+});
+
+export const walletAddressSchema = object<WalletAddress>({
+  id: string,
+  network,
+  address: displayedAddress,
+  derivationPath: string,
+});
+
+export const walletBalanceSchema = object<WalletBalance>({
+  assetId: string,
+  rawValue: integerString,
+  amount: string,
+  convertedValue,
+  walletId: string,
+  walletName: string,
+  lockedAmount: optional(string),
+  lockedConvertedValue: optional(convertedValue),
+});
+
+export const vaultBalanceSchema = object<VaultBalance>({
+  assetId: string,
+  rawValue: integerString,
+  amount: string,
+  convertedValue,
+  lockedAmount: optional(string),
+  lockedConvertedValue: optional(convertedValue),
+  vaultId: string,
+  walletBalances: array(walletBalanceSchema),
+});
+
+const balanceHistoryPoint = object<BalanceHistoryPoint>({
+  timestamp: string,
+  rawValue: integerString,
+  amount: string,
+  convertedValue,
+});
+
+export const balanceHistorySeriesSchema = object<BalanceHistorySeries>({
+  assetId: string,
+  points: array(balanceHistoryPoint),
+});
+
+// ─── Audit Logs ───
+
+const actorInfo = union<ActorInfo, ActorInfo>(
+  object<Extract<ActorInfo, { type: 'USER' }>>({
+    type: oneOf('USER'),
+    parameters: object({ id: string, name: string, email: string }),
+  }),
+  object<Extract<ActorInfo, { type: 'SERVICE_ACCOUNT' }>>({
+    type: oneOf('SERVICE_ACCOUNT'),
+    parameters: object({ id: string, name: string }),
+  }),
+);
+
+export const auditLogListItemSchema = object<AuditLogListItem>({
+  id: string,
+  createdAt: string,
+  actor: actorInfo,
+  eventType: openEnum<AuditEventType>(),
+  payload: unknownRecord,
+});
+
+export const auditLogDetailSchema = object<AuditLogDetail>({
+  id: string,
+  createdAt: string,
+  actor: actorInfo,
+  eventType: openEnum<AuditEventType>(),
+  payload: unknownRecord,
+  ipAddress: string,
+});
+
+export const auditLogPaginationSchema = optional(
+  object<AuditLogPagination>({
+    page: number,
+    limit: number,
+    totalPage: number,
+    totalCount: number,
+  }),
+);
+
+// ─── Vault Actions ───
+
+const userBrief = object<UserBrief>({
+  id: string,
+  name: string,
+  email: string,
+});
+
+const vaultActionStatus = openEnum<VaultActionStatus>();
+
+export const vaultActionSchema = object<VaultAction>({
+  id: string,
+  vaultId: string,
+  initiator: userBrief,
+  type: openEnum<VaultActionType>(),
+  status: vaultActionStatus,
+  requiredApprovers: number,
+  createdAt: string,
+  updatedAt: string,
+  approvals: array(
+    object<VaultActionApproval>({
+      id: string,
+      vaultActionId: string,
+      approver: userBrief,
+      approved: boolean,
+      reason: optional(string),
+      createdAt: string,
+    }),
+  ),
+  content: unknownRecord,
+  timelines: array(
+    object<VaultActionTimeline>({
+      id: string,
+      vaultActionId: string,
+      vaultActionStatus,
+      createdAt: string,
+      description: optional(string),
+    }),
+  ),
+});
+
+export const vaultActionPaginationSchema = optional(
+  object<VaultActionPagination>({
+    page: number,
+    limit: number,
+    totalPage: number,
+    totalCount: number,
+  }),
+);
+
+// ─── Transactions ───
+
+const assetAmount = object<AssetAmount>({
+  assetId: string,
+  rawValue: integerString,
+  amount: string,
+  convertedValue,
+});
+
+export const transactionFeeEstimateSchema = object<TransactionFeeEstimate>({
+  fee: assetAmount,
+  resultingBalance: assetAmount,
+});
+
+const transactionStatus = openEnum<TransactionStatus>();
+
+export const transactionSchema = object<Transaction>({
+  id: string,
+  vaultId: string,
+  walletId: string,
+  walletName: string,
+  network,
+  direction: openEnum<TransactionDirection>(),
+  amount: assetAmount,
+  fee: assetAmount,
+  sourceAddress: string,
+  destinationAddress: string,
+  status: transactionStatus,
+  confirmations: number,
+  note: nullable(string),
+  txHash: nullable(string),
+  initiator: nullable(userBrief),
+  requiredApprovers: number,
+  approvals: array(
+    object<TransactionApproval>({
+      id: string,
+      transactionId: string,
+      approver: userBrief,
+      approved: boolean,
+      reason: optional(string),
+      createdAt: string,
+    }),
+  ),
+  timelines: array(
+    object<TransactionTimeline>({
+      id: string,
+      transactionId: string,
+      transactionStatus,
+      createdAt: string,
+      description: optional(string),
+    }),
+  ),
+  createdAt: string,
+  updatedAt: string,
+});
+
+export const transactionPaginationSchema = optional(
+  object<TransactionPagination>({
+    page: number,
+    limit: number,
+    totalPage: number,
+    totalCount: number,
+  }),
+);
+
+// ─── Address Book ───
+
+export const addressBookEntrySchema = object<AddressBookEntry>({
+  id: string,
+  vaultId: string,
+  name: string,
+  network,
+  address: string,
+  createdAt: string,
+  updatedAt: string,
+});
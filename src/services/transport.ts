@@ -0,0 +1,23 @@
+import { apiConfig } from '../config/api';
+
+type MockBackend = typeof import('../mock/server');
+
+let mockBackend: MockBackend | null = null;
+
+/**
+ * The in-process mock backend, loaded on first use so the mock and its
+ * fixtures stay out of the module graph when USE_MOCK_BACKEND is off.
+ */
+export const getMockBackend = (): MockBackend => {
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  mockBackend ??= require('../mock/server') as MockBackend;
+  return mockBackend;
+};
+
+/**
+ * Sends every backend request: `fetch`, or the mock backend standing in for
+ * the network. Everything above it (decoding, validation, retries,
+ * connectivity probes) behaves the same either way.
+ */
+export const transport = (url: string, init?: RequestInit): Promise<Response> =>
+  apiConfig.useMockBackend ? getMockBackend().mockFetch(url, init) : fetch(url, init);
@@ -20,7 +20,7 @@ export interface AuthContextType {
   refreshTokenExpiresAt: Date | null;
   login: () => Promise<void>;
   logout: () => Promise<void>;
-  refreshAccessToken: () => Promise<void>;
+  refreshAccessToken: () => Promise<string | null>;
 }
 
 // Token storage structure
@@ -32,13 +32,91 @@ export interface StoredTokens {
 }
 
 // API response types
+export type ApiErrorType =
+  | 'TIMEOUT'
+  | 'CANCELLED'
+  | 'OFFLINE'
+  | 'NETWORK_ERROR'
+  | 'SERVER_ERROR'
+  | 'PARSE_ERROR'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'REQUEST_ERROR'
+  | 'SCHEMA_MISMATCH';
+
+// First field of a response that failed runtime validation
+export interface SchemaIssue {
+  path: string;
+  expected: string;
+  received: string;
+}
+
+export interface ApiError {
+  // An ApiErrorType, or the backend's own type for other 4xx responses
+  type: string;
+  message: string;
+  // Development builds only: the field that failed schema validation
+  issue?: SchemaIssue;
+}
+
 export interface ApiResponse<T> {
   _status: number;
   data?: T;
-  error?: {
-    type: string;
-    message: string;
-  };
+  error?: ApiError;
+}
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * Runtime validator for an API payload. Returns the first mismatch, or null
+ * when the value conforms. `T` ties the validator to its TypeScript type, so
+ * object shapes must list every field of the interface they describe.
+ */
+export interface Schema<T> {
+  (value: unknown, path: string): SchemaIssue | null;
+  readonly __type?: T;
+}
+
+export interface ApiRequestOptions<T = unknown> extends RequestInit {
+  // Per-attempt timeout in ms (defaults to apiConfig.timeoutMs)
+  timeoutMs?: number;
+  // Override the retry policy, or false to disable retries
+  retry?: Partial<RetryPolicy> | false;
+  // Reuse a key for a logical operation; generated automatically for POST/PUT/DELETE
+  idempotencyKey?: string;
+  // Validate `data` of a successful response; a mismatch becomes SCHEMA_MISMATCH
+  schema?: Schema<T>;
+  // Validate the top-level `pagination` of list responses
+  paginationSchema?: Schema<unknown>;
+}
+
+// Per-call options for mutations that must not be applied twice
+export interface MutationOptions {
+  signal?: AbortSignal;
+  // Keep the same key when the user retries the same operation by hand
+  idempotencyKey?: string;
+}
+
+// Query cache keys, e.g. ['vaults', vaultId, 'wallets', params]
+export type QueryKey = ReadonlyArray<string | number | boolean | object | null | undefined>;
+
+export interface QueryOptions {
+  // How long a cached response is served without refetching (ms)
+  staleTime?: number;
+  // Bypass the cache and refetch, e.g. on pull-to-refresh
+  force?: boolean;
+}
+
+// Last successful result of a read, persisted for offline use
+export interface OfflineSnapshot<T> {
+  data: T;
+  // ISO timestamp of when the data was fetched
+  savedAt: string;
 }
 
 export type VaultRole = 'OWNER' | 'ADMIN' | 'SIGNER' | 'VIEWER';
@@ -64,7 +142,7 @@ export interface Vault {
   name: string;
   businessEmail: string;
   phone: string;
-  websiteUrl: string;
+  websiteUrl: string | null;
   tssCoordinatorEndpoint: string;
   activated: boolean;
   updatedAt: string;
@@ -158,6 +236,9 @@ export interface ConvertedValue {
   currencyCode: string;
 }
 
+// Display currencies the backend can convert balances into
+export type FiatCurrency = 'USD' | 'EUR' | 'GBP' | 'JPY' | 'CHF';
+
 export interface Wallet {
   id: string;
   vaultId: string;
@@ -226,13 +307,89 @@ export interface CreateWalletAddressRequest {
   networks: Network[];
 }
 
+export type WalletSortField = 'name' | 'createdAt' | 'convertedValue';
+
 export interface FetchWalletsParams {
   page?: number;
   limit?: number;
   search?: string;
   network?: Network;
-  sortBy?: string;
+  sortBy?: WalletSortField;
   sortOrder?: 'asc' | 'desc';
+  currency?: FiatCurrency;
+}
+
+export type WalletStatusFilter = 'active' | 'archived' | 'all';
+
+// Wallet list filter sheet state, stored per user and vault
+export interface WalletListFilters {
+  status: WalletStatusFilter;
+  network: Network | null;
+  sortBy: WalletSortField;
+  sortOrder: 'asc' | 'desc';
+}
+
+// A removable chip for one filter that differs from the default
+export interface WalletFilterChip {
+  key: 'status' | 'network' | 'sort';
+  label: string;
+}
+
+export interface FetchWalletParams {
+  currency?: FiatCurrency;
+}
+
+// Wallet changes may need vault approval; these are their vault action `content` payloads
+export type CreateWalletContent = CreateWalletRequest;
+
+export interface RenameWalletContent {
+  walletId: string;
+  name: string;
+}
+
+// For both ARCHIVE_WALLET and UNARCHIVE_WALLET
+export interface ArchiveWalletContent {
+  walletId: string;
+}
+
+// Wallet vault actions still waiting on approval, indexed for display
+export interface PendingWalletChanges {
+  creations: Array<{ action: VaultAction; wallet: CreateWalletContent }>;
+  byWalletId: Record<string, VaultAction>;
+}
+
+export interface FetchBalancesParams {
+  currency?: FiatCurrency;
+}
+
+export type BalanceHistoryRange = '24h' | '7d' | '30d' | '1y';
+
+export interface FetchBalanceHistoryParams extends FetchBalancesParams {
+  range: BalanceHistoryRange;
+}
+
+// The balance held at one instant, valued at that instant's price
+export interface BalanceHistoryPoint {
+  timestamp: string;
+  rawValue: string;
+  amount: string;
+  convertedValue: ConvertedValue;
+}
+
+// Every series in a response shares the same timestamps, oldest first
+export interface BalanceHistorySeries {
+  assetId: string;
+  points: BalanceHistoryPoint[];
+}
+
+// Chart balances in the display currency, or one asset in its own units
+export type BalanceHistoryUnit = 'fiat' | 'native';
+
+// One chart column: the selected assets' values at a point, stacked
+export interface BalanceChartColumn {
+  timestamp: string;
+  total: number;
+  segments: { assetId: string; value: number }[];
 }
 
 // ─── Audit Log Types ───
@@ -273,10 +430,7 @@ export interface AuditLogsResponse {
   _status: number;
   data?: AuditLogListItem[];
   pagination?: AuditLogPagination;
-  error?: {
-    type: string;
-    message: string;
-  };
+  error?: ApiError;
 }
 
 export interface FetchAuditLogsParams {
@@ -287,6 +441,8 @@ export interface FetchAuditLogsParams {
   endTime?: string;
   actorIds?: string[];
   eventTypes?: AuditEventType[];
+  // Only events whose payload references this transaction
+  transactionId?: string;
   sortOrder?: SortOrder;
 }
 
@@ -333,7 +489,15 @@ export interface VaultActionApproval {
   createdAt: string;
 }
 
-export type VaultActionContent = ChangeAdminQuorumSizeContent | Record<string, unknown>;
+export type VaultActionContent =
+  | ChangeAdminQuorumSizeContent
+  | CreateAddressBookEntriesContent
+  | UpdateAddressBookEntriesContent
+  | DeleteAddressBookEntriesContent
+  | CreateWalletContent
+  | RenameWalletContent
+  | ArchiveWalletContent
+  | Record<string, unknown>;
 
 export interface ChangeAdminQuorumSizeContent {
   newQuorumSize: number;
@@ -372,10 +536,7 @@ export interface VaultActionsResponse {
   _status: number;
   data?: VaultAction[];
   pagination?: VaultActionPagination;
-  error?: {
-    type: string;
-    message: string;
-  };
+  error?: ApiError;
 }
 
 export interface FetchVaultActionsParams {
@@ -391,6 +552,291 @@ export interface RejectVaultActionRequest {
   reason?: string;
 }
 
+// ─── Transaction Types ───
+
+export type TransactionStatus =
+  | 'PENDING_APPROVAL'
+  | 'REJECTED'
+  | 'PENDING_SIGNATURE'
+  | 'BROADCASTING'
+  | 'CONFIRMING'
+  | 'COMPLETED'
+  | 'FAILED'
+  | 'CANCELED';
+
+export type TransactionDirection = 'INCOMING' | 'OUTGOING';
+
+export interface AssetAmount {
+  assetId: string;
+  rawValue: string;
+  amount: string;
+  convertedValue: ConvertedValue;
+}
+
+export interface TransactionApproval {
+  id: string;
+  transactionId: string;
+  approver: UserBrief;
+  approved: boolean;
+  reason?: string;
+  createdAt: string;
+}
+
+export interface TransactionTimeline {
+  id: string;
+  transactionId: string;
+  transactionStatus: TransactionStatus;
+  createdAt: string;
+  description?: string;
+}
+
+export interface Transaction {
+  id: string;
+  vaultId: string;
+  walletId: string;
+  walletName: string;
+  network: Network;
+  direction: TransactionDirection;
+  amount: AssetAmount;
+  fee: AssetAmount;
+  sourceAddress: string;
+  destinationAddress: string;
+  status: TransactionStatus;
+  confirmations: number;
+  note: string | null;
+  txHash: string | null;
+  // Null for incoming transfers, which nobody in the vault initiated
+  initiator: UserBrief | null;
+  requiredApprovers: number;
+  approvals: TransactionApproval[];
+  timelines: TransactionTimeline[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TransactionPagination {
+  page: number;
+  limit: number;
+  totalPage: number;
+  totalCount: number;
+}
+
+export interface TransactionsResponse {
+  _status: number;
+  data?: Transaction[];
+  pagination?: TransactionPagination;
+  error?: ApiError;
+}
+
+export interface FetchTransactionsParams {
+  page?: number;
+  limit?: number;
+  walletId?: string;
+  search?: string;
+  startTime?: string;
+  endTime?: string;
+  statuses?: TransactionStatus[];
+  directions?: TransactionDirection[];
+  networks?: Network[];
+  sortOrder?: SortOrder;
+}
+
+export interface EstimateTransactionFeeRequest {
+  walletId: string;
+  assetId: string;
+  destinationAddress: string;
+  // Decimal string in the asset's display units, e.g. "0.015"
+  amount: string;
+}
+
+export interface TransactionFeeEstimate {
+  fee: AssetAmount;
+  // Spendable balance left once the amount and fee are deducted
+  resultingBalance: AssetAmount;
+}
+
+export interface CreateTransactionRequest extends EstimateTransactionFeeRequest {
+  note?: string;
+}
+
+export interface RejectTransactionRequest {
+  reason?: string;
+}
+
+// An empty note clears it
+export interface UpdateTransactionNoteRequest {
+  note: string;
+}
+
+// One entry of a note's edit history, read from UPDATE_TRANSACTION_NOTE audit logs
+export interface TransactionNoteChange {
+  id: string;
+  changedAt: string;
+  actor: ActorInfo;
+  previousNote: string | null;
+  note: string | null;
+}
+
+// ─── Address Book Types ───
+
+export interface AddressBookEntry {
+  id: string;
+  vaultId: string;
+  name: string;
+  network: Network;
+  address: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AddressBookEntryRequest {
+  name: string;
+  network: Network;
+  address: string;
+}
+
+// Address book changes are vault actions; these are their `content` payloads
+export interface CreateAddressBookEntriesContent {
+  entries: AddressBookEntryRequest[];
+}
+
+export interface UpdateAddressBookEntriesContent {
+  entries: Array<AddressBookEntryRequest & { id: string }>;
+}
+
+export interface DeleteAddressBookEntriesContent {
+  entryIds: string[];
+}
+
+// Address book vault actions still waiting on approval, indexed for display
+export interface PendingAddressBookChanges {
+  additions: Array<{ action: VaultAction; entry: AddressBookEntryRequest }>;
+  edits: Record<string, { action: VaultAction; entry: AddressBookEntryRequest }>;
+  removals: Record<string, VaultAction>;
+}
+
+// ─── Address Validation Types ───
+
+// SEGWIT covers witness versions 2–16, which are valid but not yet in use
+export type AddressFormat = 'P2PKH' | 'P2SH' | 'P2WPKH' | 'P2WSH' | 'P2TR' | 'SEGWIT' | 'ED25519';
+
+export type AddressValidation =
+  | { valid: true; format: AddressFormat; testnet: boolean }
+  | { valid: false; reason: string };
+
+// ─── Derivation Path Types ───
+
+export type DerivationLevel = 'purpose' | 'coinType' | 'account' | 'change' | 'index';
+
+export interface DerivationSegment {
+  // null for steps past the depth the network's scheme defines
+  level: DerivationLevel | null;
+  value: number;
+  hardened: boolean;
+  explanation: string;
+  issue: string | null;
+}
+
+export interface DerivationPathAnalysis {
+  // Canonical form with ' as the hardened marker, e.g. m/84'/0'/0'/0/3
+  path: string;
+  // e.g. "BIP-84 native SegWit"; null when the purpose isn't recognized
+  scheme: string | null;
+  segments: DerivationSegment[];
+  // Problems that aren't tied to a single segment, e.g. a missing level
+  issues: string[];
+  standard: boolean;
+}
+
+// ─── Asset Types ───
+
+export interface AssetInfo {
+  assetId: string;
+  symbol: string;
+  name: string;
+  // Base units per whole unit as a power of ten: 8 for satoshis, 9 for lamports
+  decimals: number;
+  network: Network;
+  color: string;
+}
+
+export interface AmountFormatOptions {
+  // Abbreviate large values, e.g. "1.23M"
+  compact?: boolean;
+  // Round half-up to at most this many fraction digits; defaults to full precision
+  maxFractionDigits?: number;
+  // Locale for the grouping and decimal separators; defaults to the device locale
+  locale?: string;
+}
+
+// ─── Portfolio Types ───
+
+export interface PortfolioAsset {
+  balance: VaultBalance;
+  // Fraction of the vault's total converted value, 0–1
+  share: number;
+  // Fraction of this asset's converted value locked by pending transactions, 0–1
+  lockedShare: number;
+  availableAmount: string;
+  availableRawValue: string;
+}
+
+export interface PortfolioWallet {
+  walletId: string;
+  walletName: string;
+  value: ConvertedValue;
+  // Fraction of the vault's total converted value, 0–1
+  share: number;
+  assetIds: string[];
+}
+
+export interface PortfolioSummary {
+  total: ConvertedValue;
+  locked: ConvertedValue;
+  available: ConvertedValue;
+  // Fraction of the total locked by pending transactions, 0–1
+  lockedShare: number;
+  // Both sorted by converted value, largest first
+  assets: PortfolioAsset[];
+  wallets: PortfolioWallet[];
+}
+
+// ─── Pagination Types ───
+
+// Raw pagination blocks: members use `pageSize`/`totalItems`, every other
+// list endpoint uses `limit`/`totalPage`
+export type RawPagination =
+  | Pagination
+  | WalletPagination
+  | AuditLogPagination
+  | VaultActionPagination
+  | TransactionPagination;
+
+// Pagination normalized across endpoints
+export interface PageInfo {
+  page: number;
+  pageSize: number;
+  // Null when the endpoint returns a bare array without pagination
+  totalItems: number | null;
+  totalPages: number | null;
+  hasMore: boolean;
+}
+
+export interface Page<T> {
+  items: T[];
+  pageInfo: PageInfo;
+  // Set when the page came from an offline snapshot
+  asOf?: string;
+}
+
+export interface PageRequest {
+  page: number;
+  pageSize: number;
+  signal: AbortSignal;
+  // Bypass the query cache, e.g. on pull-to-refresh
+  force: boolean;
+}
+
 // Vault context type
 export interface VaultContextType {
   vaults: Vault[];
@@ -398,9 +844,20 @@ export interface VaultContextType {
   membershipMap: Map<string, VaultRole>;
   isLoading: boolean;
   isInitialized: boolean;
+  // Set when `vaults` came from the offline snapshot
+  vaultsAsOf: string | null;
   refreshVaults: () => Promise<void>;
 }
 
+// Preferences context type
+export interface PreferencesContextType {
+  // Fiat currency for converted values
+  currency: FiatCurrency;
+  // False until the signed-in user's stored preferences have been read
+  isLoaded: boolean;
+  setCurrency: (currency: FiatCurrency) => Promise<void>;
+}
+
 // JWT token parts
 export interface JWTHeader {
   alg: string;
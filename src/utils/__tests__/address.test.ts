@@ -0,0 +1,171 @@
+import { validateAddress } from '../address';
+import type { AddressFormat } from '../../types';
+
+// Segwit vectors are taken from BIP-173 and BIP-350. Addresses that BIP-173
+// accepted for witness versions 1+ are invalid under BIP-350, which requires
+// bech32m for those versions.
+
+describe('validateAddress', () => {
+  describe('Bitcoin segwit', () => {
+    it.each<[string, AddressFormat, boolean]>([
+      ['BC1QW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4', 'P2WPKH', false],
+      ['tb1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3q0sl5k7', 'P2WSH', true],
+      [
+        'bc1pw508d6qejxtdg4y5r3zarvary0c5xw7kw508d6qejxtdg4y5r3zarvary0c5xw7kt5nd6y',
+        'SEGWIT',
+        false,
+      ],
+      ['BC1SW50QGDZ25J', 'SEGWIT', false],
+      ['bc1zw508d6qejxtdg4y5r3zarvaryvaxxpcs', 'SEGWIT', false],
+      ['tb1qqqqqp399et2xygdj5xreqhjjvcmzhxw4aywxecjdzew6hylgvsesrxh6hy', 'P2WSH', true],
+      ['tb1pqqqqp399et2xygdj5xreqhjjvcmzhxw4aywxecjdzew6hylgvsesf3hn0c', 'P2TR', true],
+      ['bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0', 'P2TR', false],
+    ])('accepts %s', (address, format, testnet) => {
+      expect(validateAddress('BITCOIN', address)).toEqual({ valid: true, format, testnet });
+    });
+
+    it.each<[string, string, RegExp]>([
+      ['wrong checksum', 'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t5', /checksum does not match/i],
+      [
+        'mixed case',
+        'tb1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3q0sL5k7',
+        /mix upper and lower case/,
+      ],
+      [
+        'mixed case (bech32m)',
+        'tb1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vq47Zagq',
+        /mix upper and lower case/,
+      ],
+      [
+        'bech32m for version 0',
+        'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kemeawh',
+        /Version 0 .* bech32 checksum, not bech32m/,
+      ],
+      [
+        'bech32m for version 0 (testnet)',
+        'tb1q0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vq24jc47',
+        /Version 0 .* bech32 checksum, not bech32m/,
+      ],
+      [
+        'bech32 for version 1',
+        'bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqh2y7hd',
+        /Version 1 .* bech32m checksum/,
+      ],
+      [
+        'bech32 for version 2',
+        'tb1z0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqglt7rf',
+        /Version 2 .* bech32m checksum/,
+      ],
+      [
+        'bech32 for version 16',
+        'BC1S0XLXVLHEMJA6C4DQV22UAPCTQUPFHLXM9H8Z3K2E72Q4K9HCZ7VQ54WELL',
+        /Version 16 .* bech32m checksum/,
+      ],
+      [
+        'wrong HRP',
+        'tc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vq5zuyut',
+        /Unknown address prefix "tc1"/,
+      ],
+      [
+        'wrong HRP (bech32)',
+        'tc1qw508d6qejxtdg4y5r3zarvary0c5xw7kg3g4ty',
+        /Unknown address prefix "tc1"/,
+      ],
+      [
+        'invalid character',
+        'bc1p38j9r5y49hruaue7wxjce0updqjuyyx0kh56v8s25huc6995vvpql3jow4',
+        /"o" at position \d+ is not a bech32 character/,
+      ],
+      [
+        'witness version 17',
+        'BC130XLXVLHEMJA6C4DQV22UAPCTQUPFHLXM9H8Z3K2E72Q4K9HCZ7VQ7ZWS8R',
+        /Unknown witness version 17/,
+      ],
+      ['1-byte program', 'bc1pw5dgrnzv', /2–40 bytes, not 1/],
+      [
+        '41-byte program',
+        'bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7v8n0nx0muaewav253zgeav',
+        /2–40 bytes, not 41/,
+      ],
+      [
+        '16-byte version 0 program',
+        'BC1QR508D6QEJXTDG4Y5R3ZARVARYV98GJ9P',
+        /20 or 32 bytes, not 16/,
+      ],
+      [
+        'more than 4 bits of zero padding',
+        'bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7v07qwwzcrf',
+        /invalid padding/,
+      ],
+      [
+        'non-zero padding',
+        'tb1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vpggkg4j',
+        /invalid padding/,
+      ],
+      ['empty data section', 'bc1gmk9yu', /too short/],
+    ])('rejects %s', (_, address, reason) => {
+      const result = validateAddress('BITCOIN', address);
+      expect(result.valid).toBe(false);
+      expect(!result.valid && result.reason).toMatch(reason);
+    });
+  });
+
+  describe('Bitcoin base58check', () => {
+    it.each<[string, AddressFormat]>([
+      ['1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2', 'P2PKH'],
+      ['3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy', 'P2SH'],
+    ])('accepts %s', (address, format) => {
+      expect(validateAddress('BITCOIN', address)).toEqual({ valid: true, format, testnet: false });
+    });
+
+    it('rejects a wrong checksum', () => {
+      expect(validateAddress('BITCOIN', '1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN3')).toEqual({
+        valid: false,
+        reason: 'Checksum does not match; check the address for typos',
+      });
+    });
+  });
+
+  describe('Solana', () => {
+    it.each([
+      '11111111111111111111111111111111',
+      'So11111111111111111111111111111111111111112',
+      'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
+    ])('accepts the 32-byte key %s', (address) => {
+      expect(validateAddress('SOLANA', address)).toEqual({
+        valid: true,
+        format: 'ED25519',
+        testnet: false,
+      });
+    });
+
+    it.each([
+      ['1'.repeat(31), 31],
+      ['1'.repeat(33), 33],
+      ['TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5D', 31],
+    ])('rejects %s, which decodes to %i bytes', (address, length) => {
+      expect(validateAddress('SOLANA', address)).toEqual({
+        valid: false,
+        reason: `Solana addresses are 32-byte public keys; this one decodes to ${length} bytes`,
+      });
+    });
+
+    it('rejects characters outside base58', () => {
+      expect(validateAddress('SOLANA', 'So1111111111111111111111111111111111111111O')).toEqual({
+        valid: false,
+        reason: '"O" at position 43 is not a base58 character',
+      });
+    });
+  });
+
+  it('names the network an address belongs to', () => {
+    expect(validateAddress('SOLANA', '1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2')).toEqual({
+      valid: false,
+      reason: 'This is a Bitcoin address, not Solana',
+    });
+    expect(validateAddress('BITCOIN', 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA')).toEqual({
+      valid: false,
+      reason: 'This is a Solana address, not Bitcoin',
+    });
+  });
+});
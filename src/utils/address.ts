@@ -0,0 +1,249 @@
+// Client-side address checks. Bitcoin accepts base58check (P2PKH/P2SH) and
+// bech32/bech32m segwit addresses on mainnet, testnet and regtest; Solana
+// accepts base58 encoded 32-byte ed25519 public keys. Every failure carries a
+// reason that can be shown under the input as-is.
+
+import { sha256 } from './sha256';
+import type { AddressFormat, AddressValidation, Network } from '../types';
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const BECH32_GENERATOR = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+
+// Checksum constants from BIP-173 (bech32) and BIP-350 (bech32m)
+const BECH32_CONST = 1;
+const BECH32M_CONST = 0x2bc830a3;
+
+// Segwit human-readable parts, mapped to whether they belong to a test network
+const SEGWIT_HRPS: Record<string, boolean> = { bc: false, tb: true, bcrt: true };
+
+// Base58check version bytes
+const BASE58_VERSIONS: Record<number, { format: AddressFormat; testnet: boolean }> = {
+  0x00: { format: 'P2PKH', testnet: false },
+  0x05: { format: 'P2SH', testnet: false },
+  0x6f: { format: 'P2PKH', testnet: true },
+  0xc4: { format: 'P2SH', testnet: true },
+};
+
+const NETWORK_NAMES: Record<Network, string> = {
+  BITCOIN: 'Bitcoin',
+  SOLANA: 'Solana',
+};
+
+const invalid = (reason: string): AddressValidation => ({ valid: false, reason });
+
+// ─── Base58 ───
+
+const findInvalidBase58Char = (value: string): number =>
+  [...value].findIndex((char) => !BASE58_ALPHABET.includes(char));
+
+const decodeBase58 = (value: string): Uint8Array => {
+  const bytes: number[] = [];
+  for (const char of value) {
+    let carry = BASE58_ALPHABET.indexOf(char);
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    for (; carry > 0; carry >>= 8) bytes.push(carry & 0xff);
+  }
+  // Each leading '1' is a leading zero byte
+  for (let i = 0; i < value.length && value[i] === '1'; i++) bytes.push(0);
+  return Uint8Array.from(bytes.reverse());
+};
+
+export const encodeBase58 = (bytes: Uint8Array): string => {
+  const digits: number[] = [];
+  for (const byte of bytes) {
+    let carry = byte;
+    for (let i = 0; i < digits.length; i++) {
+      carry += digits[i] << 8;
+      digits[i] = carry % 58;
+      carry = Math.floor(carry / 58);
+    }
+    for (; carry > 0; carry = Math.floor(carry / 58)) digits.push(carry % 58);
+  }
+  let out = '';
+  for (let i = 0; i < bytes.length && bytes[i] === 0; i++) out += '1';
+  for (let i = digits.length - 1; i >= 0; i--) out += BASE58_ALPHABET[digits[i]];
+  return out;
+};
+
+// ─── Bech32 ───
+
+const polymod = (values: number[]): number => {
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    BECH32_GENERATOR.forEach((g, i) => {
+      if ((top >>> i) & 1) checksum ^= g;
+    });
+  }
+  return checksum >>> 0;
+};
+
+const expandHrp = (hrp: string): number[] => {
+  const codes = [...hrp].map((char) => char.charCodeAt(0));
+  return [...codes.map((c) => c >> 5), 0, ...codes.map((c) => c & 31)];
+};
+
+// Regroup bits, e.g. 5-bit bech32 words into bytes; null on invalid padding
+const convertBits = (data: number[], from: number, to: number, pad: boolean): number[] | null => {
+  let acc = 0;
+  let bits = 0;
+  const out: number[] = [];
+  const max = (1 << to) - 1;
+  for (const value of data) {
+    acc = (acc << from) | value;
+    bits += from;
+    while (bits >= to) {
+      bits -= to;
+      out.push((acc >> bits) & max);
+    }
+  }
+  if (pad) {
+    if (bits > 0) out.push((acc << (to - bits)) & max);
+  } else if (bits >= from || ((acc << (to - bits)) & max) !== 0) {
+    return null;
+  }
+  return out;
+};
+
+/** Encode a segwit address; bech32 for version 0, bech32m from version 1. */
+export const encodeSegwitAddress = (hrp: string, version: number, program: Uint8Array): string => {
+  const words = [version, ...(convertBits([...program], 8, 5, true) ?? [])];
+  const constant = version === 0 ? BECH32_CONST : BECH32M_CONST;
+  const mod = polymod([...expandHrp(hrp), ...words, 0, 0, 0, 0, 0, 0]) ^ constant;
+  const checksum = [0, 1, 2, 3, 4, 5].map((i) => (mod >>> (5 * (5 - i))) & 31);
+  return `${hrp}1${[...words, ...checksum].map((w) => BECH32_CHARSET[w]).join('')}`;
+};
+
+const SEGWIT_PREFIX = /^(bc|tb|bcrt)1/i;
+
+const validateSegwit = (address: string): AddressValidation => {
+  if (address !== address.toLowerCase() && address !== address.toUpperCase()) {
+    return invalid('Bech32 addresses cannot mix upper and lower case');
+  }
+  const lower = address.toLowerCase();
+  if (lower.length > 90) return invalid('Bech32 addresses are at most 90 characters');
+  const hrp = lower.slice(0, lower.indexOf('1'));
+  const dataPart = lower.slice(hrp.length + 1);
+  const badChar = [...dataPart].findIndex((char) => !BECH32_CHARSET.includes(char));
+  if (badChar !== -1) {
+    return invalid(
+      `"${dataPart[badChar]}" at position ${hrp.length + badChar + 2} is not a bech32 character`,
+    );
+  }
+  if (dataPart.length < 7) return invalid('Address is too short');
+
+  const words = [...dataPart].map((char) => BECH32_CHARSET.indexOf(char));
+  const constant = polymod([...expandHrp(hrp), ...words]);
+  if (constant !== BECH32_CONST && constant !== BECH32M_CONST) {
+    return invalid('Checksum does not match; check the address for typos');
+  }
+
+  const version = words[0];
+  if (version > 16) return invalid(`Unknown witness version ${version}`);
+  const program = convertBits(words.slice(1, -6), 5, 8, false);
+  if (!program) return invalid('Address has invalid padding');
+  if (program.length < 2 || program.length > 40) {
+    return invalid(`Witness program must be 2–40 bytes, not ${program.length}`);
+  }
+  if (version === 0 && constant !== BECH32_CONST) {
+    return invalid('Version 0 segwit addresses must use a bech32 checksum, not bech32m');
+  }
+  if (version !== 0 && constant !== BECH32M_CONST) {
+    return invalid(`Version ${version} segwit addresses must use a bech32m checksum`);
+  }
+
+  const testnet = SEGWIT_HRPS[hrp];
+  if (version === 0) {
+    if (program.length === 20) return { valid: true, format: 'P2WPKH', testnet };
+    if (program.length === 32) return { valid: true, format: 'P2WSH', testnet };
+    return invalid(`Version 0 witness programs are 20 or 32 bytes, not ${program.length}`);
+  }
+  if (version === 1 && program.length === 32) return { valid: true, format: 'P2TR', testnet };
+  return { valid: true, format: 'SEGWIT', testnet };
+};
+
+// ─── Networks ───
+
+const validateBase58Check = (address: string): AddressValidation => {
+  const badChar = findInvalidBase58Char(address);
+  if (badChar !== -1) {
+    return invalid(`"${address[badChar]}" at position ${badChar + 1} is not a base58 character`);
+  }
+  const bytes = decodeBase58(address);
+  if (bytes.length !== 25) {
+    return invalid(`Legacy addresses decode to 25 bytes, not ${bytes.length}`);
+  }
+  const payload = bytes.subarray(0, 21);
+  const expected = sha256(sha256(payload)).subarray(0, 4);
+  if (expected.some((byte, i) => byte !== bytes[21 + i])) {
+    return invalid('Checksum does not match; check the address for typos');
+  }
+  const version = BASE58_VERSIONS[bytes[0]];
+  if (!version) {
+    return invalid(`Unknown version byte 0x${bytes[0].toString(16).padStart(2, '0')}`);
+  }
+  return { valid: true, ...version };
+};
+
+// Shaped like bech32 (prefix, separator, data) but with a prefix we don't accept
+const FOREIGN_BECH32 = /^([a-z]+)1[qpzry9x8gf2tvdw0s3jn54khce6mua7l]{6,}$/i;
+
+const validateBitcoin = (address: string): AddressValidation => {
+  if (SEGWIT_PREFIX.test(address)) return validateSegwit(address);
+  const result = validateBase58Check(address);
+  const foreign = result.valid ? null : FOREIGN_BECH32.exec(address);
+  return foreign ? invalid(`Unknown address prefix "${foreign[1].toLowerCase()}1"`) : result;
+};
+
+const validateSolana = (address: string): AddressValidation => {
+  const badChar = findInvalidBase58Char(address);
+  if (badChar !== -1) {
+    return invalid(`"${address[badChar]}" at position ${badChar + 1} is not a base58 character`);
+  }
+  const length = decodeBase58(address).length;
+  if (length !== 32) {
+    return invalid(`Solana addresses are 32-byte public keys; this one decodes to ${length} bytes`);
+  }
+  return { valid: true, format: 'ED25519', testnet: false };
+};
+
+const VALIDATORS: Record<Network, (address: string) => AddressValidation> = {
+  BITCOIN: validateBitcoin,
+  SOLANA: validateSolana,
+};
+
+/**
+ * Validate an address for a network. Callers trim input first; surrounding
+ * whitespace is reported as an invalid character. When the address is valid
+ * on another network the reason says so, since that's the likeliest mistake.
+ */
+export const validateAddress = (network: Network, address: string): AddressValidation => {
+  if (!address) return invalid('Enter an address');
+  const result = VALIDATORS[network](address);
+  if (result.valid) return result;
+  const other = (Object.keys(VALIDATORS) as Network[]).find(
+    (n) => n !== network && VALIDATORS[n](address).valid,
+  );
+  return other
+    ? invalid(`This is a ${NETWORK_NAMES[other]} address, not ${NETWORK_NAMES[network]}`)
+    : result;
+};
+
+/** The reason an address is invalid for `network`, or null when it's valid. */
+export const getAddressError = (network: Network, address: string): string | null => {
+  const result = validateAddress(network, address);
+  return result.valid ? null : result.reason;
+};
+
+/**
+ * Split an address into fixed-size groups for side-by-side comparison, e.g.
+ * "bc1q w508 d6qe …". The first and last groups are the ones people check.
+ */
+export const chunkAddress = (address: string, size = 4): string[] =>
+  address.match(new RegExp(`.{1,${size}}`, 'g')) ?? [];
@@ -0,0 +1,39 @@
+import type {
+  CreateAddressBookEntriesContent,
+  DeleteAddressBookEntriesContent,
+  PendingAddressBookChanges,
+  UpdateAddressBookEntriesContent,
+  VaultAction,
+  VaultActionType,
+} from '../types';
+
+export const ADDRESS_BOOK_ACTION_TYPES: VaultActionType[] = [
+  'CREATE_ADDRESS_BOOK_ENTRIES',
+  'UPDATE_ADDRESS_BOOK_ENTRIES',
+  'DELETE_ADDRESS_BOOK_ENTRIES',
+];
+
+// Callers pass only pending actions; entries missing from the content are skipped
+export const collectPendingChanges = (actions: VaultAction[]): PendingAddressBookChanges => {
+  const changes: PendingAddressBookChanges = { additions: [], edits: {}, removals: {} };
+  for (const action of actions) {
+    switch (action.type) {
+      case 'CREATE_ADDRESS_BOOK_ENTRIES': {
+        const { entries = [] } = action.content as Partial<CreateAddressBookEntriesContent>;
+        for (const entry of entries) changes.additions.push({ action, entry });
+        break;
+      }
+      case 'UPDATE_ADDRESS_BOOK_ENTRIES': {
+        const { entries = [] } = action.content as Partial<UpdateAddressBookEntriesContent>;
+        for (const { id, ...entry } of entries) changes.edits[id] = { action, entry };
+        break;
+      }
+      case 'DELETE_ADDRESS_BOOK_ENTRIES': {
+        const { entryIds = [] } = action.content as Partial<DeleteAddressBookEntriesContent>;
+        for (const id of entryIds) changes.removals[id] = action;
+        break;
+      }
+    }
+  }
+  return changes;
+};
@@ -0,0 +1,121 @@
+// Asset amounts travel as decimal strings (`amount`) alongside their integer
+// base-unit form (`rawValue`); these helpers convert between the two without
+// going through floating point.
+
+import type { AmountFormatOptions } from '../types';
+
+const DECIMAL_PATTERN = /^\d+(\.\d+)?$/;
+
+/** A plain, non-negative decimal such as "0.25". No signs or exponents. */
+export const isDecimalAmount = (value: string): boolean => DECIMAL_PATTERN.test(value.trim());
+
+/** True for a well-formed decimal greater than zero. */
+export const isPositiveAmount = (value: string): boolean =>
+  isDecimalAmount(value) && /[1-9]/.test(value);
+
+/**
+ * Convert a decimal string to base units, e.g. ("0.5", 8) → 50000000n.
+ * Returns null when the value is malformed or has more fractional digits
+ * than the asset supports.
+ */
+export const parseUnits = (value: string, decimals: number): bigint | null => {
+  const trimmed = value.trim();
+  if (!isDecimalAmount(trimmed)) return null;
+  const [whole, fraction = ''] = trimmed.split('.');
+  if (fraction.length > decimals) return null;
+  return BigInt(whole + fraction.padEnd(decimals, '0'));
+};
+
+/**
+ * Why a decimal amount can't be used for an asset with `decimals`, or null
+ * when it's fine. Blank input is left to the caller.
+ */
+export const getAmountError = (value: string, decimals: number): string | null => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  if (!isPositiveAmount(trimmed)) return 'Enter an amount greater than zero';
+  if (parseUnits(trimmed, decimals) === null) return `At most ${decimals} decimal places`;
+  return null;
+};
+
+/** Convert base units back to a decimal string without trailing zeros. */
+export const formatUnits = (rawValue: bigint | string, decimals: number): string => {
+  const padded = rawValue.toString().padStart(decimals + 1, '0');
+  const whole = padded.slice(0, padded.length - decimals);
+  const fraction = padded.slice(padded.length - decimals).replace(/0+$/, '');
+  return fraction ? `${whole}.${fraction}` : whole;
+};
+
+/** Like `formatUnits`, but keeps every fraction digit, e.g. (1050n, 2) → "10.50". */
+export const formatFixedUnits = (rawValue: bigint | string, decimals: number): string => {
+  const [whole, fraction = ''] = formatUnits(rawValue, decimals).split('.');
+  return decimals > 0 ? `${whole}.${fraction.padEnd(decimals, '0')}` : whole;
+};
+
+// ─── Display ───
+
+const COMPACT_SUFFIXES = ['', 'K', 'M', 'B', 'T'];
+const COMPACT_FRACTION_DIGITS = 2;
+
+const separatorCache = new Map<string, { group: string; decimal: string }>();
+
+// Grouping and decimal symbols for a locale, read once from Intl
+const getSeparators = (locale?: string) => {
+  const cacheKey = locale ?? '';
+  let separators = separatorCache.get(cacheKey);
+  if (!separators) {
+    const parts = new Intl.NumberFormat(locale).formatToParts(1234.5);
+    separators = {
+      group: parts.find((p) => p.type === 'group')?.value ?? ',',
+      decimal: parts.find((p) => p.type === 'decimal')?.value ?? '.',
+    };
+    separatorCache.set(cacheKey, separators);
+  }
+  return separators;
+};
+
+// Round a non-negative base-unit value half-up so it has at most `digits` fraction digits
+const roundUnits = (units: bigint, decimals: number, digits: number): bigint => {
+  if (digits >= decimals) return units;
+  const factor = 10n ** BigInt(decimals - digits);
+  return ((units + factor / 2n) / factor) * factor;
+};
+
+const groupWhole = (whole: string, group: string): string =>
+  whole.replace(/\B(?=(\d{3})+(?!\d))/g, group);
+
+/**
+ * Format base units for display with locale separators, e.g.
+ * (123456789012n, 8) → "1,234.56789012". Everything stays in bigint, so
+ * no digits are lost; `compact` abbreviates to two fraction digits, e.g. "1.23K".
+ */
+export const formatAmount = (
+  rawValue: bigint | string,
+  decimals: number,
+  { compact = false, maxFractionDigits = decimals, locale }: AmountFormatOptions = {},
+): string => {
+  const value = BigInt(rawValue);
+  const sign = value < 0n ? '-' : '';
+  let units = value < 0n ? -value : value;
+  let scale = decimals;
+  let tier = 0;
+  const fractionDigits = () =>
+    tier > 0 ? Math.min(maxFractionDigits, COMPACT_FRACTION_DIGITS) : maxFractionDigits;
+
+  // Step up a suffix while the rounded value still has four whole digits,
+  // so 999.996K becomes "1M" rather than "1,000K"
+  while (
+    compact &&
+    tier < COMPACT_SUFFIXES.length - 1 &&
+    roundUnits(units, scale, fractionDigits()) >= 1000n * 10n ** BigInt(scale)
+  ) {
+    tier++;
+    scale += 3;
+  }
+  units = roundUnits(units, scale, fractionDigits());
+
+  const [whole, fraction] = formatUnits(units, scale).split('.');
+  const { group, decimal } = getSeparators(locale);
+  const formatted = groupWhole(whole, group) + (fraction ? decimal + fraction : '');
+  return sign + formatted + COMPACT_SUFFIXES[tier];
+};
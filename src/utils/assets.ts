@@ -0,0 +1,69 @@
+// Registry of the assets the app knows how to display. Balances and
+// transactions carry an `assetId`; anything not listed here falls back to the
+// server's preformatted `amount`.
+
+import { formatAmount, getAmountError, parseUnits } from './amount';
+import { BITCOIN, SOLANA } from '../constants/colors';
+import type { AmountFormatOptions, AssetInfo, Network, WalletBalance } from '../types';
+
+export const ASSETS: Record<string, AssetInfo> = {
+  BTC: {
+    assetId: 'BTC',
+    symbol: 'BTC',
+    name: 'Bitcoin',
+    decimals: 8,
+    network: 'BITCOIN',
+    color: BITCOIN,
+  },
+  SOL: {
+    assetId: 'SOL',
+    symbol: 'SOL',
+    name: 'Solana',
+    decimals: 9,
+    network: 'SOLANA',
+    color: SOLANA,
+  },
+};
+
+export const getAsset = (assetId: string): AssetInfo | undefined => ASSETS[assetId];
+
+/** The native asset of a network, e.g. BTC for BITCOIN. */
+export const getNetworkAsset = (network: Network): AssetInfo =>
+  Object.values(ASSETS).find((asset) => asset.network === network)!;
+
+interface FormattableAmount {
+  assetId: string;
+  amount: string;
+  // Base units; when absent (e.g. `lockedAmount`) they're parsed from `amount`
+  rawValue?: string;
+}
+
+/**
+ * Format an amount with its symbol, e.g. "1,234.56789012 BTC", from the
+ * base-unit `rawValue` so satoshis and lamports are exact.
+ */
+export const formatAssetAmount = (
+  { assetId, amount, rawValue }: FormattableAmount,
+  options?: AmountFormatOptions,
+): string => {
+  const asset = getAsset(assetId);
+  const units = asset ? (rawValue ?? parseUnits(amount, asset.decimals)) : null;
+  if (!asset || units === null) return `${amount} ${assetId}`;
+  return `${formatAmount(units, asset.decimals, options)} ${asset.symbol}`;
+};
+
+/**
+ * Why `amount` can't be sent from `balance`, or null when it can. Amounts
+ * locked by pending transactions aren't available. Blank input is left to
+ * the caller.
+ */
+export const getSendAmountError = (balance: WalletBalance, amount: string): string | null => {
+  const asset = getAsset(balance.assetId);
+  if (!asset) return null;
+  const error = getAmountError(amount, asset.decimals);
+  const units = parseUnits(amount, asset.decimals);
+  if (error || units === null) return error;
+  const locked = balance.lockedAmount ? parseUnits(balance.lockedAmount, asset.decimals) : null;
+  if (units > BigInt(balance.rawValue) - (locked ?? 0n)) return 'Exceeds the available balance';
+  return null;
+};
@@ -0,0 +1,70 @@
+import { formatFixedUnits, parseUnits } from './amount';
+import type {
+  BalanceChartColumn,
+  BalanceHistoryPoint,
+  BalanceHistoryRange,
+  BalanceHistorySeries,
+  BalanceHistoryUnit,
+  ConvertedValue,
+} from '../types';
+
+export const BALANCE_HISTORY_RANGES: { range: BalanceHistoryRange; label: string }[] = [
+  { range: '24h', label: '24H' },
+  { range: '7d', label: '7D' },
+  { range: '30d', label: '30D' },
+  { range: '1y', label: '1Y' },
+];
+
+export const DEFAULT_BALANCE_HISTORY_RANGE: BalanceHistoryRange = '7d';
+
+// Floating point is fine here: these numbers only size the bars
+const pointValue = (point: BalanceHistoryPoint, unit: BalanceHistoryUnit): number =>
+  Number(unit === 'fiat' ? point.convertedValue.amount : point.amount);
+
+/** Columns for the chart, one per timestamp, stacking the given series. */
+export const toChartColumns = (
+  series: BalanceHistorySeries[],
+  unit: BalanceHistoryUnit,
+): BalanceChartColumn[] =>
+  (series[0]?.points ?? []).map((point, i) => {
+    const segments = series.map((s) => ({
+      assetId: s.assetId,
+      value: s.points[i] ? pointValue(s.points[i], unit) : 0,
+    }));
+    return {
+      timestamp: point.timestamp,
+      total: segments.reduce((sum, s) => sum + s.value, 0),
+      segments,
+    };
+  });
+
+/** Summed converted value of several assets at one point, at their shared precision. */
+export const sumConvertedValues = (values: ConvertedValue[]): ConvertedValue | null => {
+  if (values.length === 0) return null;
+  const digits = Math.max(...values.map((v) => v.amount.split('.')[1]?.length ?? 0));
+  const total = values.reduce((sum, v) => sum + (parseUnits(v.amount, digits) ?? 0n), 0n);
+  return { amount: formatFixedUnits(total, digits), currencyCode: values[0].currencyCode };
+};
+
+/** Relative change from the first column to `index`, or null from a zero start. */
+export const getHistoryChange = (columns: BalanceChartColumn[], index: number): number | null => {
+  const start = columns[0]?.total;
+  const end = columns[index]?.total;
+  if (!start || end === undefined) return null;
+  return (end - start) / start;
+};
+
+/** Axis and tooltip label for a point, as precise as the range calls for. */
+export const formatHistoryTimestamp = (iso: string, range: BalanceHistoryRange): string => {
+  const date = new Date(iso);
+  switch (range) {
+    case '24h':
+      return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+    case '7d':
+      return date.toLocaleString('en-US', { weekday: 'short', hour: 'numeric' });
+    case '30d':
+      return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+    case '1y':
+      return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  }
+};
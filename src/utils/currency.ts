@@ -0,0 +1,39 @@
+import type { ConvertedValue, FiatCurrency } from '../types';
+
+export const DEFAULT_CURRENCY: FiatCurrency = 'USD';
+
+export const FIAT_CURRENCIES: { code: FiatCurrency; name: string }[] = [
+  { code: 'USD', name: 'US Dollar' },
+  { code: 'EUR', name: 'Euro' },
+  { code: 'GBP', name: 'British Pound' },
+  { code: 'JPY', name: 'Japanese Yen' },
+  { code: 'CHF', name: 'Swiss Franc' },
+];
+
+export const isFiatCurrency = (value: unknown): value is FiatCurrency =>
+  FIAT_CURRENCIES.some((currency) => currency.code === value);
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+// One formatter per currency, using the device locale for symbols and grouping
+const getFormatter = (currencyCode: string): Intl.NumberFormat | null => {
+  let formatter = formatters.get(currencyCode);
+  if (!formatter) {
+    try {
+      formatter = new Intl.NumberFormat(undefined, { style: 'currency', currency: currencyCode });
+    } catch {
+      return null;
+    }
+    formatters.set(currencyCode, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Format a converted value in its own currency, e.g. "€1,234.50" or
+ * "¥185,000". Unknown currency codes fall back to "1234.50 XYZ".
+ */
+export const formatFiat = ({ amount, currencyCode }: ConvertedValue): string => {
+  const formatter = getFormatter(currencyCode);
+  return formatter ? formatter.format(parseFloat(amount) || 0) : `${amount} ${currencyCode}`;
+};
@@ -0,0 +1,244 @@
+// Reads the BIP-32 derivation path stored with each wallet address and checks
+// it against the layout the network's wallets use. Bitcoin follows the
+// BIP-44 family (m/purpose'/coin'/account'/change/index, where the purpose
+// picks the address type); Solana keys are ed25519 under SLIP-0010, which only
+// allows hardened steps (m/44'/501'/account'/index'). Anything else is still
+// shown, but flagged as non-standard so auditors know external tools may not
+// reproduce the address with their defaults.
+
+import { validateAddress } from './address';
+import type {
+  AddressFormat,
+  DerivationLevel,
+  DerivationPathAnalysis,
+  DerivationSegment,
+  WalletAddress,
+} from '../types';
+
+// Highest index a single step can carry before the hardened offset
+const MAX_CHILD_INDEX = 0x7fffffff;
+
+// ', h and H all mark a hardened step
+const SEGMENT_PATTERN = /^(\d+)(['hH]?)$/;
+
+export const DERIVATION_LEVEL_LABELS: Record<DerivationLevel, string> = {
+  purpose: 'Purpose',
+  coinType: 'Coin type',
+  account: 'Account',
+  change: 'Change',
+  index: 'Address index',
+};
+
+const BITCOIN_PURPOSES: Record<number, { scheme: string; format: AddressFormat }> = {
+  44: { scheme: 'BIP-44 legacy', format: 'P2PKH' },
+  49: { scheme: 'BIP-49 nested SegWit', format: 'P2SH' },
+  84: { scheme: 'BIP-84 native SegWit', format: 'P2WPKH' },
+  86: { scheme: 'BIP-86 Taproot', format: 'P2TR' },
+};
+
+// SLIP-44 registered coin types
+const BITCOIN_COIN_TYPE = 0;
+const BITCOIN_TESTNET_COIN_TYPE = 1;
+const SOLANA_COIN_TYPE = 501;
+
+interface LevelRule {
+  level: DerivationLevel;
+  hardened: boolean;
+  explain: (value: number) => string;
+  // Returns why the value doesn't fit, or null when it does
+  check?: (value: number) => string | null;
+}
+
+interface SchemeRules {
+  scheme: string | null;
+  levels: LevelRule[];
+  // Trailing levels some wallets leave off, e.g. Solana's address index
+  optionalLevels: number;
+}
+
+export const formatDerivationStep = (value: number, hardened: boolean): string =>
+  `${value}${hardened ? "'" : ''}`;
+
+const expectValue =
+  (expected: number, what: string) =>
+  (value: number): string | null =>
+    value === expected ? null : `Expected ${what} ${expected}, found ${value}`;
+
+const accountRule = (accountIndex: number | undefined): LevelRule => ({
+  level: 'account',
+  hardened: true,
+  explain: (value) =>
+    `Account ${value}. Each wallet in the vault gets its own account, so its funds never share keys with another wallet.`,
+  check: (value) =>
+    accountIndex === undefined || value === accountIndex
+      ? null
+      : `Account ${value} does not match the wallet's account index ${accountIndex}`,
+});
+
+const bitcoinRules = (
+  purpose: number,
+  address: WalletAddress,
+  accountIndex: number | undefined,
+): SchemeRules => {
+  const validation = validateAddress('BITCOIN', address.address.address);
+  const format = validation.valid ? validation.format : null;
+  const testnet = validation.valid && validation.testnet;
+  const coinType = testnet ? BITCOIN_TESTNET_COIN_TYPE : BITCOIN_COIN_TYPE;
+  const known = BITCOIN_PURPOSES[purpose];
+  const expectedPurpose = Object.entries(BITCOIN_PURPOSES).find(([, p]) => p.format === format);
+
+  return {
+    scheme: known?.scheme ?? null,
+    optionalLevels: 0,
+    levels: [
+      {
+        level: 'purpose',
+        hardened: true,
+        explain: (value) =>
+          known
+            ? `${value}' selects ${known.scheme}, which derives ${known.format} addresses.`
+            : `${value}' is not a purpose registered for single-key Bitcoin addresses.`,
+        check: (value) => {
+          if (expectedPurpose && Number(expectedPurpose[0]) !== value) {
+            return `${format} addresses use purpose ${expectedPurpose[0]}', found ${value}'`;
+          }
+          return known ? null : `Unknown purpose ${value}'`;
+        },
+      },
+      {
+        level: 'coinType',
+        hardened: true,
+        explain: (value) =>
+          value === BITCOIN_TESTNET_COIN_TYPE
+            ? `${value}' is the SLIP-44 coin type shared by all Bitcoin test networks.`
+            : `${value}' is the SLIP-44 coin type for Bitcoin mainnet; test networks use 1'.`,
+        check: expectValue(coinType, testnet ? 'testnet coin type' : 'coin type'),
+      },
+      accountRule(accountIndex),
+      {
+        level: 'change',
+        hardened: false,
+        explain: (value) =>
+          value === 1
+            ? '1 is the internal chain, used for change outputs the wallet sends back to itself.'
+            : '0 is the external chain, used for addresses handed out to receive funds.',
+        check: (value) =>
+          value === 0 || value === 1 ? null : `Change must be 0 or 1, found ${value}`,
+      },
+      {
+        level: 'index',
+        hardened: false,
+        explain: (value) =>
+          `Address ${value} on this chain. It is not hardened, so the account xpub alone is enough to derive it.`,
+      },
+    ],
+  };
+};
+
+const solanaRules = (purpose: number, accountIndex: number | undefined): SchemeRules => ({
+  scheme: purpose === 44 ? 'BIP-44 (SLIP-0010 ed25519)' : null,
+  optionalLevels: 1,
+  levels: [
+    {
+      level: 'purpose',
+      hardened: true,
+      explain: (value) =>
+        `${value}' selects the BIP-44 multi-coin layout that Solana wallets derive ed25519 keys under.`,
+      check: expectValue(44, 'purpose'),
+    },
+    {
+      level: 'coinType',
+      hardened: true,
+      explain: (value) => `${value}' is the SLIP-44 coin type for Solana.`,
+      check: expectValue(SOLANA_COIN_TYPE, 'coin type'),
+    },
+    accountRule(accountIndex),
+    {
+      level: 'index',
+      hardened: true,
+      explain: (value) =>
+        `Address ${value} in the account. ed25519 only allows hardened steps; Phantom and the Solana CLI use 0' here for the first address.`,
+    },
+  ],
+});
+
+const parseSegments = (path: string): { value: number; hardened: boolean }[] | null => {
+  const [root, ...rest] = path.trim().split('/');
+  if (root !== 'm' || rest.length === 0) return null;
+  const steps = rest.map((segment) => {
+    const match = SEGMENT_PATTERN.exec(segment);
+    if (!match) return null;
+    const value = Number(match[1]);
+    return value > MAX_CHILD_INDEX ? null : { value, hardened: match[2] !== '' };
+  });
+  return steps.every((step) => step !== null)
+    ? (steps as { value: number; hardened: boolean }[])
+    : null;
+};
+
+/**
+ * Break an address's derivation path into its levels and flag anything that
+ * strays from the network's standard layout. Pass the wallet's account index
+ * to also check that the address belongs to that wallet's account.
+ */
+export const analyzeDerivationPath = (
+  address: WalletAddress,
+  accountIndex?: number,
+): DerivationPathAnalysis => {
+  const steps = parseSegments(address.derivationPath);
+  if (!steps) {
+    return {
+      path: address.derivationPath,
+      scheme: null,
+      segments: [],
+      issues: ["Not a BIP-32 path; expected m/ followed by numeric steps, e.g. m/44'/0'"],
+      standard: false,
+    };
+  }
+
+  const rules =
+    address.network === 'BITCOIN'
+      ? bitcoinRules(steps[0].value, address, accountIndex)
+      : solanaRules(steps[0].value, accountIndex);
+
+  const segments: DerivationSegment[] = steps.map((step, i) => {
+    const rule = rules.levels[i];
+    if (!rule) {
+      return {
+        level: null,
+        value: step.value,
+        hardened: step.hardened,
+        explanation: 'Extra step past the depth the standard layout defines.',
+        issue: 'Unexpected extra level',
+      };
+    }
+    const expectedStep = rule.hardened ? 'hardened' : 'not hardened';
+    return {
+      level: rule.level,
+      value: step.value,
+      hardened: step.hardened,
+      explanation: rule.explain(step.value),
+      issue:
+        step.hardened !== rule.hardened
+          ? `${DERIVATION_LEVEL_LABELS[rule.level]} should be ${expectedStep}`
+          : (rule.check?.(step.value) ?? null),
+    };
+  });
+
+  const issues: string[] = [];
+  const minDepth = rules.levels.length - rules.optionalLevels;
+  if (steps.length < minDepth) {
+    const missing = rules.levels
+      .slice(steps.length, minDepth)
+      .map((rule) => DERIVATION_LEVEL_LABELS[rule.level].toLowerCase());
+    issues.push(`Path stops early; missing ${missing.join(', ')}`);
+  }
+
+  return {
+    path: `m/${steps.map((step) => formatDerivationStep(step.value, step.hardened)).join('/')}`,
+    scheme: rules.scheme,
+    segments,
+    issues,
+    standard: issues.length === 0 && segments.every((segment) => !segment.issue),
+  };
+};
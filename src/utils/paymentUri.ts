@@ -0,0 +1,48 @@
+// Payment request URIs for the receive screen: BIP-21 (`bitcoin:`) and
+// Solana Pay transfer requests (`solana:`). Both take the amount in whole
+// units as a plain decimal and a percent-encoded label.
+
+import { getAmountError } from './amount';
+import { getNetworkAsset } from './assets';
+import type { Network } from '../types';
+
+export interface PaymentRequest {
+  amount?: string;
+  label?: string;
+}
+
+const PAYMENT_SCHEMES: Record<Network, string> = {
+  BITCOIN: 'bitcoin',
+  SOLANA: 'solana',
+};
+
+/** Why an optional request amount can't be used, or null when it's fine. */
+export const getRequestAmountError = (network: Network, amount: string): string | null =>
+  getAmountError(amount, getNetworkAsset(network).decimals);
+
+// Drop redundant zeros, e.g. "007.250" → "7.25"
+const normalizeAmount = (amount: string): string => {
+  const [whole, fraction = ''] = amount.split('.');
+  const trimmedFraction = fraction.replace(/0+$/, '');
+  const trimmedWhole = whole.replace(/^0+(?=\d)/, '') || '0';
+  return trimmedFraction ? `${trimmedWhole}.${trimmedFraction}` : trimmedWhole;
+};
+
+/**
+ * Build the payment URI for an address. Blank or invalid amounts and blank
+ * labels are left out, so the result is always a usable URI.
+ */
+export const buildPaymentUri = (
+  network: Network,
+  address: string,
+  { amount, label }: PaymentRequest = {},
+): string => {
+  const params: string[] = [];
+  const trimmedAmount = amount?.trim();
+  if (trimmedAmount && !getRequestAmountError(network, trimmedAmount)) {
+    params.push(`amount=${normalizeAmount(trimmedAmount)}`);
+  }
+  if (label?.trim()) params.push(`label=${encodeURIComponent(label.trim())}`);
+  const uri = `${PAYMENT_SCHEMES[network]}:${address}`;
+  return params.length > 0 ? `${uri}?${params.join('&')}` : uri;
+};
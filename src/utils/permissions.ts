@@ -33,6 +33,16 @@ export const getRoleColor = (role: VaultRole): string => {
 export const canManageWallets = (role: VaultRole): boolean =>
   role === 'OWNER' || role === 'ADMIN';
 
+export const canManageAddressBook = (role: VaultRole): boolean =>
+  role === 'OWNER' || role === 'ADMIN';
+
+export const canInitiateTransactions = (role: VaultRole): boolean => role !== 'VIEWER';
+
+// Approving, rejecting and signing other members' transactions
+export const canApproveTransactions = (role: VaultRole): boolean => role !== 'VIEWER';
+
+export const canEditTransactionNotes = (role: VaultRole): boolean => role !== 'VIEWER';
+
 export const getNetworkColor = (network: Network): string => {
   switch (network) {
     case 'BITCOIN':
@@ -0,0 +1,104 @@
+// Portfolio figures for a vault, derived from `fetchVaultBalances`. Converted
+// values are summed as integers at the finest scale present, so totals add up
+// to the per-asset and per-wallet values exactly.
+
+import { formatFixedUnits, formatUnits, parseUnits } from './amount';
+import { getAsset } from './assets';
+import { DEFAULT_CURRENCY } from './currency';
+import type {
+  ConvertedValue,
+  PortfolioAsset,
+  PortfolioSummary,
+  PortfolioWallet,
+  VaultBalance,
+} from '../types';
+
+const fractionDigits = (value: ConvertedValue | undefined): number =>
+  value?.amount.split('.')[1]?.length ?? 0;
+
+const toUnits = (value: ConvertedValue | undefined, scale: number): bigint =>
+  (value && parseUnits(value.amount, scale)) ?? 0n;
+
+// `part / total` as a number, precise to 0.01%
+const ratio = (part: bigint, total: bigint): number =>
+  total > 0n ? Number((part * 10000n) / total) / 10000 : 0;
+
+// Base units still spendable once pending transactions settle
+const availableUnits = (balance: VaultBalance): { amount: string; rawValue: string } => {
+  const asset = getAsset(balance.assetId);
+  const locked = asset && balance.lockedAmount && parseUnits(balance.lockedAmount, asset.decimals);
+  if (!asset || !locked) return { amount: balance.amount, rawValue: balance.rawValue };
+  const available = BigInt(balance.rawValue) - locked;
+  const rawValue = available > 0n ? available : 0n;
+  return { amount: formatUnits(rawValue, asset.decimals), rawValue: rawValue.toString() };
+};
+
+export const summarizePortfolio = (balances: VaultBalance[]): PortfolioSummary => {
+  const currencyCode = balances[0]?.convertedValue.currencyCode ?? DEFAULT_CURRENCY;
+  const values = balances.flatMap((b) => [
+    b.convertedValue,
+    b.lockedConvertedValue,
+    ...b.walletBalances.map((wb) => wb.convertedValue),
+  ]);
+  const scale = Math.max(0, ...values.map(fractionDigits));
+  // Fixed-scale decimal, so every figure in the summary shows the same precision
+  const toValue = (units: bigint): ConvertedValue => ({
+    amount: formatFixedUnits(units, scale),
+    currencyCode,
+  });
+
+  const total = balances.reduce((sum, b) => sum + toUnits(b.convertedValue, scale), 0n);
+  const locked = balances.reduce((sum, b) => sum + toUnits(b.lockedConvertedValue, scale), 0n);
+
+  const assets: PortfolioAsset[] = balances
+    .map((balance) => {
+      const value = toUnits(balance.convertedValue, scale);
+      const available = availableUnits(balance);
+      return {
+        balance,
+        share: ratio(value, total),
+        lockedShare: ratio(toUnits(balance.lockedConvertedValue, scale), value),
+        availableAmount: available.amount,
+        availableRawValue: available.rawValue,
+      };
+    })
+    .sort((a, b) => b.share - a.share);
+
+  const walletUnits = new Map<string, { name: string; units: bigint; assetIds: string[] }>();
+  for (const balance of balances) {
+    for (const wb of balance.walletBalances) {
+      const entry = walletUnits.get(wb.walletId) ?? {
+        name: wb.walletName,
+        units: 0n,
+        assetIds: [],
+      };
+      entry.units += toUnits(wb.convertedValue, scale);
+      entry.assetIds.push(wb.assetId);
+      walletUnits.set(wb.walletId, entry);
+    }
+  }
+  const wallets: PortfolioWallet[] = [...walletUnits]
+    .map(([walletId, { name, units, assetIds }]) => ({
+      walletId,
+      walletName: name,
+      value: toValue(units),
+      share: ratio(units, total),
+      assetIds,
+    }))
+    .sort((a, b) => b.share - a.share);
+
+  return {
+    total: toValue(total),
+    locked: toValue(locked),
+    available: toValue(total > locked ? total - locked : 0n),
+    lockedShare: ratio(locked, total),
+    assets,
+    wallets,
+  };
+};
+
+/** A 0–1 share as a percentage, e.g. 0.4567 → "45.7%". */
+export const formatShare = (share: number): string => {
+  if (share > 0 && share < 0.001) return '<0.1%';
+  return `${(share * 100).toFixed(1)}%`;
+};
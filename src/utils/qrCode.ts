@@ -0,0 +1,374 @@
+// QR code encoder (ISO/IEC 18004) for the receive screen. Encodes text in byte
+// mode at error correction level M, picking the smallest version from 1 to 20,
+// which holds up to 666 UTF-8 bytes — far more than a payment URI needs.
+
+export interface QrCode {
+  version: number;
+  size: number;
+  // modules[row][column], true for dark
+  modules: boolean[][];
+}
+
+// Level M block structure per version: EC codewords per block, then block
+// count and data codewords per block for the short and long block groups
+const BLOCKS: Array<[ecPerBlock: number, ...groups: number[]]> = [
+  [10, 1, 16],
+  [16, 1, 28],
+  [26, 1, 44],
+  [18, 2, 32],
+  [24, 2, 43],
+  [16, 4, 27],
+  [18, 4, 31],
+  [22, 2, 38, 2, 39],
+  [22, 3, 36, 2, 37],
+  [26, 4, 43, 1, 44],
+  [30, 1, 50, 4, 51],
+  [22, 6, 36, 2, 37],
+  [22, 8, 37, 1, 38],
+  [24, 4, 40, 5, 41],
+  [24, 5, 41, 5, 42],
+  [28, 7, 45, 3, 46],
+  [28, 10, 46, 1, 47],
+  [26, 9, 43, 4, 44],
+  [26, 3, 44, 11, 45],
+  [26, 3, 41, 13, 42],
+];
+
+// [block count, data codewords per block] for each group of a version
+const blockGroups = (version: number): Array<[number, number]> => {
+  const [, ...counts] = BLOCKS[version - 1];
+  const groups: Array<[number, number]> = [];
+  for (let i = 0; i < counts.length; i += 2) groups.push([counts[i], counts[i + 1]]);
+  return groups;
+};
+
+const ALIGNMENT_POSITIONS: number[][] = [
+  [],
+  [6, 18],
+  [6, 22],
+  [6, 26],
+  [6, 30],
+  [6, 34],
+  [6, 22, 38],
+  [6, 24, 42],
+  [6, 26, 46],
+  [6, 28, 50],
+  [6, 30, 54],
+  [6, 32, 58],
+  [6, 34, 62],
+  [6, 26, 46, 66],
+  [6, 26, 48, 70],
+  [6, 26, 50, 74],
+  [6, 30, 54, 78],
+  [6, 30, 56, 82],
+  [6, 30, 58, 86],
+  [6, 34, 62, 90],
+];
+
+// Format information bits for level M
+const ECC_LEVEL_M = 0b00;
+
+const MASKS: Array<(row: number, col: number) => boolean> = [
+  (r, c) => (r + c) % 2 === 0,
+  (r) => r % 2 === 0,
+  (_, c) => c % 3 === 0,
+  (r, c) => (r + c) % 3 === 0,
+  (r, c) => (Math.floor(r / 2) + Math.floor(c / 3)) % 2 === 0,
+  (r, c) => ((r * c) % 2) + ((r * c) % 3) === 0,
+  (r, c) => (((r * c) % 2) + ((r * c) % 3)) % 2 === 0,
+  (r, c) => (((r + c) % 2) + ((r * c) % 3)) % 2 === 0,
+];
+
+const dataCapacity = (version: number): number =>
+  blockGroups(version).reduce((sum, [count, data]) => sum + count * data, 0);
+
+// Byte mode length field: 8 bits up to version 9, 16 bits after
+const countBits = (version: number): number => (version <= 9 ? 8 : 16);
+
+// ─── Reed-Solomon ───
+
+// GF(256) with the QR polynomial x^8 + x^4 + x^3 + x^2 + 1
+const gfMultiply = (x: number, y: number): number => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const rsDivisor = (degree: number): number[] => {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < degree) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+const rsRemainder = (data: number[], divisor: number[]): number[] => {
+  const result = new Array<number>(divisor.length).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, i) => {
+      result[i] ^= gfMultiply(coef, factor);
+    });
+  }
+  return result;
+};
+
+// ─── Codewords ───
+
+const buildCodewords = (bytes: Uint8Array, version: number): number[] => {
+  const capacity = dataCapacity(version);
+  const bits: number[] = [];
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  push(0b0100, 4);
+  push(bytes.length, countBits(version));
+  bytes.forEach((byte) => push(byte, 8));
+  // Terminator, then pad to a whole byte
+  push(0, Math.min(4, capacity * 8 - bits.length));
+  push(0, (8 - (bits.length % 8)) % 8);
+
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    data.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  for (let pad = 0xec; data.length < capacity; pad ^= 0xec ^ 0x11) data.push(pad);
+
+  // Split into blocks, add error correction and interleave
+  const [ecPerBlock] = BLOCKS[version - 1];
+  const divisor = rsDivisor(ecPerBlock);
+  const blocks: Array<{ data: number[]; ec: number[] }> = [];
+  let offset = 0;
+  for (const [count, length] of blockGroups(version)) {
+    for (let i = 0; i < count; i++) {
+      const block = data.slice(offset, offset + length);
+      blocks.push({ data: block, ec: rsRemainder(block, divisor) });
+      offset += length;
+    }
+  }
+  const result: number[] = [];
+  const longest = Math.max(...blocks.map((b) => b.data.length));
+  for (let i = 0; i < longest; i++) {
+    for (const block of blocks) if (i < block.data.length) result.push(block.data[i]);
+  }
+  for (let i = 0; i < ecPerBlock; i++) {
+    for (const block of blocks) result.push(block.ec[i]);
+  }
+  return result;
+};
+
+// ─── Matrix ───
+
+interface Matrix {
+  size: number;
+  modules: boolean[][];
+  reserved: boolean[][];
+}
+
+const createMatrix = (version: number): Matrix => {
+  const size = version * 4 + 17;
+  const grid = () => Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  return { size, modules: grid(), reserved: grid() };
+};
+
+const setFunction = (matrix: Matrix, row: number, col: number, dark: boolean): void => {
+  matrix.modules[row][col] = dark;
+  matrix.reserved[row][col] = true;
+};
+
+const drawFunctionPatterns = (matrix: Matrix, version: number): void => {
+  const { size } = matrix;
+  for (let i = 0; i < size; i++) {
+    setFunction(matrix, 6, i, i % 2 === 0);
+    setFunction(matrix, i, 6, i % 2 === 0);
+  }
+
+  // Finder patterns with their separators
+  for (const [centerRow, centerCol] of [
+    [3, 3],
+    [3, size - 4],
+    [size - 4, 3],
+  ]) {
+    for (let dr = -4; dr <= 4; dr++) {
+      for (let dc = -4; dc <= 4; dc++) {
+        const row = centerRow + dr;
+        const col = centerCol + dc;
+        if (row < 0 || row >= size || col < 0 || col >= size) continue;
+        const distance = Math.max(Math.abs(dr), Math.abs(dc));
+        setFunction(matrix, row, col, distance !== 2 && distance !== 4);
+      }
+    }
+  }
+
+  // Alignment patterns, except where they would overlap a finder
+  const positions = ALIGNMENT_POSITIONS[version - 1];
+  const last = positions.length - 1;
+  positions.forEach((row, i) => {
+    positions.forEach((col, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dr = -2; dr <= 2; dr++) {
+        for (let dc = -2; dc <= 2; dc++) {
+          setFunction(matrix, row + dr, col + dc, Math.max(Math.abs(dr), Math.abs(dc)) !== 1);
+        }
+      }
+    });
+  });
+
+  // Version information, from version 7
+  if (version >= 7) {
+    let remainder = version;
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    const bits = (version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) === 1;
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      setFunction(matrix, b, a, dark);
+      setFunction(matrix, a, b, dark);
+    }
+  }
+
+  // Reserve the format areas; the bits are written once the mask is chosen
+  drawFormatBits(matrix, 0);
+};
+
+const drawFormatBits = (matrix: Matrix, mask: number): void => {
+  const { size } = matrix;
+  const data = (ECC_LEVEL_M << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  const bits = ((data << 10) | remainder) ^ 0x5412;
+  const bit = (i: number) => ((bits >>> i) & 1) === 1;
+
+  // Around the top-left finder
+  for (let i = 0; i <= 5; i++) setFunction(matrix, i, 8, bit(i));
+  setFunction(matrix, 7, 8, bit(6));
+  setFunction(matrix, 8, 8, bit(7));
+  setFunction(matrix, 8, 7, bit(8));
+  for (let i = 9; i < 15; i++) setFunction(matrix, 8, 14 - i, bit(i));
+
+  // Split between the other two finders
+  for (let i = 0; i < 8; i++) setFunction(matrix, 8, size - 1 - i, bit(i));
+  for (let i = 8; i < 15; i++) setFunction(matrix, size - 15 + i, 8, bit(i));
+  setFunction(matrix, size - 8, 8, true);
+};
+
+const drawCodewords = (matrix: Matrix, codewords: number[]): void => {
+  const { size, modules, reserved } = matrix;
+  let i = 0;
+  // Two-column strips from the right, alternating upwards and downwards
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let step = 0; step < size; step++) {
+      const row = upward ? size - 1 - step : step;
+      for (let j = 0; j < 2; j++) {
+        const col = right - j;
+        if (reserved[row][col] || i >= codewords.length * 8) continue;
+        modules[row][col] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) === 1;
+        i++;
+      }
+    }
+  }
+};
+
+const applyMask = (matrix: Matrix, mask: number): void => {
+  const { size, modules, reserved } = matrix;
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      if (!reserved[row][col] && MASKS[mask](row, col)) modules[row][col] = !modules[row][col];
+    }
+  }
+};
+
+// ─── Mask Selection ───
+
+const FINDER_LIKE = [true, false, true, true, true, false, true];
+
+const linePenalty = (line: boolean[]): number => {
+  let penalty = 0;
+  let run = 1;
+  for (let i = 1; i <= line.length; i++) {
+    if (i < line.length && line[i] === line[i - 1]) {
+      run++;
+      continue;
+    }
+    if (run >= 5) penalty += run - 2;
+    run = 1;
+  }
+  // 1:1:3:1:1 finder-like pattern with four light modules on either side
+  for (let i = 0; i + 7 <= line.length; i++) {
+    if (!FINDER_LIKE.every((dark, k) => line[i + k] === dark)) continue;
+    const lightBefore = [1, 2, 3, 4].every((k) => i - k < 0 || !line[i - k]);
+    const lightAfter = [0, 1, 2, 3].every((k) => i + 7 + k >= line.length || !line[i + 7 + k]);
+    if (lightBefore || lightAfter) penalty += 40;
+  }
+  return penalty;
+};
+
+const penaltyScore = ({ size, modules }: Matrix): number => {
+  let penalty = 0;
+  for (let i = 0; i < size; i++) {
+    penalty += linePenalty(modules[i]);
+    penalty += linePenalty(modules.map((row) => row[i]));
+  }
+  let dark = 0;
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      if (modules[row][col]) dark++;
+      if (row === size - 1 || col === size - 1) continue;
+      const color = modules[row][col];
+      if (
+        modules[row][col + 1] === color &&
+        modules[row + 1][col] === color &&
+        modules[row + 1][col + 1] === color
+      ) {
+        penalty += 3;
+      }
+    }
+  }
+  // 10 points for each 5% the dark share strays from 50%
+  const total = size * size;
+  penalty += Math.floor(Math.abs(dark * 20 - total * 10) / total) * 10;
+  return penalty;
+};
+
+/**
+ * Encode text as a QR code. Throws when the UTF-8 encoding doesn't fit in a
+ * version 20 symbol.
+ */
+export const encodeQrCode = (text: string): QrCode => {
+  const bytes = new TextEncoder().encode(text);
+  const version = BLOCKS.findIndex(
+    (_, i) => 4 + countBits(i + 1) + bytes.length * 8 <= dataCapacity(i + 1) * 8,
+  );
+  if (version === -1) throw new Error('Text is too long for a QR code');
+
+  const codewords = buildCodewords(bytes, version + 1);
+  let best: Matrix | null = null;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    const matrix = createMatrix(version + 1);
+    drawFunctionPatterns(matrix, version + 1);
+    drawCodewords(matrix, codewords);
+    applyMask(matrix, mask);
+    drawFormatBits(matrix, mask);
+    const penalty = penaltyScore(matrix);
+    if (penalty < bestPenalty) {
+      best = matrix;
+      bestPenalty = penalty;
+    }
+  }
+  const { size, modules } = best as Matrix;
+  return { version: version + 1, size, modules };
+};
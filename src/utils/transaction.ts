@@ -0,0 +1,99 @@
+import type {
+  AmountFormatOptions,
+  AuditLogListItem,
+  Transaction,
+  TransactionDirection,
+  TransactionNoteChange,
+  TransactionStatus,
+} from '../types';
+import { SUCCESS, DANGER, PRIMARY, WARNING, GREY, BLUE_GREY } from '../constants/colors';
+import { formatAssetAmount } from './assets';
+
+export const TRANSACTION_STATUS_LABELS: Record<TransactionStatus, string> = {
+  PENDING_APPROVAL: 'Pending Approval',
+  REJECTED: 'Rejected',
+  PENDING_SIGNATURE: 'Pending Signature',
+  BROADCASTING: 'Broadcasting',
+  CONFIRMING: 'Confirming',
+  COMPLETED: 'Completed',
+  FAILED: 'Failed',
+  CANCELED: 'Canceled',
+};
+
+export const TRANSACTION_DIRECTION_LABELS: Record<TransactionDirection, string> = {
+  INCOMING: 'Received',
+  OUTGOING: 'Sent',
+};
+
+export const getTransactionStatusColor = (status: TransactionStatus): string => {
+  switch (status) {
+    case 'COMPLETED':
+      return SUCCESS;
+    case 'PENDING_APPROVAL':
+    case 'PENDING_SIGNATURE':
+      return WARNING;
+    case 'BROADCASTING':
+    case 'CONFIRMING':
+      return PRIMARY;
+    case 'REJECTED':
+    case 'FAILED':
+      return DANGER;
+    case 'CANCELED':
+      return BLUE_GREY;
+    default:
+      return GREY;
+  }
+};
+
+export const getDirectionColor = (direction: TransactionDirection): string =>
+  direction === 'INCOMING' ? SUCCESS : DANGER;
+
+export const ALL_TRANSACTION_STATUSES: TransactionStatus[] = [
+  'PENDING_APPROVAL',
+  'REJECTED',
+  'PENDING_SIGNATURE',
+  'BROADCASTING',
+  'CONFIRMING',
+  'COMPLETED',
+  'FAILED',
+  'CANCELED',
+];
+
+export const ALL_TRANSACTION_DIRECTIONS: TransactionDirection[] = ['OUTGOING', 'INCOMING'];
+
+// Outgoing transactions still waiting on vault members
+export const PENDING_TRANSACTION_STATUSES: TransactionStatus[] = [
+  'PENDING_APPROVAL',
+  'PENDING_SIGNATURE',
+];
+
+export const canRespondToTransaction = (status: TransactionStatus): boolean =>
+  status === 'PENDING_APPROVAL';
+
+export const canSignTransaction = (status: TransactionStatus): boolean =>
+  status === 'PENDING_SIGNATURE';
+
+export const canCancelTransaction = (status: TransactionStatus): boolean =>
+  PENDING_TRANSACTION_STATUSES.includes(status);
+
+// The other side of the transfer, from the wallet's point of view
+export const getCounterparty = (tx: Transaction): string =>
+  tx.direction === 'INCOMING' ? tx.sourceAddress : tx.destinationAddress;
+
+// Signed amount for list rows, e.g. "-0.25 BTC" or "+3 SOL"
+export const formatSignedAmount = (tx: Transaction, options?: AmountFormatOptions): string =>
+  `${tx.direction === 'INCOMING' ? '+' : '-'}${formatAssetAmount(tx.amount, options)}`;
+
+export const truncateAddress = (address: string): string =>
+  address.length <= 16 ? address : `${address.slice(0, 8)}...${address.slice(-8)}`;
+
+const noteValue = (value: unknown): string | null =>
+  typeof value === 'string' && value ? value : null;
+
+export const toNoteChange = (log: AuditLogListItem): TransactionNoteChange => ({
+  id: log.id,
+  changedAt: log.createdAt,
+  actor: log.actor,
+  previousNote: noteValue(log.payload.previousNote),
+  note: noteValue(log.payload.note),
+});
@@ -1,4 +1,10 @@
-import type { VaultActionType, VaultActionStatus, VaultActionApproval } from '../types';
+import type {
+  ApiResponse,
+  VaultAction,
+  VaultActionType,
+  VaultActionStatus,
+  VaultActionApproval,
+} from '../types';
 import { SUCCESS, DANGER, PURPLE, PRIMARY, WARNING, GREY, BLUE_GREY } from '../constants/colors';
 
 export const VAULT_ACTION_TYPE_LABELS: Record<VaultActionType, string> = {
@@ -105,13 +111,47 @@ export const ALL_VAULT_ACTION_STATUSES: VaultActionStatus[] = [
 export const canRespondToAction = (status: VaultActionStatus): boolean =>
   status === 'PENDING_APPROVAL';
 
+// Actions that have not taken effect yet and can still be stopped
+export const PENDING_VAULT_ACTION_STATUSES: VaultActionStatus[] = [
+  'PENDING_APPROVAL',
+  'PENDING_SIGNATURE',
+  'PENDING_EXECUTION',
+];
+
 export const canCancelAction = (status: VaultActionStatus): boolean =>
-  status === 'PENDING_APPROVAL' || status === 'PENDING_SIGNATURE' || status === 'PENDING_EXECUTION';
+  PENDING_VAULT_ACTION_STATUSES.includes(status);
 
+// Also used for transactions, whose approvals have the same shape
 export const getApprovalProgress = (
-  approvals: VaultActionApproval[],
+  approvals: Pick<VaultActionApproval, 'approved'>[],
   requiredApprovers: number,
 ): string => {
   const approved = approvals.filter((a) => a.approved).length;
   return `${approved}/${requiredApprovers} approved`;
 };
+
+// The status line shown on anything an action is still holding back
+export const getAwaitingApprovalLabel = (
+  action: Pick<VaultAction, 'approvals' | 'requiredApprovers'>,
+): string => {
+  const approved = action.approvals.filter((a) => a.approved).length;
+  return `Awaiting approval (${approved}/${action.requiredApprovers})`;
+};
+
+// Told to the initiator right after a change was queued for approval
+export const getPendingActionMessage = (
+  action: Pick<VaultAction, 'type' | 'requiredApprovers'>,
+): string =>
+  `${VAULT_ACTION_TYPE_LABELS[action.type] || action.type} needs ${action.requiredApprovers} ` +
+  `approval${action.requiredApprovers === 1 ? '' : 's'} before it takes effect.`;
+
+/**
+ * A 202 Accepted means the server queued the change as a vault action
+ * instead of applying it; the body is that action.
+ */
+export const getPendingAction = (res: ApiResponse<unknown>): VaultAction | null =>
+  res._status === 202 && res.data ? (res.data as VaultAction) : null;
+
+// Opens the vault's Actions tab with this action selected
+export const getVaultActionHref = (vaultId: string, actionId: string): string =>
+  `/vaults/${vaultId}?actionId=${encodeURIComponent(actionId)}`;
@@ -0,0 +1,54 @@
+import type {
+  ArchiveWalletContent,
+  CreateWalletContent,
+  PendingWalletChanges,
+  RenameWalletContent,
+  VaultAction,
+  VaultActionType,
+} from '../types';
+
+export const WALLET_ACTION_TYPES: VaultActionType[] = [
+  'CREATE_WALLET',
+  'RENAME_WALLET',
+  'ARCHIVE_WALLET',
+  'UNARCHIVE_WALLET',
+];
+
+// Callers pass only pending actions; actions missing their wallet are skipped
+export const collectPendingWalletChanges = (actions: VaultAction[]): PendingWalletChanges => {
+  const changes: PendingWalletChanges = { creations: [], byWalletId: {} };
+  for (const action of actions) {
+    switch (action.type) {
+      case 'CREATE_WALLET': {
+        const { name, networks = [] } = action.content as Partial<CreateWalletContent>;
+        if (name) changes.creations.push({ action, wallet: { name, networks } });
+        break;
+      }
+      case 'RENAME_WALLET':
+      case 'ARCHIVE_WALLET':
+      case 'UNARCHIVE_WALLET': {
+        const { walletId } = action.content as Partial<ArchiveWalletContent>;
+        // The server allows one pending change per wallet; keep the first if not
+        if (walletId && !changes.byWalletId[walletId]) changes.byWalletId[walletId] = action;
+        break;
+      }
+    }
+  }
+  return changes;
+};
+
+// What the action will do once approved, e.g. `Rename to "Payroll"`
+export const describeWalletChange = (action: VaultAction): string => {
+  switch (action.type) {
+    case 'CREATE_WALLET':
+      return `Create "${(action.content as Partial<CreateWalletContent>).name ?? ''}"`;
+    case 'RENAME_WALLET':
+      return `Rename to "${(action.content as Partial<RenameWalletContent>).name ?? ''}"`;
+    case 'ARCHIVE_WALLET':
+      return 'Archive';
+    case 'UNARCHIVE_WALLET':
+      return 'Unarchive';
+    default:
+      return action.type;
+  }
+};
@@ -0,0 +1,129 @@
+import type {
+  FetchWalletsParams,
+  Network,
+  Wallet,
+  WalletFilterChip,
+  WalletListFilters,
+  WalletSortField,
+  WalletStatusFilter,
+} from '../types';
+
+const NETWORKS: Network[] = ['BITCOIN', 'SOLANA'];
+
+// Archived wallets stay out of the list until the user asks for them
+export const DEFAULT_WALLET_FILTERS: WalletListFilters = {
+  status: 'active',
+  network: null,
+  sortBy: 'createdAt',
+  sortOrder: 'desc',
+};
+
+export const ALL_WALLET_STATUS_FILTERS: WalletStatusFilter[] = ['active', 'archived', 'all'];
+
+export const WALLET_STATUS_LABELS: Record<WalletStatusFilter, string> = {
+  active: 'Active',
+  archived: 'Archived',
+  all: 'All',
+};
+
+export const ALL_WALLET_SORT_FIELDS: WalletSortField[] = ['createdAt', 'name', 'convertedValue'];
+
+export const WALLET_SORT_LABELS: Record<WalletSortField, string> = {
+  createdAt: 'Created',
+  name: 'Name',
+  convertedValue: 'Value',
+};
+
+const SORT_ORDER_LABELS: Record<WalletSortField, Record<'asc' | 'desc', string>> = {
+  createdAt: { desc: 'Newest first', asc: 'Oldest first' },
+  name: { asc: 'A to Z', desc: 'Z to A' },
+  convertedValue: { desc: 'Highest first', asc: 'Lowest first' },
+};
+
+/** Direction wording that fits the field, e.g. "Newest first" for dates. */
+export const getSortOrderLabel = (sortBy: WalletSortField, sortOrder: 'asc' | 'desc'): string =>
+  SORT_ORDER_LABELS[sortBy][sortOrder];
+
+/**
+ * Request parameters for the filters. The list endpoint has no archived
+ * filter, so the status is applied to the fetched wallets with
+ * `matchesWalletStatus` instead.
+ */
+export const toWalletsParams = (
+  filters: WalletListFilters,
+): Pick<FetchWalletsParams, 'network' | 'sortBy' | 'sortOrder'> => ({
+  network: filters.network ?? undefined,
+  sortBy: filters.sortBy,
+  sortOrder: filters.sortOrder,
+});
+
+/** Whether the status filter shows a wallet. */
+export const matchesWalletStatus = (wallet: Wallet, status: WalletStatusFilter): boolean =>
+  status === 'all' || wallet.archived === (status === 'archived');
+
+export const isDefaultWalletFilters = (filters: WalletListFilters): boolean =>
+  filters.status === DEFAULT_WALLET_FILTERS.status &&
+  filters.network === DEFAULT_WALLET_FILTERS.network &&
+  filters.sortBy === DEFAULT_WALLET_FILTERS.sortBy &&
+  filters.sortOrder === DEFAULT_WALLET_FILTERS.sortOrder;
+
+export const getWalletFilterChips = (filters: WalletListFilters): WalletFilterChip[] => {
+  const chips: WalletFilterChip[] = [];
+  if (filters.status !== DEFAULT_WALLET_FILTERS.status) {
+    chips.push({
+      key: 'status',
+      label: filters.status === 'archived' ? 'Archived only' : 'Including archived',
+    });
+  }
+  if (filters.network) chips.push({ key: 'network', label: filters.network });
+  if (
+    filters.sortBy !== DEFAULT_WALLET_FILTERS.sortBy ||
+    filters.sortOrder !== DEFAULT_WALLET_FILTERS.sortOrder
+  ) {
+    chips.push({
+      key: 'sort',
+      label: `${WALLET_SORT_LABELS[filters.sortBy]}: ${getSortOrderLabel(filters.sortBy, filters.sortOrder)}`,
+    });
+  }
+  return chips;
+};
+
+/** Reset the part of the filters a chip stands for. */
+export const clearWalletFilter = (
+  filters: WalletListFilters,
+  key: WalletFilterChip['key'],
+): WalletListFilters => {
+  switch (key) {
+    case 'status':
+      return { ...filters, status: DEFAULT_WALLET_FILTERS.status };
+    case 'network':
+      return { ...filters, network: DEFAULT_WALLET_FILTERS.network };
+    case 'sort':
+      return {
+        ...filters,
+        sortBy: DEFAULT_WALLET_FILTERS.sortBy,
+        sortOrder: DEFAULT_WALLET_FILTERS.sortOrder,
+      };
+  }
+};
+
+/**
+ * Read filters saved by `savePreference`. Anything missing or unrecognized,
+ * e.g. from an older build, falls back to the default for that field.
+ */
+export const parseWalletFilters = (value: unknown): WalletListFilters => {
+  const stored = (typeof value === 'object' && value !== null ? value : {}) as Record<
+    string,
+    unknown
+  >;
+  const pick = <T>(field: keyof WalletListFilters, allowed: readonly T[]): T =>
+    allowed.includes(stored[field] as T)
+      ? (stored[field] as T)
+      : (DEFAULT_WALLET_FILTERS[field] as T);
+  return {
+    status: pick('status', ALL_WALLET_STATUS_FILTERS),
+    network: pick<Network | null>('network', [null, ...NETWORKS]),
+    sortBy: pick('sortBy', ALL_WALLET_SORT_FIELDS),
+    sortOrder: pick('sortOrder', ['asc', 'desc'] as const),
+  };
+};